@@ -0,0 +1,71 @@
+/**
+ * API Route: /api/classes/join
+ *
+ * This file lets a student join their teacher's class with a join code.
+ *
+ * WHY? Teachers only see students on their class roster, so a student has to
+ * join before their work shows up on the teacher dashboard.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in student
+ * - lib/teacher: Looks up the code and adds the student to the roster
+ * - lib/schemas: Validates the request body (400 with an error per field)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../lib/observability';
+import { getRepositories, supabaseRequiredResponse } from '../../../../lib/repositories';
+import { joinClassRequest, JoinClassResponse, readJsonBody } from '../../../../lib/schemas';
+import { joinClass } from '../../../../lib/teacher';
+
+/**
+ * POST /api/classes/join - Join a class
+ *
+ * HOW IT WORKS:
+ * 1. Receives the join code the teacher shared
+ * 2. Adds the student (with their display name) to that class's roster
+ * 3. Returns the class name, or 404 if the code is wrong
+ */
+export const POST = instrumentRoute('POST /api/classes/join', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Classes');
+    }
+
+    const parsed = await readJsonBody(request, joinClassRequest);
+    if (parsed.ok === false) {
+      return parsed.response;
+    }
+
+    const displayName = user.displayName || user.email || 'Student';
+    const className = await joinClass(db, user.id, displayName, parsed.body.joinCode);
+
+    if (!className) {
+      return Response.json(
+        { error: 'Class not found', message: 'Check the join code with your teacher' },
+        { status: 404 }
+      );
+    }
+
+    const response: JoinClassResponse = { className };
+    return Response.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error('Error joining class', { error });
+    return Response.json(
+      {
+        error: 'Failed to join class',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,121 @@
+/**
+ * API Route: /api/math-problem/hint
+ *
+ * This file serves a problem session's hints on demand, one level at a time:
+ * a nudge, then a strategy, then part of the calculation.
+ *
+ * WHY A SEPARATE ROUTE?
+ * - The generation response no longer carries the hint (or the answer)
+ * - Hints are only sent to the browser when a student actually asks for one
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/repositories: Reads the session and its earlier reveals (Supabase, or in memory offline)
+ * - lib/auth: Only the student who owns the session can read its hints
+ * - lib/hints: Works out each level's text from the stored problem
+ * - lib/progress: Each reveal counts towards the student's hint achievements
+ * - lib/quiz: Quiz questions get no hints until the quiz is submitted
+ * - lib/schemas: Validates the request body (400 with an error per field)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { deriveHints } from '../../../../lib/hints';
+import { instrumentRoute, logger } from '../../../../lib/observability';
+import { syncAchievements, UnlockedAchievement } from '../../../../lib/progress';
+import { isInOpenQuiz } from '../../../../lib/quiz';
+import { getRepositories } from '../../../../lib/repositories';
+import { hintRequest, HintResponse, invalidRequestResponse, readJsonBody } from '../../../../lib/schemas';
+
+/**
+ * POST /api/math-problem/hint - Reveal the next hint level for a problem session
+ *
+ * HOW IT WORKS:
+ * 1. Receives the session ID (and optionally a level) from the frontend
+ * 2. Loads the session (409 if it's in an unsubmitted quiz) and the levels already revealed
+ * 3. Checks the level is at most one past the highest revealed - no skipping ahead
+ * 4. Records the reveal in math_problem_hint_reveals - every one, including a level opened again
+ * 5. Returns the hint, all revealed hints and any newly unlocked achievements
+ */
+export const POST = instrumentRoute('POST /api/math-problem/hint', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    // Validate required fields (and that level, if sent, is a whole number)
+    const parsed = await readJsonBody(request, hintRequest);
+    if (parsed.ok === false) {
+      return parsed.response;
+    }
+    const body = parsed.body;
+
+    // NOTE: The answer columns are read to word the nudge - they're never sent back
+    const repos = getRepositories();
+    const session = await repos.sessions.findForUser(user.id, body.sessionId);
+
+    if (!session) {
+      logger.warn('Session not found', { sessionId: body.sessionId });
+      return Response.json(
+        { error: 'Problem session not found' },
+        { status: 404 }
+      );
+    }
+
+    // WHY? Quizzes are answered without hints (and later levels give away part of the working)
+    // NOTE: Quizzes live in Supabase only, so there's nothing to check offline
+    if (repos.supabase && (await isInOpenQuiz(repos.supabase, user.id, session.id))) {
+      return Response.json(
+        { error: 'Problem is part of a quiz in progress', message: 'Hints are not available during a quiz' },
+        { status: 409 }
+      );
+    }
+
+    const hints = deriveHints(session);
+
+    // Reveals made before hint levels existed were all level 1
+    const reveals = await repos.progress.listHintReveals(user.id, [body.sessionId]);
+    const highestRevealed = Math.max(0, ...reveals.map((reveal) => reveal.level ?? 1));
+
+    // Once every level is open, asking again just shows the last one
+    const level = body.level ?? Math.min(highestRevealed + 1, hints.length);
+    if (level < 1 || level > hints.length) {
+      return invalidRequestResponse({ level: `level must be between 1 and ${hints.length}` });
+    }
+    if (level > highestRevealed + 1) {
+      return invalidRequestResponse({ level: `Reveal hint ${highestRevealed + 1} first` });
+    }
+
+    // Record the reveal - progress counts hints from these rows
+    // WHY not fail the request? The student should still get their hint
+    let newAchievements: UnlockedAchievement[] = [];
+    try {
+      await repos.progress.recordHintReveal({ session_id: body.sessionId, user_id: user.id, level });
+      try {
+        newAchievements = await syncAchievements(repos, user.id);
+      } catch (achievementError) {
+        logger.error('Error updating achievements', { error: achievementError });
+      }
+    } catch (revealError) {
+      logger.error('Error recording hint reveal', { error: revealError });
+    }
+
+    const response: HintResponse = {
+      hint: hints[level - 1],
+      revealed: hints.slice(0, Math.max(level, highestRevealed)),
+      maxLevel: hints.length,
+      newAchievements,
+    };
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error fetching hint', { error });
+    return Response.json(
+      {
+        error: 'Failed to fetch hint',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
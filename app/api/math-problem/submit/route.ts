@@ -9,30 +9,26 @@
  * - Follows REST API conventions with clear endpoint separation
  *
  * DEPENDENCIES EXPLAINED:
- * - @google/generative-ai: For AI-powered feedback generation
- * - @supabase/supabase-js: For database operations
- * - Database types from our custom types file for type safety
+ * - lib/submissions: Grading, stars, AI feedback, saving and review scheduling (shared with quizzes)
+ * - lib/topics: Which answer forms each topic accepts (e.g. decimals, not fractions, on decimals problems)
+ * - lib/schemas: Validates the request body (400 with an error per field)
+ * - lib/workedSolution: The step-by-step solution shown with the feedback
+ * - lib/repositories: Where sessions and submissions are stored (Supabase, or in memory offline)
+ * - lib/auth: Resolves the signed-in student so submissions belong to them
+ * - lib/progress: Unlocks achievements from the student's recorded submissions
+ * - lib/quiz: Questions in an unsubmitted quiz can only be answered by submitting the quiz
+ * - lib/observability: Request ID header, structured logs and metrics (including unreadable answers)
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { supabase } from '../../../../lib/supabaseClient';
-
-// Initialize Google Gemini AI with API key from environment variables
-// WHY? Environment variables keep sensitive API keys secure and allow easy deployment
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
-
-// Type definitions for better code clarity and TypeScript support
-// WHY? TypeScript helps catch errors at compile time, not runtime
-interface SubmitAnswerRequest {
-  sessionId: string;
-  userAnswer: number;
-  timeTakenSeconds?: number;
-}
-
-interface SubmitAnswerResponse {
-  isCorrect: boolean;
-  feedback: string;
-}
+import { getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { answerKeyFromSession } from '../../../../lib/math/answerSchema';
+import { incrementCounter, instrumentRoute, logger } from '../../../../lib/observability';
+import { syncAchievements, UnlockedAchievement } from '../../../../lib/progress';
+import { isInOpenQuiz } from '../../../../lib/quiz';
+import { getRepositories } from '../../../../lib/repositories';
+import { readJsonBody, submitAnswerRequest, SubmitAnswerResponse } from '../../../../lib/schemas';
+import { gradeSessionAnswers, recordSubmission } from '../../../../lib/submissions';
+import { workedSolutionFromSession } from '../../../../lib/workedSolution';
 
 /**
  * POST /api/math-problem/submit - Submit an answer and get AI feedback
@@ -40,10 +36,13 @@ interface SubmitAnswerResponse {
  * HOW IT WORKS:
  * 1. Receives session ID and user's answer from frontend
  * 2. Fetches the original problem from database using session ID
- * 3. Compares user's answer with correct answer
+ *    (409 if it's a question in a quiz that hasn't been submitted yet)
+ * 3. Grades each answer part (whole number, decimal, fraction or mixed number, with optional unit)
+ *    and numbers the attempt - retries earn at most 1 star, hint-assisted answers at most 2
  * 4. Uses AI to generate personalized feedback based on correctness
  * 5. Saves the submission to math_problem_submissions table
- * 6. Returns feedback and correctness status to frontend
+ * 6. Unlocks any achievements the new submission earned, and schedules weak answers for review
+ * 7. Returns feedback, the worked solution, correctness status and new achievements to frontend
  *
  * WHY THIS APPROACH?
  * - Separates submission logic from generation for better organization
@@ -51,108 +50,93 @@ interface SubmitAnswerResponse {
  * - Database persistence tracks user progress and stores feedback
  * - Session ID ensures submissions are linked to correct problems
  */
-export async function POST(request: Request) {
+export const POST = instrumentRoute('POST /api/math-problem/submit', async (request: Request) => {
   try {
-    // Parse the request body to get session ID and user answer
-    // WHY async text()? Request body is a readable stream that needs to be consumed
-    const body: SubmitAnswerRequest = await request.json();
+    // Resolve the signed-in student
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const repos = getRepositories();
 
-    // Validate required fields
+    // Parse and validate the session ID and answer(s)
     // WHY? Prevents processing incomplete or malformed requests
-    if (!body.sessionId || typeof body.userAnswer !== 'number') {
-      return Response.json(
-        { error: 'Missing required fields: sessionId and userAnswer' },
-        { status: 400 }
-      );
+    const parsed = await readJsonBody(request, submitAnswerRequest);
+    if (parsed.ok === false) {
+      return parsed.response;
     }
+    const body = parsed.body;
 
     // Fetch the original problem from database using session ID
     // WHY? Need the correct answer and original problem text for comparison and feedback
-    const { data: session, error: fetchError } = await supabase
-      .from('math_problem_sessions')
-      .select('*')
-      .eq('id', body.sessionId)
-      .single();
+    // NOTE: Only the student's own sessions are found
+    const session = await repos.sessions.findForUser(user.id, body.sessionId);
 
     // Handle case where session ID doesn't exist
-    if (fetchError || !session) {
-      console.error('Session not found:', fetchError);
+    if (!session) {
+      logger.warn('Session not found', { sessionId: body.sessionId });
       return Response.json(
         { error: 'Problem session not found' },
         { status: 404 }
       );
     }
 
-    // Check if the user's answer is correct
-    // WHY? Simple numeric comparison for accuracy
-    const isCorrect = body.userAnswer === session.correct_answer;
-
-    // Calculate stars if answer is correct and time is provided
-    // WHY? Rewards both speed and accuracy for better engagement
-    let starsEarned = 0;
-    if (isCorrect && body.timeTakenSeconds !== undefined) {
-      const difficulty = session.difficulty as 'easy' | 'medium' | 'hard' || 'medium';
-      const thresholds = {
-        easy: { three: 30, two: 60 },
-        medium: { three: 60, two: 120 },
-        hard: { three: 120, two: 180 }
-      };
-      const threshold = thresholds[difficulty];
-      
-      if (body.timeTakenSeconds < threshold.three) starsEarned = 3;
-      else if (body.timeTakenSeconds < threshold.two) starsEarned = 2;
-      else starsEarned = 1;
+    // WHY 409? The quiz is scored from its first answers - checking one here
+    // first would show the answer and worked solution
+    // NOTE: Quizzes live in Supabase only, so there's nothing to check offline
+    if (repos.supabase && (await isInOpenQuiz(repos.supabase, user.id, session.id))) {
+      return Response.json(
+        { error: 'Problem is part of a quiz in progress', message: 'Submit the quiz to check your answers' },
+        { status: 409 }
+      );
     }
 
-    // Create a prompt for AI feedback generation
-    // WHY THIS PROMPT? Provides context for personalized, educational feedback
-    const feedbackPrompt = `
-      Original problem: ${session.problem_text}
-      Correct answer: ${session.correct_answer}
-      User's answer: ${body.userAnswer}
-      Was the user correct? ${isCorrect ? 'Yes' : 'No'}
-
-      Generate personalized feedback that:
-      - ${isCorrect ? 'Praises the user and reinforces the correct method' : 'Explains the correct solution step by step'}
-      - Helps the user understand the math concept
-      - Encourages continued learning
-      - Keeps a friendly, supportive tone suitable for Primary 5 students
-
-      Keep the feedback concise but helpful (2-3 sentences).
-    `;
-
-    // Generate AI feedback using the updated Gemini 2.0 Flash model
-    // WHY 'gemini-2.0-flash'? It's the current available model that works with our API key
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-    const feedbackResult = await model.generateContent(feedbackPrompt);
-    const feedbackResponse = await feedbackResult.response;
-    const feedbackText = feedbackResponse.text().trim();
+    // Grade every answer part against the stored answer key
+    // WHY compare as fractions? Equivalent forms count (6/8 = 3/4 = 0.75)
+    // An answer in a form the session's topic doesn't accept comes back as a field error
+    // NOTE: A bare userAnswer is treated as the answer to the first (usually only) part
+    const answers = body.answers !== undefined ? body.answers : { [answerKeyFromSession(session)[0].name]: body.userAnswer };
+    const grade = gradeSessionAnswers(session, answers);
 
-    // Save the submission to database with time and stars
-    // WHY? Tracks user progress, performance metrics, and stores feedback
-    const { error: submitError } = await supabase
-      .from('math_problem_submissions')
-      .insert({
-        session_id: body.sessionId,
-        user_answer: body.userAnswer,
-        is_correct: isCorrect,
-        feedback_text: feedbackText,
-        time_taken_seconds: body.timeTakenSeconds || null,
-        stars_earned: starsEarned,
-      });
+    // WHY 400 with messages per part? The frontend shows them under each answer input
+    if (grade.ok === false) {
+      incrementCounter('validation_failures_total', { kind: 'answer_format' });
+      return Response.json(
+        {
+          error: 'Invalid answer format',
+          message: Object.values(grade.errors)[0],
+          fieldErrors: grade.errors,
+        },
+        { status: 400 }
+      );
+    }
 
-    // Handle database errors during submission but don't fail the request
-    // WHY? Feedback generation is the main purpose - saving is secondary
-    if (submitError) {
-      console.error('Error saving submission:', submitError);
-      // Don't fail the request if feedback generation worked but saving failed
+    // Attempt tracking, stars, AI feedback, saving and review scheduling (shared with quizzes)
+    const submission = await recordSubmission(repos, user.id, session, grade, body.timeTakenSeconds);
+
+    // Work out achievements from the recorded submissions
+    // WHY after saving? The new submission has to count towards the totals
+    let newAchievements: UnlockedAchievement[] = [];
+    if (submission.submissionId) {
+      try {
+        newAchievements = await syncAchievements(repos, user.id);
+      } catch (achievementError) {
+        logger.error('Error updating achievements', { error: achievementError });
+      }
     }
 
-    // Return successful response with feedback and correctness
+    // Return successful response with feedback, correctness and stars
     // WHY 201 status? Indicates a new resource (submission) was created successfully
     const response: SubmitAnswerResponse = {
-      isCorrect,
-      feedback: feedbackText,
+      isCorrect: submission.isCorrect,
+      feedback: submission.feedback,
+      starsEarned: submission.starsEarned,
+      partResults: submission.partResults.map((r) => ({ name: r.name, isCorrect: r.is_correct })),
+      newAchievements,
+      reviewScheduledAt: submission.reviewScheduledAt,
+      attemptNumber: submission.attemptNumber,
+      hintRevealed: submission.hintRevealed,
+      workedSolution: workedSolutionFromSession(session),
     };
 
     return Response.json(response, { status: 201 });
@@ -160,7 +144,7 @@ export async function POST(request: Request) {
   } catch (error) {
     // Handle any errors during submission processing
     // WHY comprehensive error handling? Ensures graceful failure and debugging info
-    console.error('Error submitting answer:', error);
+    logger.error('Error submitting answer', { error });
     return Response.json(
       {
         error: 'Failed to submit answer',
@@ -169,4 +153,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
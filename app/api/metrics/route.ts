@@ -0,0 +1,56 @@
+/**
+ * API Route: /api/metrics
+ *
+ * Returns this server's counters and timings since it started: request
+ * counts and latency per route, AI latency and failures, how often Gemini
+ * replies needed the template fallback, validation failures and database errors.
+ *
+ * ACCESS:
+ * - Development: open, e.g. `curl localhost:3000/api/metrics`
+ * - Production: only with "Authorization: Bearer <METRICS_TOKEN>" - without
+ *   METRICS_TOKEN set the endpoint doesn't exist (404)
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/observability: The in-process metrics registry and request instrumentation
+ */
+
+import { getCounterTotal, getMetricsSnapshot, instrumentRoute } from '../../../lib/observability';
+import type { MetricsResponse } from '../../../lib/schemas';
+
+/**
+ * GET /api/metrics - Metrics snapshot as JSON
+ */
+export const GET = instrumentRoute('GET /api/metrics', async (request: Request) => {
+  if (!canReadMetrics(request)) {
+    return Response.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  // Problems end either accepted (not a mismatch) or on the template fallback
+  const verificationFallbacks = getCounterTotal('ai_verification_fallbacks_total');
+  const acceptedProblems = getCounterTotal('ai_verification_total') - getCounterTotal('ai_verification_total', { status: 'mismatch' });
+
+  const response: MetricsResponse = {
+    ...getMetricsSnapshot(),
+    rates: {
+      aiParseFallback: ratio(getCounterTotal('ai_parse_total', { method: 'template_fallback' }), getCounterTotal('ai_parse_total')),
+      aiError: ratio(getCounterTotal('ai_requests_total', { outcome: 'error' }), getCounterTotal('ai_requests_total')),
+      verificationFallback: ratio(verificationFallbacks, acceptedProblems + verificationFallbacks),
+    },
+  };
+
+  // WHY no-store? Every read should show the live counters
+  return Response.json(response, { headers: { 'Cache-Control': 'no-store' } });
+});
+
+function canReadMetrics(request: Request): boolean {
+  if (process.env.NODE_ENV !== 'production') {
+    return true;
+  }
+  const token = process.env.METRICS_TOKEN;
+  // WHY 404 rather than 401? Doesn't advertise the endpoint to anyone probing production
+  return Boolean(token) && request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+function ratio(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
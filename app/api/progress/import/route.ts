@@ -0,0 +1,71 @@
+/**
+ * API Route: /api/progress/import
+ *
+ * This file imports a student's old localStorage progress, once.
+ *
+ * WHY? Students who played before progress moved to the server shouldn't lose
+ * their badges and counters. Imported totals are capped, and a second import
+ * is rejected, so this can't be used to keep inflating progress.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in student
+ * - lib/progress: Stores the imported totals and badges, then re-checks achievements
+ * - lib/repositories: Where progress is stored (Supabase, or in memory offline)
+ * - lib/schemas: Validates the request body (400 with an error per field)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../lib/observability';
+import { getProgressSummary, importLegacyProgress, syncAchievements } from '../../../../lib/progress';
+import { getRepositories } from '../../../../lib/repositories';
+import { importProgressRequest, ImportProgressResponse, readJsonBody } from '../../../../lib/schemas';
+
+/**
+ * POST /api/progress/import - One-time import of localStorage progress
+ *
+ * HOW IT WORKS:
+ * 1. Receives problemsCompleted, hintsUsed and unlocked achievement keys
+ * 2. Stores them as the student's baseline (409 if already imported)
+ * 3. Unlocks anything the combined totals now earn
+ * 4. Returns the updated progress summary
+ */
+export const POST = instrumentRoute('POST /api/progress/import', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const repos = getRepositories();
+
+    // Validate the shape - values themselves are clamped in lib/progress
+    const parsed = await readJsonBody(request, importProgressRequest);
+    if (parsed.ok === false) {
+      return parsed.response;
+    }
+    const body = parsed.body;
+
+    const imported = await importLegacyProgress(repos, user.id, body);
+    if (!imported) {
+      return Response.json(
+        { error: 'Progress already imported' },
+        { status: 409 }
+      );
+    }
+
+    await syncAchievements(repos, user.id);
+
+    const response: ImportProgressResponse = await getProgressSummary(repos, user.id);
+    return Response.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error('Error importing progress', { error });
+    return Response.json(
+      {
+        error: 'Failed to import progress',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
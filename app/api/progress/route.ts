@@ -0,0 +1,52 @@
+/**
+ * API Route: /api/progress
+ *
+ * This file returns the signed-in student's progress: counters, streaks and
+ * unlocked achievements.
+ *
+ * WHY ON THE SERVER?
+ * - Progress used to live in localStorage - lost on a new device, editable in devtools
+ * - Everything here is worked out from recorded submissions and hint reveals
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in student
+ * - lib/progress: Calculates stats and reads unlocked achievements
+ * - lib/repositories: Where progress is stored (Supabase, or in memory offline)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../lib/auth';
+import { instrumentRoute, logger } from '../../../lib/observability';
+import { getProgressSummary } from '../../../lib/progress';
+import { getRepositories } from '../../../lib/repositories';
+import type { ProgressResponse } from '../../../lib/schemas';
+
+/**
+ * GET /api/progress - Current student's progress and achievements
+ *
+ * HOW IT WORKS:
+ * 1. Loads the student's submissions, hint reveals and any imported totals
+ * 2. Calculates problems completed, streaks, hints used and stars
+ * 3. Returns the stats with the achievements unlocked so far
+ */
+export const GET = instrumentRoute('GET /api/progress', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const response: ProgressResponse = await getProgressSummary(getRepositories(), user.id);
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error loading progress', { error });
+    return Response.json(
+      {
+        error: 'Failed to load progress',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/quiz/[quizId]
+ *
+ * This file returns one quiz - the questions while it's in progress, and the
+ * whole scored attempt (answers, correct answers and feedback) once submitted.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in student
+ * - lib/quiz: Loads the quiz and hides answers until it's submitted
+ * - lib/schemas: Validates the quiz ID (400 if it isn't one)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../lib/observability';
+import { getQuiz } from '../../../../lib/quiz';
+import { getRepositories, supabaseRequiredResponse } from '../../../../lib/repositories';
+import { quizParams, QuizResponse, readRouteParams } from '../../../../lib/schemas';
+
+/**
+ * GET /api/quiz/[quizId] - A quiz and its questions
+ */
+export const GET = instrumentRoute('GET /api/quiz/[quizId]', async (request: Request, { params }: { params: { quizId: string } }) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const route = readRouteParams(params, quizParams);
+    if (route.ok === false) {
+      return route.response;
+    }
+
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Quizzes');
+    }
+
+    const quiz = await getQuiz(db, user.id, route.params.quizId);
+    if (!quiz) {
+      return Response.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: QuizResponse = quiz;
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error loading quiz', { error });
+    return Response.json(
+      {
+        error: 'Failed to load quiz',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
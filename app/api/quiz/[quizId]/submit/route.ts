@@ -0,0 +1,109 @@
+/**
+ * API Route: /api/quiz/[quizId]/submit
+ *
+ * This file grades a whole quiz at once and returns the scored summary.
+ *
+ * WHY ORDINARY SUBMISSIONS? Each answer is saved exactly like a single problem's,
+ * so stars, achievements, spaced-repetition review and teacher analytics all
+ * include quiz answers without any extra work.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in student
+ * - lib/quiz: Grades, records and scores the quiz
+ * - lib/progress: Unlocks achievements from the new submissions
+ * - lib/schemas: Validates the quiz ID and request body (400 with an error per field)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and metrics (including unreadable answers)
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../../../lib/auth';
+import { incrementCounter, instrumentRoute, logger } from '../../../../../lib/observability';
+import { syncAchievements, UnlockedAchievement } from '../../../../../lib/progress';
+import { submitQuiz } from '../../../../../lib/quiz';
+import { createSupabaseRepositories, getRepositories, supabaseRequiredResponse } from '../../../../../lib/repositories';
+import { quizParams, readJsonBody, readRouteParams, submitQuizRequest, SubmitQuizResponse } from '../../../../../lib/schemas';
+
+/**
+ * POST /api/quiz/[quizId]/submit - Submit every answer in a quiz
+ *
+ * HOW IT WORKS:
+ * 1. Checks every answer can be read (400 with errors per question and part if not)
+ * 2. Records each answer with stars and AI feedback
+ * 3. Saves the score and returns the scored summary
+ * 4. Unlocks any achievements the new submissions earned
+ */
+export const POST = instrumentRoute('POST /api/quiz/[quizId]/submit', async (request: Request, { params }: { params: { quizId: string } }) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const route = readRouteParams(params, quizParams);
+    if (route.ok === false) {
+      return route.response;
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Quizzes');
+    }
+
+    const parsed = await readJsonBody(request, submitQuizRequest);
+    if (parsed.ok === false) {
+      return parsed.response;
+    }
+    const body = parsed.body;
+
+    const result = await submitQuiz(db, user.id, route.params.quizId, {
+      answers: body.answers,
+      questionTimes: body.questionTimes,
+      timeTakenSeconds: body.timeTakenSeconds,
+    });
+
+    if (result.ok === false) {
+      if (result.reason === 'invalid_answers') {
+        incrementCounter('validation_failures_total', { kind: 'answer_format' });
+        // WHY keyed by session ID? The frontend shows them under each question's inputs
+        return Response.json(
+          {
+            error: 'Invalid answer format',
+            message: `${Object.keys(result.errors).length} question(s) need an answer`,
+            fieldErrors: result.errors,
+          },
+          { status: 400 }
+        );
+      }
+      if (result.reason === 'already_submitted') {
+        return Response.json(
+          { error: 'Quiz already submitted' },
+          { status: 409 }
+        );
+      }
+      return Response.json(
+        { error: 'Quiz not found' },
+        { status: 404 }
+      );
+    }
+
+    // WHY after recording? The new submissions have to count towards the totals
+    let newAchievements: UnlockedAchievement[] = [];
+    try {
+      newAchievements = await syncAchievements(createSupabaseRepositories(db), user.id);
+    } catch (achievementError) {
+      logger.error('Error updating achievements', { error: achievementError });
+    }
+
+    const response: SubmitQuizResponse = { quiz: result.quiz, newAchievements };
+    return Response.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error('Error submitting quiz', { error });
+    return Response.json(
+      {
+        error: 'Failed to submit quiz',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
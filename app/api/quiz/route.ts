@@ -0,0 +1,102 @@
+/**
+ * API Route: /api/quiz
+ *
+ * This file starts new quizzes and lists the student's past ones.
+ *
+ * WHY A QUIZ? A fixed set of problems, answered in any order and submitted
+ * together, gives one score for the whole attempt - more like a real worksheet
+ * than one problem at a time.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in student
+ * - lib/quiz: Generates, saves and lists quizzes
+ * - lib/schemas: Validates the request body (400 with an error per field)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../lib/auth';
+import { instrumentRoute, logger } from '../../../lib/observability';
+import { createQuiz, listQuizzes } from '../../../lib/quiz';
+import { getRepositories, supabaseRequiredResponse } from '../../../lib/repositories';
+import { createQuizRequest, CreateQuizResponse, ListQuizzesResponse, readJsonBody } from '../../../lib/schemas';
+
+/**
+ * POST /api/quiz - Start a new quiz
+ *
+ * HOW IT WORKS:
+ * 1. Validates the question count (1-10) and difficulty mix
+ * 2. Generates and verifies every problem up front
+ * 3. Saves the quiz and its questions in order
+ * 4. Returns the questions (never the answers)
+ */
+export const POST = instrumentRoute('POST /api/quiz', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Quizzes');
+    }
+
+    // WHY a cap on questionCount? Every problem is generated before the quiz starts
+    const parsed = await readJsonBody(request, createQuizRequest);
+    if (parsed.ok === false) {
+      return parsed.response;
+    }
+    const { questionCount, topic, difficultyMix } = parsed.body;
+
+    const response: CreateQuizResponse = await createQuiz(db, user.id, {
+      questionCount,
+      topic,
+      difficultyMix,
+    });
+
+    return Response.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error('Error creating quiz', { error });
+    return Response.json(
+      {
+        error: 'Failed to create quiz',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * GET /api/quiz - The student's recent quizzes, newest first
+ */
+export const GET = instrumentRoute('GET /api/quiz', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Quizzes');
+    }
+
+    const response: ListQuizzesResponse = {
+      quizzes: await listQuizzes(db, user.id),
+    };
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error loading quizzes', { error });
+    return Response.json(
+      {
+        error: 'Failed to load quizzes',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,73 @@
+/**
+ * API Route: /api/review/next
+ *
+ * This file serves the student's most overdue review as a fresh problem.
+ *
+ * WHY A VARIANT, NOT THE SAME PROBLEM? The original answer may be remembered.
+ * An "isomorphic" variant keeps the structure and steps but changes the
+ * numbers and story, so the student has to work it out again.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in student
+ * - lib/review: Picks the most overdue review item
+ * - lib/problemSession: Generates, verifies and saves the variant (same as new problems)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../lib/observability';
+import { createProblemSession } from '../../../../lib/problemSession';
+import { createSupabaseRepositories, getRepositories, supabaseRequiredResponse } from '../../../../lib/repositories';
+import { getNextDueReview } from '../../../../lib/review';
+import type { NextReviewResponse } from '../../../../lib/schemas';
+
+/**
+ * POST /api/review/next - Generate the next due review problem
+ *
+ * HOW IT WORKS:
+ * 1. Finds the most overdue review item (404 if nothing is due)
+ * 2. Generates a variant of its original problem at the same difficulty and topic
+ * 3. Saves it as a session linked to the review item
+ * 4. Submitting it reschedules the item (see submit route)
+ */
+export const POST = instrumentRoute('POST /api/review/next', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    // NOTE: Review items are only stored in Supabase (501 offline)
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Reviews');
+    }
+    const item = await getNextDueReview(db, user.id);
+    if (!item) {
+      return Response.json(
+        { error: 'Nothing to review', message: 'No reviews are due right now' },
+        { status: 404 }
+      );
+    }
+
+    const response: NextReviewResponse = await createProblemSession(createSupabaseRepositories(db), user.id, {
+      difficulty: item.difficulty,
+      topic: item.topic,
+      variantOf: item.variantOf,
+      reviewItemId: item.id,
+    });
+
+    return Response.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error('Error generating review problem', { error });
+    return Response.json(
+      {
+        error: 'Failed to generate review problem',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,50 @@
+/**
+ * API Route: /api/review
+ *
+ * This file reports the signed-in student's spaced-repetition review queue.
+ *
+ * WHY? The frontend shows a "Review" button (with a count) only when
+ * something is due.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in student
+ * - lib/review: Reads the review queue
+ * - lib/repositories: Whether there's a Supabase store to read it from
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { getCurrentUser, unauthorizedResponse } from '../../../lib/auth';
+import { instrumentRoute, logger } from '../../../lib/observability';
+import { getRepositories } from '../../../lib/repositories';
+import { getReviewStatus } from '../../../lib/review';
+import type { ReviewStatusResponse } from '../../../lib/schemas';
+
+/**
+ * GET /api/review - Number of reviews due, and when the next one is
+ */
+export const GET = instrumentRoute('GET /api/review', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    // WHY an empty queue offline? Review items are only stored in Supabase, and the
+    // home page asks on every load - nothing is ever due with DATA_STORE=memory
+    const db = getRepositories().supabase;
+    const response: ReviewStatusResponse = db
+      ? await getReviewStatus(db, user.id)
+      : { dueCount: 0, nextDueAt: null };
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error loading review queue', { error });
+    return Response.json(
+      {
+        error: 'Failed to load review queue',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
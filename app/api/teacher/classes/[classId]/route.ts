@@ -0,0 +1,71 @@
+/**
+ * API Route: /api/teacher/classes/[classId]
+ *
+ * This file returns a class roster and its analytics for the teacher dashboard.
+ *
+ * WHAT'S INCLUDED:
+ * - Roster: each student's attempts, accuracy, average time, stars and hints
+ * - Accuracy and average time_taken_seconds by topic and difficulty
+ * - Star distribution and hint usage for the whole class
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in user (401 if nobody, 403 if not a teacher)
+ * - lib/teacher: Loads the roster and the students' submissions
+ * - lib/analytics: Does the counting
+ * - lib/schemas: Validates the class ID (400 if it isn't one)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { forbiddenResponse, getCurrentUser, unauthorizedResponse } from '../../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../../lib/observability';
+import { getRepositories, supabaseRequiredResponse } from '../../../../../lib/repositories';
+import { classParams, ClassReportResponse, readRouteParams } from '../../../../../lib/schemas';
+import { getClassReport, isTeacher } from '../../../../../lib/teacher';
+
+/**
+ * GET /api/teacher/classes/[classId] - Roster and class-wide analytics
+ */
+export const GET = instrumentRoute('GET /api/teacher/classes/[classId]', async (request: Request, { params }: { params: { classId: string } }) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Classes');
+    }
+    if (!(await isTeacher(db, user, request))) {
+      return forbiddenResponse();
+    }
+
+    const route = readRouteParams(params, classParams);
+    if (route.ok === false) {
+      return route.response;
+    }
+
+    const report = await getClassReport(db, user.id, route.params.classId);
+
+    // WHY 404 for another teacher's class? Don't reveal that it exists
+    if (!report) {
+      return Response.json(
+        { error: 'Class not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: ClassReportResponse = report;
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error loading class report', { error });
+    return Response.json(
+      {
+        error: 'Failed to load class report',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,64 @@
+/**
+ * API Route: /api/teacher/classes/[classId]/students/[studentId]
+ *
+ * This file returns one student's drill-down for the teacher dashboard:
+ * their analytics and every submission, including the AI feedback_text.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in user (401 if nobody, 403 if not a teacher)
+ * - lib/teacher: Checks the student is in the teacher's class and loads submissions
+ * - lib/schemas: Validates the class and student IDs (400 if either isn't one)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { forbiddenResponse, getCurrentUser, unauthorizedResponse } from '../../../../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../../../../lib/observability';
+import { getRepositories, supabaseRequiredResponse } from '../../../../../../../lib/repositories';
+import { readRouteParams, studentParams, StudentReportResponse } from '../../../../../../../lib/schemas';
+import { getStudentReport, isTeacher } from '../../../../../../../lib/teacher';
+
+/**
+ * GET /api/teacher/classes/[classId]/students/[studentId] - Per-student drill-down
+ */
+export const GET = instrumentRoute('GET /api/teacher/classes/[classId]/students/[studentId]', async (request: Request, { params }: { params: { classId: string; studentId: string } }) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Classes');
+    }
+    if (!(await isTeacher(db, user, request))) {
+      return forbiddenResponse();
+    }
+
+    const route = readRouteParams(params, studentParams);
+    if (route.ok === false) {
+      return route.response;
+    }
+
+    const report = await getStudentReport(db, user.id, route.params.classId, route.params.studentId);
+    if (!report) {
+      return Response.json(
+        { error: 'Student not found in this class' },
+        { status: 404 }
+      );
+    }
+
+    const response: StudentReportResponse = report;
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error loading student report', { error });
+    return Response.json(
+      {
+        error: 'Failed to load student report',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,91 @@
+/**
+ * API Route: /api/teacher/classes
+ *
+ * This file lists and creates the signed-in teacher's classes.
+ *
+ * WHY? Students join a class with its join code, and the dashboard reports
+ * on one class at a time.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in user (401 if nobody, 403 if not a teacher)
+ * - lib/teacher: Class queries and join code generation
+ * - lib/schemas: Validates the request body (400 with an error per field)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { forbiddenResponse, getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../lib/observability';
+import { getRepositories, supabaseRequiredResponse } from '../../../../lib/repositories';
+import { ClassesResponse, createClassRequest, CreateClassResponse, readJsonBody } from '../../../../lib/schemas';
+import { createClass, isTeacher, listClasses } from '../../../../lib/teacher';
+
+/**
+ * GET /api/teacher/classes - The teacher's classes with join codes and student counts
+ */
+export const GET = instrumentRoute('GET /api/teacher/classes', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Classes');
+    }
+    if (!(await isTeacher(db, user, request))) {
+      return forbiddenResponse();
+    }
+
+    const response: ClassesResponse = { classes: await listClasses(db, user.id) };
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error loading classes', { error });
+    return Response.json(
+      {
+        error: 'Failed to load classes',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/teacher/classes - Create a class and generate its join code
+ */
+export const POST = instrumentRoute('POST /api/teacher/classes', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Classes');
+    }
+    if (!(await isTeacher(db, user, request))) {
+      return forbiddenResponse();
+    }
+
+    // Class names are trimmed and capped at MAX_CLASS_NAME_LENGTH
+    const parsed = await readJsonBody(request, createClassRequest);
+    if (parsed.ok === false) {
+      return parsed.response;
+    }
+
+    const response: CreateClassResponse = { class: await createClass(db, user.id, parsed.body.name) };
+    return Response.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error('Error creating class', { error });
+    return Response.json(
+      {
+        error: 'Failed to create class',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,101 @@
+/**
+ * API Route: /api/teacher/export
+ *
+ * This file streams the teacher's students' submissions (joined with the
+ * problems they answered) as CSV or newline-delimited JSON.
+ *
+ * WHY? Results are analysed in spreadsheets, and the Supabase dashboard was
+ * the only way to get them out.
+ *
+ * QUERY PARAMETERS (all optional):
+ * - format: csv (default) or ndjson
+ * - from / to: dates (YYYY-MM-DD) or ISO timestamps - a date-only "to" includes that day
+ * - topic, difficulty: exact matches on the problem
+ * - studentId, classId: one student, or one class (must be the teacher's own)
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in user (401 if nobody, 403 if not a teacher)
+ * - lib/teacher: Which students this teacher may export
+ * - lib/export: Pages through submissions and formats the rows
+ * - lib/schemas: The shared 400 response, with an error per invalid filter
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { forbiddenResponse, getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { createExportStream, parseExportQuery, readExportRows } from '../../../../lib/export';
+import { instrumentRoute, logger } from '../../../../lib/observability';
+import { getRepositories, supabaseRequiredResponse } from '../../../../lib/repositories';
+import { invalidRequestResponse } from '../../../../lib/schemas';
+import { isTeacher, listStudents } from '../../../../lib/teacher';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * GET /api/teacher/export - Download submissions as CSV or NDJSON
+ *
+ * HOW IT WORKS:
+ * 1. Validates the filters (400 with an error per parameter)
+ * 2. Works out which students may be included - the teacher's classes only
+ * 3. Streams matching rows as they're read, a page at a time
+ */
+export const GET = instrumentRoute('GET /api/teacher/export', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Exports');
+    }
+    if (!(await isTeacher(db, user, request))) {
+      return forbiddenResponse();
+    }
+
+    const query = parseExportQuery(new URL(request.url).searchParams);
+    if (query.ok === false) {
+      return invalidRequestResponse(query.errors);
+    }
+    const { format, filters } = query;
+
+    // WHY filter the roster here? Queries use the service role, so the
+    // student list is what keeps other teachers' classes out
+    const students = await listStudents(db, user.id, filters.classId ?? undefined);
+    if (filters.studentId) {
+      const name = students.get(filters.studentId);
+      if (name === undefined) {
+        return Response.json(
+          { error: 'Student not found' },
+          { status: 404 }
+        );
+      }
+      students.clear();
+      students.set(filters.studentId, name);
+    }
+
+    const stream = createExportStream(format, readExportRows(db, students, filters));
+    const filename = `math-submissions-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    logger.error('Error exporting submissions', { error });
+    return Response.json(
+      {
+        error: 'Failed to export submissions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,85 @@
+/**
+ * API Route: /api/teacher/worksheets/[worksheetId]
+ *
+ * This file renders a saved worksheet as a print-ready HTML page.
+ *
+ * QUERY PARAMETERS:
+ * - document=worksheet (default): problems with space for working and answer lines
+ * - document=answer-key: answers, worked solutions and hints
+ *
+ * WHY HTML? Browsers print it (or "Save as PDF") with no PDF library on the server
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in user (401 if nobody, 403 if not a teacher)
+ * - lib/worksheet: Loads the saved problem set
+ * - lib/schemas: Validates the worksheet ID (400 if it isn't one)
+ * - lib/worksheetHtml: Renders it with print styles
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { forbiddenResponse, getCurrentUser, unauthorizedResponse } from '../../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../../lib/observability';
+import { getRepositories, supabaseRequiredResponse } from '../../../../../lib/repositories';
+import { readRouteParams, worksheetParams } from '../../../../../lib/schemas';
+import { isTeacher } from '../../../../../lib/teacher';
+import { getWorksheet } from '../../../../../lib/worksheet';
+import { isWorksheetDocument, renderWorksheetHtml } from '../../../../../lib/worksheetHtml';
+
+/**
+ * GET /api/teacher/worksheets/[worksheetId] - The worksheet or its answer key as HTML
+ */
+export const GET = instrumentRoute('GET /api/teacher/worksheets/[worksheetId]', async (request: Request, { params }: { params: { worksheetId: string } }) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Worksheets');
+    }
+    if (!(await isTeacher(db, user, request))) {
+      return forbiddenResponse();
+    }
+
+    const route = readRouteParams(params, worksheetParams);
+    if (route.ok === false) {
+      return route.response;
+    }
+
+    const document = new URL(request.url).searchParams.get('document') || 'worksheet';
+    if (!isWorksheetDocument(document)) {
+      return Response.json(
+        { error: "document must be 'worksheet' or 'answer-key'" },
+        { status: 400 }
+      );
+    }
+
+    const worksheet = await getWorksheet(db, user.id, route.params.worksheetId);
+    if (!worksheet) {
+      return Response.json(
+        { error: 'Worksheet not found' },
+        { status: 404 }
+      );
+    }
+
+    return new Response(renderWorksheetHtml(worksheet, document), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        // WHY no-store? Answer keys shouldn't linger in shared browser caches
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    logger.error('Error rendering worksheet', { error });
+    return Response.json(
+      {
+        error: 'Failed to render worksheet',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,107 @@
+/**
+ * API Route: /api/teacher/worksheets
+ *
+ * This file lists and creates printable worksheets for the signed-in teacher.
+ *
+ * WHY? Teachers want paper practice made from the same generator students use
+ * online, with a separate answer key.
+ *
+ * DEPENDENCIES EXPLAINED:
+ * - lib/auth: Resolves the signed-in user (401 if nobody, 403 if not a teacher)
+ * - lib/worksheet: Builds the problem set (new or from past sessions) and saves it
+ * - lib/schemas: Validates the request body (400 with an error per field)
+ * - lib/repositories: The Supabase client (501 with the in-memory data store)
+ * - lib/observability: Request ID header, structured logs and request metrics
+ */
+
+import { forbiddenResponse, getCurrentUser, unauthorizedResponse } from '../../../../lib/auth';
+import { instrumentRoute, logger } from '../../../../lib/observability';
+import { getRepositories, supabaseRequiredResponse } from '../../../../lib/repositories';
+import { createWorksheetRequest, CreateWorksheetResponse, readJsonBody, WorksheetsResponse } from '../../../../lib/schemas';
+import { isTeacher } from '../../../../lib/teacher';
+import { createWorksheet, listWorksheets } from '../../../../lib/worksheet';
+
+/**
+ * GET /api/teacher/worksheets - The teacher's worksheets, newest first
+ */
+export const GET = instrumentRoute('GET /api/teacher/worksheets', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Worksheets');
+    }
+    if (!(await isTeacher(db, user, request))) {
+      return forbiddenResponse();
+    }
+
+    const response: WorksheetsResponse = { worksheets: await listWorksheets(db, user.id) };
+    return Response.json(response);
+
+  } catch (error) {
+    logger.error('Error loading worksheets', { error });
+    return Response.json(
+      {
+        error: 'Failed to load worksheets',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/teacher/worksheets - Build and save a new worksheet
+ *
+ * HOW IT WORKS:
+ * 1. Validates the title, class name, number of problems and difficulty mix
+ * 2. Builds the problem set - fresh, or from past sessions topped up with fresh ones
+ * 3. Saves it, so the worksheet and answer key (GET /api/teacher/worksheets/[id]) always match
+ */
+export const POST = instrumentRoute('POST /api/teacher/worksheets', async (request: Request) => {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) {
+      return unauthorizedResponse();
+    }
+    const db = getRepositories().supabase;
+    if (!db) {
+      return supabaseRequiredResponse('Worksheets');
+    }
+    if (!(await isTeacher(db, user, request))) {
+      return forbiddenResponse();
+    }
+
+    // Blank titles fall back to "Maths Practice"; limits are in lib/schemas
+    const parsed = await readJsonBody(request, createWorksheetRequest);
+    if (parsed.ok === false) {
+      return parsed.response;
+    }
+    const { title, className, problemCount, topic, difficultyMix, source } = parsed.body;
+
+    const worksheet = await createWorksheet(db, user.id, {
+      title,
+      className: className ?? null,
+      problemCount,
+      topic,
+      difficultyMix,
+      source,
+    });
+
+    const response: CreateWorksheetResponse = { worksheet };
+    return Response.json(response, { status: 201 });
+
+  } catch (error) {
+    logger.error('Error creating worksheet', { error });
+    return Response.json(
+      {
+        error: 'Failed to create worksheet',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  getCurrentStudent,
+  isMockAuth,
+  signInMock,
+  signInWithPassword,
+  signUpWithPassword,
+} from '../../lib/authClient'
+
+/**
+ * Student Sign-In Page
+ *
+ * HOW IT WORKS:
+ * - Supabase mode: email + password sign-in, with a sign-up option for new students
+ * - Mock mode (NEXT_PUBLIC_AUTH_MODE=mock): just type a name - for local development only
+ *   (tick "I'm a teacher" to open the teacher dashboard instead)
+ * - Already signed in? Straight back to the problem page
+ */
+export default function LoginPage() {
+  const router = useRouter()
+  const mockMode = isMockAuth()
+
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [mockTeacher, setMockTeacher] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  /**
+   * Skip the form if the student is already signed in
+   */
+  useEffect(() => {
+    getCurrentStudent().then((student) => {
+      if (student) router.replace('/')
+    })
+  }, [router])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      if (mockMode) {
+        signInMock(displayName.trim(), mockTeacher ? 'teacher' : 'student')
+        router.replace(mockTeacher ? '/teacher' : '/')
+        return
+      }
+
+      if (mode === 'signUp') {
+        await signUpWithPassword(email.trim(), password, displayName.trim())
+        // Supabase may require email confirmation before the first sign-in
+        const student = await getCurrentStudent()
+        if (!student) {
+          setMessage('Check your email to confirm your account, then sign in.')
+          setMode('signIn')
+          return
+        }
+      } else {
+        await signInWithPassword(email.trim(), password)
+      }
+
+      router.replace('/')
+    } catch (error) {
+      console.error('Sign-in failed:', error)
+      setError(error instanceof Error ? error.message : 'Sign-in failed. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-5 py-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200 text-lg font-medium text-gray-900'
+
+  return (
+    <div
+      className="min-h-screen bg-cover bg-center bg-no-repeat relative"
+      style={{ backgroundImage: "url('/images/background.jpg')" }}
+    >
+      <div
+        className="absolute inset-0 backdrop-blur-md bg-black/40"
+        style={{ zIndex: 0 }}
+      ></div>
+
+      <main className="container mx-auto px-4 py-8 max-w-md relative flex items-center justify-center min-h-screen" style={{ zIndex: 1 }}>
+        <div className="w-full bg-white/95 backdrop-blur-sm rounded-3xl shadow-2xl p-8 border border-white/20">
+          <h1 className="text-3xl font-extrabold text-center bg-gradient-to-r from-blue-600 via-purple-600 to-pink-600 bg-clip-text text-transparent mb-2">
+            {mode === 'signUp' && !mockMode ? 'Create Your Account' : 'Welcome Back!'}
+          </h1>
+          <p className="text-center text-gray-600 mb-6">
+            {mockMode ? '🧪 Development mode - just type your name' : 'Sign in to save your progress'}
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border-2 border-red-200 text-red-700 px-6 py-4 rounded-xl mb-6">
+              <p className="font-semibold">⚠️ {error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-blue-50 border-2 border-blue-200 text-blue-700 px-6 py-4 rounded-xl mb-6">
+              <p className="font-semibold">📧 {message}</p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            {(mockMode || mode === 'signUp') && (
+              <div>
+                <label htmlFor="displayName" className="block text-base font-bold text-gray-700 mb-2">
+                  🙂 Your Name
+                </label>
+                <input
+                  id="displayName"
+                  type="text"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  className={inputClassName}
+                  autoComplete="nickname"
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+
+            {mockMode && (
+              <label className="flex items-center gap-3 text-base font-semibold text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={mockTeacher}
+                  onChange={(e) => setMockTeacher(e.target.checked)}
+                  className="w-5 h-5"
+                  disabled={isLoading}
+                />
+                🧑‍🏫 I&apos;m a teacher
+              </label>
+            )}
+
+            {!mockMode && (
+              <>
+                <div>
+                  <label htmlFor="email" className="block text-base font-bold text-gray-700 mb-2">
+                    📧 Email
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={inputClassName}
+                    autoComplete="email"
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="password" className="block text-base font-bold text-gray-700 mb-2">
+                    🔑 Password
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClassName}
+                    autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+                    minLength={6}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+              </>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl transition duration-300 ease-in-out transform hover:scale-105 hover:shadow-xl disabled:transform-none"
+            >
+              {isLoading ? 'Please wait...' : mode === 'signUp' && !mockMode ? '✨ Create Account' : '🚀 Start Learning'}
+            </button>
+          </form>
+
+          {!mockMode && (
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === 'signIn' ? 'signUp' : 'signIn')
+                setError(null)
+              }}
+              className="w-full mt-4 text-sm font-semibold text-blue-600 hover:text-blue-700"
+            >
+              {mode === 'signIn' ? "New here? Create an account" : 'Already have an account? Sign in'}
+            </button>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
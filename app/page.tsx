@@ -1,66 +1,210 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
 import confetti from 'canvas-confetti'
-
+import { authFetch, getCurrentStudent, signOut, Student } from '../lib/authClient'
+import { AnswerPart, isPrefixUnit, parsePartAnswer } from '../lib/math/answerSchema'
+import type { ProgressStats } from '../lib/achievements'
+import type { Hint } from '../lib/hints'
+import type { WorkedSolution } from '../lib/workedSolution'
+import type { UnlockedAchievement } from '../lib/progress'
+import type { ApiErrorResponse, Difficulty, DifficultySetting, HintResponse, ProgressResponse, ReviewStatusResponse, SubmitAnswerResponse } from '../lib/schemas'
+import { Topic, TOPIC_GROUP_LABELS, TOPIC_LIST, TOPICS, TopicGroup } from '../lib/topics'
+
+// NOTE: The correct answer is never sent to the browser - only the submit API knows it
 interface MathProblem {
   problem_text: string
-  final_answer: number
-  hint?: string  // Optional hint from AI - may not always be present
+  difficulty: Difficulty  // Difficulty actually used - the server picks it in adaptive mode
+  topic: Topic
+  adaptive: { level: number; reason: string } | null  // Set when the student chose "adaptive"
+  is_review: boolean  // Spaced-repetition review of an earlier weak answer
+  has_hint: boolean  // Hint text is fetched from /api/math-problem/hint on demand
+  answer_parts: AnswerPart[]  // One input per part, e.g. quotient and remainder (with optional units)
 }
 
 export default function Home() {
+  const router = useRouter()
+  // Signed-in student - null until we've checked (redirects to /login if nobody is signed in)
+  const [student, setStudent] = useState<Student | null>(null)
   const [problem, setProblem] = useState<MathProblem | null>(null)
-  const [userAnswer, setUserAnswer] = useState('')
+  // Answers keyed by part name - most problems have a single 'answer' part
+  const [partAnswers, setPartAnswers] = useState<Record<string, string>>({})
+  const [partResults, setPartResults] = useState<Array<{ name: string; isCorrect: boolean }>>([])
   const [feedback, setFeedback] = useState('')
+  // Step-by-step solution from the submit API, and how many of its steps are showing
+  const [workedSolution, setWorkedSolution] = useState<WorkedSolution | null>(null)
+  const [stepsShown, setStepsShown] = useState(0)
   const [isLoading, setIsLoading] = useState(false)
   const [loadingType, setLoadingType] = useState<'generating' | 'checking' | null>(null)
   const [sessionId, setSessionId] = useState<string | null>(null)
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const [showHint, setShowHint] = useState(false)
+  // Hints revealed so far, gentlest first - a stepper from nudge to partial calculation
+  const [hints, setHints] = useState<Hint[]>([])
+  const [maxHintLevel, setMaxHintLevel] = useState<number | null>(null)
+  const [isHintLoading, setIsHintLoading] = useState(false)
   const [showFeedbackModal, setShowFeedbackModal] = useState(false)
   const [showSettingsModal, setShowSettingsModal] = useState(false)
   
   // Difficulty and topic preferences - persisted across problem generations
-  const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium')
-  const [topic, setTopic] = useState<'addition' | 'subtraction' | 'multiplication' | 'division' | 'random'>('random')
+  // 'adaptive' lets the server choose the level from recent answers
+  const [difficulty, setDifficulty] = useState<DifficultySetting>('medium')
+  const [topic, setTopic] = useState<Topic>('random')
   
   // Temporary selections in modal (committed only when "Generate Problem" is clicked)
-  const [tempDifficulty, setTempDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium')
-  const [tempTopic, setTempTopic] = useState<'addition' | 'subtraction' | 'multiplication' | 'division' | 'random'>('random')
+  const [tempDifficulty, setTempDifficulty] = useState<DifficultySetting>('medium')
+  const [tempTopic, setTempTopic] = useState<Topic>('random')
+  // Settings modal sections - the topic registry's strands, in registry order
+  const topicGroups = Array.from(new Set(TOPIC_LIST.map((t) => t.group))) as TopicGroup[]
   
   // Timer and star rating state
   const [timerSeconds, setTimerSeconds] = useState(0)
   const [timerActive, setTimerActive] = useState(false)
   const [starsEarned, setStarsEarned] = useState<number | null>(null)
+  // Attempt number and hint use for the last submission - both cap the stars
+  const [attemptNumber, setAttemptNumber] = useState(1)
+  const [hintRevealed, setHintRevealed] = useState(false)
   
   // Sound effects and achievements state
   const [soundEnabled, setSoundEnabled] = useState(true)
   const [showAchievementNotification, setShowAchievementNotification] = useState(false)
-  const [newAchievement, setNewAchievement] = useState<{name: string; icon: string; description: string} | null>(null)
+  const [newAchievement, setNewAchievement] = useState<UnlockedAchievement | null>(null)
   
-  // Achievement tracking
-  const [achievements, setAchievements] = useState<{[key: string]: boolean}>({})
-  const [problemsCompleted, setProblemsCompleted] = useState(0)
-  const [correctStreak, setCorrectStreak] = useState(0)
-  const [hintsUsed, setHintsUsed] = useState(0)
+  // Progress from /api/progress - worked out on the server from recorded submissions
+  const [progress, setProgress] = useState<ProgressStats | null>(null)
+  const [achievements, setAchievements] = useState<UnlockedAchievement[]>([])
+
+  // Spaced-repetition reviews due now, and when the last answer comes back for review
+  const [reviewDueCount, setReviewDueCount] = useState(0)
+  const [reviewScheduledAt, setReviewScheduledAt] = useState<string | null>(null)
+
+  // Joining a teacher's class with a join code
+  const [showJoinClass, setShowJoinClass] = useState(false)
+  const [joinCode, setJoinCode] = useState('')
+  const [joinMessage, setJoinMessage] = useState<string | null>(null)
+
+  // Validate each answer part's format as the student types
+  // WHY? Explains "3/4" vs "3\4" style mistakes before they lose an attempt
+  const answerParts = problem?.answer_parts ?? []
+  const answerErrors: Record<string, string> = {}
+  for (const part of answerParts) {
+    const value = partAnswers[part.name]?.trim()
+    const validation = value ? parsePartAnswer(value, part.unit) : null
+    if (validation && validation.ok === false) answerErrors[part.name] = validation.error
+  }
+  const allPartsAnswered = answerParts.length > 0 && answerParts.every((part) => partAnswers[part.name]?.trim())
+  const hasAnswerErrors = Object.keys(answerErrors).length > 0
+
+  /**
+   * Require a signed-in student
+   * WHY? Every problem and submission is saved against the student's account
+   */
+  useEffect(() => {
+    getCurrentStudent().then((currentStudent) => {
+      if (currentStudent) {
+        setStudent(currentStudent);
+      } else {
+        router.replace('/login');
+      }
+    });
+  }, [router]);
 
   /**
-   * Load achievements from localStorage on mount
+   * Sign out and return to the sign-in page
+   */
+  const handleSignOut = async () => {
+    await signOut();
+    router.replace('/login');
+  }
+
+  /**
+   * Load the sound preference from localStorage on mount
    */
   useEffect(() => {
-    const savedAchievements = localStorage.getItem('mathAchievements');
-    const savedProblemsCompleted = localStorage.getItem('problemsCompleted');
-    const savedHintsUsed = localStorage.getItem('hintsUsed');
     const savedSoundEnabled = localStorage.getItem('soundEnabled');
-    
-    if (savedAchievements) setAchievements(JSON.parse(savedAchievements));
-    if (savedProblemsCompleted) setProblemsCompleted(parseInt(savedProblemsCompleted));
-    if (savedHintsUsed) setHintsUsed(parseInt(savedHintsUsed));
     if (savedSoundEnabled !== null) setSoundEnabled(savedSoundEnabled === 'true');
   }, []);
 
+  /**
+   * Load the student's progress from the server
+   * NOTE: Progress used to be kept in localStorage. If any is left over, it's
+   * imported once and removed from the browser once the server has it
+   */
+  useEffect(() => {
+    if (!student) return;
+
+    const loadProgress = async () => {
+      try {
+        const response = await authFetch('/api/progress');
+        if (!response.ok) {
+          throw new Error(`API request failed: ${response.status}`);
+        }
+        let data = await response.json();
+
+        const savedAchievements = localStorage.getItem('mathAchievements');
+        const savedProblemsCompleted = localStorage.getItem('problemsCompleted');
+        const savedHintsUsed = localStorage.getItem('hintsUsed');
+        const hasLegacyProgress = savedAchievements !== null || savedProblemsCompleted !== null || savedHintsUsed !== null;
+
+        // Already on the server (this load, an earlier one, or another device)
+        let legacySaved = Boolean(data.legacyImported);
+        if (hasLegacyProgress && !legacySaved) {
+          // Old format: { firstSteps: true, speedStar: true, ... }
+          const unlocked: Record<string, boolean> = savedAchievements ? JSON.parse(savedAchievements) : {};
+          const importResponse = await authFetch('/api/progress/import', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              problemsCompleted: parseInt(savedProblemsCompleted ?? '0') || 0,
+              hintsUsed: parseInt(savedHintsUsed ?? '0') || 0,
+              achievements: Object.keys(unlocked).filter((key) => unlocked[key]),
+            }),
+          });
+          if (importResponse.status === 201) {
+            data = await importResponse.json();
+          }
+          legacySaved = importResponse.status === 201 || importResponse.status === 409; // 409: already imported
+        }
+
+        // WHY not on other errors? The next load retries the import - removing the
+        // keys after a failed one would lose the old progress for good
+        if (hasLegacyProgress && legacySaved) {
+          localStorage.removeItem('mathAchievements');
+          localStorage.removeItem('problemsCompleted');
+          localStorage.removeItem('hintsUsed');
+        }
+
+        setProgress(data.stats);
+        setAchievements(data.achievements);
+      } catch (error) {
+        // Progress is a nice-to-have - the student can still solve problems
+        console.error('Failed to load progress:', error);
+      }
+    };
+
+    loadProgress();
+    loadReviewStatus();
+  }, [student]);
+
+  /**
+   * How many spaced-repetition reviews are due
+   * WHY? The "Review" button only appears when something is due
+   */
+  const loadReviewStatus = async () => {
+    try {
+      const response = await authFetch('/api/review');
+      if (response.ok) {
+        const data: ReviewStatusResponse = await response.json();
+        setReviewDueCount(data.dueCount);
+      }
+    } catch (error) {
+      console.error('Failed to load review queue:', error);
+    }
+  };
+
   /**
    * Play sound effect
    * WHY? Audio feedback makes the app more engaging for kids
@@ -100,89 +244,72 @@ export default function Home() {
   };
 
   /**
-   * Check and award achievements
+   * Join a teacher's class so they can see your progress
    */
-  const checkAchievements = (isCorrect: boolean, stars: number) => {
-    const newAchievementsUnlocked: {[key: string]: {name: string; icon: string; description: string}} = {};
-    
-    // First Steps - Complete first problem
-    if (problemsCompleted === 0 && !achievements.firstSteps) {
-      newAchievementsUnlocked.firstSteps = {
-        name: 'First Steps',
-        icon: '🎯',
-        description: 'Completed your first problem!'
-      };
-    }
-    
-    // Speed Star - Get 3 stars
-    if (stars === 3 && !achievements.speedStar) {
-      newAchievementsUnlocked.speedStar = {
-        name: 'Speed Star',
-        icon: '⚡',
-        description: 'Lightning fast! Got 3 stars!'
-      };
-    }
-    
-    // Problem Solver - 5 problems total
-    if (problemsCompleted + 1 >= 5 && !achievements.problemSolver) {
-      newAchievementsUnlocked.problemSolver = {
-        name: 'Problem Solver',
-        icon: '🧠',
-        description: 'Solved 5 problems!'
-      };
-    }
-    
-    // Perfection - 3 correct in a row
-    if (isCorrect && correctStreak + 1 >= 3 && !achievements.perfection) {
-      newAchievementsUnlocked.perfection = {
-        name: 'Perfection',
-        icon: '💯',
-        description: '3 correct answers in a row!'
-      };
-    }
-    
-    // Helper Seeker - Use a hint
-    if (hintsUsed === 1 && !achievements.helperSeeker) {
-      newAchievementsUnlocked.helperSeeker = {
-        name: 'Helper Seeker',
-        icon: '💡',
-        description: 'Smart! You used a hint!'
-      };
-    }
-    
-    // Save and show new achievements
-    if (Object.keys(newAchievementsUnlocked).length > 0) {
-      const updatedAchievements = { ...achievements, ...Object.keys(newAchievementsUnlocked).reduce((acc, key) => ({ ...acc, [key]: true }), {}) };
-      setAchievements(updatedAchievements);
-      localStorage.setItem('mathAchievements', JSON.stringify(updatedAchievements));
-      
-      // Show first new achievement
-      const firstKey = Object.keys(newAchievementsUnlocked)[0];
-      setNewAchievement(newAchievementsUnlocked[firstKey]);
-      setShowAchievementNotification(true);
+  const handleJoinClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+
+    try {
+      const response = await authFetch('/api/classes/join', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ joinCode: joinCode.trim() }),
+      });
+
+      if (response.status === 401) {
+        router.replace('/login');
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        setJoinMessage(`⚠️ ${data.message || data.error}`);
+        return;
+      }
+
+      setJoinMessage(`🎉 You joined ${data.className}!`);
+      setJoinCode('');
       playSound('bling');
-      
-      // Auto-hide after 4 seconds
-      setTimeout(() => setShowAchievementNotification(false), 4000);
+    } catch (error) {
+      console.error('Failed to join class:', error);
+      setJoinMessage('⚠️ Failed to join the class. Please try again.');
     }
   };
 
   /**
-   * Calculate stars earned based on time and difficulty
-   * WHY? Rewards both speed and accuracy for better engagement
+   * Celebrate achievements the server has just unlocked
+   * WHY from the API? The server decides what's earned, so it can't be forged
    */
-  const calculateStars = (timeInSeconds: number, difficultyLevel: 'easy' | 'medium' | 'hard'): number => {
-    const thresholds = {
-      easy: { three: 30, two: 60 },
-      medium: { three: 60, two: 120 },
-      hard: { three: 120, two: 180 }
-    };
+  const announceAchievements = (unlocked: UnlockedAchievement[] | undefined) => {
+    if (!unlocked || unlocked.length === 0) return;
 
-    const threshold = thresholds[difficultyLevel];
-    
-    if (timeInSeconds < threshold.three) return 3;
-    if (timeInSeconds < threshold.two) return 2;
-    return 1;
+    setAchievements((current) => [...current, ...unlocked]);
+
+    // Show first new achievement
+    setNewAchievement(unlocked[0]);
+    setShowAchievementNotification(true);
+    playSound('bling');
+
+    // Auto-hide after 4 seconds
+    setTimeout(() => setShowAchievementNotification(false), 4000);
+  };
+
+  /**
+   * Refresh counters and streaks after a submission or hint
+   */
+  const refreshProgress = async () => {
+    try {
+      const response = await authFetch('/api/progress');
+      if (response.ok) {
+        const data: ProgressResponse = await response.json();
+        setProgress(data.stats);
+      }
+    } catch (error) {
+      console.error('Failed to refresh progress:', error);
+    }
   };
 
   /**
@@ -238,9 +365,13 @@ export default function Home() {
   /**
    * Handle closing the feedback modal
    * WHY? Allows users to re-attempt the same question
+   * NOTE: After a wrong answer the timer carries on, so a retry's time includes the rethink
    */
   const closeFeedbackModal = () => {
     setShowFeedbackModal(false);
+    if (!isCorrect) {
+      setTimerActive(true);
+    }
   }
 
   /**
@@ -344,7 +475,7 @@ export default function Home() {
    * - Loading state automatically cleared on error
    * - User-friendly error message displayed
    */
-  const generateProblemWithSettings = async (selectedDifficulty: 'easy' | 'medium' | 'hard', selectedTopic: 'addition' | 'subtraction' | 'multiplication' | 'division' | 'random') => {
+  const generateProblemWithSettings = async (selectedDifficulty: DifficultySetting, selectedTopic: Topic) => {
     // Set loading state to true immediately to prevent multiple rapid clicks
     // WHY? Users might click button multiple times quickly, causing duplicate requests
     setIsLoading(true);
@@ -354,7 +485,7 @@ export default function Home() {
       // Make API call to generate new problem with user preferences
       // WHY POST method? Creating a new resource (problem session)
       // WHY send body? User's difficulty and topic preferences customize the problem
-      const response = await fetch('/api/math-problem', {
+      const response = await authFetch('/api/math-problem', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -365,6 +496,12 @@ export default function Home() {
         }),
       });
 
+      // Session expired or signed out in another tab - back to sign-in
+      if (response.status === 401) {
+        router.replace('/login');
+        return;
+      }
+
       // Check if the API call was successful
       // WHY? Network errors or server issues should be handled gracefully
       if (!response.ok) {
@@ -374,27 +511,7 @@ export default function Home() {
       // Parse the JSON response from the API
       // WHY await? Response.json() returns a Promise
       const data = await response.json();
-
-      // Update state with the new problem and session information
-      // WHY? Frontend needs to display the problem and track which session this is for submissions
-      setProblem(data.problem);
-      setSessionId(data.sessionId);
-
-      // Clear previous feedback, user input, and any error messages when generating new problem
-      // WHY? Prevents confusion from old feedback showing with new problem
-      setFeedback('');
-      setUserAnswer('');
-      setIsCorrect(null);
-      setError(null); // Clear any previous errors on successful generation
-      setShowHint(false); // Reset hint visibility for new problem
-      setStarsEarned(null); // Reset stars for new problem
-      
-      // Start timer for new problem
-      setTimerSeconds(0);
-      setTimerActive(true);
-      
-      // Play success sound
-      playSound('whoosh');
+      startProblem(data);
 
     } catch (error) {
       // Handle any errors during the API call
@@ -413,6 +530,119 @@ export default function Home() {
     }
   }
 
+  /**
+   * Shows a freshly generated problem (new or review) and starts the timer
+   */
+  const startProblem = (data: { problem: MathProblem; sessionId: string }) => {
+    // Update state with the new problem and session information
+    // WHY? Frontend needs to display the problem and track which session this is for submissions
+    setProblem(data.problem);
+    setSessionId(data.sessionId);
+
+    // Clear previous feedback, user input, and any error messages when generating new problem
+    // WHY? Prevents confusion from old feedback showing with new problem
+    setFeedback('');
+    setWorkedSolution(null);
+    setPartAnswers({});
+    setPartResults([]);
+    setIsCorrect(null);
+    setError(null); // Clear any previous errors on successful generation
+    setHints([]); // Hints for the new problem are fetched only when requested
+    setMaxHintLevel(null);
+    setStarsEarned(null); // Reset stars for new problem
+    setReviewScheduledAt(null);
+    
+    // Start timer for new problem
+    setTimerSeconds(0);
+    setTimerActive(true);
+    
+    // Play success sound
+    playSound('whoosh');
+  }
+
+  /**
+   * Serves the most overdue review - a new version of a problem answered weakly before
+   * WHY new numbers? So it's worked out again, not remembered
+   */
+  const startReview = async () => {
+    setShowFeedbackModal(false);
+    setIsLoading(true);
+    setLoadingType('generating');
+
+    try {
+      const response = await authFetch('/api/review/next', { method: 'POST' });
+
+      if (response.status === 401) {
+        router.replace('/login');
+        return;
+      }
+
+      // Nothing due any more (e.g. reviewed in another tab)
+      if (response.status === 404) {
+        setReviewDueCount(0);
+        setError('Nothing to review right now - try a new problem!');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status}`);
+      }
+
+      startProblem(await response.json());
+      setReviewDueCount((count) => Math.max(count - 1, 0));
+    } catch (error) {
+      console.error('Failed to start review:', error);
+      setError('Failed to load your review. Please try again.');
+    } finally {
+      setIsLoading(false);
+      setLoadingType(null);
+    }
+  }
+
+  /**
+   * Fetches and reveals the next hint level for the current problem
+   * WHY fetch on demand? Hints aren't sent with the problem, so they stay hidden
+   * until the student actually asks for help - and then only one step at a time
+   */
+  const revealHint = async () => {
+    if (!sessionId) return;
+
+    playSound('click');
+    setIsHintLoading(true);
+
+    try {
+      const response = await authFetch('/api/math-problem/hint', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sessionId, level: hints.length + 1 }),
+      });
+
+      if (response.status === 401) {
+        router.replace('/login');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status}`);
+      }
+
+      const data: HintResponse = await response.json();
+      setHints(data.revealed);
+      setMaxHintLevel(data.maxLevel);
+
+      // The server recorded the reveal - Helper Seeker may have just unlocked
+      announceAchievements(data.newAchievements);
+      refreshProgress();
+    } catch (error) {
+      console.error('Failed to fetch hint:', error);
+      setError('Failed to load the hint. Please try again.');
+    } finally {
+      setIsHintLoading(false);
+    }
+  }
+
   /**
    * Submits the user's answer and gets AI-generated feedback
    *
@@ -420,18 +650,18 @@ export default function Home() {
    * 1. Prevents default form submission behavior
    * 2. Sends user's answer and session ID to /api/math-problem/submit
    * 3. API compares answer with correct answer and generates feedback using AI
-   * 4. Updates UI with feedback and correctness status
+   * 4. Updates UI with feedback, correctness status and stars from the API
    *
    * WHY THIS APPROACH?
    * - e.preventDefault() prevents page reload on form submission
    * - Validates session exists before making API call (user must generate problem first)
-   * - Converts string input to number for proper comparison
+   * - Sends the answer as typed so fractions and mixed numbers stay exact
    * - Updates multiple state variables to show comprehensive feedback
    *
    * FORM VALIDATION STRATEGY:
-   * - Button already disabled if userAnswer is empty (handled in JSX)
+   * - Button already disabled if any answer part is empty or not a valid number format (handled in JSX)
    * - Additional check prevents submission without active session
-   * - Number conversion ensures proper data type for API
+   * - Server re-validates the format and returns a message if it disagrees
    */
   const submitAnswer = async (e: React.FormEvent) => {
     // Prevent default form submission (page reload)
@@ -445,6 +675,11 @@ export default function Home() {
       return;
     }
 
+    // Don't submit answers we already know the API will reject
+    if (!allPartsAnswered || hasAnswerErrors) {
+      return;
+    }
+
     // Stop timer immediately when submit is clicked
     setTimerActive(false);
     const finalTime = timerSeconds;
@@ -455,21 +690,18 @@ export default function Home() {
     setLoadingType('checking');
 
     try {
-      // Calculate stars if answer will be correct (we'll verify after API call)
-      // WHY? Stars are only awarded for correct answers
-      const potentialStars = calculateStars(finalTime, difficulty);
-      
       // Prepare request body with session ID, user's answer, and time taken
-      // WHY parseInt? Converts string input to number for proper comparison
+      // WHY send text? "3/4" and "1 1/2" can't survive a number conversion
+      // NOTE: Answers are keyed by part name so multi-part problems are graded part by part
       const requestBody = {
         sessionId: sessionId,
-        userAnswer: parseInt(userAnswer), // Convert string to number
+        answers: Object.fromEntries(answerParts.map((part) => [part.name, (partAnswers[part.name] ?? '').trim()])),
         timeTakenSeconds: finalTime,
       };
 
       // Make API call to submit answer and get feedback
       // WHY POST method? Creating a new submission record
-      const response = await fetch('/api/math-problem/submit', {
+      const response = await authFetch('/api/math-problem/submit', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -477,51 +709,62 @@ export default function Home() {
         body: JSON.stringify(requestBody),
       });
 
+      // Answer format rejected by the server - let the student fix it and carry on
+      if (response.status === 400) {
+        const errorData: ApiErrorResponse = await response.json();
+        setError(errorData.message || errorData.error);
+        setTimerActive(true);
+        return;
+      }
+
+      if (response.status === 401) {
+        router.replace('/login');
+        return;
+      }
+
       // Check if API call was successful
       if (!response.ok) {
         throw new Error(`API request failed: ${response.status}`);
       }
 
       // Parse the response containing feedback and correctness
-      const data = await response.json();
+      const data: SubmitAnswerResponse = await response.json();
 
       // Update UI state with feedback results
       // WHY? Shows user whether they were correct and provides learning feedback
       setFeedback(data.feedback);
+      setWorkedSolution(data.workedSolution ?? null);
+      // WHY hide the steps after a wrong answer? The student can check one step at a
+      // time and retry, instead of seeing the whole answer straight away
+      setStepsShown(data.isCorrect ? data.workedSolution?.steps.length ?? 0 : 0);
       setIsCorrect(data.isCorrect);
+      setPartResults(data.partResults ?? []);
+      setAttemptNumber(data.attemptNumber ?? 1);
+      setHintRevealed(Boolean(data.hintRevealed));
       setError(null); // Clear any previous errors on successful submission
 
       // Award stars only if answer is correct
+      // WHY from the API? The server is the only place that knows the answer
       if (data.isCorrect) {
-        setStarsEarned(potentialStars);
+        setStarsEarned(data.starsEarned);
         triggerConfetti();
         playSound('success');
-        
-        // Update streak and problems completed
-        const newStreak = correctStreak + 1;
-        setCorrectStreak(newStreak);
-        const newProblemsCompleted = problemsCompleted + 1;
-        setProblemsCompleted(newProblemsCompleted);
-        localStorage.setItem('problemsCompleted', newProblemsCompleted.toString());
-        
-        // Check for achievements
-        checkAchievements(true, potentialStars);
       } else {
         setStarsEarned(0); // No stars for incorrect answers
-        setCorrectStreak(0); // Reset streak on incorrect answer
-        
-        // Still count as problem attempted
-        const newProblemsCompleted = problemsCompleted + 1;
-        setProblemsCompleted(newProblemsCompleted);
-        localStorage.setItem('problemsCompleted', newProblemsCompleted.toString());
-        
-        checkAchievements(false, 0);
       }
 
+      // Streaks, counters and achievements are worked out by the server
+      announceAchievements(data.newAchievements);
+      refreshProgress();
+
+      // Weak answers come back later as review problems
+      setReviewScheduledAt(data.reviewScheduledAt ?? null);
+      loadReviewStatus();
+
       // Show feedback modal immediately
       setShowFeedbackModal(true);
 
-      // Note: We don't clear userAnswer here - user might want to see what they entered
+      // Note: We don't clear partAnswers here - user might want to see what they entered
       // They'll need to generate a new problem to continue
 
     } catch (error) {
@@ -551,6 +794,72 @@ export default function Home() {
       ></div>
 
       <main className="container mx-auto px-4 py-8 max-w-3xl relative flex items-center justify-center min-h-screen" style={{ zIndex: 1 }}>
+        {/* Signed-in Student - Top Left */}
+        {student && (
+          <div className="fixed top-4 left-4 z-50 flex items-center gap-2 bg-white/90 backdrop-blur-sm pl-4 pr-2 py-2 rounded-full shadow-lg">
+            <span className="text-sm font-bold text-gray-700">🙂 {student.displayName}</span>
+            {progress && (
+              <span
+                className="text-xs font-semibold text-gray-600"
+                title={achievements.map((achievement) => `${achievement.icon} ${achievement.name}`).join('\n') || 'No achievements yet'}
+              >
+                ⭐ {progress.totalStars} · 🔥 {progress.correctStreak} · 🏅 {achievements.length}
+              </span>
+            )}
+            <button
+              onClick={() => {
+                setShowJoinClass(!showJoinClass);
+                setJoinMessage(null);
+              }}
+              className="text-xs font-semibold text-gray-500 hover:text-gray-800 bg-gray-100 hover:bg-gray-200 px-3 py-1 rounded-full transition duration-200"
+            >
+              🏫 Join class
+            </button>
+            <button
+              onClick={() => router.push('/quiz')}
+              className="text-xs font-semibold text-gray-500 hover:text-gray-800 bg-gray-100 hover:bg-gray-200 px-3 py-1 rounded-full transition duration-200"
+            >
+              📝 Quiz
+            </button>
+            <button
+              onClick={handleSignOut}
+              className="text-xs font-semibold text-gray-500 hover:text-gray-800 bg-gray-100 hover:bg-gray-200 px-3 py-1 rounded-full transition duration-200"
+            >
+              Sign out
+            </button>
+          </div>
+        )}
+
+        {/* Join Class Form - under the name chip */}
+        {student && showJoinClass && (
+          <form
+            onSubmit={handleJoinClass}
+            className="fixed top-16 left-4 z-50 bg-white/95 backdrop-blur-sm p-4 rounded-2xl shadow-lg w-72"
+          >
+            <label htmlFor="joinCode" className="block text-sm font-bold text-gray-700 mb-2">
+              Class code from your teacher
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="joinCode"
+                type="text"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                maxLength={6}
+                className="flex-1 min-w-0 px-3 py-2 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono font-bold tracking-widest text-gray-900 uppercase"
+              />
+              <button
+                type="submit"
+                disabled={!joinCode.trim()}
+                className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-400 text-white text-sm font-bold px-4 py-2 rounded-xl transition duration-200"
+              >
+                Join
+              </button>
+            </div>
+            {joinMessage && <p className="text-sm font-semibold text-gray-700 mt-2">{joinMessage}</p>}
+          </form>
+        )}
+
         {/* Sound Toggle Button - Top Right */}
         <button
           onClick={() => {
@@ -576,7 +885,7 @@ export default function Home() {
 
           {/* Generate button or loading animation - shown when no problem exists */}
           {!problem && !isLoading && (
-            <div className="mb-6">
+            <div className={`mb-6 grid grid-cols-1 gap-4 ${reviewDueCount > 0 ? 'sm:grid-cols-2' : ''}`}>
           <button
                 onClick={openSettingsModal}
             disabled={isLoading}
@@ -584,6 +893,16 @@ export default function Home() {
           >
                 🎲 New Problem
           </button>
+              {/* Review - only shown when something is due */}
+              {reviewDueCount > 0 && (
+                <button
+                  onClick={startReview}
+                  disabled={isLoading}
+                  className="w-full bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl transition duration-300 ease-in-out transform hover:scale-105 hover:shadow-xl disabled:transform-none"
+                >
+                  🔁 Review ({reviewDueCount})
+                </button>
+              )}
         </div>
           )}
           
@@ -623,19 +942,30 @@ export default function Home() {
                 </h2>
                 {/* Difficulty Badge */}
                 <span className={`px-3 py-1 rounded-full text-xs font-bold ${
-                  difficulty === 'easy' ? 'bg-green-100 text-green-700' :
-                  difficulty === 'medium' ? 'bg-blue-100 text-blue-700' :
+                  problem.difficulty === 'easy' ? 'bg-green-100 text-green-700' :
+                  problem.difficulty === 'medium' ? 'bg-blue-100 text-blue-700' :
                   'bg-red-100 text-red-700'
                 }`}>
-                  {difficulty.toUpperCase()}
+                  {problem.difficulty.toUpperCase()}
                 </span>
+                {/* Review Badge */}
+                {problem.is_review && (
+                  <span className="px-3 py-1 rounded-full text-xs font-bold bg-teal-100 text-teal-700">
+                    🔁 REVIEW
+                  </span>
+                )}
+                {/* Adaptive Level Badge - hover for why this level was chosen */}
+                {problem.adaptive && (
+                  <span
+                    className="px-3 py-1 rounded-full text-xs font-bold bg-teal-100 text-teal-700"
+                    title={problem.adaptive.reason}
+                  >
+                    🧭 LEVEL {problem.adaptive.level}
+                  </span>
+                )}
                 {/* Topic Badge */}
                 <span className="px-3 py-1 rounded-full text-xs font-bold bg-purple-100 text-purple-700">
-                  {topic === 'addition' ? '➕ Addition' :
-                   topic === 'subtraction' ? '➖ Subtraction' :
-                   topic === 'multiplication' ? '✖️ Multiplication' :
-                   topic === 'division' ? '➗ Division' :
-                   '🎲 Random'}
+                  {TOPICS[topic].icon} {TOPICS[topic].label}
                 </span>
               </div>
               {/* Timer Display */}
@@ -650,44 +980,40 @@ export default function Home() {
               {problem.problem_text}
             </p>
             
-            {/* Hint Button - Only show if hint is available */}
-            {problem.hint && (
-              <div className="mb-6">
-                {!showHint ? (
+            {/* Hint Stepper - each click reveals one more level, from a nudge to part of the working */}
+            {problem.has_hint && (
+              <div className="mb-6 space-y-3">
+                {hints.length > 0 && (
+                  <div className="bg-gradient-to-r from-amber-50 to-yellow-50 border-2 border-amber-300 rounded-xl p-5 shadow-md">
+                    <p className="text-sm font-bold text-amber-800 mb-3">
+                      💡 Hints {maxHintLevel !== null && `(${hints.length} of ${maxHintLevel})`}
+                    </p>
+                    <ol className="space-y-3">
+                      {hints.map((revealedHint) => (
+                        <li key={revealedHint.level} className="flex gap-3">
+                          <span className="flex-shrink-0 w-6 h-6 rounded-full bg-amber-400 text-white text-xs font-bold flex items-center justify-center">
+                            {revealedHint.level}
+                          </span>
+                          <div>
+                            <p className="text-xs font-semibold uppercase tracking-wide text-amber-700">{revealedHint.label}</p>
+                            <p className="text-sm text-amber-900 leading-relaxed">{revealedHint.text}</p>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+                {(maxHintLevel === null || hints.length < maxHintLevel) && (
                   <button
-                    onClick={() => {
-                      setShowHint(true);
-                      playSound('click');
-                      const newHintsUsed = hintsUsed + 1;
-                      setHintsUsed(newHintsUsed);
-                      localStorage.setItem('hintsUsed', newHintsUsed.toString());
-                      
-                      // Check for Helper Seeker achievement
-                      if (newHintsUsed === 1 && !achievements.helperSeeker) {
-                        const helperAchievement = {
-                          name: 'Helper Seeker',
-                          icon: '💡',
-                          description: 'Smart! You used a hint!'
-                        };
-                        const updatedAchievements = { ...achievements, helperSeeker: true };
-                        setAchievements(updatedAchievements);
-                        localStorage.setItem('mathAchievements', JSON.stringify(updatedAchievements));
-                        setNewAchievement(helperAchievement);
-                        setShowAchievementNotification(true);
-                        playSound('bling');
-                        setTimeout(() => setShowAchievementNotification(false), 4000);
-                      }
-                    }}
+                    onClick={revealHint}
+                    disabled={isHintLoading}
                     type="button"
-                    className="text-amber-600 hover:text-amber-700 font-semibold text-sm flex items-center gap-2 transition duration-200 hover:gap-3"
+                    className="text-amber-600 hover:text-amber-700 disabled:text-gray-400 font-semibold text-sm flex items-center gap-2 transition duration-200 hover:gap-3"
                   >
-                    💡 Need Help? Show Hint
+                    {isHintLoading
+                      ? '💡 Loading hint...'
+                      : hints.length === 0 ? '💡 Need Help? Show Hint' : '💡 Still stuck? Show Next Hint'}
                   </button>
-                ) : (
-                  <div className="bg-gradient-to-r from-amber-50 to-yellow-50 border-2 border-amber-300 rounded-xl p-5 shadow-md">
-                    <p className="text-sm font-bold text-amber-800 mb-2">💡 Hint</p>
-                    <p className="text-sm text-amber-900 leading-relaxed">{problem.hint}</p>
-                  </div>
                 )}
               </div>
             )}
@@ -717,27 +1043,60 @@ export default function Home() {
                 </div>
               )}
               
-              <div>
-                <label htmlFor="answer" className="block text-base font-bold text-gray-700 mb-3">
-                  ✍️ Your Answer:
-                </label>
-                <input
-                  type="number"
-                  id="answer"
-                  value={userAnswer}
-                  onChange={(e) => setUserAnswer(e.target.value)}
-                  className="w-full px-5 py-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200 text-lg font-medium text-gray-900"
-                  placeholder="Enter your answer"
-                  required
-                  disabled={isLoading}
-                />
-              </div>
+              {/* One input per answer part - single-answer problems just show "Your Answer" */}
+              {answerParts.map((part) => {
+                const inputId = `answer-${part.name}`
+                const partError = answerErrors[part.name]
+                return (
+                  <div key={part.name}>
+                    <label htmlFor={inputId} className="block text-base font-bold text-gray-700 mb-3">
+                      ✍️ {answerParts.length === 1 ? 'Your Answer' : part.label}:
+                    </label>
+                    <div className="flex items-center gap-3">
+                      {isPrefixUnit(part.unit) && (
+                        <span className="text-lg font-bold text-gray-600">{part.unit}</span>
+                      )}
+                      {/* Text input so students can type fractions (3/4) and mixed numbers (1 1/2) */}
+                      <input
+                        type="text"
+                        id={inputId}
+                        value={partAnswers[part.name] ?? ''}
+                        onChange={(e) => setPartAnswers((prev) => ({ ...prev, [part.name]: e.target.value }))}
+                        className={`w-full px-5 py-3 border-2 rounded-xl focus:ring-2 transition duration-200 text-lg font-medium text-gray-900 ${
+                          partError
+                            ? 'border-red-300 focus:ring-red-400 focus:border-red-400'
+                            : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                        }`}
+                        placeholder="e.g. 42, 2.5, 3/4 or 1 1/2"
+                        autoComplete="off"
+                        aria-invalid={!!partError}
+                        aria-describedby={`${inputId}-help`}
+                        required
+                        disabled={isLoading}
+                      />
+                      {part.unit && !isPrefixUnit(part.unit) && (
+                        <span className="text-lg font-bold text-gray-600 whitespace-nowrap">{part.unit}</span>
+                      )}
+                    </div>
+                    {/* Live validation message - shown as soon as the format looks wrong */}
+                    {partError ? (
+                      <p id={`${inputId}-help`} className="mt-2 text-sm font-semibold text-red-600">
+                        ⚠️ {partError}
+                      </p>
+                    ) : (
+                      <p id={`${inputId}-help`} className="mt-2 text-xs text-gray-500">
+                        Whole numbers, decimals, fractions and mixed numbers are all OK.
+                      </p>
+                    )}
+                  </div>
+                )
+              })}
               
               {/* Action buttons - responsive: stacked on mobile, side-by-side on desktop */}
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className={`grid grid-cols-1 gap-4 ${reviewDueCount > 0 ? 'sm:grid-cols-3' : 'sm:grid-cols-2'}`}>
               <button
                 type="submit"
-                disabled={!userAnswer || isLoading}
+                disabled={!allPartsAnswered || hasAnswerErrors || isLoading}
                   className="bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl transition duration-300 ease-in-out transform hover:scale-105 hover:shadow-xl disabled:transform-none"
                 >
                   ✅ Submit Answer
@@ -751,6 +1110,16 @@ export default function Home() {
                 >
                   🎲 New Problem
               </button>
+                {reviewDueCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={startReview}
+                    disabled={isLoading}
+                    className="bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 disabled:bg-gray-400 text-white font-bold py-4 px-6 rounded-xl transition duration-300 ease-in-out transform hover:scale-105 hover:shadow-xl disabled:transform-none"
+                  >
+                    🔁 Review ({reviewDueCount})
+                  </button>
+                )}
               </div>
             </form>
           </div>
@@ -812,6 +1181,15 @@ export default function Home() {
                     ))}
                   </div>
                 )}
+
+                {/* Why stars were capped - retries earn at most 1, hint-assisted answers at most 2 */}
+                {isCorrect && (attemptNumber > 1 || hintRevealed) && (
+                  <p className="text-center text-xs font-semibold text-gray-500 mb-4">
+                    {attemptNumber > 1
+                      ? `Attempt ${attemptNumber} - solve it first time for up to 3 stars`
+                      : '💡 Hint used - solve it without the hint for 3 stars'}
+                  </p>
+                )}
                 
                 {/* Time Display */}
                 {timerSeconds > 0 && (
@@ -830,10 +1208,74 @@ export default function Home() {
                   <h2 className="text-2xl md:text-3xl font-bold mb-3 text-gray-900">
                     {isCorrect ? '🎉 Correct! Amazing!' : '🤔 Not quite right'}
                   </h2>
+                  {/* Per-part results - only useful when there's more than one answer */}
+                  {partResults.length > 1 && (
+                    <ul className="flex flex-wrap justify-center gap-2 mb-4">
+                      {partResults.map((result) => (
+                        <li
+                          key={result.name}
+                          className={`px-3 py-1 rounded-full text-sm font-bold ${
+                            result.isCorrect ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                          }`}
+                        >
+                          {result.isCorrect ? '✅' : '❌'} {answerParts.find((part) => part.name === result.name)?.label ?? result.name}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   <p className="text-gray-900 leading-relaxed text-base font-medium">
                     {feedback}
                   </p>
+                  {reviewScheduledAt && (
+                    <p className="text-sm text-teal-700 font-semibold mt-3">
+                      🔁 A problem like this will come back for review on {new Date(reviewScheduledAt).toLocaleDateString()}.
+                    </p>
+                  )}
                 </div>
+
+                {/* Worked Solution - numbered steps, revealed one at a time or all at once */}
+                {workedSolution && workedSolution.steps.length > 0 && (
+                  <div className="mt-5 p-5 rounded-2xl bg-blue-50 border-2 border-blue-200">
+                    <p className="text-sm font-bold text-blue-800 mb-3">🧮 Worked Solution</p>
+                    {stepsShown > 0 && (
+                      <ol className="space-y-3">
+                        {workedSolution.steps.slice(0, stepsShown).map((step, index) => (
+                          <li key={index} className="flex gap-3">
+                            <span className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-500 text-white text-xs font-bold flex items-center justify-center">
+                              {index + 1}
+                            </span>
+                            <div>
+                              <p className="text-sm text-gray-800">{step.description}</p>
+                              <p className="text-sm font-mono font-semibold text-blue-900">
+                                {step.expression} = {step.result}
+                              </p>
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    {stepsShown < workedSolution.steps.length ? (
+                      <div className="flex gap-4 mt-3">
+                        <button
+                          type="button"
+                          onClick={() => setStepsShown(stepsShown + 1)}
+                          className="text-blue-600 hover:text-blue-700 font-semibold text-sm"
+                        >
+                          👣 {stepsShown === 0 ? 'Show the first step' : 'Show next step'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setStepsShown(workedSolution.steps.length)}
+                          className="text-gray-500 hover:text-gray-700 font-semibold text-sm"
+                        >
+                          Show all steps
+                        </button>
+                      </div>
+                    ) : (
+                      <p className="mt-3 text-sm font-bold text-blue-900">✅ Answer: {workedSolution.answer}</p>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Scroll Indicator - subtle gradient fade at bottom */}
@@ -847,6 +1289,14 @@ export default function Home() {
                 >
                   🎲 Try Another Problem
                 </button>
+                {reviewDueCount > 0 && (
+                  <button
+                    onClick={startReview}
+                    className="w-full mt-3 bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 text-white font-bold py-3 px-6 rounded-xl transition duration-300 ease-in-out transform hover:scale-105 hover:shadow-xl"
+                  >
+                    🔁 Review ({reviewDueCount} due)
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -879,7 +1329,7 @@ export default function Home() {
           {/* Modal Container */}
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
             <div 
-              className="relative w-full max-w-md bg-white rounded-3xl shadow-2xl p-8 transform transition-all duration-300 scale-100 border-4 border-blue-400"
+              className="relative w-full max-w-md max-h-[90vh] overflow-y-auto bg-white rounded-3xl shadow-2xl p-8 transform transition-all duration-300 scale-100 border-4 border-blue-400"
               style={{ animation: 'modalFadeIn 0.3s ease-out' }}
             >
               {/* Close button (X) */}
@@ -917,6 +1367,17 @@ export default function Home() {
                       {level.charAt(0).toUpperCase() + level.slice(1)}
                     </button>
                   ))}
+                  {/* Adaptive - full width so it reads as "let the app decide" */}
+                  <button
+                    onClick={() => setTempDifficulty('adaptive')}
+                    className={`w-full px-4 py-3 rounded-lg font-semibold transition duration-200 ${
+                      tempDifficulty === 'adaptive'
+                        ? 'bg-gradient-to-r from-teal-500 to-teal-600 text-white shadow-lg transform scale-105'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    🧭 Adaptive - picks the right level for you
+                  </button>
                 </div>
               </div>
 
@@ -925,26 +1386,33 @@ export default function Home() {
                 <label className="block text-sm font-bold text-gray-700 mb-3">
                   📚 Topic
                 </label>
-                <div className="grid grid-cols-2 gap-2">
-                  {[
-                    { key: 'addition' as const, icon: '➕', label: 'Addition' },
-                    { key: 'subtraction' as const, icon: '➖', label: 'Subtraction' },
-                    { key: 'multiplication' as const, icon: '✖️', label: 'Multiply' },
-                    { key: 'division' as const, icon: '➗', label: 'Division' },
-                    { key: 'random' as const, icon: '🎲', label: 'Random', fullWidth: true }
-                  ].map((t) => (
-                    <button
-                      key={t.key}
-                      onClick={() => setTempTopic(t.key)}
-                      className={`px-4 py-3 rounded-lg font-semibold transition duration-200 text-sm ${
-                        tempTopic === t.key
-                          ? 'bg-gradient-to-r from-purple-500 to-pink-600 text-white shadow-lg transform scale-105'
-                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                      } ${(t as any).fullWidth ? 'col-span-2' : ''}`}
-                    >
-                      <span className="mr-2">{t.icon}</span>
-                      {t.label}
-                    </button>
+                {/* WHY from the registry? New topics show up here without touching this page */}
+                <div className="space-y-4">
+                  {topicGroups.map((group) => (
+                    <div key={group}>
+                      {group !== 'mixed' && (
+                        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                          {TOPIC_GROUP_LABELS[group]}
+                        </p>
+                      )}
+                      <div className="grid grid-cols-2 gap-2">
+                        {TOPIC_LIST.filter((t) => t.group === group).map((t) => (
+                          <button
+                            key={t.id}
+                            onClick={() => setTempTopic(t.id)}
+                            title={t.label}
+                            className={`px-4 py-3 rounded-lg font-semibold transition duration-200 text-sm ${
+                              tempTopic === t.id
+                                ? 'bg-gradient-to-r from-purple-500 to-pink-600 text-white shadow-lg transform scale-105'
+                                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                            } ${t.id === 'random' ? 'col-span-2' : ''}`}
+                          >
+                            <span className="mr-2">{t.icon}</span>
+                            {t.shortLabel}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
                   ))}
                 </div>
               </div>
@@ -0,0 +1,518 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { authFetch, getCurrentStudent, Student } from '../../lib/authClient'
+import { isPrefixUnit, parsePartAnswer } from '../../lib/math/answerSchema'
+import type { DifficultyMix, QuizDetail, QuizSummary } from '../../lib/quiz'
+import type { UnlockedAchievement } from '../../lib/progress'
+import { Topic, topicLabel, TOPIC_LIST } from '../../lib/topics'
+
+const DIFFICULTY_MIXES: Array<{ key: DifficultyMix; label: string }> = [
+  { key: 'easy', label: '🟢 Easy' },
+  { key: 'medium', label: '🟡 Medium' },
+  { key: 'hard', label: '🔴 Hard' },
+  { key: 'mixed', label: '🌈 Mixed (gets harder)' },
+]
+
+const QUESTION_COUNTS = [3, 5, 10]
+
+// Quiz answers that can't be read come back keyed by session ID, then part name
+type AnswerErrors = Record<string, Record<string, string>>
+
+/**
+ * A quiz API route's error response
+ */
+class ApiError extends Error {
+  constructor(message: string, readonly fieldErrors: AnswerErrors | null) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '–'
+}
+
+/**
+ * Quiz Mode
+ *
+ * HOW IT WORKS:
+ * - Setup: pick how many questions, a topic and a difficulty mix
+ * - The quiz: move between questions freely; answers stay where you left them
+ * - Submit all: every answer is graded together, then a scored summary shows
+ *   each question's answer, the correct answer and AI feedback
+ * - Past quizzes can be opened again to review the whole attempt
+ *
+ * NOTE: Time is tracked per question (while it's on screen) and for the whole quiz
+ */
+export default function QuizPage() {
+  const router = useRouter()
+  const [student, setStudent] = useState<Student | null>(null)
+  const [quizzes, setQuizzes] = useState<QuizSummary[]>([])
+  const [quiz, setQuiz] = useState<QuizDetail | null>(null)
+  const [questionCount, setQuestionCount] = useState(5)
+  const [topic, setTopic] = useState<Topic>('random')
+  const [difficultyMix, setDifficultyMix] = useState<DifficultyMix>('mixed')
+  const [currentIndex, setCurrentIndex] = useState(0)
+  // Answers keyed by session ID, then part name
+  const [answers, setAnswers] = useState<Record<string, Record<string, string>>>({})
+  const [serverErrors, setServerErrors] = useState<AnswerErrors>({})
+  const [newAchievements, setNewAchievements] = useState<UnlockedAchievement[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Seconds spent on each question, and when the current one (and the quiz) started
+  // WHY refs? Updated on every navigation but never rendered
+  const questionTimes = useRef<Record<string, number>>({})
+  const questionStartedAt = useRef<number>(Date.now())
+  const quizStartedAt = useRef<number>(Date.now())
+
+  /**
+   * Fetch JSON from a quiz API route, sending the student back to sign in if needed
+   */
+  const quizFetch = useCallback(async (url: string, init?: RequestInit) => {
+    const response = await authFetch(url, init)
+    if (response.status === 401) {
+      router.replace('/login')
+      return null
+    }
+    const data = await response.json()
+    if (!response.ok) {
+      throw new ApiError(data.message || data.error || `API request failed: ${response.status}`, data.fieldErrors ?? null)
+    }
+    return data
+  }, [router])
+
+  const loadQuizzes = useCallback(async () => {
+    try {
+      const data = await quizFetch('/api/quiz')
+      if (data) setQuizzes(data.quizzes)
+    } catch (error) {
+      console.error('Failed to load quizzes:', error)
+    }
+  }, [quizFetch])
+
+  useEffect(() => {
+    getCurrentStudent().then((currentStudent) => {
+      if (!currentStudent) {
+        router.replace('/login')
+        return
+      }
+      setStudent(currentStudent)
+      loadQuizzes()
+    })
+  }, [router, loadQuizzes])
+
+  const openQuiz = (detail: QuizDetail) => {
+    setQuiz(detail)
+    setCurrentIndex(0)
+    setAnswers({})
+    setServerErrors({})
+    setNewAchievements([])
+    questionTimes.current = {}
+    questionStartedAt.current = Date.now()
+    quizStartedAt.current = Date.now()
+  }
+
+  const startQuiz = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const data = await quizFetch('/api/quiz', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questionCount, topic, difficultyMix }),
+      })
+      if (data) openQuiz(data)
+    } catch (error) {
+      console.error('Failed to start quiz:', error)
+      setError('Failed to create the quiz. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const viewQuiz = async (quizId: string) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const data = await quizFetch(`/api/quiz/${quizId}`)
+      if (data) openQuiz(data)
+    } catch (error) {
+      console.error('Failed to load quiz:', error)
+      setError('Failed to load that quiz. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /**
+   * Adds the time spent on the current question to its total
+   */
+  const recordQuestionTime = () => {
+    const question = quiz?.questions[currentIndex]
+    if (!question) return
+    const elapsed = (Date.now() - questionStartedAt.current) / 1000
+    questionTimes.current[question.sessionId] = (questionTimes.current[question.sessionId] || 0) + elapsed
+    questionStartedAt.current = Date.now()
+  }
+
+  const goToQuestion = (index: number) => {
+    recordQuestionTime()
+    setCurrentIndex(index)
+  }
+
+  const setPartAnswer = (sessionId: string, partName: string, value: string) => {
+    setAnswers((prev) => ({ ...prev, [sessionId]: { ...prev[sessionId], [partName]: value } }))
+  }
+
+  const submitQuiz = async () => {
+    if (!quiz) return
+    recordQuestionTime()
+    setIsLoading(true)
+    setError(null)
+    setServerErrors({})
+    try {
+      const data = await quizFetch(`/api/quiz/${quiz.id}/submit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          answers: Object.fromEntries(quiz.questions.map((question) => [
+            question.sessionId,
+            Object.fromEntries(question.answer_parts.map((part) => [part.name, (answers[question.sessionId]?.[part.name] ?? '').trim()])),
+          ])),
+          questionTimes: Object.fromEntries(
+            Object.entries(questionTimes.current).map(([sessionId, seconds]) => [sessionId, Math.round(seconds)])
+          ),
+          timeTakenSeconds: Math.round((Date.now() - quizStartedAt.current) / 1000),
+        }),
+      })
+      if (data) {
+        setQuiz(data.quiz)
+        setNewAchievements(data.newAchievements || [])
+        loadQuizzes()
+      }
+    } catch (error) {
+      console.error('Failed to submit quiz:', error)
+      if (error instanceof ApiError && error.fieldErrors) setServerErrors(error.fieldErrors)
+      setError(error instanceof Error ? error.message : 'Failed to submit the quiz. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Live format checks for every question, so the navigator can flag problems
+  const questionErrors: Record<string, Record<string, string>> = {}
+  for (const question of quiz?.questions ?? []) {
+    for (const part of question.answer_parts) {
+      const value = answers[question.sessionId]?.[part.name]?.trim()
+      const validation = value ? parsePartAnswer(value, part.unit) : null
+      const message = validation && validation.ok === false ? validation.error : serverErrors[question.sessionId]?.[part.name]
+      if (message) {
+        questionErrors[question.sessionId] = { ...questionErrors[question.sessionId], [part.name]: message }
+      }
+    }
+  }
+  const isAnswered = (sessionId: string, partNames: string[]) =>
+    partNames.every((name) => answers[sessionId]?.[name]?.trim())
+  const unansweredCount = (quiz?.questions ?? [])
+    .filter((question) => !isAnswered(question.sessionId, question.answer_parts.map((part) => part.name)))
+    .length
+  const hasErrors = Object.keys(questionErrors).length > 0
+
+  const isSubmitted = quiz?.status === 'submitted'
+  const current = quiz?.questions[currentIndex]
+
+  return (
+    <div
+      className="min-h-screen bg-cover bg-center bg-no-repeat relative"
+      style={{ backgroundImage: "url('/images/background.jpg')" }}
+    >
+      <div
+        className="absolute inset-0 backdrop-blur-md bg-black/40"
+        style={{ zIndex: 0 }}
+      ></div>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl relative" style={{ zIndex: 1 }}>
+        <div className="w-full bg-white/95 backdrop-blur-sm rounded-3xl shadow-2xl p-8 border border-white/20">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-3xl md:text-4xl font-extrabold bg-gradient-to-r from-blue-600 via-purple-600 to-pink-600 bg-clip-text text-transparent">
+              📝 Quiz
+            </h1>
+            <div className="flex items-center gap-2">
+              {student && <span className="text-sm font-bold text-gray-700">🙂 {student.displayName}</span>}
+              <button
+                onClick={() => (quiz ? setQuiz(null) : router.push('/'))}
+                className="text-xs font-semibold text-gray-500 hover:text-gray-800 bg-gray-100 hover:bg-gray-200 px-3 py-1 rounded-full transition duration-200"
+              >
+                {quiz ? '← All quizzes' : '← Practice'}
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border-2 border-red-200 text-red-700 px-6 py-4 rounded-xl mb-6">
+              <p className="font-semibold">⚠️ {error}</p>
+            </div>
+          )}
+
+          {/* Setup and past quizzes */}
+          {!quiz && (
+            <section className="space-y-6">
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">🔢 Questions</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {QUESTION_COUNTS.map((count) => (
+                    <button
+                      key={count}
+                      onClick={() => setQuestionCount(count)}
+                      className={`px-4 py-3 rounded-lg font-semibold transition duration-200 ${
+                        questionCount === count
+                          ? 'bg-gradient-to-r from-blue-500 to-blue-600 text-white shadow-lg'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      }`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">📚 Topic</label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {TOPIC_LIST.map((t) => (
+                    <button
+                      key={t.id}
+                      onClick={() => setTopic(t.id)}
+                      title={t.label}
+                      className={`px-4 py-3 rounded-lg font-semibold transition duration-200 text-sm ${
+                        topic === t.id
+                          ? 'bg-gradient-to-r from-purple-500 to-pink-600 text-white shadow-lg'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      }`}
+                    >
+                      {t.icon} {t.shortLabel}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-bold text-gray-700 mb-3">🎯 Difficulty</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {DIFFICULTY_MIXES.map((mix) => (
+                    <button
+                      key={mix.key}
+                      onClick={() => setDifficultyMix(mix.key)}
+                      className={`px-4 py-3 rounded-lg font-semibold transition duration-200 text-sm ${
+                        difficultyMix === mix.key
+                          ? 'bg-gradient-to-r from-teal-500 to-teal-600 text-white shadow-lg'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      }`}
+                    >
+                      {mix.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                onClick={startQuiz}
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-400 text-white font-bold py-4 px-6 rounded-xl transition duration-300"
+              >
+                {isLoading ? `Creating ${questionCount} problems...` : '🚀 Start Quiz'}
+              </button>
+
+              {quizzes.length > 0 && (
+                <div>
+                  <h2 className="text-lg font-bold text-gray-800 mb-3">🗂️ Past quizzes</h2>
+                  <div className="space-y-2">
+                    {quizzes.map((summary) => (
+                      <button
+                        key={summary.id}
+                        onClick={() => viewQuiz(summary.id)}
+                        className="w-full flex items-center justify-between text-left bg-gray-50 hover:bg-blue-50 rounded-xl px-4 py-3 transition duration-200"
+                      >
+                        <span className="text-sm text-gray-700">
+                          <span className="font-semibold">{topicLabel(summary.topic)}</span>
+                          <span className="capitalize"> · {summary.difficultyMix}</span>
+                          <span> · {formatDate(summary.submittedAt || summary.createdAt)}</span>
+                        </span>
+                        <span className="text-sm font-bold text-gray-800">
+                          {summary.status === 'submitted' ? `${summary.score} / ${summary.questionCount}` : 'In progress'}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
+
+          {/* Taking the quiz */}
+          {quiz && !isSubmitted && current && (
+            <section className="space-y-6">
+              {/* Question navigator - amber = unanswered, red = answer needs fixing */}
+              <div className="flex flex-wrap gap-2">
+                {quiz.questions.map((question, index) => {
+                  const answered = isAnswered(question.sessionId, question.answer_parts.map((part) => part.name))
+                  return (
+                    <button
+                      key={question.sessionId}
+                      onClick={() => goToQuestion(index)}
+                      className={`w-10 h-10 rounded-full font-bold transition duration-200 ${
+                        index === currentIndex
+                          ? 'bg-blue-600 text-white'
+                          : questionErrors[question.sessionId]
+                            ? 'bg-red-100 text-red-700'
+                            : answered
+                              ? 'bg-green-100 text-green-700'
+                              : 'bg-amber-100 text-amber-700'
+                      }`}
+                    >
+                      {question.position}
+                    </button>
+                  )
+                })}
+              </div>
+
+              <div className="bg-gradient-to-br from-blue-50 to-purple-50 rounded-2xl p-6">
+                <p className="text-xs font-semibold text-gray-500 mb-2 uppercase">
+                  Question {current.position} of {quiz.questions.length} · {current.difficulty}
+                </p>
+                <p className="text-lg text-gray-800 leading-relaxed">{current.problem_text}</p>
+              </div>
+
+              {current.answer_parts.map((part) => {
+                const inputId = `quiz-${current.sessionId}-${part.name}`
+                const partError = questionErrors[current.sessionId]?.[part.name]
+                return (
+                  <div key={part.name}>
+                    <label htmlFor={inputId} className="block text-base font-bold text-gray-700 mb-3">
+                      ✍️ {current.answer_parts.length === 1 ? 'Your Answer' : part.label}:
+                    </label>
+                    <div className="flex items-center gap-3">
+                      {isPrefixUnit(part.unit) && (
+                        <span className="text-lg font-bold text-gray-600">{part.unit}</span>
+                      )}
+                      <input
+                        type="text"
+                        id={inputId}
+                        value={answers[current.sessionId]?.[part.name] ?? ''}
+                        onChange={(e) => setPartAnswer(current.sessionId, part.name, e.target.value)}
+                        className={`w-full px-5 py-3 border-2 rounded-xl focus:ring-2 transition duration-200 text-lg font-medium text-gray-900 ${
+                          partError
+                            ? 'border-red-300 focus:ring-red-400 focus:border-red-400'
+                            : 'border-gray-300 focus:ring-blue-500 focus:border-blue-500'
+                        }`}
+                        placeholder="e.g. 42, 2.5, 3/4 or 1 1/2"
+                        autoComplete="off"
+                        aria-invalid={!!partError}
+                        disabled={isLoading}
+                      />
+                      {part.unit && !isPrefixUnit(part.unit) && (
+                        <span className="text-lg font-bold text-gray-600 whitespace-nowrap">{part.unit}</span>
+                      )}
+                    </div>
+                    {partError && (
+                      <p className="mt-2 text-sm font-semibold text-red-600">⚠️ {partError}</p>
+                    )}
+                  </div>
+                )
+              })}
+
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  onClick={() => goToQuestion(currentIndex - 1)}
+                  disabled={currentIndex === 0}
+                  className="bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-700 font-bold py-3 px-6 rounded-xl transition duration-200"
+                >
+                  ← Previous
+                </button>
+                <button
+                  onClick={() => goToQuestion(currentIndex + 1)}
+                  disabled={currentIndex === quiz.questions.length - 1}
+                  className="bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-700 font-bold py-3 px-6 rounded-xl transition duration-200"
+                >
+                  Next →
+                </button>
+              </div>
+
+              <button
+                onClick={submitQuiz}
+                disabled={unansweredCount > 0 || hasErrors || isLoading}
+                className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-400 text-white font-bold py-4 px-6 rounded-xl transition duration-300"
+              >
+                {isLoading
+                  ? 'Marking your quiz...'
+                  : unansweredCount > 0
+                    ? `${unansweredCount} question(s) left to answer`
+                    : '✅ Submit All Answers'}
+              </button>
+            </section>
+          )}
+
+          {/* Scored summary */}
+          {quiz && isSubmitted && (
+            <section className="space-y-6">
+              <div className="bg-gradient-to-r from-yellow-50 to-orange-50 border-2 border-yellow-200 rounded-2xl p-6 text-center">
+                <p className="text-sm font-semibold text-gray-600 mb-1">Your score</p>
+                <p className="text-5xl font-extrabold text-orange-600">{quiz.score} / {quiz.questionCount}</p>
+                <p className="text-sm text-gray-600 mt-2">
+                  ⭐ {quiz.questions.reduce((sum, question) => sum + (question.result?.starsEarned || 0), 0)} stars
+                  {quiz.timeTakenSeconds !== null && <> · ⏱️ {quiz.timeTakenSeconds}s</>}
+                  <> · {formatDate(quiz.submittedAt)}</>
+                </p>
+                {newAchievements.length > 0 && (
+                  <p className="text-sm font-bold text-purple-700 mt-2">
+                    🎉 New: {newAchievements.map((achievement) => `${achievement.icon} ${achievement.name}`).join(', ')}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                {quiz.questions.map((question) => (
+                  <div
+                    key={question.sessionId}
+                    className={`rounded-2xl p-4 border-2 ${question.result?.isCorrect ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}
+                  >
+                    <p className="text-xs font-semibold text-gray-500 mb-2 uppercase">
+                      Question {question.position} · {question.difficulty}
+                      {question.result && <> · {'⭐'.repeat(question.result.starsEarned) || 'no stars'}</>}
+                    </p>
+                    <p className="text-gray-800 mb-2">{question.problem_text}</p>
+                    {question.result ? (
+                      <>
+                        <p className="text-sm text-gray-700">
+                          {question.result.isCorrect ? '✅' : '❌'} You answered <span className="font-bold">{question.result.userAnswer}</span>
+                          {!question.result.isCorrect && <> · correct answer <span className="font-bold">{question.result.correctAnswer}</span></>}
+                        </p>
+                        <p className="text-sm text-gray-600 mt-2 italic">{question.result.feedback}</p>
+                      </>
+                    ) : (
+                      <p className="text-sm text-gray-500">No answer recorded.</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={() => setQuiz(null)}
+                className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-bold py-4 px-6 rounded-xl transition duration-300"
+              >
+                📝 New Quiz
+              </button>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
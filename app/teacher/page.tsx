@@ -0,0 +1,709 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { authFetch, getCurrentStudent, signOut, Student } from '../../lib/authClient'
+import type { SubmissionAnalytics } from '../../lib/analytics'
+import type { ClassReport, ClassSummary, StudentReport } from '../../lib/teacher'
+import type { DifficultyMix } from '../../lib/quiz'
+import type { WorksheetSource, WorksheetSummary } from '../../lib/worksheet'
+import { MISCONCEPTION_LABELS } from '../../lib/math/misconceptions'
+import { DIFFICULTIES } from '../../lib/schemas'
+import { Topic, TOPIC_IDS, topicLabel } from '../../lib/topics'
+
+// Mixed topics first - it's the usual choice for a worksheet
+const TOPICS: Topic[] = ['random', ...TOPIC_IDS.filter((t) => t !== 'random')]
+const DIFFICULTY_MIXES: DifficultyMix[] = ['mixed', 'easy', 'medium', 'hard']
+
+/**
+ * Format a 0-1 accuracy as a percentage ("–" when there's no data)
+ */
+function formatAccuracy(accuracy: number | null): string {
+  return accuracy === null ? '–' : `${Math.round(accuracy * 100)}%`
+}
+
+function formatSeconds(seconds: number | null): string {
+  return seconds === null ? '–' : `${seconds}s`
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '–'
+}
+
+/**
+ * Accuracy / average time grid: one row per topic, one column per difficulty
+ */
+function TopicDifficultyTable({ analytics }: { analytics: SubmissionAnalytics }) {
+  const topics = Object.keys(analytics.byTopic).sort()
+  if (topics.length === 0) {
+    return <p className="text-gray-500">No submissions yet.</p>
+  }
+
+  const cell = (topic: string, difficulty: string) =>
+    analytics.byTopicAndDifficulty.find((row) => row.topic === topic && row.difficulty === difficulty)
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-2 pr-4">Topic</th>
+            {DIFFICULTIES.map((difficulty) => (
+              <th key={difficulty} className="py-2 pr-4 capitalize">{difficulty}</th>
+            ))}
+            <th className="py-2 pr-4">All</th>
+          </tr>
+        </thead>
+        <tbody>
+          {topics.map((topic) => (
+            <tr key={topic} className="border-t border-gray-100">
+              <td className="py-2 pr-4 font-semibold text-gray-800">{topicLabel(topic)}</td>
+              {DIFFICULTIES.map((difficulty) => {
+                const summary = cell(topic, difficulty)
+                return (
+                  <td key={difficulty} className="py-2 pr-4 text-gray-700">
+                    {summary ? (
+                      <>
+                        <span className="font-bold">{formatAccuracy(summary.accuracy)}</span>
+                        <span className="text-gray-500"> · {formatSeconds(summary.averageTimeSeconds)} · {summary.attempts}×</span>
+                      </>
+                    ) : '–'}
+                  </td>
+                )
+              })}
+              <td className="py-2 pr-4 text-gray-700">
+                <span className="font-bold">{formatAccuracy(analytics.byTopic[topic].accuracy)}</span>
+                <span className="text-gray-500"> · {formatSeconds(analytics.byTopic[topic].averageTimeSeconds)}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mt-2">Accuracy · average time · attempts</p>
+    </div>
+  )
+}
+
+/**
+ * Overall numbers, star distribution, hint usage and common misconceptions
+ */
+function AnalyticsSummary({ analytics }: { analytics: SubmissionAnalytics }) {
+  const maxStars = Math.max(1, ...Object.values(analytics.starDistribution))
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="bg-blue-50 rounded-2xl p-4">
+        <h3 className="font-bold text-gray-700 mb-2">📈 Overall</h3>
+        <p className="text-3xl font-extrabold text-blue-700">{formatAccuracy(analytics.overall.accuracy)}</p>
+        <p className="text-sm text-gray-600">
+          {analytics.overall.correct} of {analytics.overall.attempts} correct · avg {formatSeconds(analytics.overall.averageTimeSeconds)}
+        </p>
+      </div>
+
+      <div className="bg-yellow-50 rounded-2xl p-4">
+        <h3 className="font-bold text-gray-700 mb-2">⭐ Stars</h3>
+        {([3, 2, 1, 0] as const).map((stars) => (
+          <div key={stars} className="flex items-center gap-2 text-sm">
+            <span className="w-12 text-gray-600">{stars} ★</span>
+            <div className="flex-1 bg-yellow-100 rounded-full h-3">
+              <div
+                className="bg-yellow-400 h-3 rounded-full"
+                style={{ width: `${(analytics.starDistribution[stars] / maxStars) * 100}%` }}
+              ></div>
+            </div>
+            <span className="w-8 text-right text-gray-700 font-semibold">{analytics.starDistribution[stars]}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-purple-50 rounded-2xl p-4">
+        <h3 className="font-bold text-gray-700 mb-2">💡 Hints</h3>
+        <p className="text-sm text-gray-700">{analytics.hintUsage.reveals} hints opened</p>
+        <p className="text-sm text-gray-700">{analytics.hintUsage.problemsWithHint} problems answered after a hint</p>
+        <p className="text-sm text-gray-700">
+          Accuracy with hint {formatAccuracy(analytics.hintUsage.accuracyWithHint)} · without {formatAccuracy(analytics.hintUsage.accuracyWithoutHint)}
+        </p>
+      </div>
+
+      <div className="bg-red-50 rounded-2xl p-4">
+        <h3 className="font-bold text-gray-700 mb-2">🔍 Misconceptions</h3>
+        {analytics.misconceptions.byKind.length === 0 ? (
+          <p className="text-sm text-gray-500">None recognised yet</p>
+        ) : (
+          <ul className="space-y-1">
+            {analytics.misconceptions.byKind.map((item) => (
+              <li key={item.kind} className="flex justify-between gap-2 text-sm text-gray-700">
+                <span>{item.label}</span>
+                <span className="font-semibold">
+                  {item.count}
+                  <span className="text-gray-500 font-normal"> · {item.students} {item.students === 1 ? 'student' : 'students'}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-xs text-gray-500 mt-2">
+          {analytics.misconceptions.diagnosed} of {analytics.misconceptions.wrongAnswers} wrong answers diagnosed
+        </p>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Download the class's (or one student's) submissions as CSV or NDJSON
+ * WHY a blob? The export route needs the teacher's auth headers, which a plain link can't send
+ */
+function ExportBar({ classId, studentId }: { classId: string; studentId?: string }) {
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [topic, setTopic] = useState('')
+  const [difficulty, setDifficulty] = useState('')
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const download = async (format: 'csv' | 'ndjson') => {
+    setIsExporting(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ format, classId })
+      if (studentId) params.set('studentId', studentId)
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      if (topic) params.set('topic', topic)
+      if (difficulty) params.set('difficulty', difficulty)
+
+      const response = await authFetch(`/api/teacher/export?${params}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(Object.values(data.fieldErrors || {})[0] as string || data.error || `API request failed: ${response.status}`)
+      }
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `math-submissions.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to export submissions:', error)
+      setError(error instanceof Error ? error.message : 'Failed to export.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const inputClass = 'px-2 py-1 border-2 border-gray-300 rounded-lg text-sm text-gray-900'
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+      <span className="font-semibold">⬇️ Export</span>
+      <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} aria-label="From date" />
+      <span>to</span>
+      <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} aria-label="To date" />
+      <select value={topic} onChange={(e) => setTopic(e.target.value)} className={inputClass} aria-label="Topic">
+        <option value="">All topics</option>
+        {TOPICS.map((t) => <option key={t} value={t}>{topicLabel(t)}</option>)}
+      </select>
+      <select value={difficulty} onChange={(e) => setDifficulty(e.target.value)} className={`${inputClass} capitalize`} aria-label="Difficulty">
+        <option value="">All difficulties</option>
+        {DIFFICULTIES.map((d) => <option key={d} value={d}>{d}</option>)}
+      </select>
+      <button
+        onClick={() => download('csv')}
+        disabled={isExporting}
+        className="text-xs font-semibold bg-green-100 hover:bg-green-200 disabled:opacity-50 text-green-700 px-3 py-1 rounded-full"
+      >
+        CSV
+      </button>
+      <button
+        onClick={() => download('ndjson')}
+        disabled={isExporting}
+        className="text-xs font-semibold bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 px-3 py-1 rounded-full"
+      >
+        JSON (NDJSON)
+      </button>
+      {error && <span className="text-red-600 font-semibold">⚠️ {error}</span>}
+    </div>
+  )
+}
+
+/**
+ * Printable worksheets: build a set of problems, then print it and its answer key
+ *
+ * NOTE: The HTML is fetched with the teacher's auth headers and opened from a
+ * blob URL - a plain link couldn't send them
+ */
+function WorksheetPanel({
+  classes,
+  teacherFetch,
+}: {
+  classes: ClassSummary[]
+  teacherFetch: (url: string, init?: RequestInit) => Promise<any>
+}) {
+  const [worksheets, setWorksheets] = useState<WorksheetSummary[]>([])
+  const [title, setTitle] = useState('Maths Practice')
+  const [className, setClassName] = useState('')
+  const [problemCount, setProblemCount] = useState(10)
+  const [topic, setTopic] = useState<Topic>('random')
+  const [difficultyMix, setDifficultyMix] = useState<DifficultyMix>('mixed')
+  const [source, setSource] = useState<WorksheetSource>('generate')
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    teacherFetch('/api/teacher/worksheets')
+      .then((data) => {
+        if (data) setWorksheets(data.worksheets)
+      })
+      .catch((error) => console.error('Failed to load worksheets:', error))
+  }, [teacherFetch])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    setError(null)
+    try {
+      const data = await teacherFetch('/api/teacher/worksheets', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title, className, problemCount, topic, difficultyMix, source }),
+      })
+      if (data) setWorksheets([data.worksheet, ...worksheets])
+    } catch (error) {
+      console.error('Failed to create worksheet:', error)
+      setError(error instanceof Error ? error.message : 'Failed to create the worksheet.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const openDocument = async (worksheetId: string, document: 'worksheet' | 'answer-key') => {
+    // WHY open the window first? Pop-up blockers only allow it straight after the click
+    const printWindow = window.open('', '_blank')
+    try {
+      const response = await authFetch(`/api/teacher/worksheets/${worksheetId}?document=${document}`)
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status}`)
+      }
+      const html = await response.text()
+      const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }))
+      if (printWindow) {
+        printWindow.location.href = url
+      } else {
+        window.location.href = url
+      }
+    } catch (error) {
+      printWindow?.close()
+      console.error('Failed to open worksheet:', error)
+      setError('Failed to open the worksheet. Please try again.')
+    }
+  }
+
+  const inputClass = 'px-3 py-2 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900'
+
+  return (
+    <section className="mt-10 pt-6 border-t border-gray-200">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">🖨️ Printable Worksheets</h2>
+
+      {error && (
+        <div className="bg-red-50 border-2 border-red-200 text-red-700 px-6 py-4 rounded-xl mb-4">
+          <p className="font-semibold">⚠️ {error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Title"
+          maxLength={100}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          list="worksheet-class-names"
+          value={className}
+          onChange={(e) => setClassName(e.target.value)}
+          placeholder="Class name (optional)"
+          maxLength={80}
+          className={inputClass}
+        />
+        <datalist id="worksheet-class-names">
+          {classes.map((classSummary) => (
+            <option key={classSummary.id} value={classSummary.name} />
+          ))}
+        </datalist>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Problems
+          <input
+            type="number"
+            min={1}
+            max={30}
+            value={problemCount}
+            onChange={(e) => setProblemCount(Number(e.target.value))}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        <select value={topic} onChange={(e) => setTopic(e.target.value as Topic)} className={inputClass}>
+          {TOPICS.map((t) => (
+            <option key={t} value={t}>{t === 'random' ? 'Mixed topics' : topicLabel(t)}</option>
+          ))}
+        </select>
+        <select value={difficultyMix} onChange={(e) => setDifficultyMix(e.target.value as DifficultyMix)} className={`${inputClass} capitalize`}>
+          {DIFFICULTY_MIXES.map((mix) => (
+            <option key={mix} value={mix}>{mix === 'mixed' ? 'Mixed difficulty (easy to hard)' : mix}</option>
+          ))}
+        </select>
+        <select value={source} onChange={(e) => setSource(e.target.value as WorksheetSource)} className={inputClass}>
+          <option value="generate">New problems</option>
+          <option value="bank">Problems my students have seen</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="md:col-span-3 bg-gradient-to-r from-green-500 to-emerald-600 disabled:from-gray-400 disabled:to-gray-400 text-white font-bold px-4 py-3 rounded-xl"
+        >
+          {isCreating ? `Building ${problemCount} problems...` : '➕ Create Worksheet'}
+        </button>
+      </form>
+
+      <div className="space-y-2">
+        {worksheets.map((worksheet) => (
+          <div key={worksheet.id} className="flex flex-wrap items-center justify-between gap-2 bg-gray-50 rounded-xl px-4 py-3">
+            <span className="text-sm text-gray-700">
+              <span className="font-semibold text-gray-800">{worksheet.title}</span>
+              {worksheet.className && <> · {worksheet.className}</>}
+              <span className="capitalize"> · {worksheet.problemCount} problems · {worksheet.topic === 'random' ? 'mixed topics' : topicLabel(worksheet.topic)} · {worksheet.difficultyMix}</span>
+              <span> · {formatDate(worksheet.createdAt)}</span>
+            </span>
+            <span className="flex gap-2">
+              <button
+                onClick={() => openDocument(worksheet.id, 'worksheet')}
+                className="text-xs font-semibold bg-blue-100 hover:bg-blue-200 text-blue-700 px-3 py-1 rounded-full"
+              >
+                📄 Worksheet
+              </button>
+              <button
+                onClick={() => openDocument(worksheet.id, 'answer-key')}
+                className="text-xs font-semibold bg-purple-100 hover:bg-purple-200 text-purple-700 px-3 py-1 rounded-full"
+              >
+                🔑 Answer key
+              </button>
+            </span>
+          </div>
+        ))}
+        {worksheets.length === 0 && <p className="text-gray-600">No worksheets yet.</p>}
+      </div>
+    </section>
+  )
+}
+
+/**
+ * Teacher Dashboard
+ *
+ * HOW IT WORKS:
+ * - Lists the teacher's classes (with join codes to share with students)
+ * - Selecting a class shows its roster and class-wide analytics
+ * - Selecting a student drills down into their submissions and AI feedback
+ * - Printable worksheets (with separate answer keys) are built at the bottom
+ *
+ * NOTE: Access is checked by the API - students get a 403 and a friendly message
+ */
+export default function TeacherDashboard() {
+  const router = useRouter()
+  const [teacher, setTeacher] = useState<Student | null>(null)
+  const [classes, setClasses] = useState<ClassSummary[]>([])
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null)
+  const [classReport, setClassReport] = useState<ClassReport | null>(null)
+  const [studentReport, setStudentReport] = useState<StudentReport | null>(null)
+  const [newClassName, setNewClassName] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [forbidden, setForbidden] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Fetch JSON from a teacher API route, handling sign-in and access errors
+   */
+  const teacherFetch = useCallback(async (url: string, init?: RequestInit) => {
+    const response = await authFetch(url, init)
+    if (response.status === 401) {
+      router.replace('/login')
+      return null
+    }
+    if (response.status === 403) {
+      setForbidden(true)
+      return null
+    }
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `API request failed: ${response.status}`)
+    }
+    return data
+  }, [router])
+
+  const loadClasses = useCallback(async () => {
+    try {
+      const data = await teacherFetch('/api/teacher/classes')
+      if (data) setClasses(data.classes)
+    } catch (error) {
+      console.error('Failed to load classes:', error)
+      setError('Failed to load your classes. Please try again.')
+    }
+  }, [teacherFetch])
+
+  useEffect(() => {
+    getCurrentStudent().then((currentUser) => {
+      if (!currentUser) {
+        router.replace('/login')
+        return
+      }
+      setTeacher(currentUser)
+      loadClasses()
+    })
+  }, [router, loadClasses])
+
+  const selectClass = async (classId: string) => {
+    setSelectedClassId(classId)
+    setStudentReport(null)
+    setIsLoading(true)
+    setError(null)
+    try {
+      const data = await teacherFetch(`/api/teacher/classes/${classId}`)
+      if (data) setClassReport(data)
+    } catch (error) {
+      console.error('Failed to load class report:', error)
+      setError('Failed to load the class report. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const selectStudent = async (studentId: string) => {
+    if (!selectedClassId) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const data = await teacherFetch(`/api/teacher/classes/${selectedClassId}/students/${studentId}`)
+      if (data) setStudentReport(data)
+    } catch (error) {
+      console.error('Failed to load student report:', error)
+      setError('Failed to load the student report. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCreateClass = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newClassName.trim()) return
+    setError(null)
+    try {
+      const data = await teacherFetch('/api/teacher/classes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newClassName.trim() }),
+      })
+      if (data) {
+        setClasses([...classes, data.class])
+        setNewClassName('')
+      }
+    } catch (error) {
+      console.error('Failed to create class:', error)
+      setError(error instanceof Error ? error.message : 'Failed to create the class.')
+    }
+  }
+
+  const handleSignOut = async () => {
+    await signOut()
+    router.replace('/login')
+  }
+
+  return (
+    <div
+      className="min-h-screen bg-cover bg-center bg-no-repeat relative"
+      style={{ backgroundImage: "url('/images/background.jpg')" }}
+    >
+      <div
+        className="absolute inset-0 backdrop-blur-md bg-black/40"
+        style={{ zIndex: 0 }}
+      ></div>
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl relative" style={{ zIndex: 1 }}>
+        <div className="w-full bg-white/95 backdrop-blur-sm rounded-3xl shadow-2xl p-8 border border-white/20">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-3xl md:text-4xl font-extrabold bg-gradient-to-r from-blue-600 via-purple-600 to-pink-600 bg-clip-text text-transparent">
+              Teacher Dashboard
+            </h1>
+            {teacher && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-bold text-gray-700">🧑‍🏫 {teacher.displayName}</span>
+                <button
+                  onClick={handleSignOut}
+                  className="text-xs font-semibold text-gray-500 hover:text-gray-800 bg-gray-100 hover:bg-gray-200 px-3 py-1 rounded-full transition duration-200"
+                >
+                  Sign out
+                </button>
+              </div>
+            )}
+          </div>
+
+          {forbidden ? (
+            <div className="bg-yellow-50 border-2 border-yellow-200 text-yellow-800 px-6 py-4 rounded-xl">
+              <p className="font-semibold">🔒 This page is for teachers. Ask an admin to add your account to the teachers list.</p>
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="bg-red-50 border-2 border-red-200 text-red-700 px-6 py-4 rounded-xl mb-6">
+                  <p className="font-semibold">⚠️ {error}</p>
+                </div>
+              )}
+
+              {/* Class list and create form */}
+              <div className="flex flex-wrap items-center gap-2 mb-6">
+                {classes.map((classSummary) => (
+                  <button
+                    key={classSummary.id}
+                    onClick={() => selectClass(classSummary.id)}
+                    className={`px-4 py-2 rounded-xl font-semibold transition duration-200 ${
+                      selectedClassId === classSummary.id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {classSummary.name}
+                    <span className="ml-2 text-xs font-mono opacity-75">{classSummary.joinCode}</span>
+                    <span className="ml-2 text-xs opacity-75">👥 {classSummary.studentCount}</span>
+                  </button>
+                ))}
+                <form onSubmit={handleCreateClass} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newClassName}
+                    onChange={(e) => setNewClassName(e.target.value)}
+                    placeholder="New class name"
+                    maxLength={80}
+                    className="px-3 py-2 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newClassName.trim()}
+                    className="bg-gradient-to-r from-green-500 to-emerald-600 disabled:from-gray-400 disabled:to-gray-400 text-white font-bold px-4 py-2 rounded-xl"
+                  >
+                    ➕ Create
+                  </button>
+                </form>
+              </div>
+
+              {classes.length === 0 && (
+                <p className="text-gray-600 mb-6">Create a class, then share its join code with your students.</p>
+              )}
+
+              {isLoading && <p className="text-gray-600 mb-6">Loading...</p>}
+
+              {/* Per-student drill-down */}
+              {studentReport && (
+                <section className="space-y-6">
+                  <button
+                    onClick={() => setStudentReport(null)}
+                    className="text-sm font-semibold text-blue-600 hover:text-blue-700"
+                  >
+                    ← Back to class
+                  </button>
+                  <h2 className="text-2xl font-bold text-gray-800">{studentReport.student.displayName}</h2>
+                  {selectedClassId && <ExportBar classId={selectedClassId} studentId={studentReport.student.studentId} />}
+                  <AnalyticsSummary analytics={studentReport.analytics} />
+                  <TopicDifficultyTable analytics={studentReport.analytics} />
+
+                  <div className="space-y-3">
+                    {studentReport.submissions.map((submission) => (
+                      <div
+                        key={submission.id}
+                        className={`rounded-2xl p-4 border-2 ${submission.isCorrect ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}
+                      >
+                        <div className="flex flex-wrap gap-2 text-xs text-gray-600 mb-2">
+                          <span>{formatDate(submission.createdAt)}</span>
+                          <span>· {topicLabel(submission.topic)}</span>
+                          <span className="capitalize">· {submission.difficulty}</span>
+                          <span>· {formatSeconds(submission.timeTakenSeconds)}</span>
+                          <span>· {'⭐'.repeat(submission.starsEarned || 0) || 'no stars'}</span>
+                          {submission.hintUsed && <span>· 💡 hint used</span>}
+                          {submission.attemptNumber !== null && submission.attemptNumber > 1 && <span>· 🔁 attempt {submission.attemptNumber}</span>}
+                        </div>
+                        <p className="text-gray-800 mb-2">{submission.problemText}</p>
+                        <p className="text-sm text-gray-700">
+                          {submission.isCorrect ? '✅' : '❌'} Answered <span className="font-bold">{submission.userAnswer}</span>
+                          {!submission.isCorrect && <> · correct answer <span className="font-bold">{submission.correctAnswer}</span></>}
+                        </p>
+                        {submission.misconception && (
+                          <p className="text-sm text-red-700 mt-1">
+                            🔍 <span className="font-semibold">{MISCONCEPTION_LABELS[submission.misconception.kind]}</span>: {submission.misconception.detail}
+                          </p>
+                        )}
+                        <p className="text-sm text-gray-600 mt-2 italic">{submission.feedbackText}</p>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {/* Class roster and analytics */}
+              {classReport && !studentReport && (
+                <section className="space-y-6">
+                  <ExportBar classId={classReport.class.id} />
+                  <AnalyticsSummary analytics={classReport.analytics} />
+                  <TopicDifficultyTable analytics={classReport.analytics} />
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2 pr-4">Student</th>
+                          <th className="py-2 pr-4">Attempts</th>
+                          <th className="py-2 pr-4">Accuracy</th>
+                          <th className="py-2 pr-4">Avg time</th>
+                          <th className="py-2 pr-4">Stars</th>
+                          <th className="py-2 pr-4">Hints</th>
+                          <th className="py-2 pr-4">Last active</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {classReport.roster.map((rosterStudent) => (
+                          <tr
+                            key={rosterStudent.studentId}
+                            onClick={() => selectStudent(rosterStudent.studentId)}
+                            className="border-t border-gray-100 hover:bg-blue-50 cursor-pointer"
+                          >
+                            <td className="py-2 pr-4 font-semibold text-gray-800">{rosterStudent.displayName}</td>
+                            <td className="py-2 pr-4 text-gray-700">{rosterStudent.attempts}</td>
+                            <td className="py-2 pr-4 text-gray-700">{formatAccuracy(rosterStudent.accuracy)}</td>
+                            <td className="py-2 pr-4 text-gray-700">{formatSeconds(rosterStudent.averageTimeSeconds)}</td>
+                            <td className="py-2 pr-4 text-gray-700">⭐ {rosterStudent.totalStars}</td>
+                            <td className="py-2 pr-4 text-gray-700">💡 {rosterStudent.hintsUsed}</td>
+                            <td className="py-2 pr-4 text-gray-700">{formatDate(rosterStudent.lastActiveAt)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {classReport.roster.length === 0 && (
+                      <p className="text-gray-600 mt-4">
+                        No students yet - share the join code <span className="font-mono font-bold">{classReport.class.joinCode}</span>.
+                      </p>
+                    )}
+                  </div>
+                </section>
+              )}
+
+              <WorksheetPanel classes={classes} teacherFetch={teacherFetch} />
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
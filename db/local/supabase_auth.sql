@@ -0,0 +1,39 @@
+-- Supabase stand-ins for a plain Postgres database
+-- The migrations use Supabase's auth.uid() and auth.role() and its anon / authenticated /
+-- service_role roles. scripts/migrate.mjs applies this first when the auth schema is missing.
+-- NOTE: Local development only - never run this against a Supabase project
+-- WHY read request.jwt.claim.*? It's where PostgREST puts the caller's JWT, so
+--   SET request.jwt.claim.sub = '<user id>';
+-- in a psql session makes policies treat you as that user
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+        CREATE ROLE anon NOLOGIN;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+        CREATE ROLE authenticated NOLOGIN;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+        CREATE ROLE service_role NOLOGIN BYPASSRLS;
+    END IF;
+END
+$$;
+
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE OR REPLACE FUNCTION auth.uid()
+RETURNS UUID
+LANGUAGE sql STABLE
+AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID;
+$$;
+
+CREATE OR REPLACE FUNCTION auth.role()
+RETURNS TEXT
+LANGUAGE sql STABLE
+AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.role', true), '');
+$$;
+
+GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
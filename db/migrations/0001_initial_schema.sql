@@ -20,21 +20,9 @@ CREATE TABLE IF NOT EXISTS math_problem_submissions (
 ALTER TABLE math_problem_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE math_problem_submissions ENABLE ROW LEVEL SECURITY;
 
--- Create permissive policies for anonymous access (for assessment purposes)
--- In production, you would want more restrictive policies
-
--- Allow anonymous users to read and insert math_problem_sessions
-CREATE POLICY "Allow anonymous access to math_problem_sessions" ON math_problem_sessions
-    FOR ALL
-    USING (true)
-    WITH CHECK (true);
-
--- Allow anonymous users to read and insert math_problem_submissions
-CREATE POLICY "Allow anonymous access to math_problem_submissions" ON math_problem_submissions
-    FOR ALL
-    USING (true)
-    WITH CHECK (true);
+-- Row-level security policies are defined in 0006_student_accounts.sql:
+-- each signed-in student can only read and write their own rows
 
 -- Create indexes for better performance
-CREATE INDEX idx_math_problem_submissions_session_id ON math_problem_submissions(session_id);
-CREATE INDEX idx_math_problem_sessions_created_at ON math_problem_sessions(created_at DESC);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_math_problem_submissions_session_id ON math_problem_submissions(session_id);
+CREATE INDEX IF NOT EXISTS idx_math_problem_sessions_created_at ON math_problem_sessions(created_at DESC);
@@ -0,0 +1,14 @@
+-- Problem metadata and scoring
+-- hint: the problem's hint (NULL when the provider gave none)
+-- difficulty: 'easy' | 'medium' | 'hard' - star thresholds depend on it (see lib/stars.ts)
+-- topic: one of the topic ids in lib/topics.ts (no CHECK, so adding a topic needs no migration)
+-- time_taken_seconds: time from the problem appearing to the answer being submitted
+-- stars_earned: 0-3, 0 for wrong or untimed answers
+-- NOTE: The API has always written these, but database.sql never created them
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS hint TEXT;
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS difficulty TEXT NOT NULL DEFAULT 'medium'
+    CHECK (difficulty IN ('easy', 'medium', 'hard'));
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS topic TEXT NOT NULL DEFAULT 'random';
+
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS time_taken_seconds INTEGER CHECK (time_taken_seconds >= 0);
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS stars_earned INTEGER CHECK (stars_earned BETWEEN 0 AND 3);
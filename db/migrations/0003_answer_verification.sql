@@ -0,0 +1,8 @@
+-- Answer verification for generated problems
+-- solution_expression: arithmetic the AI says produces correct_answer (e.g. '45 * 6 - 70')
+-- verification_status: 'verified' (expression matches answer) or 'unverified' (no usable expression)
+-- generation_attempts: provider calls needed before an answer passed verification
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS solution_expression TEXT;
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS verification_status TEXT NOT NULL DEFAULT 'unverified'
+    CHECK (verification_status IN ('verified', 'unverified'));
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS generation_attempts INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,5 @@
+-- Fraction, decimal and mixed-number answers
+-- The NUMERIC columns keep the numeric value; the *_text columns keep the exact form
+-- WHY? 1/3 has no exact decimal, so grading compares the text forms as fractions
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS correct_answer_text TEXT;
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS user_answer_text TEXT;
@@ -0,0 +1,5 @@
+-- Multi-part answers and units
+-- answer_parts: answer key as [{ name, label, unit, answer }] - one entry per input the student sees
+-- part_results: per-part grading as [{ name, user_answer, correct_answer, is_correct }]
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS answer_parts JSONB;
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS part_results JSONB;
@@ -0,0 +1,39 @@
+-- Student accounts
+-- Every session and submission belongs to a Supabase Auth user
+-- NOTE: No foreign key to auth.users so local mock-auth users (random UUIDs) can be stored too
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid();
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_math_problem_sessions_user_id ON math_problem_sessions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_math_problem_submissions_user_id ON math_problem_submissions(user_id, created_at DESC);
+
+-- Replace the original allow-everything anonymous policies
+DROP POLICY IF EXISTS "Allow anonymous access to math_problem_sessions" ON math_problem_sessions;
+DROP POLICY IF EXISTS "Allow anonymous access to math_problem_submissions" ON math_problem_submissions;
+
+DROP POLICY IF EXISTS "Students read own sessions" ON math_problem_sessions;
+CREATE POLICY "Students read own sessions" ON math_problem_sessions
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students create own sessions" ON math_problem_sessions;
+CREATE POLICY "Students create own sessions" ON math_problem_sessions
+    FOR INSERT TO authenticated
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students read own submissions" ON math_problem_submissions;
+CREATE POLICY "Students read own submissions" ON math_problem_submissions
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+-- Students may only submit answers to their own problems
+DROP POLICY IF EXISTS "Students create own submissions" ON math_problem_submissions;
+CREATE POLICY "Students create own submissions" ON math_problem_submissions
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM math_problem_sessions s
+            WHERE s.id = session_id AND s.user_id = auth.uid()
+        )
+    );
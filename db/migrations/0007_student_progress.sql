@@ -0,0 +1,69 @@
+-- Student progress and achievements
+-- Counters and streaks are calculated from submissions; these tables hold the rest
+-- math_problem_hint_reveals: one row each time a student opens a hint
+CREATE TABLE IF NOT EXISTS math_problem_hint_reveals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES math_problem_sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- student_progress: totals imported once from the old browser-only (localStorage) progress
+CREATE TABLE IF NOT EXISTS student_progress (
+    user_id UUID PRIMARY KEY DEFAULT auth.uid(),
+    imported_problems_completed INTEGER NOT NULL DEFAULT 0 CHECK (imported_problems_completed BETWEEN 0 AND 500),
+    imported_hints_used INTEGER NOT NULL DEFAULT 0 CHECK (imported_hints_used BETWEEN 0 AND 500),
+    imported_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- student_achievements: badges a student has unlocked (keys match lib/achievements.ts)
+CREATE TABLE IF NOT EXISTS student_achievements (
+    user_id UUID NOT NULL DEFAULT auth.uid(),
+    achievement_key TEXT NOT NULL,
+    unlocked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, achievement_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_math_problem_hint_reveals_user_id ON math_problem_hint_reveals(user_id, created_at DESC);
+
+ALTER TABLE math_problem_hint_reveals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_progress ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_achievements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students read own hint reveals" ON math_problem_hint_reveals;
+CREATE POLICY "Students read own hint reveals" ON math_problem_hint_reveals
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students record own hint reveals" ON math_problem_hint_reveals;
+CREATE POLICY "Students record own hint reveals" ON math_problem_hint_reveals
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM math_problem_sessions s
+            WHERE s.id = session_id AND s.user_id = auth.uid()
+        )
+    );
+
+-- No UPDATE policy: the import can only happen once
+DROP POLICY IF EXISTS "Students read own progress" ON student_progress;
+CREATE POLICY "Students read own progress" ON student_progress
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students import own progress" ON student_progress;
+CREATE POLICY "Students import own progress" ON student_progress
+    FOR INSERT TO authenticated
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students read own achievements" ON student_achievements;
+CREATE POLICY "Students read own achievements" ON student_achievements
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students unlock own achievements" ON student_achievements;
+CREATE POLICY "Students unlock own achievements" ON student_achievements
+    FOR INSERT TO authenticated
+    WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,118 @@
+-- Teachers and classes
+-- teachers: who may use the /teacher dashboard - added by an admin, e.g.
+--   INSERT INTO teachers (user_id, display_name) VALUES ('<auth user id>', 'Ms Tan');
+CREATE TABLE IF NOT EXISTS teachers (
+    user_id UUID PRIMARY KEY,
+    display_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS classes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    teacher_id UUID NOT NULL DEFAULT auth.uid(),
+    name TEXT NOT NULL,
+    join_code TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- display_name is copied at join time so teachers don't need access to auth.users
+CREATE TABLE IF NOT EXISTS class_members (
+    class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL,
+    display_name TEXT NOT NULL,
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (class_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classes_teacher_id ON classes(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_class_members_student_id ON class_members(student_id);
+
+ALTER TABLE teachers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers read own teacher row" ON teachers;
+CREATE POLICY "Teachers read own teacher row" ON teachers
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Teachers read own classes" ON classes;
+CREATE POLICY "Teachers read own classes" ON classes
+    FOR SELECT TO authenticated
+    USING (auth.uid() = teacher_id);
+
+DROP POLICY IF EXISTS "Teachers create classes" ON classes;
+CREATE POLICY "Teachers create classes" ON classes
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        auth.uid() = teacher_id
+        AND EXISTS (SELECT 1 FROM teachers t WHERE t.user_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Teachers read own rosters" ON class_members;
+CREATE POLICY "Teachers read own rosters" ON class_members
+    FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM classes c WHERE c.id = class_id AND c.teacher_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Students read own memberships" ON class_members;
+CREATE POLICY "Students read own memberships" ON class_members
+    FOR SELECT TO authenticated
+    USING (auth.uid() = student_id);
+
+-- Is this student on one of the current teacher's rosters?
+-- SECURITY DEFINER so the check isn't itself filtered by class_members policies
+CREATE OR REPLACE FUNCTION is_my_student(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM class_members m
+        JOIN classes c ON c.id = m.class_id
+        WHERE m.student_id = p_student_id AND c.teacher_id = auth.uid()
+    );
+$$;
+
+DROP POLICY IF EXISTS "Teachers read students' sessions" ON math_problem_sessions;
+CREATE POLICY "Teachers read students' sessions" ON math_problem_sessions
+    FOR SELECT TO authenticated
+    USING (is_my_student(user_id));
+
+DROP POLICY IF EXISTS "Teachers read students' submissions" ON math_problem_submissions;
+CREATE POLICY "Teachers read students' submissions" ON math_problem_submissions
+    FOR SELECT TO authenticated
+    USING (is_my_student(user_id));
+
+DROP POLICY IF EXISTS "Teachers read students' hint reveals" ON math_problem_hint_reveals;
+CREATE POLICY "Teachers read students' hint reveals" ON math_problem_hint_reveals
+    FOR SELECT TO authenticated
+    USING (is_my_student(user_id));
+
+-- Students join with a code, but can't read the classes table to look it up
+-- Returns the class name, or NULL if the code doesn't match
+-- NOTE: p_student_id must be the caller (the service role may pass any id, for mock-auth users)
+CREATE OR REPLACE FUNCTION join_class(p_join_code TEXT, p_student_id UUID, p_display_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+    v_class classes%ROWTYPE;
+BEGIN
+    IF p_student_id IS DISTINCT FROM auth.uid() AND auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Cannot join a class for another user';
+    END IF;
+
+    SELECT * INTO v_class FROM classes WHERE join_code = upper(p_join_code);
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO class_members (class_id, student_id, display_name)
+    VALUES (v_class.id, p_student_id, p_display_name)
+    ON CONFLICT (class_id, student_id) DO UPDATE SET display_name = EXCLUDED.display_name;
+
+    RETURN v_class.name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION join_class(TEXT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION join_class(TEXT, UUID, TEXT) TO authenticated, service_role;
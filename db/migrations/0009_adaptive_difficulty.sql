@@ -0,0 +1,8 @@
+-- Adaptive difficulty
+-- difficulty_mode: 'manual' (student picked difficulty) or 'adaptive' (server picked it)
+-- adaptive_level: 1-9 (1-3 easy, 4-6 medium, 7-9 hard) - see lib/adaptive.ts
+-- adaptive_reason: why that level was chosen, e.g. '4 of 5 correct ... - moving up to level 5 (medium)'
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS difficulty_mode TEXT NOT NULL DEFAULT 'manual'
+    CHECK (difficulty_mode IN ('manual', 'adaptive'));
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS adaptive_level INTEGER CHECK (adaptive_level BETWEEN 1 AND 9);
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS adaptive_reason TEXT;
@@ -0,0 +1,47 @@
+-- Spaced-repetition review queue
+-- review_items: one per problem a student answered wrong, slowly or with a hint
+-- ease_factor / interval_days / repetitions are SM-2 state - see lib/review.ts
+CREATE TABLE IF NOT EXISTS review_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid(),
+    source_session_id UUID NOT NULL REFERENCES math_problem_sessions(id) ON DELETE CASCADE,
+    ease_factor NUMERIC NOT NULL DEFAULT 2.5,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_quality INTEGER CHECK (last_quality BETWEEN 0 AND 5),
+    last_reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, source_session_id)
+);
+
+-- template_id: which template built a template problem, so reviews can re-roll it with new numbers
+-- review_item_id: set on sessions generated as review variants
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS template_id TEXT;
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS review_item_id UUID REFERENCES review_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_review_items_due ON review_items(user_id, due_at);
+
+ALTER TABLE review_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students read own review items" ON review_items;
+CREATE POLICY "Students read own review items" ON review_items
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students create own review items" ON review_items;
+CREATE POLICY "Students create own review items" ON review_items
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM math_problem_sessions s
+            WHERE s.id = source_session_id AND s.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Students reschedule own review items" ON review_items;
+CREATE POLICY "Students reschedule own review items" ON review_items
+    FOR UPDATE TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
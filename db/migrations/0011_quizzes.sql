@@ -0,0 +1,67 @@
+-- Quizzes
+-- quizzes: one per quiz attempt; score is the number of correct questions, set on submission
+-- difficulty_mix: 'easy' | 'medium' | 'hard' | 'mixed' (mixed ramps from easy to hard)
+-- quiz_items: the quiz's problems in order; submission_id is set when the quiz is submitted
+CREATE TABLE IF NOT EXISTS quizzes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL DEFAULT auth.uid(),
+    topic TEXT NOT NULL,
+    difficulty_mix TEXT NOT NULL CHECK (difficulty_mix IN ('easy', 'medium', 'hard', 'mixed')),
+    question_count INTEGER NOT NULL CHECK (question_count BETWEEN 1 AND 10),
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'submitted')),
+    score INTEGER,
+    time_taken_seconds INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    submitted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS quiz_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL DEFAULT auth.uid(),
+    position INTEGER NOT NULL,
+    session_id UUID NOT NULL REFERENCES math_problem_sessions(id) ON DELETE CASCADE,
+    submission_id UUID REFERENCES math_problem_submissions(id) ON DELETE SET NULL,
+    UNIQUE (quiz_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_user ON quizzes(user_id, created_at DESC);
+
+ALTER TABLE quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students read own quizzes" ON quizzes;
+CREATE POLICY "Students read own quizzes" ON quizzes
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students create own quizzes" ON quizzes;
+CREATE POLICY "Students create own quizzes" ON quizzes
+    FOR INSERT TO authenticated
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students submit own quizzes" ON quizzes;
+CREATE POLICY "Students submit own quizzes" ON quizzes
+    FOR UPDATE TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students read own quiz items" ON quiz_items;
+CREATE POLICY "Students read own quiz items" ON quiz_items
+    FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Students create own quiz items" ON quiz_items;
+CREATE POLICY "Students create own quiz items" ON quiz_items
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM quizzes q WHERE q.id = quiz_id AND q.user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM math_problem_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Students link own quiz submissions" ON quiz_items;
+CREATE POLICY "Students link own quiz submissions" ON quiz_items
+    FOR UPDATE TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
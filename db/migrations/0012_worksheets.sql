@@ -0,0 +1,30 @@
+-- Printable worksheets
+-- problems: snapshot of the numbered problems (text, answer key, hint, solution_expression)
+-- WHY a snapshot? The worksheet and its answer key are printed separately and must match
+-- source: 'generate' (fresh problems) or 'bank' (verified problems from past sessions)
+CREATE TABLE IF NOT EXISTS worksheets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    teacher_id UUID NOT NULL DEFAULT auth.uid(),
+    title TEXT NOT NULL,
+    class_name TEXT,
+    topic TEXT NOT NULL,
+    difficulty_mix TEXT NOT NULL CHECK (difficulty_mix IN ('easy', 'medium', 'hard', 'mixed')),
+    source TEXT NOT NULL CHECK (source IN ('generate', 'bank')),
+    problems JSONB NOT NULL,
+    problem_count INTEGER GENERATED ALWAYS AS (jsonb_array_length(problems)) STORED,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_worksheets_teacher ON worksheets(teacher_id, created_at DESC);
+
+ALTER TABLE worksheets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers read own worksheets" ON worksheets;
+CREATE POLICY "Teachers read own worksheets" ON worksheets
+    FOR SELECT TO authenticated
+    USING (auth.uid() = teacher_id);
+
+DROP POLICY IF EXISTS "Teachers create own worksheets" ON worksheets;
+CREATE POLICY "Teachers create own worksheets" ON worksheets
+    FOR INSERT TO authenticated
+    WITH CHECK (auth.uid() = teacher_id);
@@ -0,0 +1,20 @@
+-- Attempt tracking
+-- attempt_number: 1 for the first answer to a session, 2 for the first retry, ...
+-- hint_revealed: whether the hint had been opened before this answer
+-- seconds_since_previous_attempt: gap since the previous answer to the same session (NULL on attempt 1)
+-- NOTE: Stars depend on these - retries earn at most 1 star, hint-assisted answers at most 2 (see lib/stars.ts)
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS attempt_number INTEGER CHECK (attempt_number >= 1);
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS hint_revealed BOOLEAN;
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS seconds_since_previous_attempt INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_math_problem_submissions_session_attempts
+    ON math_problem_submissions(session_id, user_id, created_at DESC);
+
+-- Backfill attempt numbers for submissions made before attempt tracking
+UPDATE math_problem_submissions s
+SET attempt_number = numbered.attempt_number
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY session_id, user_id ORDER BY created_at) AS attempt_number
+    FROM math_problem_submissions
+) numbered
+WHERE s.id = numbered.id AND s.attempt_number IS NULL;
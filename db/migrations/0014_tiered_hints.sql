@@ -0,0 +1,6 @@
+-- Tiered hints
+-- level: which hint was opened - 1 nudge, 2 strategy, 3 partial calculation (see lib/hints.ts)
+-- NOTE: Reveals recorded before tiers existed become level 1
+ALTER TABLE math_problem_hint_reveals ADD COLUMN IF NOT EXISTS level INTEGER NOT NULL DEFAULT 1 CHECK (level BETWEEN 1 AND 3);
+
+CREATE INDEX IF NOT EXISTS idx_math_problem_hint_reveals_session ON math_problem_hint_reveals(session_id, user_id, level);
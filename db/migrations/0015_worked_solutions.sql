@@ -0,0 +1,4 @@
+-- Worked solutions
+-- worked_solution: { steps: [{ description, expression, result }], answer } - shown step by step after answering
+-- NOTE: Sessions created before this are rebuilt from solution_expression when needed (see lib/workedSolution.ts)
+ALTER TABLE math_problem_sessions ADD COLUMN IF NOT EXISTS worked_solution JSONB;
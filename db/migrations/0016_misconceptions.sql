@@ -0,0 +1,7 @@
+-- Misconception detection
+-- misconception: likely mistake behind a wrong answer, recognised from the problem's solution_expression (see lib/math/misconceptions.ts)
+-- misconception_detail: the specific slip, e.g. "Added instead of multiplying: 45 + 6 = 51, not 45 × 6 = 270"
+-- NOTE: NULL for correct answers, unrecognised mistakes and submissions made before detection
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS misconception TEXT
+    CHECK (misconception IN ('wrong_operation', 'missed_step', 'off_by_one_step', 'remainder', 'place_value'));
+ALTER TABLE math_problem_submissions ADD COLUMN IF NOT EXISTS misconception_detail TEXT;
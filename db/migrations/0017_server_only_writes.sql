@@ -0,0 +1,33 @@
+-- Server-only writes for problems and answers
+-- The API routes now use the service role (see lib/supabaseClient getServiceSupabase), so
+-- students' own JWTs don't need to write these tables. With the old INSERT policies a
+-- student could call PostgREST directly and save is_correct = true / stars_earned = 3,
+-- or read a problem's answer before submitting.
+-- NOTE: The service role bypasses row-level security and keeps full access
+
+DROP POLICY IF EXISTS "Students create own sessions" ON math_problem_sessions;
+DROP POLICY IF EXISTS "Students create own submissions" ON math_problem_submissions;
+
+REVOKE INSERT, UPDATE, DELETE ON math_problem_sessions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON math_problem_submissions FROM anon, authenticated;
+
+-- Students (and teachers) may still read their rows, but not the answer columns:
+-- correct_answer, correct_answer_text, answer_parts, hint, solution_expression, worked_solution
+-- WHY per column? A table-wide SELECT grant can't be narrowed by revoking columns
+-- NOTE: New columns aren't readable with a JWT until they're added here
+REVOKE SELECT ON math_problem_sessions FROM anon, authenticated;
+GRANT SELECT (
+    id,
+    user_id,
+    problem_text,
+    difficulty,
+    difficulty_mode,
+    topic,
+    template_id,
+    verification_status,
+    generation_attempts,
+    adaptive_level,
+    adaptive_reason,
+    review_item_id,
+    created_at
+) ON math_problem_sessions TO authenticated;
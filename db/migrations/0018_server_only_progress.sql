@@ -0,0 +1,13 @@
+-- Server-only writes for progress and achievements
+-- Achievements are unlocked from submissions, hint reveals and the imported
+-- student_progress totals. With their INSERT policies a student could unlock any badge,
+-- or import 500 problems, straight through PostgREST. The API routes write all of
+-- them with the service role (see lib/supabaseClient getServiceSupabase); students keep read access.
+
+DROP POLICY IF EXISTS "Students unlock own achievements" ON student_achievements;
+DROP POLICY IF EXISTS "Students import own progress" ON student_progress;
+DROP POLICY IF EXISTS "Students record own hint reveals" ON math_problem_hint_reveals;
+
+REVOKE INSERT, UPDATE, DELETE ON student_achievements FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON student_progress FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON math_problem_hint_reveals FROM anon, authenticated;
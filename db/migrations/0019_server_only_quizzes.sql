@@ -0,0 +1,13 @@
+-- Server-only writes for quizzes
+-- "Students submit own quizzes" let a student UPDATE their quiz's score and status
+-- straight through PostgREST, and the quiz_items policies let them point an item at
+-- any of their submissions. Quizzes are created, linked and scored by the API routes
+-- with the service role (see lib/quiz.ts); students keep read access.
+
+DROP POLICY IF EXISTS "Students create own quizzes" ON quizzes;
+DROP POLICY IF EXISTS "Students submit own quizzes" ON quizzes;
+DROP POLICY IF EXISTS "Students create own quiz items" ON quiz_items;
+DROP POLICY IF EXISTS "Students link own quiz submissions" ON quiz_items;
+
+REVOKE INSERT, UPDATE, DELETE ON quizzes FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON quiz_items FROM anon, authenticated;
@@ -0,0 +1,10 @@
+-- Server-only writes for the review queue
+-- "Students reschedule own review items" let a student UPDATE their review schedule
+-- (due_at, interval_days, ease_factor) straight through PostgREST, and the INSERT
+-- policy let them queue any session. Review items are created and rescheduled by the
+-- API routes with the service role (see lib/review.ts); students keep read access.
+
+DROP POLICY IF EXISTS "Students create own review items" ON review_items;
+DROP POLICY IF EXISTS "Students reschedule own review items" ON review_items;
+
+REVOKE INSERT, UPDATE, DELETE ON review_items FROM anon, authenticated;
@@ -0,0 +1,75 @@
+/**
+ * Achievement Definitions
+ *
+ * The badges students can unlock, and the rule for each one.
+ *
+ * WHY SHARED? The server decides what's unlocked (so progress can't be forged
+ * in devtools), and the frontend uses the same names and icons to display them.
+ */
+
+export type AchievementKey = 'firstSteps' | 'speedStar' | 'problemSolver' | 'perfection' | 'helperSeeker';
+
+// Totals worked out from a student's recorded submissions and hint reveals
+export interface ProgressStats {
+  problemsCompleted: number; // Every submitted attempt, right or wrong
+  correctAnswers: number;
+  correctStreak: number; // Current run of correct answers
+  bestStreak: number; // Longest run of correct answers ever
+  hintsUsed: number;
+  totalStars: number;
+  threeStarCount: number;
+}
+
+export interface AchievementDefinition {
+  key: AchievementKey;
+  name: string;
+  icon: string;
+  description: string;
+  isUnlocked: (stats: ProgressStats) => boolean;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    key: 'firstSteps',
+    name: 'First Steps',
+    icon: '🎯',
+    description: 'Completed your first problem!',
+    isUnlocked: (stats) => stats.problemsCompleted >= 1,
+  },
+  {
+    key: 'speedStar',
+    name: 'Speed Star',
+    icon: '⚡',
+    description: 'Lightning fast! Got 3 stars!',
+    isUnlocked: (stats) => stats.threeStarCount >= 1,
+  },
+  {
+    key: 'problemSolver',
+    name: 'Problem Solver',
+    icon: '🧠',
+    description: 'Solved 5 problems!',
+    isUnlocked: (stats) => stats.problemsCompleted >= 5,
+  },
+  {
+    key: 'perfection',
+    name: 'Perfection',
+    icon: '💯',
+    description: '3 correct answers in a row!',
+    isUnlocked: (stats) => stats.bestStreak >= 3,
+  },
+  {
+    key: 'helperSeeker',
+    name: 'Helper Seeker',
+    icon: '💡',
+    description: 'Smart! You used a hint!',
+    isUnlocked: (stats) => stats.hintsUsed >= 1,
+  },
+];
+
+export function isAchievementKey(value: unknown): value is AchievementKey {
+  return ACHIEVEMENTS.some((achievement) => achievement.key === value);
+}
+
+export function getAchievement(key: AchievementKey): AchievementDefinition {
+  return ACHIEVEMENTS.find((achievement) => achievement.key === key)!;
+}
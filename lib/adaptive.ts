@@ -0,0 +1,172 @@
+/**
+ * Adaptive Difficulty
+ *
+ * Picks the next problem's difficulty for students who choose "adaptive",
+ * from their recent correctness, time and hint usage on the topic.
+ *
+ * HOW IT WORKS:
+ * - Nine levels: 1-3 easy, 4-6 medium, 7-9 hard. Each level also narrows the
+ *   size of the numbers and the number of steps (ProblemTuning)
+ * - The student stays on a level until they've answered MIN_ATTEMPTS_TO_MOVE
+ *   problems at it, then moves up, down or stays based on those answers
+ * - The chosen level and a plain-English reason are saved on the session,
+ *   so teachers (and we) can see why a problem was pitched where it was
+ *
+ * WHY ONLY ANSWERS AT THE CURRENT LEVEL? Otherwise one good run would push a
+ * student up several levels in a row before they'd tried the harder problems.
+ */
+
+import type { Difficulty, ProblemTuning, Topic } from './ai/types';
+import type { Repositories } from './repositories';
+import { STAR_THRESHOLDS } from './stars';
+import { topicLabel } from './topics';
+
+export interface AdaptiveLevel {
+  level: number;
+  difficulty: Difficulty;
+  tuning: ProblemTuning;
+}
+
+export interface AdaptiveDecision extends AdaptiveLevel {
+  reason: string;
+}
+
+// One answered problem, newest first
+export interface AdaptiveHistoryItem {
+  isCorrect: boolean;
+  timeTakenSeconds: number | null;
+  usedHint: boolean;
+  difficulty: string;
+  adaptiveLevel: number | null;
+}
+
+export const ADAPTIVE_LEVELS: AdaptiveLevel[] = [
+  { level: 1, difficulty: 'easy', tuning: { maxNumber: 20, steps: 1 } },
+  { level: 2, difficulty: 'easy', tuning: { maxNumber: 50, steps: 1 } },
+  { level: 3, difficulty: 'easy', tuning: { maxNumber: 100, steps: 2 } },
+  { level: 4, difficulty: 'medium', tuning: { maxNumber: 200, steps: 2 } },
+  { level: 5, difficulty: 'medium', tuning: { maxNumber: 500, steps: 2 } },
+  { level: 6, difficulty: 'medium', tuning: { maxNumber: 1000, steps: 3 } },
+  { level: 7, difficulty: 'hard', tuning: { maxNumber: 5000, steps: 3 } },
+  { level: 8, difficulty: 'hard', tuning: { maxNumber: 10000, steps: 3 } },
+  { level: 9, difficulty: 'hard', tuning: { maxNumber: 100000, steps: 4 } },
+];
+
+// Where a student starts if they've only ever picked difficulty by hand
+const LEVEL_FOR_DIFFICULTY: Record<Difficulty, number> = { easy: 2, medium: 5, hard: 8 };
+const STARTING_LEVEL = 2;
+
+// Answers needed at a level before it can change
+export const MIN_ATTEMPTS_TO_MOVE = 3;
+// How many recent answers at the level to judge by
+const WINDOW_SIZE = 5;
+// History loaded per decision - enough to find WINDOW_SIZE answers at the current level
+const HISTORY_LIMIT = 20;
+
+const MOVE_UP_ACCURACY = 0.8;
+const MOVE_DOWN_ACCURACY = 0.5;
+const MAX_HINT_RATE_TO_MOVE_UP = 0.2;
+const HINT_RATE_TO_MOVE_DOWN = 0.6;
+
+export function getAdaptiveLevel(level: number): AdaptiveLevel {
+  const clamped = Math.min(Math.max(Math.round(level), 1), ADAPTIVE_LEVELS.length);
+  return ADAPTIVE_LEVELS[clamped - 1];
+}
+
+function describeLevel(level: AdaptiveLevel): string {
+  return `level ${level.level} (${level.difficulty})`;
+}
+
+/**
+ * Works out the current level from the most recent problem
+ */
+function currentLevelOf(history: AdaptiveHistoryItem[]): number | null {
+  const latest = history[0];
+  if (!latest) return null;
+  if (latest.adaptiveLevel) return latest.adaptiveLevel;
+  return LEVEL_FOR_DIFFICULTY[latest.difficulty as Difficulty] ?? null;
+}
+
+/**
+ * Chooses the next level from a student's history on a topic (newest first)
+ * WHY PURE? Easy to reason about, and the reason text is built in one place
+ */
+export function chooseAdaptiveLevel(history: AdaptiveHistoryItem[], topic: Topic): AdaptiveDecision {
+  const topicName = topic === 'random' ? 'mixed topics' : topicLabel(topic).toLowerCase();
+  const currentLevel = currentLevelOf(history);
+
+  if (currentLevel === null) {
+    const start = getAdaptiveLevel(STARTING_LEVEL);
+    return { ...start, reason: `No history yet for ${topicName} - starting at ${describeLevel(start)}` };
+  }
+
+  const current = getAdaptiveLevel(currentLevel);
+  const atLevel = history
+    .filter((item) => currentLevelOf([item]) === current.level)
+    .slice(0, WINDOW_SIZE);
+
+  if (atLevel.length < MIN_ATTEMPTS_TO_MOVE) {
+    return {
+      ...current,
+      reason: `${atLevel.length} of ${MIN_ATTEMPTS_TO_MOVE} problems answered at ${describeLevel(current)} in ${topicName} - staying to gather more evidence`,
+    };
+  }
+
+  const correct = atLevel.filter((item) => item.isCorrect).length;
+  const accuracy = correct / atLevel.length;
+  const hintRate = atLevel.filter((item) => item.usedHint).length / atLevel.length;
+  const times = atLevel
+    .filter((item) => item.isCorrect && item.timeTakenSeconds !== null)
+    .map((item) => item.timeTakenSeconds as number);
+  const averageTime = times.length > 0 ? times.reduce((sum, time) => sum + time, 0) / times.length : null;
+  // "Fast" means inside the two-star time for this difficulty
+  const isFast = averageTime !== null && averageTime < STAR_THRESHOLDS[current.difficulty].two;
+
+  const evidence = `${correct} of ${atLevel.length} correct` +
+    (averageTime !== null ? `, average ${Math.round(averageTime)}s` : '') +
+    `, hints on ${Math.round(hintRate * 100)}%`;
+
+  if (accuracy >= MOVE_UP_ACCURACY && isFast && hintRate <= MAX_HINT_RATE_TO_MOVE_UP && current.level < ADAPTIVE_LEVELS.length) {
+    const next = getAdaptiveLevel(current.level + 1);
+    return { ...next, reason: `${evidence} in ${topicName} - moving up to ${describeLevel(next)}` };
+  }
+
+  if ((accuracy < MOVE_DOWN_ACCURACY || hintRate >= HINT_RATE_TO_MOVE_DOWN) && current.level > 1) {
+    const next = getAdaptiveLevel(current.level - 1);
+    return { ...next, reason: `${evidence} in ${topicName} - moving down to ${describeLevel(next)}` };
+  }
+
+  return { ...current, reason: `${evidence} in ${topicName} - staying at ${describeLevel(current)}` };
+}
+
+/**
+ * Loads the student's recent answers on a topic (all topics for 'random')
+ */
+export async function loadAdaptiveHistory(repos: Repositories, userId: string, topic: Topic): Promise<AdaptiveHistoryItem[]> {
+  const submissions = await repos.submissions.listRecentWithSessions(userId, {
+    topic: topic === 'random' ? null : topic,
+    limit: HISTORY_LIMIT,
+  });
+  if (submissions.length === 0) {
+    return [];
+  }
+
+  const reveals = await repos.progress.listHintReveals(userId, submissions.map((submission) => submission.session_id));
+  const hintedSessions = new Set(reveals.map((reveal) => reveal.session_id));
+
+  return submissions.map((submission) => ({
+    isCorrect: submission.is_correct,
+    timeTakenSeconds: submission.time_taken_seconds,
+    usedHint: hintedSessions.has(submission.session_id),
+    difficulty: submission.session.difficulty,
+    adaptiveLevel: submission.session.adaptive_level,
+  }));
+}
+
+/**
+ * Chooses difficulty for the student's next adaptive problem on this topic
+ */
+export async function decideAdaptiveDifficulty(repos: Repositories, userId: string, topic: Topic): Promise<AdaptiveDecision> {
+  const history = await loadAdaptiveHistory(repos, userId, topic);
+  return chooseAdaptiveLevel(history, topic);
+}
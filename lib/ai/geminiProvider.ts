@@ -0,0 +1,131 @@
+/**
+ * Gemini Problem Provider
+ *
+ * Generates problems and feedback with Google Gemini AI.
+ *
+ * WHY A FACTORY? The Gemini client is created once per provider instead of at
+ * module load in every route, so importing this file never needs an API key.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { buildAnswerKey } from '../math/answerSchema';
+import { incrementCounter, logger } from '../observability';
+import { buildFeedbackPrompt, buildProblemPrompt } from './prompts';
+import { generateTemplateProblem } from './templateGenerator';
+import { GeneratedProblem, ProblemProvider, ProblemRequest } from './types';
+
+// WHY 'gemini-2.0-flash'? It's the current available model that works with our API key
+const GEMINI_MODEL = 'gemini-2.0-flash';
+
+const log = logger.child({ provider: 'gemini' });
+
+// How the reply was read: 'direct' (plain JSON), 'cleaned' (code fences or extra text removed)
+// or 'template_fallback' (unreadable) - the fallback rate is shown by /api/metrics
+function recordParse(method: 'direct' | 'cleaned' | 'template_fallback'): void {
+  incrementCounter('ai_parse_total', { provider: 'gemini', method });
+}
+
+export function createGeminiProvider(apiKey: string): ProblemProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
+
+  return {
+    name: 'gemini',
+
+    async generateProblem(request) {
+      // Call Gemini AI to generate the problem
+      // WHY async/await? Makes code more readable than promise chains
+      const result = await model.generateContent(buildProblemPrompt(request));
+      const aiResponse = await result.response;
+      const text = aiResponse.text();
+
+      // Raw reply for troubleshooting - only logged with LOG_LEVEL=debug
+      log.debug('Gemini problem reply', { length: text.length, text });
+
+      return parseProblemResponse(text, request);
+    },
+
+    async generateFeedback(request) {
+      const feedbackResult = await model.generateContent(buildFeedbackPrompt(request));
+      const feedbackResponse = await feedbackResult.response;
+      return feedbackResponse.text().trim();
+    },
+  };
+}
+
+/**
+ * Parses the AI response as JSON with enhanced error handling
+ * WHY try-catch? AI might not always return perfect JSON format
+ * WHY check the shape too? Valid JSON can still be unusable (null, or no
+ * final_answer) - that used to reach problemSession and fail the request
+ */
+function parseProblemResponse(text: string, request: ProblemRequest): GeneratedProblem {
+  const read = readJson(text);
+
+  if (read.ok === false) {
+    // Log the issue for debugging, but provide a fallback problem
+    recordParse('template_fallback');
+    log.warn('Gemini reply is not valid JSON - using a template problem', { error: read.error, length: text.length });
+
+    // Use a template problem so the app still works
+    // WHY templates? Respects the requested difficulty and topic, and includes a hint
+    return generateTemplateProblem(request);
+  }
+
+  const problemError = checkProblemShape(read.value);
+  if (problemError) {
+    recordParse('template_fallback');
+    log.warn('Gemini reply is not a usable problem - using a template problem', { error: problemError, length: text.length });
+    return generateTemplateProblem(request);
+  }
+
+  recordParse(read.method);
+  return read.value as GeneratedProblem;
+}
+
+function readJson(text: string): { ok: true; value: unknown; method: 'direct' | 'cleaned' } | { ok: false; error: unknown } {
+  try {
+    // First, try direct JSON parsing
+    return { ok: true, value: JSON.parse(text), method: 'direct' };
+  } catch (parseError) {
+    // Fall through to the cleanup below
+  }
+
+  // Try to extract JSON from markdown code blocks
+  let jsonText = text.trim();
+
+  // Remove markdown code block markers if present
+  if (jsonText.startsWith('```json')) {
+    jsonText = jsonText.replace(/```json\s*|\s*```/g, '');
+  } else if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/```\s*|\s*```/g, '');
+  }
+
+  // Try to find JSON object in the text (in case AI added extra text)
+  const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    jsonText = jsonMatch[0];
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(jsonText), method: 'cleaned' };
+  } catch (secondParseError) {
+    return { ok: false, error: secondParseError };
+  }
+}
+
+/**
+ * Why a parsed reply can't be used as a problem, or null if it can
+ * WHY the same checks as problemSession? Anything that passes here can be saved
+ */
+function checkProblemShape(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Reply is not a JSON object';
+  }
+  const problem = value as GeneratedProblem;
+  if (typeof problem.problem_text !== 'string' || !problem.problem_text.trim()) {
+    return 'Missing problem_text';
+  }
+  const answerKey = buildAnswerKey(problem);
+  return answerKey.ok === false ? answerKey.error : null;
+}
@@ -0,0 +1,101 @@
+/**
+ * Problem Provider Selection
+ *
+ * Picks the problem/feedback provider from configuration.
+ *
+ * CONFIGURATION:
+ * - AI_PROVIDER=gemini  → Google Gemini (requires GOOGLE_API_KEY)
+ * - AI_PROVIDER=local   → Deterministic offline provider (no network, no key)
+ * - AI_PROVIDER=template → Rule-based template generator (offline, varied problems)
+ * - Unset               → Gemini when GOOGLE_API_KEY exists, otherwise local
+ *
+ * NOTE: Every provider call is timed and counted (ai_request_duration_ms and
+ * ai_requests_total in /api/metrics), whichever provider is configured.
+ * Gemini calls also get timeouts, retries and a circuit breaker, falling back
+ * to template problems and templated feedback (see ./resilience).
+ */
+
+import { incrementCounter, logger, timeAsync } from '../observability';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+import { createResilientProvider } from './resilience';
+import { createTemplateProvider } from './templateProvider';
+import { ProblemProvider } from './types';
+
+export * from './types';
+
+export type ProviderName = 'gemini' | 'local' | 'template';
+
+const PROVIDER_NAMES: ProviderName[] = ['gemini', 'local', 'template'];
+
+// Cached so the local provider keeps its rotation and Gemini isn't re-initialised per request
+let cachedProvider: ProblemProvider | null = null;
+
+export function getProblemProvider(): ProblemProvider {
+  if (!cachedProvider) {
+    cachedProvider = createProvider(resolveProviderName());
+    logger.info('Problem provider selected', { provider: cachedProvider.name });
+  }
+  return cachedProvider;
+}
+
+// Starts again with a new provider - and a closed circuit breaker (used by tests)
+export function resetProblemProvider(): void {
+  cachedProvider = null;
+}
+
+function resolveProviderName(): ProviderName {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+
+  if (PROVIDER_NAMES.includes(configured as ProviderName)) {
+    return configured as ProviderName;
+  }
+  if (configured) {
+    throw new Error(`Unknown AI_PROVIDER "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+  }
+
+  // No explicit choice - fall back to local when there's no API key to use
+  return process.env.GOOGLE_API_KEY ? 'gemini' : 'local';
+}
+
+function createProvider(name: ProviderName): ProblemProvider {
+  switch (name) {
+    case 'gemini': {
+      const apiKey = process.env.GOOGLE_API_KEY;
+      if (!apiKey) {
+        throw new Error('AI_PROVIDER is "gemini" but GOOGLE_API_KEY is not set');
+      }
+      // WHY metrics inside the wrapper? Each attempt is timed and counted, retries included
+      return createResilientProvider(withMetrics(createGeminiProvider(apiKey)), createTemplateProvider());
+    }
+    case 'local':
+      return withMetrics(createLocalProvider());
+    case 'template':
+      return withMetrics(createTemplateProvider());
+  }
+}
+
+type ProviderOperation = 'generate_problem' | 'feedback';
+
+// WHY wrap instead of timing inside each provider? Latency and failures are
+// measured the same way for Gemini, local and template
+function withMetrics(provider: ProblemProvider): ProblemProvider {
+  return {
+    name: provider.name,
+    generateProblem: (request) => measure(provider.name, 'generate_problem', () => provider.generateProblem(request)),
+    generateFeedback: (request) => measure(provider.name, 'feedback', () => provider.generateFeedback(request)),
+  };
+}
+
+async function measure<T>(providerName: string, operation: ProviderOperation, call: () => Promise<T>): Promise<T> {
+  const labels = { provider: providerName, operation };
+  try {
+    const result = await timeAsync('ai_request_duration_ms', labels, call);
+    incrementCounter('ai_requests_total', { ...labels, outcome: 'success' });
+    return result;
+  } catch (error) {
+    incrementCounter('ai_requests_total', { ...labels, outcome: 'error' });
+    logger.warn('Problem provider call failed', { ...labels, error });
+    throw error;
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Local Problem Provider
+ *
+ * Deterministic, offline stand-in for the AI provider.
+ *
+ * WHY? Lets us develop, demo in classrooms with poor connectivity and run
+ * end-to-end tests without network access or a Google API key.
+ *
+ * HOW IT WORKS:
+ * - Each topic/difficulty pair maps to a fixed, hand-checked problem
+ * - Every topic in lib/topics has a problem for each difficulty - TypeScript
+ *   rejects the bank if one is missing
+ * - 'random' cycles through the four operations in a fixed order
+ * - Feedback is templated from the correct answer and the student's answer
+ */
+
+import { buildTemplatedFeedback } from './templatedFeedback';
+import { Difficulty, GeneratedProblem, ProblemProvider, Topic } from './types';
+
+type Operation = Exclude<Topic, 'random'>;
+
+const PROBLEM_BANK: Record<Operation, Record<Difficulty, GeneratedProblem>> = {
+  addition: {
+    easy: {
+      problem_text: 'A basket has 12 apples. Priya adds 8 more. How many apples are in the basket now?',
+      final_answer: 20,
+      solution_expression: '12 + 8',
+      hint: 'Start with 12 and count on 8 more.',
+    },
+    medium: {
+      problem_text: 'A school library received 156 new books in March and 218 new books in April. How many new books did it receive altogether?',
+      final_answer: 374,
+      solution_expression: '156 + 218',
+      hint: 'Add the two months together. Try adding the hundreds, tens and ones separately.',
+    },
+    hard: {
+      problem_text: 'A charity run raised $1,245 on Saturday, $987 on Sunday and $1,568 on Monday. How much money was raised over the three days?',
+      final_answer: 3800,
+      solution_expression: '1245 + 987 + 1568',
+      hint: 'Add Saturday and Sunday first, then add Monday to that total.',
+    },
+  },
+  subtraction: {
+    easy: {
+      problem_text: 'Marcus had 45 stickers. He gave 17 stickers to his sister. How many stickers does he have left?',
+      final_answer: 28,
+      solution_expression: '45 - 17',
+      hint: 'Take 17 away from 45. You may need to regroup the tens.',
+    },
+    medium: {
+      problem_text: 'A cinema has 420 seats. 268 seats were filled for the morning show. How many seats were empty?',
+      final_answer: 152,
+      solution_expression: '420 - 268',
+      hint: 'Subtract the filled seats from the total number of seats.',
+    },
+    hard: {
+      problem_text: 'A water tank holds 2,500 litres. On Monday 875 litres were used and on Tuesday 1,148 litres were used. How many litres are left in the tank?',
+      final_answer: 477,
+      solution_expression: '2500 - 875 - 1148',
+      hint: 'Subtract Monday\'s amount from 2,500 first, then subtract Tuesday\'s amount from what is left.',
+    },
+  },
+  multiplication: {
+    easy: {
+      problem_text: 'A farmer planted 7 rows of tomato plants with 9 plants in each row. How many tomato plants did she plant?',
+      final_answer: 63,
+      solution_expression: '7 * 9',
+      hint: 'There are 7 equal groups of 9. Multiply 7 by 9.',
+    },
+    medium: {
+      problem_text: 'Each box holds 24 crayons. A teacher buys 15 boxes for her class. How many crayons does she buy?',
+      final_answer: 360,
+      solution_expression: '24 * 15',
+      hint: 'Multiply 24 by 15. You can work out 24 × 10 and 24 × 5, then add them.',
+    },
+    hard: {
+      problem_text: 'A bus company runs 12 buses. Each bus makes 8 trips a day and carries 45 passengers per trip. How many passengers can the company carry in one day?',
+      final_answer: 4320,
+      solution_expression: '12 * 8 * 45',
+      hint: 'First find the total number of trips, then multiply by the passengers per trip.',
+    },
+  },
+  division: {
+    easy: {
+      problem_text: 'A zoo has 48 penguins split equally into 6 enclosures. How many penguins are in each enclosure?',
+      final_answer: 8,
+      solution_expression: '48 / 6',
+      hint: 'Share 48 equally into 6 groups. Which number times 6 makes 48?',
+    },
+    medium: {
+      problem_text: 'A bakery makes 156 cookies and packs them into boxes of 12. How many boxes can they fill?',
+      final_answer: 13,
+      solution_expression: '156 / 12',
+      hint: 'Divide 156 by 12. Think about how many 12s make 120 first.',
+    },
+    hard: {
+      problem_text: 'A school collected 2,352 bottle caps for an art project. The caps are shared equally among 8 classes, and each class shares its caps equally among 6 groups. How many caps does each group get?',
+      final_answer: 49,
+      solution_expression: '2352 / 8 / 6',
+      hint: 'First divide the caps among the classes, then divide each class\'s share among the groups.',
+    },
+  },
+  whole_numbers: {
+    easy: {
+      problem_text: 'What is the value of the digit 6 in 2,635,148?',
+      final_answer: 600000,
+      solution_expression: '6 * 100000',
+      hint: 'Count the places from the right: ones, tens, hundreds, thousands, ten thousands, hundred thousands.',
+    },
+    medium: {
+      problem_text: 'A city had 2,345,670 residents. Over ten years, 1,208,455 more people moved in. How many residents does the city have now?',
+      final_answer: 3554125,
+      solution_expression: '2345670 + 1208455',
+      hint: 'Line up the digits by place value, then add from the ones column.',
+    },
+    hard: {
+      problem_text: 'A country had 9,204,300 people. Over the next year, 1,356,780 people moved away and 845,215 babies were born. How many people live in the country now?',
+      final_answer: 8692735,
+      solution_expression: '9204300 - 1356780 + 845215',
+      hint: 'First subtract the people who moved away, then add the babies who were born.',
+    },
+  },
+  fractions: {
+    easy: {
+      problem_text: 'Mei Ling had 36 stickers. She gave 3/4 of them to her friends. How many stickers did she give away?',
+      final_answer: 27,
+      solution_expression: '36 * 3 / 4',
+      hint: 'Find 1/4 of 36 first, then multiply by 3.',
+    },
+    medium: {
+      problem_text: 'Ravi ate 1/3 of a pizza and his sister ate 1/6 of it. What fraction of the pizza did they eat altogether?',
+      final_answer: '1/2',
+      solution_expression: '1 / 3 + 1 / 6',
+      hint: 'Change 1/3 into sixths so both fractions have the same denominator, then add and simplify.',
+    },
+    hard: {
+      problem_text: 'A baker used 2/5 of a 30 kg bag of flour on Monday and 1/3 of the remaining flour on Tuesday. How many kilograms of flour were left?',
+      final_answer: 12,
+      solution_expression: '(30 - 30 * 2 / 5) - (30 - 30 * 2 / 5) / 3',
+      answer_unit: 'kg',
+      hint: 'Work out how much flour was left after Monday. Tuesday\'s 1/3 is a fraction of that remainder, not of the whole bag.',
+    },
+  },
+  decimals: {
+    easy: {
+      problem_text: 'A pen costs $2.35. How much do 4 pens cost?',
+      final_answer: 9.4,
+      solution_expression: '2.35 * 4',
+      answer_unit: '$',
+      hint: 'Multiply 235 cents by 4, then change the answer back into dollars.',
+    },
+    medium: {
+      problem_text: 'A ribbon 7.2 m long is cut into 6 equal pieces. Each piece is then shortened by 0.15 m. How long is each piece now?',
+      final_answer: 1.05,
+      solution_expression: '7.2 / 6 - 0.15',
+      answer_unit: 'm',
+      hint: 'Divide the ribbon into 6 first, then take 0.15 m off one piece. Line up the decimal points.',
+    },
+    hard: {
+      problem_text: 'Siti buys 3 kg of apples at $4.85 per kg and 2.5 kg of grapes at $6.40 per kg. She pays with a $50 note. How much change does she get?',
+      final_answer: 19.45,
+      solution_expression: '50 - (3 * 4.85 + 2.5 * 6.4)',
+      answer_unit: '$',
+      hint: 'Find the cost of the apples and of the grapes, add them, then subtract the total from $50.',
+    },
+  },
+  percentage: {
+    easy: {
+      problem_text: 'A bicycle costs $240. It is sold at a 25% discount. How much is the discount?',
+      final_answer: 60,
+      solution_expression: '240 * 25 / 100',
+      answer_unit: '$',
+      hint: '25% is the same as 1/4. What is 1/4 of $240?',
+    },
+    medium: {
+      problem_text: '18 of the 40 children in a club are girls. What percentage of the children are girls?',
+      final_answer: 45,
+      solution_expression: '18 / 40 * 100',
+      answer_unit: '%',
+      hint: 'Write the girls as a fraction of all the children, then change it to a fraction out of 100.',
+    },
+    hard: {
+      problem_text: 'A shop bought 250 T-shirts. It sold 60% of them in June and 30% of the remaining T-shirts in July. How many T-shirts were left?',
+      final_answer: 70,
+      solution_expression: '(250 - 250 * 60 / 100) - (250 - 250 * 60 / 100) * 30 / 100',
+      hint: 'Find how many were left after June. July\'s 30% is a percentage of those, not of all 250.',
+    },
+  },
+  ratio: {
+    easy: {
+      problem_text: 'Aisha and Ben share 45 marbles in the ratio 2 : 3. How many marbles does Ben get?',
+      final_answer: 27,
+      solution_expression: '45 / (2 + 3) * 3',
+      hint: 'There are 2 + 3 = 5 units altogether. Find one unit, then Ben gets 3 units.',
+    },
+    medium: {
+      problem_text: 'The ratio of boys to girls in a choir is 4 : 5. There are 35 girls. How many children are in the choir?',
+      final_answer: 63,
+      solution_expression: '35 / 5 * (4 + 5)',
+      hint: 'The girls are 5 units. Find the value of 1 unit, then count all 9 units.',
+    },
+    hard: {
+      problem_text: 'Jun Wei, Priya and Omar share $360 in the ratio 2 : 3 : 4. How much more money does Omar get than Jun Wei?',
+      final_answer: 80,
+      solution_expression: '360 / (2 + 3 + 4) * (4 - 2)',
+      answer_unit: '$',
+      hint: 'Find the value of 1 unit. Omar has 2 units more than Jun Wei.',
+    },
+  },
+  average: {
+    easy: {
+      problem_text: 'Omar scored 78, 85 and 92 in three spelling tests. What was his average score?',
+      final_answer: 85,
+      solution_expression: '(78 + 85 + 92) / 3',
+      hint: 'Add the three scores, then divide by the number of tests.',
+    },
+    medium: {
+      problem_text: 'The average mass of 4 parcels is 2.5 kg. Three of them have masses of 1.8 kg, 3.2 kg and 2.1 kg. What is the mass of the fourth parcel?',
+      final_answer: 2.9,
+      solution_expression: '4 * 2.5 - (1.8 + 3.2 + 2.1)',
+      answer_unit: 'kg',
+      hint: 'The average tells you the total mass: 4 × 2.5 kg. Take away the three masses you know.',
+    },
+    hard: {
+      problem_text: 'The average height of 5 children is 142 cm. When a sixth child joins them, the average height becomes 144 cm. How tall is the sixth child?',
+      final_answer: 154,
+      solution_expression: '6 * 144 - 5 * 142',
+      answer_unit: 'cm',
+      hint: 'Find the total height before and after the sixth child joined. The difference is the new child\'s height.',
+    },
+  },
+  area_perimeter: {
+    easy: {
+      problem_text: 'A square photo frame has sides of 15 cm. What is its perimeter?',
+      final_answer: 60,
+      solution_expression: '4 * 15',
+      answer_unit: 'cm',
+      hint: 'A square has 4 equal sides. Add them all up.',
+    },
+    medium: {
+      problem_text: 'A rectangular garden is 12 m long and 8 m wide. A square flower bed with sides of 3 m is dug in it, and the rest of the garden is covered with grass. What area is covered with grass?',
+      final_answer: 87,
+      solution_expression: '12 * 8 - 3 * 3',
+      answer_unit: 'm²',
+      hint: 'Find the area of the whole garden, then subtract the area of the flower bed.',
+    },
+    hard: {
+      problem_text: 'A rectangle has a perimeter of 54 cm and a length of 15 cm. A triangle with a base equal to the rectangle\'s width and a height of 10 cm is drawn next to it. What is the total area of the two shapes?',
+      final_answer: 240,
+      solution_expression: '15 * (54 / 2 - 15) + (54 / 2 - 15) * 10 / 2',
+      answer_unit: 'cm²',
+      hint: 'Half the perimeter is length + width, so find the width first. Then add the rectangle\'s area to the triangle\'s area (½ × base × height).',
+    },
+  },
+  volume: {
+    easy: {
+      problem_text: 'A cube has edges of 6 cm. What is its volume?',
+      final_answer: 216,
+      solution_expression: '6 * 6 * 6',
+      answer_unit: 'cm³',
+      hint: 'Volume = length × breadth × height, and every edge of a cube is the same.',
+    },
+    medium: {
+      problem_text: 'A fish tank is 40 cm long, 25 cm wide and 30 cm high. What is its volume?',
+      final_answer: 30000,
+      solution_expression: '40 * 25 * 30',
+      answer_unit: 'cm³',
+      hint: 'Multiply the length, the width and the height.',
+    },
+    hard: {
+      problem_text: 'A tank 50 cm long and 40 cm wide is filled with water to a height of 18 cm. How many more litres of water are needed to fill it to a height of 30 cm? (1 litre = 1000 cm³)',
+      final_answer: 24,
+      solution_expression: '50 * 40 * (30 - 18) / 1000',
+      answer_unit: 'ℓ',
+      hint: 'Find how much higher the water must rise, work out that volume in cm³, then change it to litres.',
+    },
+  },
+  angles: {
+    easy: {
+      problem_text: 'Two angles lie on a straight line. One of them is 65°. What is the size of the other angle?',
+      final_answer: 115,
+      solution_expression: '180 - 65',
+      answer_unit: '°',
+      hint: 'Angles on a straight line add up to 180°.',
+    },
+    medium: {
+      problem_text: 'In triangle ABC, angle A is 48° and angle B is 67°. What is the size of angle C?',
+      final_answer: 65,
+      solution_expression: '180 - 48 - 67',
+      answer_unit: '°',
+      hint: 'The three angles in a triangle add up to 180°.',
+    },
+    hard: {
+      problem_text: 'Angles p, q and r meet at a point. Angle p is 126°, and angle q is twice the size of angle r. What is the size of angle q?',
+      final_answer: 156,
+      solution_expression: '(360 - 126) / 3 * 2',
+      answer_unit: '°',
+      hint: 'Angles at a point add up to 360°. Angles q and r together make 3 equal units.',
+    },
+  },
+};
+
+// Fixed order used when the topic is 'random'
+const RANDOM_ROTATION: Operation[] = ['addition', 'subtraction', 'multiplication', 'division'];
+
+export function createLocalProvider(): ProblemProvider {
+  // WHY a counter instead of Math.random()? Keeps the sequence reproducible for tests
+  let randomIndex = 0;
+
+  return {
+    name: 'local',
+
+    async generateProblem({ difficulty, topic }) {
+      let operation: Operation;
+      if (topic === 'random') {
+        operation = RANDOM_ROTATION[randomIndex % RANDOM_ROTATION.length];
+        randomIndex++;
+      } else {
+        operation = topic;
+      }
+
+      // Return a copy so callers can't mutate the shared bank
+      return { ...PROBLEM_BANK[operation][difficulty] };
+    },
+
+    async generateFeedback(request) {
+      return buildTemplatedFeedback(request);
+    },
+  };
+}
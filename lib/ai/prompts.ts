@@ -0,0 +1,176 @@
+/**
+ * AI Prompt Builders
+ *
+ * Prompt text for problem generation and answer feedback.
+ *
+ * WHY A SEPARATE FILE?
+ * - Prompts are the part of the AI integration we tweak most often
+ * - Keeps provider code focused on calling the model and parsing results
+ */
+
+import { TOPICS } from '../topics';
+import { Difficulty, FeedbackRequest, ProblemRequest, ProblemTuning, ProblemVariantSource, Topic } from './types';
+
+// Build difficulty-specific instructions
+const difficultyInstructions: Record<Difficulty, string> = {
+  easy: `
+      EASY DIFFICULTY:
+      - Single-step problems only
+      - Use small, friendly numbers (under 100)
+      - Simple operations: basic addition, subtraction, or single multiplication/division
+      - Clear, straightforward scenarios
+      - Example: "A basket has 12 apples. You add 8 more. How many apples are there now?"
+    `,
+  medium: `
+      MEDIUM DIFFICULTY:
+      - Two-step problems
+      - Use larger numbers (up to 500)
+      - Can combine operations
+      - Slightly more complex scenarios
+      - Example: "A store has 45 boxes with 6 pencils each. If they sell 70 pencils, how many are left?"
+    `,
+  hard: `
+      HARD DIFFICULTY:
+      - Multi-step problems (3+ steps)
+      - Use larger numbers and fractions/decimals where appropriate
+      - Require deeper reasoning and planning
+      - Complex word problem scenarios
+      - Still appropriate for Primary 5 level
+      - Example: "A library has 8 shelves with 15 books each. They receive 3 boxes of 12 new books. If they remove 25 damaged books, how many books remain?"
+      - For HARD problems, provide a MORE DETAILED hint that breaks down the steps
+    `
+};
+
+const ANSWER_FORMAT_DESCRIPTIONS = {
+  integer: 'a whole number',
+  decimal: 'a decimal',
+  fraction: 'a fraction in lowest terms',
+  mixed: 'a mixed number',
+};
+
+/**
+ * Topic-specific instructions, examples and answer formats from the topic registry (lib/topics)
+ */
+function buildTopicInstructions(topic: Topic): string {
+  const definition = TOPICS[topic];
+  const formats = definition.answerFormats.map((format) => ANSWER_FORMAT_DESCRIPTIONS[format]).join(', ');
+  const examples = definition.examples.map((example) => `      - "${example}"`).join('\n');
+
+  return `
+      TOPIC: ${definition.label.toUpperCase()}
+      ${definition.promptInstructions}
+      - The answer must be one of: ${formats}
+      ${examples ? `EXAMPLES FOR THIS TOPIC (write a different problem):\n${examples}` : ''}
+    `;
+}
+
+/**
+ * Sizing picked by adaptive difficulty - narrows the difficulty band above
+ */
+function buildTuningInstructions(tuning: ProblemTuning): string {
+  return `
+      SIZE FOR THIS STUDENT:
+      - Keep every number at or below ${tuning.maxNumber}
+      - Use exactly ${tuning.steps} calculation step${tuning.steps === 1 ? '' : 's'}
+    `;
+}
+
+/**
+ * Review problems - same maths as a problem the student missed, new surface details
+ */
+function buildVariantInstructions(variantOf: ProblemVariantSource): string {
+  return `
+      REVIEW VARIANT - the student got this problem wrong (or was slow) earlier:
+      "${variantOf.problemText}"${variantOf.solutionExpression ? `
+      Its solution was: ${variantOf.solutionExpression}` : ''}
+      - Write a NEW problem with the SAME structure: same operations, in the same order, same number of steps
+      - Change the numbers, names and scenario so it can't be answered from memory
+      - This overrides the variety requirements below
+    `;
+}
+
+/**
+ * Creates a detailed prompt for problem generation
+ * WHY THIS PROMPT? Specifies age group, math level, variety requirements, and exact JSON format
+ * NOTE: Enhanced with diversity instructions to prevent repetitive problems
+ */
+export function buildProblemPrompt({ difficulty, topic, tuning, variantOf }: ProblemRequest): string {
+  return `
+    Generate a UNIQUE and CREATIVE math word problem suitable for Primary 5 students (10-11 years old).
+    
+    DIFFICULTY LEVEL: ${difficulty.toUpperCase()}
+    ${difficultyInstructions[difficulty]}
+    ${tuning ? buildTuningInstructions(tuning) : ''}
+    ${variantOf ? buildVariantInstructions(variantOf) : ''}
+    
+    ${buildTopicInstructions(topic)}
+    
+    VARIETY REQUIREMENTS - Make each problem different:
+    - Use DIVERSE scenarios: sports, cooking, animals, school, games, shopping, nature, travel, books, arts, technology
+    - Use VARIED problem structures: finding totals, differences, rates, distributions, comparisons, equal groups
+    - Use DIFFERENT names each time (avoid repeating common names like Sarah, Lily, John)
+    - Make each problem feel UNIQUE and engaging for children
+    
+    EXAMPLES OF DIVERSE PROBLEMS:
+    - "A zoo has 48 penguins split equally into 6 enclosures. How many penguins are in each enclosure?"
+    - "Tom scored 23 points in the first basketball game and 31 in the second. How many total points did he score?"
+    - "A bakery makes 156 cookies and packs them into boxes of 12. How many boxes can they fill?"
+    - "Emma has 5 sticker books with 25 pages each. If each page holds 8 stickers, how many stickers can she collect in total?"
+    - "A farmer planted 7 rows of tomato plants with 9 plants in each row. How many tomato plants did he plant?"
+
+    CRITICAL REQUIREMENTS:
+    - Respond with ONLY a valid JSON object
+    - Include a HELPFUL HINT that guides students without giving away the answer
+    - The hint should be simple and direct, appropriate for 10-11 year olds
+    - "final_answer" is a number for whole-number and decimal answers (e.g. 42 or 2.5)
+      - For fraction answers use a string in lowest terms: "3/4", or a mixed number: "1 1/2"
+    - Include a "solution_expression": ONE arithmetic expression that calculates final_answer
+      - Use ONLY numbers, + - * / and parentheses (no words, units, variables or "=")
+      - It must evaluate EXACTLY to final_answer - it is used to check your answer
+    - Include "solution_steps": the worked solution, one calculation per step, in order
+      - Each step is { "description", "expression" } - a short description of what the step finds,
+        and an expression using ONLY numbers, + - * / and parentheses (use earlier results as numbers)
+      - The last step must evaluate to final_answer
+    - If the answer has a unit, put it in "answer_unit" (e.g. "cm", "cm²", "kg", "$", "min"); omit it for plain counts
+    - ONLY if the question asks for more than one value (e.g. quotient AND remainder, or dollars AND cents),
+      also include "answer_parts": a list of { "name", "label", "unit", "answer", "solution_expression" }
+      with one entry per value, in the order asked; final_answer must equal the first part's answer
+    - Do NOT include any explanations, markdown, or extra text
+    - Do NOT wrap in code blocks
+    - Format MUST be exactly:
+
+    {
+      "problem_text": "Your unique and creative problem here...",
+      "final_answer": 42,
+      "hint": "Your helpful hint here...",
+      "solution_expression": "6 * 9 - 12",
+      "solution_steps": [
+        { "description": "Find how many in 6 groups of 9", "expression": "6 * 9" },
+        { "description": "Take away the 12 that were used", "expression": "54 - 12" }
+      ]
+    }
+  `;
+}
+
+/**
+ * Creates a prompt for personalized answer feedback
+ * WHY THIS PROMPT? Provides context for personalized, educational feedback
+ */
+export function buildFeedbackPrompt(request: FeedbackRequest): string {
+  return `
+      Original problem: ${request.problemText}
+      Correct answer: ${request.correctAnswer}
+      User's answer: ${request.userAnswer}
+      Was the user correct? ${request.isCorrect ? 'Yes' : 'No'}
+      ${request.misconception ? `Likely mistake (worked out from their answer): ${request.misconception}` : ''}
+
+      Generate personalized feedback that:
+      - ${request.isCorrect ? 'Praises the user and reinforces the correct method' : 'Points out where the working likely went wrong (a step-by-step solution is shown separately)'}
+      - Helps the user understand the math concept
+      ${request.misconception ? '- Gently names the likely mistake and how to avoid it next time' : ''}
+      - Encourages continued learning
+      - Keeps a friendly, supportive tone suitable for Primary 5 students
+
+      Keep the feedback concise but helpful (2-3 sentences).
+    `;
+}
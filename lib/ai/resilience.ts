@@ -0,0 +1,226 @@
+/**
+ * Resilient AI Calls
+ *
+ * Per-call timeouts, bounded retries and a circuit breaker for a remote
+ * problem provider, with a local provider to fall back on.
+ *
+ * WHY? model.generateContent used to be awaited with no timeout. A hung or
+ * failing Gemini call stalled problem generation, and on submit it turned
+ * the whole request into a 500 - the student's answer was never saved.
+ *
+ * HOW IT WORKS:
+ * 1. Each call gets timeoutMs; transient failures (timeouts, 408/429/5xx,
+ *    network errors) are retried up to maxRetries times with exponential backoff
+ * 2. Every call that still fails counts towards the circuit breaker; after
+ *    failureThreshold failures in a row the breaker opens
+ * 3. While open, the remote provider isn't called at all. After cooldownMs one
+ *    trial call is let through (half open): success closes the breaker, failure reopens it
+ * 4. A failed or skipped call is answered by the fallback provider instead -
+ *    template problems for generation, templated feedback for submissions -
+ *    so grading and saving never depend on the AI being up
+ *
+ * NOTE: The Gemini SDK can't cancel a request, so a timed-out call keeps
+ * running in the background; its result is ignored.
+ */
+
+import { incrementCounter, logger } from '../observability';
+import { ProblemProvider } from './types';
+
+export interface ResilienceOptions {
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Extra attempts after the first, for transient errors only
+  backoffMs: number; // Delay before the first retry - doubled for each retry after that
+  failureThreshold: number; // Consecutive failed calls that open the breaker
+  cooldownMs: number; // How long the breaker stays open before a trial call
+}
+
+// WHY these numbers? Gemini Flash usually answers in 1-4 s. A student waits at
+// most ~25 s (3 attempts) before falling back, and a Gemini outage costs five
+// slow requests before the breaker makes every request fast again
+export const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+  timeoutMs: 8000,
+  maxRetries: 2,
+  backoffMs: 300,
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export class AiTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiTimeoutError';
+  }
+}
+
+export interface CircuitBreaker {
+  // False while open (and while a half-open trial call is still running)
+  tryAcquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  getState(): CircuitState;
+}
+
+// Replaceable in tests
+export interface ResilienceClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const realClock: ResilienceClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export function createCircuitBreaker(
+  name: string,
+  { failureThreshold, cooldownMs }: Pick<ResilienceOptions, 'failureThreshold' | 'cooldownMs'>,
+  clock: Pick<ResilienceClock, 'now'> = realClock
+): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const moveTo = (next: CircuitState) => {
+    if (next === state) return;
+    state = next;
+    incrementCounter('ai_circuit_transitions_total', { provider: name, state: next });
+    const log = next === 'open' ? logger.error : logger.info;
+    log(`Circuit breaker ${next.replace('_', ' ')}`, { provider: name, consecutiveFailures });
+  };
+
+  return {
+    tryAcquire() {
+      if (state === 'open' && clock.now() - openedAt >= cooldownMs) {
+        moveTo('half_open');
+      }
+      if (state === 'closed') {
+        return true;
+      }
+      // Half open: only one trial call at a time
+      if (state === 'half_open' && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+      return false;
+    },
+
+    recordSuccess() {
+      consecutiveFailures = 0;
+      trialInFlight = false;
+      moveTo('closed');
+    },
+
+    recordFailure() {
+      consecutiveFailures += 1;
+      trialInFlight = false;
+      if (state === 'half_open' || consecutiveFailures >= failureThreshold) {
+        openedAt = clock.now();
+        moveTo('open');
+      }
+    },
+
+    getState: () => state,
+  };
+}
+
+/**
+ * Rejects with AiTimeoutError if the promise hasn't settled within ms
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new AiTimeoutError(`${what} timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Worth another try? Timeouts, rate limits, server errors and network failures are;
+ * other 4xx responses (bad API key, invalid request) will fail the same way again
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AiTimeoutError) {
+    return true;
+  }
+  // The Gemini SDK puts the HTTP status in the message, e.g. "... [503 Service Unavailable] ..."
+  const status = error instanceof Error ? error.message.match(/\[(\d{3}) /)?.[1] : undefined;
+  if (!status) {
+    return true; // No status - a network error
+  }
+  return status === '408' || status === '429' || status.startsWith('5');
+}
+
+/**
+ * Runs one AI call with a timeout per attempt and bounded retries
+ * @throws the last attempt's error once retries run out (or straight away if it isn't retryable)
+ */
+export async function callWithRetries<T>(
+  call: () => Promise<T>,
+  { timeoutMs, maxRetries, backoffMs }: Pick<ResilienceOptions, 'timeoutMs' | 'maxRetries' | 'backoffMs'>,
+  labels: { provider: string; operation: string },
+  clock: ResilienceClock = realClock
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(call(), timeoutMs, `${labels.provider} ${labels.operation}`);
+    } catch (error) {
+      if (error instanceof AiTimeoutError) {
+        incrementCounter('ai_timeouts_total', labels);
+      }
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      // WHY jitter? Requests that failed together shouldn't all retry at the same moment
+      const delayMs = Math.round(backoffMs * 2 ** attempt * (0.5 + Math.random() / 2));
+      incrementCounter('ai_retries_total', labels);
+      logger.warn('Retrying AI call', { ...labels, attempt: attempt + 1, maxRetries, delayMs, error });
+      await clock.sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * A provider that calls primary resiliently, and answers from fallback whenever
+ * primary fails or its circuit breaker is open
+ */
+export function createResilientProvider(
+  primary: ProblemProvider,
+  fallback: ProblemProvider,
+  options: Partial<ResilienceOptions> = {},
+  clock: ResilienceClock = realClock
+): ProblemProvider {
+  const settings = { ...DEFAULT_RESILIENCE_OPTIONS, ...options };
+  const breaker = createCircuitBreaker(primary.name, settings, clock);
+
+  async function run<T>(operation: string, callPrimary: () => Promise<T>, callFallback: () => Promise<T>): Promise<T> {
+    const labels = { provider: primary.name, operation };
+
+    if (!breaker.tryAcquire()) {
+      incrementCounter('ai_fallbacks_total', { ...labels, reason: 'circuit_open' });
+      return callFallback();
+    }
+
+    try {
+      const result = await callWithRetries(callPrimary, settings, labels, clock);
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      breaker.recordFailure();
+      incrementCounter('ai_fallbacks_total', { ...labels, reason: 'failed' });
+      logger.error(`${primary.name} call failed - using ${fallback.name} instead`, { ...labels, error });
+      return callFallback();
+    }
+  }
+
+  return {
+    name: primary.name,
+    generateProblem: (request) =>
+      run('generate_problem', () => primary.generateProblem(request), () => fallback.generateProblem(request)),
+    generateFeedback: (request) =>
+      run('feedback', () => primary.generateFeedback(request), () => fallback.generateFeedback(request)),
+  };
+}
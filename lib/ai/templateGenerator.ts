@@ -0,0 +1,915 @@
+/**
+ * Template-Based Problem Generator
+ *
+ * Rule-based word problems built from parameterised templates.
+ *
+ * WHY? The AI occasionally returns unparseable output. Instead of handing every
+ * student the same hard-coded problem, we generate a fresh one that still
+ * respects the requested difficulty and topic, with a computed answer and hint.
+ * It also works as a standalone provider (AI_PROVIDER=template).
+ *
+ * HOW IT WORKS:
+ * 1. Pick a template that supports the requested topic and difficulty
+ * 2. Pick random numbers from the difficulty's range, plus a name and context
+ * 3. The template computes the answer from those numbers - never guessed
+ */
+
+import { Difficulty, GeneratedProblem, ProblemRequest, Topic } from './types';
+
+type Operation = Exclude<Topic, 'random'>;
+
+// WHY not every topic? "Random" mixes the four operations, as the AI prompt asks
+const RANDOM_OPERATIONS: Array<ProblemTemplate['operation']> = ['addition', 'subtraction', 'multiplication', 'division', 'mixed'];
+
+// Returns a float in [0, 1) - same contract as Math.random
+export type RandomSource = () => number;
+
+// Everything a template needs to fill in its blanks
+interface TemplateContext {
+  random: RandomSource;
+  difficulty: Difficulty;
+  name: string;
+  friend: string;
+  scene: Scene;
+}
+
+interface ProblemTemplate {
+  id: string;
+  // 'mixed' templates combine operations and are only used for the 'random' topic
+  operation: Operation | 'mixed';
+  difficulties: Difficulty[];
+  build(context: TemplateContext): GeneratedProblem;
+}
+
+// A countable thing and what it's packed in, e.g. 24 pencils in boxes
+interface Scene {
+  items: string;
+  containers: string;
+  place: string;
+}
+
+const NAMES = [
+  'Aisha', 'Ben', 'Chloe', 'Darius', 'Elena', 'Farhan', 'Grace', 'Hiro',
+  'Isla', 'Jun Wei', 'Kavya', 'Leo', 'Mei Ling', 'Nadia', 'Omar', 'Priya',
+  'Ravi', 'Siti', 'Tariq', 'Uma', 'Wen Hui', 'Xavier', 'Yusuf', 'Zara',
+];
+
+const SCENES: Scene[] = [
+  { items: 'pencils', containers: 'boxes', place: 'stationery shop' },
+  { items: 'cookies', containers: 'trays', place: 'bakery' },
+  { items: 'marbles', containers: 'bags', place: 'toy store' },
+  { items: 'stickers', containers: 'sheets', place: 'craft club' },
+  { items: 'oranges', containers: 'crates', place: 'fruit stall' },
+  { items: 'books', containers: 'shelves', place: 'school library' },
+  { items: 'seedlings', containers: 'trays', place: 'garden centre' },
+  { items: 'beads', containers: 'jars', place: 'art room' },
+  { items: 'cupcakes', containers: 'boxes', place: 'school canteen' },
+  { items: 'tennis balls', containers: 'tubes', place: 'sports club' },
+];
+
+// Number ranges per difficulty, matching the AI prompt's guidance
+// WHY? Template problems should feel like the AI problems they stand in for
+const RANGES: Record<Difficulty, { small: [number, number]; large: [number, number]; factor: [number, number] }> = {
+  easy: { small: [2, 40], large: [20, 99], factor: [2, 9] },
+  medium: { small: [20, 250], large: [100, 500], factor: [6, 25] },
+  hard: { small: [150, 1500], large: [1000, 5000], factor: [12, 60] },
+};
+
+function randomInt(random: RandomSource, min: number, max: number): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+function pick<T>(random: RandomSource, values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function small(context: TemplateContext): number {
+  const [min, max] = RANGES[context.difficulty].small;
+  return randomInt(context.random, min, max);
+}
+
+function large(context: TemplateContext): number {
+  const [min, max] = RANGES[context.difficulty].large;
+  return randomInt(context.random, min, max);
+}
+
+function factor(context: TemplateContext): number {
+  const [min, max] = RANGES[context.difficulty].factor;
+  return randomInt(context.random, min, max);
+}
+
+// Formats numbers the way P5 textbooks print them (e.g. 1,250)
+function fmt(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// A numerator for a proper fraction in lowest terms, e.g. 3 for 3/4 but never 2 for 2/4
+function properNumerator(random: RandomSource, denominator: number): number {
+  const numerators = Array.from({ length: denominator - 1 }, (_, index) => index + 1);
+  return pick(random, numerators.filter((numerator) => gcd(numerator, denominator) === 1));
+}
+
+// Fisher-Yates shuffle of a copy
+function shuffle<T>(random: RandomSource, values: T[]): T[] {
+  const shuffled = [...values];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+const TEMPLATES: ProblemTemplate[] = [
+  // ---------- Addition ----------
+  {
+    id: 'addition-combine',
+    operation: 'addition',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { name, scene } = context;
+      const a = small(context);
+      const b = small(context);
+      return {
+        problem_text: `${name} collected ${fmt(a)} ${scene.items} on Monday and ${fmt(b)} ${scene.items} on Tuesday. How many ${scene.items} did ${name} collect altogether?`,
+        final_answer: a + b,
+        solution_expression: `${a} + ${b}`,
+        hint: `"Altogether" means put the two amounts together. Add ${fmt(a)} and ${fmt(b)}.`,
+      };
+    },
+  },
+  {
+    id: 'addition-two-step',
+    operation: 'addition',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { name, friend, scene } = context;
+      const a = large(context);
+      const b = small(context);
+      const c = small(context);
+      return {
+        problem_text: `${name} had ${fmt(a)} ${scene.items}. ${friend} gave ${name} ${fmt(b)} more, and then ${name} bought another ${fmt(c)}. How many ${scene.items} does ${name} have now?`,
+        final_answer: a + b + c,
+        solution_expression: `${a} + ${b} + ${c}`,
+        hint: `${name} gets more ${scene.items} twice. Add the first gift to ${fmt(a)}, then add what was bought.`,
+      };
+    },
+  },
+  {
+    id: 'addition-three-parts',
+    operation: 'addition',
+    difficulties: ['hard'],
+    build(context) {
+      const { scene } = context;
+      const a = large(context);
+      const b = large(context);
+      const c = small(context);
+      return {
+        problem_text: `A ${scene.place} sold ${fmt(a)} ${scene.items} in January, ${fmt(b)} in February and ${fmt(c)} in March. How many ${scene.items} did it sell in the three months?`,
+        final_answer: a + b + c,
+        solution_expression: `${a} + ${b} + ${c}`,
+        hint: `Add January and February first, then add March to that total. Line up the thousands, hundreds, tens and ones.`,
+      };
+    },
+  },
+
+  // ---------- Subtraction ----------
+  {
+    id: 'subtraction-take-away',
+    operation: 'subtraction',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { name, friend, scene } = context;
+      const total = large(context);
+      const given = randomInt(context.random, 1, total - 1);
+      return {
+        problem_text: `${name} had ${fmt(total)} ${scene.items}. ${name} gave ${fmt(given)} ${scene.items} to ${friend}. How many ${scene.items} does ${name} have left?`,
+        final_answer: total - given,
+        solution_expression: `${total} - ${given}`,
+        hint: `"Left" means take away. Subtract ${fmt(given)} from ${fmt(total)}.`,
+      };
+    },
+  },
+  {
+    id: 'subtraction-compare',
+    operation: 'subtraction',
+    difficulties: ['easy', 'medium', 'hard'],
+    build(context) {
+      const { name, friend, scene } = context;
+      const more = large(context);
+      const fewer = randomInt(context.random, 1, more - 1);
+      return {
+        problem_text: `${name} has ${fmt(more)} ${scene.items} and ${friend} has ${fmt(fewer)} ${scene.items}. How many more ${scene.items} does ${name} have than ${friend}?`,
+        final_answer: more - fewer,
+        solution_expression: `${more} - ${fewer}`,
+        hint: `To find "how many more", find the difference: subtract the smaller amount from the larger one.`,
+      };
+    },
+  },
+  {
+    id: 'subtraction-two-step',
+    operation: 'subtraction',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { scene } = context;
+      const total = large(context) + large(context);
+      const monday = randomInt(context.random, 1, Math.floor(total / 2));
+      const tuesday = randomInt(context.random, 1, total - monday - 1);
+      return {
+        problem_text: `A ${scene.place} had ${fmt(total)} ${scene.items}. It sold ${fmt(monday)} on Monday and ${fmt(tuesday)} on Tuesday. How many ${scene.items} were left?`,
+        final_answer: total - monday - tuesday,
+        solution_expression: `${total} - ${monday} - ${tuesday}`,
+        hint: `Subtract Monday's sales from ${fmt(total)} first, then subtract Tuesday's sales from what is left.`,
+      };
+    },
+  },
+
+  // ---------- Multiplication ----------
+  {
+    id: 'multiplication-equal-groups',
+    operation: 'multiplication',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { name, scene } = context;
+      const groups = factor(context);
+      const each = factor(context);
+      return {
+        problem_text: `${name} has ${groups} ${scene.containers} of ${scene.items}. Each of the ${scene.containers} holds ${each} ${scene.items}. How many ${scene.items} does ${name} have in total?`,
+        final_answer: groups * each,
+        solution_expression: `${groups} * ${each}`,
+        hint: `There are ${groups} equal groups of ${each}. Multiply the number of ${scene.containers} by how many are in each.`,
+      };
+    },
+  },
+  {
+    id: 'multiplication-rate',
+    operation: 'multiplication',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { scene } = context;
+      const perDay = factor(context) * randomInt(context.random, 2, 5);
+      const days = factor(context);
+      return {
+        problem_text: `A ${scene.place} packs ${perDay} ${scene.items} every day. How many ${scene.items} does it pack in ${days} days?`,
+        final_answer: perDay * days,
+        solution_expression: `${perDay} * ${days}`,
+        hint: `The same amount is packed each day, so multiply the daily amount by the number of days.`,
+      };
+    },
+  },
+  {
+    id: 'multiplication-three-factors',
+    operation: 'multiplication',
+    difficulties: ['hard'],
+    build(context) {
+      const { scene } = context;
+      const cartons = randomInt(context.random, 3, 12);
+      const perCarton = randomInt(context.random, 4, 12);
+      const each = randomInt(context.random, 6, 25);
+      return {
+        problem_text: `A delivery van brings ${cartons} cartons to the ${scene.place}. Each carton has ${perCarton} ${scene.containers}, and each of the ${scene.containers} has ${each} ${scene.items}. How many ${scene.items} are delivered?`,
+        final_answer: cartons * perCarton * each,
+        solution_expression: `${cartons} * ${perCarton} * ${each}`,
+        hint: `First find how many ${scene.containers} there are altogether, then multiply by the ${scene.items} in each.`,
+      };
+    },
+  },
+
+  {
+    id: 'multiplication-length',
+    operation: 'multiplication',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { name } = context;
+      const pieces = factor(context);
+      const length = factor(context) * 5;
+      return {
+        problem_text: `${name} cuts ${pieces} pieces of ribbon for a craft project. Each piece is ${length} cm long. What is the total length of ribbon ${name} cuts?`,
+        final_answer: pieces * length,
+        solution_expression: `${pieces} * ${length}`,
+        answer_unit: 'cm',
+        hint: `Each piece is the same length, so multiply the number of pieces by the length of one piece.`,
+      };
+    },
+  },
+
+  // ---------- Division ----------
+  {
+    id: 'division-sharing',
+    operation: 'division',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { name, scene } = context;
+      const people = factor(context);
+      const each = factor(context);
+      const total = people * each;
+      return {
+        problem_text: `${name} shares ${fmt(total)} ${scene.items} equally among ${people} friends. How many ${scene.items} does each friend get?`,
+        final_answer: each,
+        solution_expression: `${total} / ${people}`,
+        hint: `Sharing equally means dividing. Which number times ${people} makes ${fmt(total)}?`,
+      };
+    },
+  },
+  {
+    id: 'division-grouping',
+    operation: 'division',
+    difficulties: ['easy', 'medium', 'hard'],
+    build(context) {
+      const { scene } = context;
+      const size = factor(context);
+      const groups = factor(context) * (context.difficulty === 'hard' ? randomInt(context.random, 2, 4) : 1);
+      const total = size * groups;
+      return {
+        problem_text: `A ${scene.place} has ${fmt(total)} ${scene.items}. They are packed into ${scene.containers} of ${size}. How many ${scene.containers} can be filled?`,
+        final_answer: groups,
+        solution_expression: `${total} / ${size}`,
+        hint: `Find how many groups of ${size} fit into ${fmt(total)}. Divide the total by ${size}.`,
+      };
+    },
+  },
+  {
+    id: 'division-two-step',
+    operation: 'division',
+    difficulties: ['hard'],
+    build(context) {
+      const { scene } = context;
+      const classes = randomInt(context.random, 3, 9);
+      const groupsPerClass = randomInt(context.random, 3, 8);
+      const each = randomInt(context.random, 12, 60);
+      const total = classes * groupsPerClass * each;
+      return {
+        problem_text: `A school collected ${fmt(total)} ${scene.items}. They are shared equally among ${classes} classes, and each class shares its ${scene.items} equally among ${groupsPerClass} groups. How many ${scene.items} does each group get?`,
+        final_answer: each,
+        solution_expression: `${total} / ${classes} / ${groupsPerClass}`,
+        hint: `First divide the ${scene.items} among the ${classes} classes, then divide one class's share among its ${groupsPerClass} groups.`,
+      };
+    },
+  },
+
+  {
+    id: 'division-remainder',
+    operation: 'division',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { scene } = context;
+      const size = factor(context);
+      const full = factor(context);
+      const leftOver = randomInt(context.random, 1, size - 1);
+      const total = size * full + leftOver;
+      return {
+        problem_text: `A ${scene.place} packs ${fmt(total)} ${scene.items} into ${scene.containers} of ${size}. How many ${scene.containers} are completely filled, and how many ${scene.items} are left over?`,
+        final_answer: full,
+        solution_expression: `(${total} - ${leftOver}) / ${size}`,
+        answer_parts: [
+          { name: 'quotient', label: `Full ${scene.containers}`, answer: full, solution_expression: `(${total} - ${leftOver}) / ${size}` },
+          { name: 'remainder', label: `${scene.items.charAt(0).toUpperCase()}${scene.items.slice(1)} left over`, answer: leftOver, solution_expression: `${total} - ${size} * ${full}` },
+        ],
+        hint: `Divide ${fmt(total)} by ${size}. The whole-number part is the full ${scene.containers}; whatever doesn't fit is left over.`,
+      };
+    },
+  },
+
+  // ---------- Whole numbers to 10 million ----------
+  {
+    id: 'whole-numbers-place-value',
+    operation: 'whole_numbers',
+    difficulties: ['easy'],
+    build(context) {
+      const { random } = context;
+      // WHY distinct digits? "The digit 4" must only appear once in the number
+      const digits = shuffle(random, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]).slice(0, 7);
+      if (digits[0] === 0) digits.reverse();
+      const position = pick(random, [0, 1, 2, 3, 4, 5].filter((index) => digits[index] !== 0));
+      const digit = digits[position];
+      const placeValue = 10 ** (6 - position);
+      const number = Number(digits.join(''));
+      return {
+        problem_text: `What is the value of the digit ${digit} in ${fmt(number)}?`,
+        final_answer: digit * placeValue,
+        solution_expression: `${digit} * ${placeValue}`,
+        hint: 'Name the places from the right: ones, tens, hundreds, thousands, ten thousands, hundred thousands, millions.',
+      };
+    },
+  },
+  {
+    id: 'whole-numbers-population',
+    operation: 'whole_numbers',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { random, difficulty } = context;
+      const start = randomInt(random, 1_000_000, difficulty === 'hard' ? 5_000_000 : 4_000_000);
+      const arrived = randomInt(random, 100_000, 2_500_000);
+      if (difficulty === 'medium') {
+        return {
+          problem_text: `A city had ${fmt(start)} residents. Over ten years, ${fmt(arrived)} more people moved in. How many residents does the city have now?`,
+          final_answer: start + arrived,
+          solution_expression: `${start} + ${arrived}`,
+          hint: 'Line up the digits by place value, then add.',
+        };
+      }
+      const left = randomInt(random, 100_000, 900_000);
+      return {
+        problem_text: `A city had ${fmt(start)} residents. Over ten years, ${fmt(arrived)} people moved in and ${fmt(left)} people moved away. How many residents does the city have now?`,
+        final_answer: start + arrived - left,
+        solution_expression: `${start} + ${arrived} - ${left}`,
+        hint: 'Add the people who moved in, then subtract the people who moved away.',
+      };
+    },
+  },
+
+  // ---------- Fractions ----------
+  {
+    id: 'fractions-of-quantity',
+    operation: 'fractions',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { random, difficulty, name, friend, scene } = context;
+      const denominator = pick(random, difficulty === 'easy' ? [2, 3, 4, 5] : [3, 4, 5, 6, 8, 10, 12]);
+      const numerator = properNumerator(random, denominator);
+      const total = denominator * factor(context);
+      return {
+        problem_text: `${name} had ${fmt(total)} ${scene.items}. ${name} gave ${numerator}/${denominator} of them to ${friend}. How many ${scene.items} did ${friend} get?`,
+        final_answer: (total / denominator) * numerator,
+        solution_expression: `${total} / ${denominator} * ${numerator}`,
+        hint: `Divide ${fmt(total)} into ${denominator} equal parts, then take ${numerator} of those parts.`,
+      };
+    },
+  },
+  {
+    id: 'fractions-add-related',
+    operation: 'fractions',
+    difficulties: ['medium'],
+    build(context) {
+      const { random, name, friend } = context;
+      const denominator = randomInt(random, 2, 6);
+      const multiple = randomInt(random, 2, 3);
+      const commonDenominator = denominator * multiple;
+      const first = randomInt(random, 1, denominator - 1);
+      // WHY this range? Keeps the total below one whole cake
+      const second = randomInt(random, 1, commonDenominator - first * multiple - 1);
+      const sum = first * multiple + second;
+      const divisor = gcd(sum, commonDenominator);
+      return {
+        problem_text: `${name} ate ${first}/${denominator} of a cake and ${friend} ate ${second}/${commonDenominator} of it. What fraction of the cake did they eat altogether?`,
+        final_answer: `${sum / divisor}/${commonDenominator / divisor}`,
+        solution_expression: `${first} / ${denominator} + ${second} / ${commonDenominator}`,
+        hint: `Change ${first}/${denominator} into ${commonDenominator}ths first, then add. Give your answer in its simplest form.`,
+      };
+    },
+  },
+  {
+    id: 'fractions-of-remainder',
+    operation: 'fractions',
+    difficulties: ['hard'],
+    build(context) {
+      const { random, name, scene } = context;
+      const firstDenominator = pick(random, [3, 4, 5]);
+      const firstNumerator = properNumerator(random, firstDenominator);
+      const secondDenominator = pick(random, [2, 3, 4]);
+      const secondNumerator = properNumerator(random, secondDenominator);
+      const total = firstDenominator * secondDenominator * randomInt(random, 5, 30);
+      const remaining = (total / firstDenominator) * (firstDenominator - firstNumerator);
+      const given = (remaining / secondDenominator) * secondNumerator;
+      return {
+        problem_text: `${name} had ${fmt(total)} ${scene.items}. ${name} sold ${firstNumerator}/${firstDenominator} of them, then gave away ${secondNumerator}/${secondDenominator} of the remaining ${scene.items}. How many ${scene.items} did ${name} have left?`,
+        final_answer: remaining - given,
+        solution_expression: `${total} - ${total} * ${firstNumerator} / ${firstDenominator} - (${total} - ${total} * ${firstNumerator} / ${firstDenominator}) * ${secondNumerator} / ${secondDenominator}`,
+        hint: `First find how many ${scene.items} were left after selling. The second fraction is a fraction of what was left, not of ${fmt(total)}.`,
+      };
+    },
+  },
+
+  // ---------- Decimals ----------
+  {
+    id: 'decimals-money-total',
+    operation: 'decimals',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { random, difficulty, name, scene } = context;
+      // Prices are picked in cents so totals are exact
+      const cents = randomInt(random, difficulty === 'easy' ? 21 : 30, difficulty === 'easy' ? 199 : 500) * 5;
+      const quantity = randomInt(random, 2, difficulty === 'easy' ? 6 : 12);
+      const price = cents / 100;
+      return {
+        problem_text: `One of the ${scene.items} at the ${scene.place} costs $${price.toFixed(2)}. ${name} buys ${quantity} of them. How much does ${name} pay?`,
+        final_answer: (cents * quantity) / 100,
+        solution_expression: `${price} * ${quantity}`,
+        answer_unit: '$',
+        hint: `Multiply the price of one by ${quantity}. Line up the decimal point in your answer.`,
+      };
+    },
+  },
+  {
+    id: 'decimals-change',
+    operation: 'decimals',
+    difficulties: ['hard'],
+    build(context) {
+      const { random, name, scene } = context;
+      const firstCents = randomInt(random, 30, 240) * 5;
+      const secondCents = randomInt(random, 30, 240) * 5;
+      const firstQuantity = randomInt(random, 2, 4);
+      const secondQuantity = randomInt(random, 2, 4);
+      const totalCents = firstCents * firstQuantity + secondCents * secondQuantity;
+      const note = totalCents < 5000 ? 50 : 100;
+      return {
+        problem_text: `At the ${scene.place}, ${name} buys ${firstQuantity} ${scene.items} at $${(firstCents / 100).toFixed(2)} each and ${secondQuantity} ${scene.containers} at $${(secondCents / 100).toFixed(2)} each. ${name} pays with a $${note} note. How much change does ${name} get?`,
+        final_answer: (note * 100 - totalCents) / 100,
+        solution_expression: `${note} - (${firstQuantity} * ${firstCents / 100} + ${secondQuantity} * ${secondCents / 100})`,
+        answer_unit: '$',
+        hint: `Find the cost of each kind of item, add them, then subtract the total from $${note}.`,
+      };
+    },
+  },
+
+  // ---------- Percentage ----------
+  {
+    id: 'percentage-discount',
+    operation: 'percentage',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { random, difficulty, scene } = context;
+      const percent = pick(random, difficulty === 'easy' ? [10, 20, 25, 50] : [5, 15, 30, 35, 40, 75]);
+      const price = 20 * randomInt(random, difficulty === 'easy' ? 1 : 2, difficulty === 'easy' ? 10 : 40);
+      const discount = (price * percent) / 100;
+      if (difficulty === 'easy') {
+        return {
+          problem_text: `A bicycle at the ${scene.place} costs $${price}. It is sold at a ${percent}% discount. How much is the discount?`,
+          final_answer: discount,
+          solution_expression: `${price} * ${percent} / 100`,
+          answer_unit: '$',
+          hint: `${percent}% means ${percent} out of every 100. Find ${percent}% of $${price}.`,
+        };
+      }
+      return {
+        problem_text: `A bicycle at the ${scene.place} costs $${price}. It is sold at a ${percent}% discount. How much does it cost after the discount?`,
+        final_answer: price - discount,
+        solution_expression: `${price} - ${price} * ${percent} / 100`,
+        answer_unit: '$',
+        hint: `Find ${percent}% of $${price} first, then take it away from the price.`,
+      };
+    },
+  },
+  {
+    id: 'percentage-part-of-whole',
+    operation: 'percentage',
+    difficulties: ['medium'],
+    build(context) {
+      const { random } = context;
+      const total = 20 * randomInt(random, 1, 10);
+      const percent = 5 * randomInt(random, 1, 19);
+      const part = (total * percent) / 100;
+      return {
+        problem_text: `${part} of the ${total} children in a sports club play football. What percentage of the children play football?`,
+        final_answer: percent,
+        solution_expression: `${part} / ${total} * 100`,
+        answer_unit: '%',
+        hint: `Write it as a fraction, ${part}/${total}, then change it to a fraction out of 100.`,
+      };
+    },
+  },
+  {
+    id: 'percentage-two-stages',
+    operation: 'percentage',
+    difficulties: ['hard'],
+    build(context) {
+      const { random, scene } = context;
+      const total = 100 * randomInt(random, 2, 9);
+      const firstPercent = 10 * randomInt(random, 2, 6);
+      const secondPercent = 10 * randomInt(random, 2, 8);
+      const remaining = total - (total * firstPercent) / 100;
+      const sold = (remaining * secondPercent) / 100;
+      return {
+        problem_text: `A ${scene.place} had ${fmt(total)} ${scene.items}. It sold ${firstPercent}% of them in the morning and ${secondPercent}% of the remaining ${scene.items} in the afternoon. How many ${scene.items} were left?`,
+        final_answer: remaining - sold,
+        solution_expression: `(${total} - ${total} * ${firstPercent} / 100) - (${total} - ${total} * ${firstPercent} / 100) * ${secondPercent} / 100`,
+        hint: `The afternoon's ${secondPercent}% is of what was left after the morning, not of ${fmt(total)}.`,
+      };
+    },
+  },
+
+  // ---------- Ratio ----------
+  {
+    id: 'ratio-share',
+    operation: 'ratio',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { random, name, friend, scene } = context;
+      const first = randomInt(random, 1, 5);
+      const second = randomInt(random, first + 1, 9);
+      const unit = factor(context);
+      const total = (first + second) * unit;
+      return {
+        problem_text: `${name} and ${friend} share ${fmt(total)} ${scene.items} in the ratio ${first} : ${second}. How many ${scene.items} does ${friend} get?`,
+        final_answer: second * unit,
+        solution_expression: `${total} / (${first} + ${second}) * ${second}`,
+        hint: `There are ${first} + ${second} equal units altogether. Find one unit, then ${friend}'s ${second} units.`,
+      };
+    },
+  },
+  {
+    id: 'ratio-three-way-difference',
+    operation: 'ratio',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { random, name, friend, scene } = context;
+      const first = randomInt(random, 1, 4);
+      const second = randomInt(random, 2, 6);
+      const third = randomInt(random, first + 1, 9);
+      const unit = factor(context);
+      const total = (first + second + third) * unit;
+      return {
+        problem_text: `${name}, ${friend} and their teacher share ${fmt(total)} ${scene.items} in the ratio ${first} : ${second} : ${third}. How many more ${scene.items} does the teacher get than ${name}?`,
+        final_answer: (third - first) * unit,
+        solution_expression: `${total} / (${first} + ${second} + ${third}) * (${third} - ${first})`,
+        hint: `Find the value of one unit first. The teacher has ${third} - ${first} units more than ${name}.`,
+      };
+    },
+  },
+
+  // ---------- Average ----------
+  {
+    id: 'average-of-scores',
+    operation: 'average',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { random, difficulty, name } = context;
+      const count = difficulty === 'easy' ? 3 : randomInt(random, 4, 5);
+      const scores = Array.from({ length: count - 1 }, () => randomInt(random, 40, 95));
+      // WHY? Choose the last score so the average is a whole number
+      const partial = scores.reduce((sum, score) => sum + score, 0);
+      const base = randomInt(random, 40, 95);
+      scores.push(base + ((count - ((partial + base) % count)) % count));
+      const total = scores.reduce((sum, score) => sum + score, 0);
+      return {
+        problem_text: `${name} scored ${scores.slice(0, -1).join(', ')} and ${scores[scores.length - 1]} in ${count} spelling tests. What was ${name}'s average score?`,
+        final_answer: total / count,
+        solution_expression: `(${scores.join(' + ')}) / ${count}`,
+        hint: `Add all ${count} scores, then divide the total by ${count}.`,
+      };
+    },
+  },
+  {
+    id: 'average-new-member',
+    operation: 'average',
+    difficulties: ['hard'],
+    build(context) {
+      const { random, name } = context;
+      const count = randomInt(random, 4, 9);
+      const before = randomInt(random, 125, 150);
+      const after = before + randomInt(random, 1, 3);
+      return {
+        problem_text: `The average height of ${count} children is ${before} cm. When ${name} joins them, the average height becomes ${after} cm. How tall is ${name}?`,
+        final_answer: (count + 1) * after - count * before,
+        solution_expression: `${count + 1} * ${after} - ${count} * ${before}`,
+        answer_unit: 'cm',
+        hint: `Use the averages to find the total height before and after ${name} joins. The difference is ${name}'s height.`,
+      };
+    },
+  },
+
+  // ---------- Area & perimeter ----------
+  {
+    id: 'area-perimeter-rectangle',
+    operation: 'area_perimeter',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { random, difficulty } = context;
+      const width = randomInt(random, 3, difficulty === 'easy' ? 12 : 25);
+      const length = width + randomInt(random, 1, difficulty === 'easy' ? 10 : 30);
+      if (difficulty === 'easy') {
+        return {
+          problem_text: `A rectangular photo frame is ${length} cm long and ${width} cm wide. What is its perimeter?`,
+          final_answer: 2 * (length + width),
+          solution_expression: `2 * (${length} + ${width})`,
+          answer_unit: 'cm',
+          hint: 'The perimeter is the distance all the way around: two lengths and two widths.',
+        };
+      }
+      return {
+        problem_text: `A rectangular garden is ${length} m long and ${width} m wide. What is its area?`,
+        final_answer: length * width,
+        solution_expression: `${length} * ${width}`,
+        answer_unit: 'm²',
+        hint: 'The area of a rectangle is its length times its width.',
+      };
+    },
+  },
+  {
+    id: 'area-cut-out',
+    operation: 'area_perimeter',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { random, difficulty } = context;
+      const width = randomInt(random, 8, difficulty === 'hard' ? 40 : 20);
+      const length = width + randomInt(random, 2, 20);
+      const side = randomInt(random, 2, width - 2);
+      return {
+        problem_text: `A square of side ${side} cm is cut out from a rectangular card ${length} cm long and ${width} cm wide. What is the area of the card that is left?`,
+        final_answer: length * width - side * side,
+        solution_expression: `${length} * ${width} - ${side} * ${side}`,
+        answer_unit: 'cm²',
+        hint: 'Find the area of the whole card, then subtract the area of the square.',
+      };
+    },
+  },
+  {
+    id: 'area-from-perimeter',
+    operation: 'area_perimeter',
+    difficulties: ['hard'],
+    build(context) {
+      const { random } = context;
+      const width = randomInt(random, 4, 30);
+      const length = width + randomInt(random, 2, 30);
+      const perimeter = 2 * (length + width);
+      return {
+        problem_text: `A rectangular field has a perimeter of ${perimeter} m. Its length is ${length} m. What is its area?`,
+        final_answer: length * width,
+        solution_expression: `${length} * (${perimeter} / 2 - ${length})`,
+        answer_unit: 'm²',
+        hint: 'Half the perimeter is one length plus one width. Find the width first, then the area.',
+      };
+    },
+  },
+
+  // ---------- Volume ----------
+  {
+    id: 'volume-box',
+    operation: 'volume',
+    difficulties: ['easy', 'medium'],
+    build(context) {
+      const { random, difficulty } = context;
+      if (difficulty === 'easy') {
+        const edge = randomInt(random, 2, 10);
+        return {
+          problem_text: `A cube has edges of ${edge} cm. What is its volume?`,
+          final_answer: edge ** 3,
+          solution_expression: `${edge} * ${edge} * ${edge}`,
+          answer_unit: 'cm³',
+          hint: 'Every edge of a cube is the same length. Multiply length × breadth × height.',
+        };
+      }
+      const length = randomInt(random, 10, 50);
+      const width = randomInt(random, 5, 30);
+      const height = randomInt(random, 5, 30);
+      return {
+        problem_text: `A box is ${length} cm long, ${width} cm wide and ${height} cm high. What is its volume?`,
+        final_answer: length * width * height,
+        solution_expression: `${length} * ${width} * ${height}`,
+        answer_unit: 'cm³',
+        hint: 'The volume of a cuboid is length × breadth × height.',
+      };
+    },
+  },
+  {
+    id: 'volume-tank-litres',
+    operation: 'volume',
+    difficulties: ['hard'],
+    build(context) {
+      const { random } = context;
+      // Multiples of 10 so the extra water is a whole number of litres
+      const length = 10 * randomInt(random, 3, 8);
+      const width = 10 * randomInt(random, 2, 5);
+      const before = 10 * randomInt(random, 1, 3);
+      const after = before + 10 * randomInt(random, 1, 3);
+      return {
+        problem_text: `A fish tank is ${length} cm long and ${width} cm wide. The water in it is ${before} cm deep. How many litres of water must be added to make the water ${after} cm deep? (1 litre = 1000 cm³)`,
+        final_answer: (length * width * (after - before)) / 1000,
+        solution_expression: `${length} * ${width} * (${after} - ${before}) / 1000`,
+        answer_unit: 'ℓ',
+        hint: 'Find the volume of water needed in cm³ - the water rises by the difference in depth - then change it to litres.',
+      };
+    },
+  },
+
+  // ---------- Angles ----------
+  {
+    id: 'angles-straight-line',
+    operation: 'angles',
+    difficulties: ['easy'],
+    build(context) {
+      const angle = randomInt(context.random, 20, 160);
+      return {
+        problem_text: `Two angles lie on a straight line. One of them is ${angle}°. What is the other angle?`,
+        final_answer: 180 - angle,
+        solution_expression: `180 - ${angle}`,
+        answer_unit: '°',
+        hint: 'Angles on a straight line add up to 180°.',
+      };
+    },
+  },
+  {
+    id: 'angles-triangle',
+    operation: 'angles',
+    difficulties: ['medium'],
+    build(context) {
+      const { random } = context;
+      const first = randomInt(random, 25, 85);
+      const second = randomInt(random, 25, 85);
+      return {
+        problem_text: `Two angles of a triangle are ${first}° and ${second}°. What is the third angle?`,
+        final_answer: 180 - first - second,
+        solution_expression: `180 - ${first} - ${second}`,
+        answer_unit: '°',
+        hint: 'The angles in a triangle add up to 180°.',
+      };
+    },
+  },
+  {
+    id: 'angles-at-point',
+    operation: 'angles',
+    difficulties: ['hard'],
+    build(context) {
+      const { random } = context;
+      const unit = randomInt(random, 50, 78);
+      const given = 360 - 3 * unit;
+      return {
+        problem_text: `Three angles meet at a point. One of them is ${given}°. The other two are angle p and angle q, and angle q is twice the size of angle p. What is angle q?`,
+        final_answer: 2 * unit,
+        solution_expression: `(360 - ${given}) / 3 * 2`,
+        answer_unit: '°',
+        hint: 'Angles at a point add up to 360°. Angle p is 1 unit and angle q is 2 units.',
+      };
+    },
+  },
+
+  // ---------- Mixed operations (random topic only) ----------
+  {
+    id: 'mixed-groups-then-sell',
+    operation: 'mixed',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { scene } = context;
+      const groups = factor(context);
+      const each = factor(context);
+      const total = groups * each;
+      const sold = randomInt(context.random, 1, total - 1);
+      return {
+        problem_text: `A ${scene.place} has ${groups} ${scene.containers} with ${each} ${scene.items} in each. It sells ${fmt(sold)} ${scene.items}. How many ${scene.items} are left?`,
+        final_answer: total - sold,
+        solution_expression: `${groups} * ${each} - ${sold}`,
+        hint: `First multiply to find how many ${scene.items} there are altogether, then subtract the ${scene.items} that were sold.`,
+      };
+    },
+  },
+  {
+    id: 'mixed-share-then-add',
+    operation: 'mixed',
+    difficulties: ['medium', 'hard'],
+    build(context) {
+      const { name, friend, scene } = context;
+      const people = factor(context);
+      const each = factor(context);
+      const extra = small(context);
+      return {
+        problem_text: `${fmt(people * each)} ${scene.items} are shared equally among ${people} children. ${friend} then gives ${name} another ${fmt(extra)} ${scene.items}. How many ${scene.items} does ${name} have now?`,
+        final_answer: each + extra,
+        solution_expression: `${people * each} / ${people} + ${extra}`,
+        hint: `First divide to find each child's share, then add the ${scene.items} that ${friend} gave.`,
+      };
+    },
+  },
+];
+
+/**
+ * Generates a word problem from the template catalogue
+ *
+ * @param request - Requested difficulty and topic (and, for reviews, the problem to vary)
+ * @param random - Random source; pass a seeded one for reproducible problems
+ */
+export function generateTemplateProblem(
+  { difficulty, topic, variantOf }: ProblemRequest,
+  random: RandomSource = Math.random
+): GeneratedProblem {
+  // Review variants reuse the original template - same steps, new numbers and context
+  const original = TEMPLATES.find((template) => template.id === variantOf?.templateId);
+  const candidates = TEMPLATES.filter((template) =>
+    template.difficulties.includes(difficulty) &&
+    (topic === 'random' ? RANDOM_OPERATIONS.includes(template.operation) : template.operation === topic)
+  );
+
+  const template = original || pick(random, candidates);
+  const name = pick(random, NAMES);
+  const friend = pick(random, NAMES.filter((n) => n !== name));
+  const scene = pick(random, SCENES);
+
+  return { ...template.build({ random, difficulty, name, friend, scene }), template_id: template.id };
+}
+
+/**
+ * Small seeded random number generator (mulberry32)
+ * WHY? Tests and demos can replay exactly the same sequence of problems
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Template Problem Provider
+ *
+ * Serves rule-based problems from the template generator - no AI involved.
+ *
+ * WHY? Unlike the local provider's fixed problems, every request gets fresh
+ * numbers, names and contexts, so it's usable for real offline practice.
+ */
+
+import { generateTemplateProblem, RandomSource } from './templateGenerator';
+import { buildTemplatedFeedback } from './templatedFeedback';
+import { ProblemProvider } from './types';
+
+export function createTemplateProvider(random: RandomSource = Math.random): ProblemProvider {
+  return {
+    name: 'template',
+
+    async generateProblem(request) {
+      return generateTemplateProblem(request, random);
+    },
+
+    async generateFeedback(request) {
+      return buildTemplatedFeedback(request);
+    },
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Templated Feedback
+ *
+ * Offline feedback text used by the non-AI providers.
+ * WHY SHARED? The local and template providers should sound the same to students
+ */
+
+import { FeedbackRequest } from './types';
+
+export function buildTemplatedFeedback({ correctAnswer, userAnswer, isCorrect, misconception }: FeedbackRequest): string {
+  if (isCorrect) {
+    return `Great work! ${userAnswer} is exactly right. You read the problem carefully and picked the right operation - keep it up!`;
+  }
+  if (misconception) {
+    return `Good try! The correct answer is ${correctAnswer}, but you answered ${userAnswer}. Here's what probably happened: ${misconception}. Spotting that slip is how you fix it next time!`;
+  }
+  return `Good try! The correct answer is ${correctAnswer}, but you answered ${userAnswer}. Read the problem again, write down the numbers you need and check each step of your working.`;
+}
@@ -0,0 +1,87 @@
+/**
+ * Problem Provider Types
+ *
+ * Shared contract for anything that can generate math problems and feedback.
+ *
+ * WHY AN INTERFACE?
+ * - API routes no longer care whether problems come from Gemini or a local stand-in
+ * - Lets us develop, demo offline and run end-to-end tests without an API key
+ */
+
+import type { Difficulty } from '../schemas';
+import type { Topic } from '../topics';
+
+// Difficulty (lib/schemas) and the topic catalogue (lib/topics) are re-exported here for the providers
+export type { Difficulty, Topic };
+
+// What the caller wants generated
+export interface ProblemRequest {
+  difficulty: Difficulty;
+  topic: Topic;
+  // Finer-grained sizing chosen by adaptive difficulty (see lib/adaptive.ts)
+  tuning?: ProblemTuning;
+  // Review problems: same structure as this earlier problem, with new numbers
+  variantOf?: ProblemVariantSource;
+}
+
+// An earlier problem to build an "isomorphic" variant of
+export interface ProblemVariantSource {
+  problemText: string;
+  solutionExpression?: string | null;
+  templateId?: string | null; // Template problems are re-rolled from the same template
+}
+
+// NOTE: Only the AI prompt uses this today - local and template providers size by difficulty
+export interface ProblemTuning {
+  maxNumber: number; // Largest number that should appear in the problem
+  steps: number; // Number of calculation steps
+}
+
+// What every provider must hand back (same shape the AI is asked to return)
+export interface GeneratedProblem {
+  problem_text: string;
+  // Number for whole/decimal answers, string for fractions and mixed numbers (e.g. "3/4", "1 1/2")
+  final_answer: number | string;
+  hint?: string; // Optional - providers may not always produce one
+  // Arithmetic that produces final_answer (e.g. "45 * 6 - 70") - used to verify the answer
+  solution_expression?: string;
+  // Optional worked solution, one calculation per step (results are worked out locally)
+  solution_steps?: GeneratedSolutionStep[];
+  // Unit for single-answer problems (e.g. "cm²", "$", "kg")
+  answer_unit?: string;
+  // Multi-part answers (e.g. quotient and remainder) - final_answer is the first part's answer
+  answer_parts?: GeneratedAnswerPart[];
+  // Set by the template generator - which template built this problem
+  template_id?: string;
+}
+
+export interface GeneratedSolutionStep {
+  description: string; // What this step finds, e.g. "Find the cost of 45 pens"
+  expression: string; // Arithmetic only, e.g. "45 * 6"
+}
+
+export interface GeneratedAnswerPart {
+  name: string; // Machine-friendly key, e.g. "remainder"
+  label: string; // Shown next to the input, e.g. "Remainder"
+  unit?: string;
+  answer: number | string;
+  solution_expression?: string;
+}
+
+// Context needed to write feedback for a submitted answer
+// Answers are display strings so fractions read naturally (e.g. "3/4", not 0.75)
+export interface FeedbackRequest {
+  problemText: string;
+  correctAnswer: string;
+  userAnswer: string;
+  isCorrect: boolean;
+  // Likely mistake behind a wrong answer (see lib/math/misconceptions), e.g. "Added instead of multiplying: ..."
+  misconception?: string | null;
+}
+
+export interface ProblemProvider {
+  // Short identifier used in logs and configuration (e.g. 'gemini', 'local')
+  readonly name: string;
+  generateProblem(request: ProblemRequest): Promise<GeneratedProblem>;
+  generateFeedback(request: FeedbackRequest): Promise<string>;
+}
@@ -0,0 +1,128 @@
+/**
+ * Answer Verification
+ *
+ * Checks a generated problem's stated final_answer against its
+ * solution_expression using the safe local evaluator.
+ *
+ * WHY? The AI sometimes gets its own arithmetic wrong. If we stored that
+ * answer, students who solved the problem correctly would be marked wrong.
+ */
+
+import { answersEquivalent, parseAnswerValue, rationalFromNumber } from '../math/answer';
+import { evaluateExpression, ExpressionError } from '../math/expression';
+import { incrementCounter, logger } from '../observability';
+import { generateTemplateProblem } from './templateGenerator';
+import { GeneratedProblem, ProblemProvider, ProblemRequest } from './types';
+
+// 'verified'   - expression evaluates to the stated answer
+// 'mismatch'   - expression evaluates to something else (answer can't be trusted)
+// 'unverified' - no usable expression, so we couldn't check either way
+export type VerificationStatus = 'verified' | 'mismatch' | 'unverified';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  computedAnswer: number | null;
+  reason?: string;
+}
+
+export interface VerifiedProblem {
+  problem: GeneratedProblem;
+  verification: VerificationResult;
+  // How many times the provider was asked before we got an acceptable problem
+  attempts: number;
+  // True when every provider attempt failed verification and a template problem was used instead
+  usedFallback: boolean;
+}
+
+// How many provider calls we make before giving up on a mismatching answer
+export const MAX_GENERATION_ATTEMPTS = 3;
+
+export function verifyProblem(problem: GeneratedProblem): VerificationResult {
+  if (!problem.solution_expression || typeof problem.solution_expression !== 'string') {
+    return { status: 'unverified', computedAnswer: null, reason: 'No solution expression provided' };
+  }
+
+  let computedAnswer: number;
+  try {
+    computedAnswer = evaluateExpression(problem.solution_expression);
+  } catch (error) {
+    const reason = error instanceof ExpressionError ? error.message : 'Expression could not be evaluated';
+    return { status: 'unverified', computedAnswer: null, reason };
+  }
+
+  if (!expressionMatches(computedAnswer, problem.final_answer)) {
+    return {
+      status: 'mismatch',
+      computedAnswer,
+      reason: `Expression gives ${computedAnswer} but stated answer is ${problem.final_answer}`,
+    };
+  }
+
+  // Multi-part answers: any part that brings its own expression must agree with it too
+  for (const part of problem.answer_parts || []) {
+    if (!part.solution_expression) continue;
+    try {
+      const partAnswer = evaluateExpression(part.solution_expression);
+      if (!expressionMatches(partAnswer, part.answer)) {
+        return {
+          status: 'mismatch',
+          computedAnswer,
+          reason: `Part "${part.name}" expression gives ${partAnswer} but stated answer is ${part.answer}`,
+        };
+      }
+    } catch (error) {
+      // An unreadable part expression doesn't prove the answer wrong - skip it
+      continue;
+    }
+  }
+
+  return { status: 'verified', computedAnswer };
+}
+
+// Compare as fractions so "3/4" matches an expression like "3 / 4"
+function expressionMatches(computed: number, statedAnswer: number | string): boolean {
+  const stated = parseAnswerValue(statedAnswer);
+  return stated.ok === true && answersEquivalent(rationalFromNumber(computed), stated.answer.value);
+}
+
+/**
+ * Generates a problem whose stated answer agrees with its own working
+ *
+ * HOW IT WORKS:
+ * 1. Ask the provider for a problem and verify it
+ * 2. If the answer doesn't match the expression, ask again (up to MAX_GENERATION_ATTEMPTS)
+ * 3. If every attempt mismatches, use a template problem - its answer is computed, so always correct
+ *
+ * NOTE: 'unverified' problems are accepted - we only reject answers we know are wrong
+ */
+export async function generateVerifiedProblem(
+  provider: ProblemProvider,
+  request: ProblemRequest
+): Promise<VerifiedProblem> {
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const problem = await provider.generateProblem(request);
+    const verification = verifyProblem(problem);
+    incrementCounter('ai_verification_total', { provider: provider.name, status: verification.status });
+
+    if (verification.status !== 'mismatch') {
+      return { problem, verification, attempts: attempt, usedFallback: false };
+    }
+
+    logger.warn('Rejected problem with a wrong answer', {
+      provider: provider.name,
+      attempt,
+      maxAttempts: MAX_GENERATION_ATTEMPTS,
+      reason: verification.reason,
+    });
+  }
+
+  incrementCounter('ai_verification_fallbacks_total', { provider: provider.name });
+  logger.error('Every generated problem failed answer verification - using a template problem', { provider: provider.name });
+  const fallback = generateTemplateProblem(request);
+  return {
+    problem: fallback,
+    verification: verifyProblem(fallback),
+    attempts: MAX_GENERATION_ATTEMPTS,
+    usedFallback: true,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Submission Analytics
+ *
+ * Turns raw submissions into the numbers teachers look at: accuracy and
+ * average time by topic and difficulty, star distributions, hint usage and
+ * the misconceptions behind wrong answers.
+ *
+ * WHY PURE FUNCTIONS? The teacher routes load rows from Supabase, and these
+ * just count - easy to reuse for a whole class or a single student.
+ */
+
+import { MISCONCEPTION_LABELS, MisconceptionKind } from './math/misconceptions';
+
+// A submission joined with the session it answered
+export interface AnalyticsSubmission {
+  session_id: string;
+  user_id: string;
+  is_correct: boolean;
+  time_taken_seconds: number | null;
+  stars_earned: number | null;
+  created_at: string;
+  topic: string;
+  difficulty: string;
+  misconception?: MisconceptionKind | null; // Recognised mistake behind a wrong answer
+}
+
+export interface HintReveal {
+  session_id: string;
+  user_id: string;
+}
+
+export interface AccuracySummary {
+  attempts: number;
+  correct: number;
+  accuracy: number | null; // 0-1, null when there are no attempts
+  averageTimeSeconds: number | null; // Only counts submissions with a recorded time
+}
+
+export interface TopicDifficultySummary extends AccuracySummary {
+  topic: string;
+  difficulty: string;
+}
+
+export interface HintUsage {
+  reveals: number;
+  problemsWithHint: number; // Submitted problems where the hint was opened first
+  accuracyWithHint: number | null;
+  accuracyWithoutHint: number | null;
+}
+
+export interface MisconceptionCount {
+  kind: MisconceptionKind;
+  label: string; // e.g. "Wrong operation"
+  count: number;
+  students: number; // How many different students made this mistake
+}
+
+export interface MisconceptionSummary {
+  wrongAnswers: number;
+  diagnosed: number; // Wrong answers with a recognised misconception
+  byKind: MisconceptionCount[]; // Most common first
+}
+
+// Number of submissions that earned 0, 1, 2 and 3 stars
+export type StarDistribution = Record<0 | 1 | 2 | 3, number>;
+
+export interface SubmissionAnalytics {
+  overall: AccuracySummary;
+  byTopic: Record<string, AccuracySummary>;
+  byDifficulty: Record<string, AccuracySummary>;
+  byTopicAndDifficulty: TopicDifficultySummary[];
+  starDistribution: StarDistribution;
+  hintUsage: HintUsage;
+  misconceptions: MisconceptionSummary;
+}
+
+/**
+ * Accuracy and average time for a group of submissions
+ */
+export function summarizeAccuracy(submissions: AnalyticsSubmission[]): AccuracySummary {
+  const correct = submissions.filter((submission) => submission.is_correct).length;
+  const times = submissions
+    .map((submission) => submission.time_taken_seconds)
+    .filter((time): time is number => typeof time === 'number');
+
+  return {
+    attempts: submissions.length,
+    correct,
+    accuracy: submissions.length > 0 ? correct / submissions.length : null,
+    averageTimeSeconds: times.length > 0
+      ? Math.round((times.reduce((sum, time) => sum + time, 0) / times.length) * 10) / 10
+      : null,
+  };
+}
+
+function groupBy(submissions: AnalyticsSubmission[], keyOf: (submission: AnalyticsSubmission) => string) {
+  const groups = new Map<string, AnalyticsSubmission[]>();
+  for (const submission of submissions) {
+    const key = keyOf(submission);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(submission);
+  }
+  return groups;
+}
+
+function summarizeGroups(groups: Map<string, AnalyticsSubmission[]>): Record<string, AccuracySummary> {
+  return Object.fromEntries(Array.from(groups).map(([key, group]) => [key, summarizeAccuracy(group)]));
+}
+
+export function summarizeStars(submissions: AnalyticsSubmission[]): StarDistribution {
+  const distribution: StarDistribution = { 0: 0, 1: 0, 2: 0, 3: 0 };
+  for (const submission of submissions) {
+    const stars = Math.min(Math.max(submission.stars_earned || 0, 0), 3) as 0 | 1 | 2 | 3;
+    distribution[stars]++;
+  }
+  return distribution;
+}
+
+/**
+ * Hint usage, and how accuracy compares with and without a hint
+ * NOTE: A problem counts as "with hint" if its session had any reveal
+ */
+export function summarizeHints(submissions: AnalyticsSubmission[], reveals: HintReveal[]): HintUsage {
+  const hintedSessions = new Set(reveals.map((reveal) => reveal.session_id));
+  const withHint = submissions.filter((submission) => hintedSessions.has(submission.session_id));
+  const withoutHint = submissions.filter((submission) => !hintedSessions.has(submission.session_id));
+
+  return {
+    reveals: reveals.length,
+    problemsWithHint: new Set(withHint.map((submission) => submission.session_id)).size,
+    accuracyWithHint: summarizeAccuracy(withHint).accuracy,
+    accuracyWithoutHint: summarizeAccuracy(withoutHint).accuracy,
+  };
+}
+
+/**
+ * Which misconceptions are behind wrong answers, most common first
+ * NOTE: Submissions made before detection existed count as wrong but undiagnosed
+ */
+export function summarizeMisconceptions(submissions: AnalyticsSubmission[]): MisconceptionSummary {
+  const wrong = submissions.filter((submission) => !submission.is_correct);
+  const diagnosed = wrong.filter((submission) => submission.misconception);
+
+  const byKind = Array.from(groupBy(diagnosed, (s) => s.misconception as string))
+    .map(([kind, group]) => ({
+      kind: kind as MisconceptionKind,
+      label: MISCONCEPTION_LABELS[kind as MisconceptionKind] ?? kind,
+      count: group.length,
+      students: new Set(group.map((submission) => submission.user_id)).size,
+    }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  return { wrongAnswers: wrong.length, diagnosed: diagnosed.length, byKind };
+}
+
+/**
+ * Full breakdown for a class or a single student
+ */
+export function analyzeSubmissions(submissions: AnalyticsSubmission[], reveals: HintReveal[]): SubmissionAnalytics {
+  const byTopicAndDifficulty = Array.from(groupBy(submissions, (s) => `${s.topic}|${s.difficulty}`))
+    .map(([key, group]) => {
+      const [topic, difficulty] = key.split('|');
+      return { topic, difficulty, ...summarizeAccuracy(group) };
+    })
+    .sort((a, b) => a.topic.localeCompare(b.topic) || a.difficulty.localeCompare(b.difficulty));
+
+  return {
+    overall: summarizeAccuracy(submissions),
+    byTopic: summarizeGroups(groupBy(submissions, (s) => s.topic)),
+    byDifficulty: summarizeGroups(groupBy(submissions, (s) => s.difficulty)),
+    byTopicAndDifficulty,
+    starDistribution: summarizeStars(submissions),
+    hintUsage: summarizeHints(submissions, reveals),
+    misconceptions: summarizeMisconceptions(submissions),
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Server-Side Authentication
+ *
+ * Resolves the student making an API request.
+ *
+ * MODES (NEXT_PUBLIC_AUTH_MODE):
+ * - 'supabase' (default) → Supabase Auth. The browser sends its access token as
+ *   "Authorization: Bearer <token>" and we verify it with Supabase.
+ * - 'mock' → Local development only. The browser sends x-mock-user-id and
+ *   x-mock-user-name headers; nothing is verified. Refused in production.
+ *
+ * WHY? Sessions and submissions are stored per student, and every query
+ * is scoped to the student resolved here.
+ */
+
+import { logger } from './observability';
+import { UUID_PATTERN } from './schemas';
+import { getSupabase } from './supabaseClient';
+
+export type AuthMode = 'supabase' | 'mock';
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+  // The verified Supabase JWT - null for mock users
+  accessToken: string | null;
+}
+
+export function getAuthMode(): AuthMode {
+  return process.env.NEXT_PUBLIC_AUTH_MODE === 'mock' ? 'mock' : 'supabase';
+}
+
+/**
+ * Returns the signed-in student for this request, or null if there isn't one
+ */
+export async function getCurrentUser(request: Request): Promise<AuthUser | null> {
+  if (getAuthMode() === 'mock') {
+    return getMockUser(request);
+  }
+
+  const authorization = request.headers.get('authorization');
+  const accessToken = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!accessToken) {
+    return null;
+  }
+
+  // Ask Supabase to verify the token - never trust a decoded JWT on its own
+  const { data, error } = await getSupabase().auth.getUser(accessToken);
+  if (error || !data.user) {
+    logger.warn('Rejected access token', { reason: error?.message });
+    return null;
+  }
+
+  return {
+    id: data.user.id,
+    email: data.user.email ?? null,
+    displayName: (data.user.user_metadata?.display_name as string | undefined) ?? null,
+    accessToken,
+  };
+}
+
+function getMockUser(request: Request): AuthUser | null {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Mock authentication cannot be used in production');
+  }
+
+  const id = request.headers.get('x-mock-user-id');
+  if (!id || !UUID_PATTERN.test(id)) {
+    return null;
+  }
+
+  return {
+    id,
+    email: null,
+    displayName: request.headers.get('x-mock-user-name'),
+    accessToken: null,
+  };
+}
+
+// Standard response for routes that need a signed-in student
+export function unauthorizedResponse(): Response {
+  return Response.json(
+    { error: 'Not signed in', message: 'Please sign in to continue' },
+    { status: 401 }
+  );
+}
+
+// Standard response for signed-in users without access (e.g. students on teacher routes)
+export function forbiddenResponse(): Response {
+  return Response.json(
+    { error: 'Forbidden', message: 'You do not have access to this page' },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Browser-Side Authentication Helpers
+ *
+ * Sign-in, sign-out and authenticated fetch for the student-facing pages.
+ *
+ * WHY A WRAPPER? Pages don't need to know whether we're using Supabase Auth
+ * or the local mock mode - they call signIn/authFetch and it just works.
+ *
+ * NOTE: The Supabase client is imported lazily so mock mode works without
+ * any Supabase environment variables.
+ */
+
+export interface Student {
+  id: string;
+  email: string | null;
+  displayName: string;
+  // Mock mode only - in Supabase mode teachers are listed in the teachers table
+  role?: 'student' | 'teacher';
+}
+
+const AUTH_MODE = process.env.NEXT_PUBLIC_AUTH_MODE === 'mock' ? 'mock' : 'supabase';
+const MOCK_USER_KEY = 'mockStudent';
+
+export function isMockAuth(): boolean {
+  return AUTH_MODE === 'mock';
+}
+
+async function getSupabase() {
+  const { getSupabase } = await import('./supabaseClient');
+  return getSupabase();
+}
+
+function readMockStudent(): Student | null {
+  const saved = localStorage.getItem(MOCK_USER_KEY);
+  return saved ? JSON.parse(saved) : null;
+}
+
+/**
+ * Returns the signed-in student, or null if nobody is signed in
+ */
+export async function getCurrentStudent(): Promise<Student | null> {
+  if (isMockAuth()) {
+    return readMockStudent();
+  }
+
+  const supabase = await getSupabase();
+  const { data } = await supabase.auth.getSession();
+  const user = data.session?.user;
+  if (!user) return null;
+
+  return {
+    id: user.id,
+    email: user.email ?? null,
+    displayName: (user.user_metadata?.display_name as string | undefined) || user.email || 'Student',
+  };
+}
+
+/**
+ * Mock mode: "sign in" with just a name
+ * WHY reuse the saved id? Signing in again with the same name keeps your history
+ */
+export function signInMock(displayName: string, role: 'student' | 'teacher' = 'student'): Student {
+  const existing = readMockStudent();
+  const student: Student = {
+    id: existing && existing.displayName === displayName ? existing.id : crypto.randomUUID(),
+    email: null,
+    displayName,
+    role,
+  };
+  localStorage.setItem(MOCK_USER_KEY, JSON.stringify(student));
+  return student;
+}
+
+export async function signInWithPassword(email: string, password: string): Promise<void> {
+  const supabase = await getSupabase();
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw new Error(error.message);
+}
+
+export async function signUpWithPassword(email: string, password: string, displayName: string): Promise<void> {
+  const supabase = await getSupabase();
+  const { error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { data: { display_name: displayName } },
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function signOut(): Promise<void> {
+  if (isMockAuth()) {
+    localStorage.removeItem(MOCK_USER_KEY);
+    return;
+  }
+  const supabase = await getSupabase();
+  await supabase.auth.signOut();
+}
+
+/**
+ * Headers that identify the student to our API routes
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  if (isMockAuth()) {
+    const student = readMockStudent();
+    return student
+      ? { 'x-mock-user-id': student.id, 'x-mock-user-name': student.displayName, 'x-mock-user-role': student.role || 'student' }
+      : {};
+  }
+
+  const supabase = await getSupabase();
+  const { data } = await supabase.auth.getSession();
+  return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {};
+}
+
+/**
+ * fetch() that adds the student's auth headers
+ * WHY? Every API route now needs to know who is playing
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const authHeaders = await getAuthHeaders();
+  return fetch(input, {
+    ...init,
+    headers: {
+      ...(init.headers as Record<string, string> | undefined),
+      ...authHeaders,
+    },
+  });
+}
@@ -0,0 +1,499 @@
+// Generated by scripts/generate-db-types.mjs from the schema built by db/migrations
+// Do not edit by hand - add a migration, apply it, then run `npm run db:types`
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      class_members: {
+        Row: {
+          class_id: string
+          display_name: string
+          joined_at: string | null
+          student_id: string
+        }
+        Insert: {
+          class_id: string
+          display_name: string
+          joined_at?: string | null
+          student_id: string
+        }
+        Update: {
+          class_id?: string
+          display_name?: string
+          joined_at?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_members_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classes: {
+        Row: {
+          created_at: string | null
+          id: string
+          join_code: string
+          name: string
+          teacher_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          join_code: string
+          name: string
+          teacher_id?: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          join_code?: string
+          name?: string
+          teacher_id?: string
+        }
+        Relationships: []
+      }
+      math_problem_hint_reveals: {
+        Row: {
+          created_at: string | null
+          id: string
+          level: number
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          level?: number
+          session_id: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          level?: number
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "math_problem_hint_reveals_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "math_problem_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      math_problem_sessions: {
+        Row: {
+          adaptive_level: number | null
+          adaptive_reason: string | null
+          answer_parts: Json | null
+          correct_answer: number
+          correct_answer_text: string | null
+          created_at: string | null
+          difficulty: string
+          difficulty_mode: string
+          generation_attempts: number
+          hint: string | null
+          id: string
+          problem_text: string
+          review_item_id: string | null
+          solution_expression: string | null
+          template_id: string | null
+          topic: string
+          user_id: string | null
+          verification_status: string
+          worked_solution: Json | null
+        }
+        Insert: {
+          adaptive_level?: number | null
+          adaptive_reason?: string | null
+          answer_parts?: Json | null
+          correct_answer: number
+          correct_answer_text?: string | null
+          created_at?: string | null
+          difficulty?: string
+          difficulty_mode?: string
+          generation_attempts?: number
+          hint?: string | null
+          id?: string
+          problem_text: string
+          review_item_id?: string | null
+          solution_expression?: string | null
+          template_id?: string | null
+          topic?: string
+          user_id?: string | null
+          verification_status?: string
+          worked_solution?: Json | null
+        }
+        Update: {
+          adaptive_level?: number | null
+          adaptive_reason?: string | null
+          answer_parts?: Json | null
+          correct_answer?: number
+          correct_answer_text?: string | null
+          created_at?: string | null
+          difficulty?: string
+          difficulty_mode?: string
+          generation_attempts?: number
+          hint?: string | null
+          id?: string
+          problem_text?: string
+          review_item_id?: string | null
+          solution_expression?: string | null
+          template_id?: string | null
+          topic?: string
+          user_id?: string | null
+          verification_status?: string
+          worked_solution?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "math_problem_sessions_review_item_id_fkey"
+            columns: ["review_item_id"]
+            isOneToOne: false
+            referencedRelation: "review_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      math_problem_submissions: {
+        Row: {
+          attempt_number: number | null
+          created_at: string | null
+          feedback_text: string
+          hint_revealed: boolean | null
+          id: string
+          is_correct: boolean
+          misconception: string | null
+          misconception_detail: string | null
+          part_results: Json | null
+          seconds_since_previous_attempt: number | null
+          session_id: string
+          stars_earned: number | null
+          time_taken_seconds: number | null
+          user_answer: number
+          user_answer_text: string | null
+          user_id: string | null
+        }
+        Insert: {
+          attempt_number?: number | null
+          created_at?: string | null
+          feedback_text: string
+          hint_revealed?: boolean | null
+          id?: string
+          is_correct: boolean
+          misconception?: string | null
+          misconception_detail?: string | null
+          part_results?: Json | null
+          seconds_since_previous_attempt?: number | null
+          session_id: string
+          stars_earned?: number | null
+          time_taken_seconds?: number | null
+          user_answer: number
+          user_answer_text?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          attempt_number?: number | null
+          created_at?: string | null
+          feedback_text?: string
+          hint_revealed?: boolean | null
+          id?: string
+          is_correct?: boolean
+          misconception?: string | null
+          misconception_detail?: string | null
+          part_results?: Json | null
+          seconds_since_previous_attempt?: number | null
+          session_id?: string
+          stars_earned?: number | null
+          time_taken_seconds?: number | null
+          user_answer?: number
+          user_answer_text?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "math_problem_submissions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "math_problem_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_items: {
+        Row: {
+          id: string
+          position: number
+          quiz_id: string
+          session_id: string
+          submission_id: string | null
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          position: number
+          quiz_id: string
+          session_id: string
+          submission_id?: string | null
+          user_id?: string
+        }
+        Update: {
+          id?: string
+          position?: number
+          quiz_id?: string
+          session_id?: string
+          submission_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_items_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_items_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "math_problem_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_items_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "math_problem_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          created_at: string | null
+          difficulty_mix: string
+          id: string
+          question_count: number
+          score: number | null
+          status: string
+          submitted_at: string | null
+          time_taken_seconds: number | null
+          topic: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          difficulty_mix: string
+          id?: string
+          question_count: number
+          score?: number | null
+          status?: string
+          submitted_at?: string | null
+          time_taken_seconds?: number | null
+          topic: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string | null
+          difficulty_mix?: string
+          id?: string
+          question_count?: number
+          score?: number | null
+          status?: string
+          submitted_at?: string | null
+          time_taken_seconds?: number | null
+          topic?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      review_items: {
+        Row: {
+          created_at: string | null
+          due_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          last_quality: number | null
+          last_reviewed_at: string | null
+          repetitions: number
+          source_session_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          due_at: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_quality?: number | null
+          last_reviewed_at?: string | null
+          repetitions?: number
+          source_session_id: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string | null
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_quality?: number | null
+          last_reviewed_at?: string | null
+          repetitions?: number
+          source_session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_items_source_session_id_fkey"
+            columns: ["source_session_id"]
+            isOneToOne: false
+            referencedRelation: "math_problem_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_achievements: {
+        Row: {
+          achievement_key: string
+          unlocked_at: string | null
+          user_id: string
+        }
+        Insert: {
+          achievement_key: string
+          unlocked_at?: string | null
+          user_id?: string
+        }
+        Update: {
+          achievement_key?: string
+          unlocked_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      student_progress: {
+        Row: {
+          created_at: string | null
+          imported_at: string | null
+          imported_hints_used: number
+          imported_problems_completed: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          imported_at?: string | null
+          imported_hints_used?: number
+          imported_problems_completed?: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string | null
+          imported_at?: string | null
+          imported_hints_used?: number
+          imported_problems_completed?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      teachers: {
+        Row: {
+          created_at: string | null
+          display_name: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          display_name?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          display_name?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      worksheets: {
+        Row: {
+          class_name: string | null
+          created_at: string | null
+          difficulty_mix: string
+          id: string
+          problem_count: number | null
+          problems: Json
+          source: string
+          teacher_id: string
+          title: string
+          topic: string
+        }
+        Insert: {
+          class_name?: string | null
+          created_at?: string | null
+          difficulty_mix: string
+          id?: string
+          problems: Json
+          source: string
+          teacher_id?: string
+          title: string
+          topic: string
+        }
+        Update: {
+          class_name?: string | null
+          created_at?: string | null
+          difficulty_mix?: string
+          id?: string
+          problems?: Json
+          source?: string
+          teacher_id?: string
+          title?: string
+          topic?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      is_my_student: {
+        Args: { p_student_id: string }
+        Returns: boolean
+      }
+      join_class: {
+        Args: { p_join_code: string; p_student_id: string; p_display_name: string }
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+// Row, Insert and Update types by table name, e.g. Tables<'quizzes'>
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
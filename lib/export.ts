@@ -0,0 +1,341 @@
+/**
+ * Submission Export
+ *
+ * Streams submissions joined with their problem sessions as CSV or
+ * newline-delimited JSON, for analysis in spreadsheets and notebooks.
+ *
+ * HOW IT WORKS:
+ * - One row per submission, with its session's problem, topic and difficulty
+ * - Rows are read from Supabase a page at a time and written to the response
+ *   as they arrive - the next page is only fetched when the client has read
+ *   the previous one, so even large exports use a small, fixed amount of memory
+ * - Column names are fixed (EXPORT_COLUMNS) so saved spreadsheet formulas and
+ *   scripts keep working - new columns are only ever added at the end
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Difficulty } from './ai/types';
+import type { Database } from './database.types';
+import { databaseError, logger } from './observability';
+import type { SessionRecord, SubmissionRecord } from './repositories';
+import { DIFFICULTIES, uuid } from './schemas';
+import { isTopic, Topic, TOPIC_IDS } from './topics';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface ExportFilters {
+  from: string | null; // ISO timestamp, inclusive
+  to: string | null; // ISO timestamp, exclusive
+  topic: Topic | null;
+  difficulty: Difficulty | null;
+  studentId: string | null;
+  classId: string | null;
+}
+
+// WHY a fixed list? These are the file's column names - renaming one breaks people's spreadsheets
+export const EXPORT_COLUMNS = [
+  'submission_id',
+  'submitted_at',
+  'student_id',
+  'student_name',
+  'session_id',
+  'session_created_at',
+  'topic',
+  'difficulty',
+  'difficulty_mode',
+  'adaptive_level',
+  'problem_text',
+  'correct_answer',
+  'user_answer',
+  'is_correct',
+  'time_taken_seconds',
+  'stars_earned',
+  'hint_used',
+  'verification_status',
+  'feedback_text',
+  'attempt_number',
+  'hint_revealed',
+  'seconds_since_previous_attempt',
+  'misconception',
+  'misconception_detail',
+] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+export type ExportRow = Record<ExportColumn, string | number | boolean | null>;
+
+// Rows fetched per database request
+const EXPORT_PAGE_SIZE = 500;
+
+// Session IDs per hint-reveal lookup - they go in the URL (~37 characters each)
+const REVEAL_LOOKUP_BATCH = 100;
+// Supabase returns at most 1000 rows per request
+const REVEAL_PAGE_SIZE = 1000;
+
+type ExportSession = Pick<
+  SessionRecord,
+  | 'created_at' | 'topic' | 'difficulty' | 'difficulty_mode' | 'adaptive_level' | 'problem_text' | 'correct_answer'
+  | 'correct_answer_text' | 'verification_status'
+>;
+
+// A submission as selected in readExportRows
+type SubmissionExportRow = Pick<
+  SubmissionRecord,
+  | 'id' | 'session_id' | 'user_id' | 'created_at' | 'user_answer' | 'user_answer_text' | 'is_correct' | 'time_taken_seconds'
+  | 'stars_earned' | 'feedback_text' | 'attempt_number' | 'hint_revealed' | 'seconds_since_previous_attempt' | 'misconception'
+  | 'misconception_detail'
+> & { math_problem_sessions: ExportSession | null };
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ParseFiltersResult =
+  | { ok: true; format: ExportFormat; filters: ExportFilters }
+  | { ok: false; errors: Record<string, string> };
+
+/**
+ * Reads the export format and filters from query parameters
+ *
+ * - from / to: ISO timestamps, or dates (YYYY-MM-DD) - a date-only "to" includes that whole day
+ * - topic, difficulty, studentId, classId: exact matches (the IDs must be UUIDs)
+ */
+export function parseExportQuery(params: URLSearchParams): ParseFiltersResult {
+  const errors: Record<string, string> = {};
+
+  const format = params.get('format') || 'csv';
+  if (format !== 'csv' && format !== 'ndjson') {
+    errors.format = "format must be 'csv' or 'ndjson'";
+  }
+
+  const parseDate = (name: 'from' | 'to'): string | null => {
+    const value = params.get(name);
+    if (!value) return null;
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      errors[name] = `${name} must be a date (YYYY-MM-DD) or ISO timestamp`;
+      return null;
+    }
+    // WHY? "to=2024-03-31" should include submissions made on the 31st
+    const end = name === 'to' && DATE_ONLY.test(value) ? time + DAY_MS : time;
+    return new Date(end).toISOString();
+  };
+  const from = parseDate('from');
+  const to = parseDate('to');
+  if (from && to && from >= to) {
+    errors.to = 'to must be after from';
+  }
+
+  const topic = params.get('topic');
+  if (topic && !isTopic(topic)) {
+    errors.topic = `topic must be one of ${TOPIC_IDS.join(', ')}`;
+  }
+  const difficulty = params.get('difficulty');
+  if (difficulty && !(DIFFICULTIES as readonly string[]).includes(difficulty)) {
+    errors.difficulty = `difficulty must be one of ${DIFFICULTIES.join(', ')}`;
+  }
+
+  const readId = (name: 'studentId' | 'classId'): string | null => {
+    const value = params.get(name);
+    if (!value) return null;
+    const id = uuid(value, name);
+    if (id.ok === false) {
+      Object.assign(errors, id.errors);
+      return null;
+    }
+    return id.value;
+  };
+  const studentId = readId('studentId');
+  const classId = readId('classId');
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    format: format as ExportFormat,
+    filters: {
+      from,
+      to,
+      topic: (topic as Topic) || null,
+      difficulty: (difficulty as Difficulty) || null,
+      studentId,
+      classId,
+    },
+  };
+}
+
+function toExportRow(row: SubmissionExportRow, studentNames: Map<string, string>, hintedSessions: Set<string>): ExportRow {
+  const session: Partial<ExportSession> = row.math_problem_sessions || {};
+  return {
+    submission_id: row.id,
+    submitted_at: row.created_at,
+    student_id: row.user_id,
+    student_name: studentNames.get(row.user_id) ?? null,
+    session_id: row.session_id,
+    session_created_at: session.created_at ?? null,
+    topic: session.topic ?? null,
+    difficulty: session.difficulty ?? null,
+    difficulty_mode: session.difficulty_mode ?? null,
+    adaptive_level: session.adaptive_level ?? null,
+    problem_text: session.problem_text ?? null,
+    correct_answer: session.correct_answer_text ?? (session.correct_answer !== undefined ? String(session.correct_answer) : null),
+    user_answer: row.user_answer_text ?? (row.user_answer !== null ? String(row.user_answer) : null),
+    is_correct: row.is_correct,
+    time_taken_seconds: row.time_taken_seconds,
+    stars_earned: row.stars_earned,
+    hint_used: hintedSessions.has(row.session_id),
+    verification_status: session.verification_status ?? null,
+    feedback_text: row.feedback_text,
+    attempt_number: row.attempt_number,
+    hint_revealed: row.hint_revealed,
+    seconds_since_previous_attempt: row.seconds_since_previous_attempt,
+    misconception: row.misconception,
+    misconception_detail: row.misconception_detail,
+  };
+}
+
+/**
+ * The sessions among sessionIds that had a hint revealed
+ * WHY batched and paged? Every ID goes in the request URL, and each session can
+ * have several reveals (one per hint level) - one request would cut the rows off at 1000
+ */
+async function loadHintedSessions(db: SupabaseClient<Database>, sessionIds: string[]): Promise<Set<string>> {
+  const unique = Array.from(new Set(sessionIds));
+  const hinted = new Set<string>();
+
+  for (let start = 0; start < unique.length; start += REVEAL_LOOKUP_BATCH) {
+    const batch = unique.slice(start, start + REVEAL_LOOKUP_BATCH);
+    for (let from = 0; ; from += REVEAL_PAGE_SIZE) {
+      const { data, error } = await db
+        .from('math_problem_hint_reveals')
+        .select('session_id')
+        .in('session_id', batch)
+        .order('id', { ascending: true })
+        .range(from, from + REVEAL_PAGE_SIZE - 1);
+
+      if (error) {
+        throw databaseError('load hint reveals', error);
+      }
+      for (const reveal of data || []) {
+        hinted.add(reveal.session_id);
+      }
+      if (!data || data.length < REVEAL_PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+  return hinted;
+}
+
+/**
+ * Yields matching submissions one page at a time, oldest first
+ *
+ * @param studentNames - The students whose submissions may be exported, with their display names
+ * NOTE: The caller decides who may be exported; this only reads their rows
+ */
+export async function* readExportRows(
+  db: SupabaseClient<Database>,
+  studentNames: Map<string, string>,
+  filters: ExportFilters
+): AsyncGenerator<ExportRow> {
+  const studentIds = Array.from(studentNames.keys());
+  if (studentIds.length === 0) {
+    return;
+  }
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    let query = db
+      .from('math_problem_submissions')
+      .select(
+        'id, session_id, user_id, created_at, user_answer, user_answer_text, is_correct, time_taken_seconds, stars_earned, feedback_text, ' +
+        'attempt_number, hint_revealed, seconds_since_previous_attempt, misconception, misconception_detail, ' +
+        'math_problem_sessions!inner(created_at, topic, difficulty, difficulty_mode, adaptive_level, problem_text, correct_answer, correct_answer_text, verification_status)'
+      )
+      .in('user_id', studentIds);
+
+    if (filters.from) query = query.gte('created_at', filters.from);
+    if (filters.to) query = query.lt('created_at', filters.to);
+    if (filters.topic) query = query.eq('math_problem_sessions.topic', filters.topic);
+    if (filters.difficulty) query = query.eq('math_problem_sessions.difficulty', filters.difficulty);
+
+    // WHY order by id too? Keeps paging stable when two submissions share a timestamp
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1)
+      .overrideTypes<SubmissionExportRow[], { merge: false }>(); // The select is built from parts, so it can't be inferred
+
+    if (error) {
+      throw databaseError('load submissions', error);
+    }
+    const rows = data || [];
+    if (rows.length === 0) {
+      return;
+    }
+
+    const hintedSessions = await loadHintedSessions(db, rows.map((row) => row.session_id));
+
+    for (const row of rows) {
+      yield toExportRow(row, studentNames, hintedSessions);
+    }
+    if (rows.length < EXPORT_PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+/**
+ * Formats one CSV value
+ * - Quotes values containing commas, quotes or line breaks (RFC 4180)
+ * - Prefixes text starting with = + - @ with ' so spreadsheets don't run it as a formula
+ */
+export function toCsvValue(value: string | number | boolean | null): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsvLine(values: Array<string | number | boolean | null>): string {
+  return values.map(toCsvValue).join(',') + '\r\n';
+}
+
+/**
+ * Turns export rows into a byte stream in the requested format
+ * WHY pull-based? The next page is only read from the database when the client is ready for it
+ */
+export function createExportStream(format: ExportFormat, rows: AsyncIterator<ExportRow>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let wroteHeader = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (format === 'csv' && !wroteHeader) {
+          wroteHeader = true;
+          controller.enqueue(encoder.encode(toCsvLine([...EXPORT_COLUMNS])));
+          return;
+        }
+
+        const next = await rows.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+
+        const line = format === 'csv'
+          ? toCsvLine(EXPORT_COLUMNS.map((column) => next.value[column]))
+          : JSON.stringify(next.value) + '\n';
+        controller.enqueue(encoder.encode(line));
+      } catch (error) {
+        // Headers are already sent, so the best we can do is end the download with an error
+        logger.error('Error streaming export', { error });
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await rows.return?.(undefined);
+    },
+  });
+}
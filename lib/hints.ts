@@ -0,0 +1,128 @@
+/**
+ * Tiered Hints
+ *
+ * Works out a problem's hints from what's stored on its session, from a
+ * gentle nudge up to part of the calculation.
+ *
+ * WHY TIERS? One hint that gives away the method is too much help for a
+ * student who only needed to re-read the question. Each level says a little
+ * more than the one before, and students reveal them one at a time.
+ *
+ * HOW IT WORKS:
+ * - Level 1 (nudge): what the question is asking for, and the unit
+ * - Level 2 (strategy): the stored hint, or the operations to use, in order
+ * - Level 3 (partial calculation): the working from solution_expression,
+ *   stopping before the final step so the answer is still the student's to find
+ * - Hints are derived on demand - nothing extra is generated or stored
+ *
+ * NOTE: Sessions without a usable solution_expression only get levels 1 and 2
+ */
+
+import { CalculationStep, formatStepNumber, listCalculationSteps, Operator } from './math/expression';
+import { AnswerPartWithKey, answerKeyFromSession } from './math/answerSchema';
+
+export type HintKind = 'nudge' | 'strategy' | 'partial';
+
+export interface HintLevel {
+  level: number; // 1 = gentlest
+  kind: HintKind;
+  label: string;
+}
+
+export interface Hint extends HintLevel {
+  text: string;
+}
+
+export const HINT_LEVELS: HintLevel[] = [
+  { level: 1, kind: 'nudge', label: 'Nudge' },
+  { level: 2, kind: 'strategy', label: 'Strategy' },
+  { level: 3, kind: 'partial', label: 'Partial calculation' },
+];
+
+// The math_problem_sessions columns hints are worked out from
+export interface HintSource {
+  hint: string | null;
+  solution_expression: string | null;
+  answer_parts?: AnswerPartWithKey[] | null;
+  correct_answer: number | string;
+  correct_answer_text?: string | null;
+}
+
+const OPERATION_VERBS: Record<Operator, string> = {
+  '+': 'add',
+  '-': 'subtract',
+  '*': 'multiply',
+  '/': 'divide',
+};
+
+// Steps for the stored working, or none if it's missing or doesn't parse
+function safeSteps(expression: string | null): CalculationStep[] {
+  if (!expression) return [];
+  try {
+    return listCalculationSteps(expression);
+  } catch {
+    return [];
+  }
+}
+
+function joinWords(words: string[]): string {
+  if (words.length <= 1) return words.join('');
+  return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+function nudgeText(parts: AnswerPartWithKey[]): string {
+  const units = Array.from(new Set(parts.map((part) => part.unit).filter(Boolean)));
+  const unitNote = units.length > 0 ? ` Your answer should be in ${joinWords(units)}.` : '';
+
+  if (parts.length > 1) {
+    const labels = parts.map((part) => `the ${part.label.toLowerCase()}`);
+    return `Read the question again. You need to find ${joinWords(labels)}.${unitNote}`;
+  }
+  return `Read the question again slowly. Which numbers do you need, and what is the question asking you to find?${unitNote}`;
+}
+
+function strategyText(hint: string | null, steps: CalculationStep[]): string {
+  if (hint) return hint;
+
+  if (steps.length === 1) {
+    return `This takes one step: ${OPERATION_VERBS[steps[0].operator]}.`;
+  }
+  if (steps.length > 1) {
+    const verbs = steps.map((step) => OPERATION_VERBS[step.operator]);
+    return `This takes ${steps.length} steps: first ${verbs[0]}, then ${verbs.slice(1).join(', then ')}.`;
+  }
+  return 'Think about what happens in the story - are amounts being joined, taken away, grouped or shared?';
+}
+
+function partialText(steps: CalculationStep[]): string | null {
+  if (steps.length === 0) return null;
+
+  // WHY stop before the last step? The final result is the answer itself
+  if (steps.length === 1) {
+    return `Set it up as ${steps[0].expression} and work it out.`;
+  }
+  const working = steps
+    .slice(0, -1)
+    .map((step) => `${step.expression} = ${formatStepNumber(step.result)}`)
+    .join(', then ');
+  return `Start with ${working}. Now use that to finish the problem.`;
+}
+
+/**
+ * All of a session's hints, gentlest first
+ * NOTE: Deterministic - the same session always gets the same hints
+ */
+export function deriveHints(session: HintSource): Hint[] {
+  const parts = answerKeyFromSession(session);
+  const steps = safeSteps(session.solution_expression);
+
+  const texts: Record<HintKind, string | null> = {
+    nudge: nudgeText(parts),
+    strategy: strategyText(session.hint, steps),
+    partial: partialText(steps),
+  };
+
+  return HINT_LEVELS
+    .filter((level) => texts[level.kind] !== null)
+    .map((level) => ({ ...level, text: texts[level.kind] as string }));
+}
@@ -0,0 +1,201 @@
+/**
+ * Answer Model
+ *
+ * Parses and compares student answers written as whole numbers, decimals,
+ * fractions or mixed numbers.
+ *
+ * WHY? Hard problems ask for fractions and decimals, but answers used to go
+ * through parseInt() and ===, so "2.5", "3/4" and "1 1/2" could never be right.
+ *
+ * HOW IT WORKS:
+ * - Every answer is parsed into an exact fraction (numerator / denominator)
+ * - Equivalent forms compare equal: 6/8 = 3/4 = 0.75, 1 1/2 = 3/2 = 1.5
+ * - A small tolerance covers answers that were stored as rounded decimals
+ *
+ * NOTE: This file has no server-only imports, so the frontend uses it too
+ * for instant validation messages under the answer input.
+ */
+
+export type AnswerKind = 'integer' | 'decimal' | 'fraction' | 'mixed';
+
+// Always stored in lowest terms with a positive denominator
+export interface Rational {
+  numerator: number;
+  denominator: number;
+}
+
+export interface ParsedAnswer {
+  kind: AnswerKind;
+  value: Rational;
+}
+
+export type AnswerParseResult =
+  | { ok: true; answer: ParsedAnswer }
+  | { ok: false; error: string };
+
+// Covers floating point noise and answers stored as rounded NUMERIC values
+export const DEFAULT_ANSWER_TOLERANCE = 1e-6;
+
+// Decimals longer than this can't be turned into an exact fraction safely
+const MAX_DECIMAL_PLACES = 8;
+
+const FORMAT_HELP = 'Answers can be whole numbers (12), decimals (2.5), fractions (3/4) or mixed numbers (1 1/2)';
+
+const INTEGER_PATTERN = /^-?(\d{1,3}(,\d{3})+|\d+)$/;
+const DECIMAL_PATTERN = /^-?(\d{1,3}(,\d{3})+|\d*)\.(\d+)$/;
+const FRACTION_PATTERN = /^(-?\d+)\s*\/\s*(\d+)$/;
+const MIXED_PATTERN = /^(-?\d+)\s+(\d+)\s*\/\s*(\d+)$/;
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a || 1;
+}
+
+export function makeRational(numerator: number, denominator: number): Rational {
+  if (denominator === 0) {
+    throw new Error('Denominator cannot be zero');
+  }
+  const sign = denominator < 0 ? -1 : 1;
+  const divisor = gcd(numerator, denominator);
+  return {
+    numerator: (sign * numerator) / divisor,
+    denominator: Math.abs(denominator) / divisor,
+  };
+}
+
+export function rationalToNumber({ numerator, denominator }: Rational): number {
+  return numerator / denominator;
+}
+
+/**
+ * Converts a plain number (e.g. a NUMERIC column value) into a fraction
+ * WHY? Lets stored answers like 0.75 compare exactly with a student's "3/4"
+ */
+export function rationalFromNumber(value: number): Rational {
+  if (Number.isInteger(value)) {
+    return makeRational(value, 1);
+  }
+  const scale = Math.pow(10, MAX_DECIMAL_PLACES);
+  return makeRational(Math.round(value * scale), scale);
+}
+
+/**
+ * Parses a student's (or the AI's) answer text
+ *
+ * Accepts: 12, -3, 1,250, 2.5, .5, 3/4, 9/4, 1 1/2
+ */
+export function parseAnswer(input: string): AnswerParseResult {
+  const text = input.trim().replace(/\s+/g, ' ');
+
+  if (!text) {
+    return { ok: false, error: 'Please enter an answer' };
+  }
+
+  if (INTEGER_PATTERN.test(text)) {
+    return { ok: true, answer: { kind: 'integer', value: makeRational(parseInt(text.replace(/,/g, ''), 10), 1) } };
+  }
+
+  const decimalMatch = text.match(DECIMAL_PATTERN);
+  if (decimalMatch) {
+    const places = decimalMatch[3].length;
+    if (places > MAX_DECIMAL_PLACES) {
+      return { ok: false, error: `Use at most ${MAX_DECIMAL_PLACES} decimal places` };
+    }
+    const digits = text.replace(/,/g, '').replace('.', '');
+    return {
+      ok: true,
+      answer: { kind: 'decimal', value: makeRational(parseInt(digits || '0', 10), Math.pow(10, places)) },
+    };
+  }
+
+  const fractionMatch = text.match(FRACTION_PATTERN);
+  if (fractionMatch) {
+    const numerator = parseInt(fractionMatch[1], 10);
+    const denominator = parseInt(fractionMatch[2], 10);
+    if (denominator === 0) {
+      return { ok: false, error: 'The bottom number of a fraction can\'t be 0' };
+    }
+    return { ok: true, answer: { kind: 'fraction', value: makeRational(numerator, denominator) } };
+  }
+
+  const mixedMatch = text.match(MIXED_PATTERN);
+  if (mixedMatch) {
+    const whole = parseInt(mixedMatch[1], 10);
+    const numerator = parseInt(mixedMatch[2], 10);
+    const denominator = parseInt(mixedMatch[3], 10);
+    if (denominator === 0) {
+      return { ok: false, error: 'The bottom number of a fraction can\'t be 0' };
+    }
+    if (numerator >= denominator) {
+      return { ok: false, error: 'In a mixed number the fraction part must be less than 1 (e.g. 2 1/2)' };
+    }
+    // "-1 1/2" means -(1 + 1/2), not -1 + 1/2
+    const sign = mixedMatch[1].startsWith('-') ? -1 : 1;
+    return {
+      ok: true,
+      answer: { kind: 'mixed', value: makeRational(sign * (Math.abs(whole) * denominator + numerator), denominator) },
+    };
+  }
+
+  return { ok: false, error: FORMAT_HELP };
+}
+
+/**
+ * Checks whether two answers are the same number
+ * WHY exact first? Fractions like 1/3 have no exact decimal, so compare as fractions
+ */
+export function answersEquivalent(
+  a: Rational,
+  b: Rational,
+  tolerance: number = DEFAULT_ANSWER_TOLERANCE
+): boolean {
+  if (a.numerator === b.numerator && a.denominator === b.denominator) {
+    return true;
+  }
+  return Math.abs(rationalToNumber(a) - rationalToNumber(b)) <= tolerance;
+}
+
+/**
+ * Formats an answer for display and storage, in the style it was written
+ * e.g. fractions stay as "3/4", mixed numbers as "1 1/2"
+ */
+export function formatAnswer({ kind, value }: ParsedAnswer): string {
+  const { numerator, denominator } = value;
+
+  if (denominator === 1) {
+    return String(numerator);
+  }
+  if (kind === 'decimal' || kind === 'integer') {
+    return String(rationalToNumber(value));
+  }
+  if (kind === 'mixed' && Math.abs(numerator) > denominator) {
+    const whole = Math.trunc(numerator / denominator);
+    return `${whole} ${Math.abs(numerator % denominator)}/${denominator}`;
+  }
+  return `${numerator}/${denominator}`;
+}
+
+/**
+ * Parses an answer that may arrive as a number or a string
+ * WHY? The AI returns final_answer as a number for whole/decimal answers and as
+ * a string for fractions, and older clients send numbers
+ */
+export function parseAnswerValue(value: unknown): AnswerParseResult {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      return { ok: false, error: 'Answer must be a finite number' };
+    }
+    return {
+      ok: true,
+      answer: { kind: Number.isInteger(value) ? 'integer' : 'decimal', value: rationalFromNumber(value) },
+    };
+  }
+  if (typeof value === 'string') {
+    return parseAnswer(value);
+  }
+  return { ok: false, error: 'Answer must be a number or text' };
+}
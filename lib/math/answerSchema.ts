@@ -0,0 +1,229 @@
+/**
+ * Answer Schema
+ *
+ * Describes what shape a problem's answer takes: one or more named parts,
+ * each with an optional unit (e.g. "quotient" and "remainder", or "cm²").
+ *
+ * WHY? Primary 5 problems often need more than one bare number. A problem
+ * declares its parts, the UI renders one input per part, and the submit
+ * route grades each part separately.
+ *
+ * NOTE: The answer key (AnswerPartWithKey) stays on the server. Only the
+ * public AnswerPart fields are ever sent to the browser.
+ */
+
+import { AnswerKind, answersEquivalent, formatAnswer, parseAnswer, parseAnswerValue, ParsedAnswer } from './answer';
+
+// Name used for ordinary single-answer problems
+export const DEFAULT_PART_NAME = 'answer';
+
+// What the browser sees - enough to render an input
+export interface AnswerPart {
+  name: string;
+  label: string;
+  unit: string | null;
+}
+
+// What the database stores - includes the exact correct answer text
+export interface AnswerPartWithKey extends AnswerPart {
+  answer: string;
+}
+
+// Stored per submission so teachers can see which part went wrong
+export interface PartResult {
+  name: string;
+  user_answer: string;
+  correct_answer: string;
+  is_correct: boolean;
+}
+
+// Loose shape of a generated problem - avoids depending on the AI types here
+export interface AnswerSource {
+  final_answer: unknown;
+  answer_unit?: string | null;
+  answer_parts?: Array<{ name?: unknown; label?: unknown; unit?: unknown; answer?: unknown }>;
+}
+
+export type AnswerKeyResult =
+  | { ok: true; parts: AnswerPartWithKey[] }
+  | { ok: false; error: string };
+
+// Rejects an answer written in the wrong form for the problem (null if it's fine)
+export type AnswerFormatCheck = (answerKind: AnswerKind, part: AnswerPartWithKey) => string | null;
+
+export type GradeResult =
+  | { ok: true; isCorrect: boolean; results: PartResult[] }
+  | { ok: false; errors: Record<string, string> };
+
+function toPartName(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Builds the answer key from a generated problem
+ *
+ * HOW IT WORKS:
+ * - Multi-part problems list their parts in answer_parts
+ * - Single-answer problems become one part named 'answer', using final_answer and answer_unit
+ */
+export function buildAnswerKey(source: AnswerSource): AnswerKeyResult {
+  if (Array.isArray(source.answer_parts) && source.answer_parts.length > 0) {
+    const parts: AnswerPartWithKey[] = [];
+
+    for (const rawPart of source.answer_parts) {
+      const label = typeof rawPart.label === 'string' && rawPart.label.trim() ? rawPart.label.trim() : null;
+      const name = typeof rawPart.name === 'string' && rawPart.name.trim() ? toPartName(rawPart.name) : label && toPartName(label);
+      const parsed = parseAnswerValue(rawPart.answer);
+
+      if (!name || parsed.ok === false) {
+        return { ok: false, error: `Invalid answer part: ${JSON.stringify(rawPart)}` };
+      }
+      if (parts.some((part) => part.name === name)) {
+        return { ok: false, error: `Duplicate answer part name "${name}"` };
+      }
+
+      parts.push({
+        name,
+        label: label || name,
+        unit: typeof rawPart.unit === 'string' && rawPart.unit.trim() ? rawPart.unit.trim() : null,
+        answer: formatAnswer(parsed.answer),
+      });
+    }
+
+    return { ok: true, parts };
+  }
+
+  const parsed = parseAnswerValue(source.final_answer);
+  if (parsed.ok === false) {
+    return { ok: false, error: `Invalid final_answer: ${parsed.error}` };
+  }
+
+  return {
+    ok: true,
+    parts: [{
+      name: DEFAULT_PART_NAME,
+      label: 'Answer',
+      unit: typeof source.answer_unit === 'string' && source.answer_unit.trim() ? source.answer_unit.trim() : null,
+      answer: formatAnswer(parsed.answer),
+    }],
+  };
+}
+
+// Strips the answer key before anything is sent to the browser
+export function toPublicParts(parts: AnswerPartWithKey[]): AnswerPart[] {
+  return parts.map(({ name, label, unit }) => ({ name, label, unit }));
+}
+
+/**
+ * Parses one part's answer, allowing the student to type the unit too
+ * e.g. "12 cm", "$4.50" and "4.50" all work for a part whose unit is "$"
+ */
+export function parsePartAnswer(input: string, unit: string | null) {
+  let text = input.trim();
+
+  if (unit) {
+    const escaped = unit.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    text = text
+      .replace(new RegExp(`^${escaped}\\s*`, 'i'), '')
+      .replace(new RegExp(`\\s*${escaped}$`, 'i'), '');
+  }
+
+  return parseAnswer(text);
+}
+
+/**
+ * Grades a set of answers against the answer key, part by part
+ *
+ * @param parts - The stored answer key
+ * @param answers - Student answers keyed by part name
+ * @param checkFormat - Optional rule for which forms are accepted, e.g. no fractions on decimals problems
+ * @returns Per-part results, or per-part validation errors if any answer can't be parsed
+ */
+export function gradeAnswers(parts: AnswerPartWithKey[], answers: Record<string, unknown>, checkFormat?: AnswerFormatCheck): GradeResult {
+  const errors: Record<string, string> = {};
+  const parsedAnswers: Record<string, ParsedAnswer> = {};
+
+  for (const part of parts) {
+    const raw = answers[part.name];
+    const parsed = typeof raw === 'string'
+      ? parsePartAnswer(raw, part.unit)
+      : parseAnswerValue(raw);
+
+    if (raw === undefined || raw === null) {
+      errors[part.name] = `Please enter the ${part.label.toLowerCase()}`;
+    } else if (parsed.ok === false) {
+      errors[part.name] = parsed.error;
+    } else {
+      const formatError = checkFormat ? checkFormat(parsed.answer.kind, part) : null;
+      if (formatError) {
+        errors[part.name] = formatError;
+      } else {
+        parsedAnswers[part.name] = parsed.answer;
+      }
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  const results = parts.map((part) => {
+    const userAnswer = parsedAnswers[part.name];
+    const correctAnswer = parseAnswer(part.answer);
+    return {
+      name: part.name,
+      user_answer: formatAnswer(userAnswer),
+      correct_answer: part.answer,
+      is_correct: correctAnswer.ok === true && answersEquivalent(userAnswer.value, correctAnswer.answer.value),
+    };
+  });
+
+  return { ok: true, isCorrect: results.every((result) => result.is_correct), results };
+}
+
+// Currency symbols go in front of the number ($4.50); everything else follows it (12 cm²)
+export function isPrefixUnit(unit: string | null): boolean {
+  return !!unit && /^[A-Z]*[$£€¥]$/.test(unit);
+}
+
+export function formatWithUnit(value: string, unit: string | null): string {
+  if (!unit) return value;
+  return isPrefixUnit(unit) ? `${unit}${value}` : `${value} ${unit}`;
+}
+
+/**
+ * Formats a set of part answers as one readable line, e.g. "Quotient: 12, Remainder: 3"
+ * WHY? Feedback prompts and exports need a single string
+ */
+export function describeAnswers(parts: AnswerPart[], values: Record<string, string>): string {
+  if (parts.length === 1) {
+    const [part] = parts;
+    return formatWithUnit(values[part.name], part.unit);
+  }
+  return parts
+    .map((part) => `${part.label}: ${formatWithUnit(values[part.name], part.unit)}`)
+    .join(', ');
+}
+
+/**
+ * Reads the answer key stored on a math_problem_sessions row
+ * NOTE: Sessions created before answer schemas have no answer_parts, so we
+ * rebuild a single part from the correct answer columns
+ */
+export function answerKeyFromSession(session: {
+  answer_parts?: AnswerPartWithKey[] | null;
+  correct_answer: number | string;
+  correct_answer_text?: string | null;
+}): AnswerPartWithKey[] {
+  if (Array.isArray(session.answer_parts) && session.answer_parts.length > 0) {
+    return session.answer_parts;
+  }
+
+  const rebuilt = buildAnswerKey({
+    final_answer: session.correct_answer_text || Number(session.correct_answer),
+  });
+  if (rebuilt.ok === false) {
+    throw new Error(`Stored answer is invalid: ${rebuilt.error}`);
+  }
+  return rebuilt.parts;
+}
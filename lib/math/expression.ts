@@ -0,0 +1,225 @@
+/**
+ * Safe Arithmetic Expression Evaluator
+ *
+ * Parses and evaluates simple arithmetic like "45 * 6 - 70" or "(156 + 218) / 2".
+ *
+ * WHY NOT eval()? The expression comes from the AI, so it's untrusted input.
+ * This parser only understands numbers, + - * / (also × ÷) and parentheses -
+ * anything else is rejected, so nothing can ever be executed.
+ *
+ * GRAMMAR (standard precedence, left-associative):
+ *   expression := term (('+' | '-') term)*
+ *   term       := factor (('*' | '/') factor)*
+ *   factor     := '-' factor | number | '(' expression ')'
+ */
+
+export type Operator = '+' | '-' | '*' | '/';
+
+// Parsed expression tree - kept so callers can inspect operands, not just the result
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'binary'; operator: Operator; left: ExpressionNode; right: ExpressionNode };
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// Upper bound on input size - AI expressions are short, anything longer is suspect
+const MAX_EXPRESSION_LENGTH = 200;
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'operator'; value: Operator }
+  | { kind: 'paren'; value: '(' | ')' };
+
+function tokenize(input: string): Token[] {
+  // Normalise the symbols students (and the AI) commonly use
+  const text = input
+    .replace(/×|x(?=\s*[\d(])/gi, '*')
+    .replace(/÷/g, '/')
+    .replace(/−/g, '-');
+
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[\d.]/.test(char)) {
+      // Allow thousands separators like 1,250 inside a number
+      const match = text.slice(i).match(/^(\d{1,3}(,\d{3})+|\d*\.?\d+)/);
+      if (!match) {
+        throw new ExpressionError(`Invalid number at position ${i}`);
+      }
+      tokens.push({ kind: 'number', value: parseFloat(match[0].replace(/,/g, '')) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '+' || char === '-' || char === '*' || char === '/') {
+      tokens.push({ kind: 'operator', value: char });
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}" at position ${i}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses an arithmetic expression into a tree
+ * @throws ExpressionError if the text isn't a valid arithmetic expression
+ */
+export function parseExpression(input: string): ExpressionNode {
+  if (input.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError('Expression is too long');
+  }
+
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const parseFactor = (): ExpressionNode => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression');
+    }
+    if (token.kind === 'number') {
+      return { type: 'number', value: token.value };
+    }
+    if (token.kind === 'operator' && token.value === '-') {
+      return { type: 'negate', operand: parseFactor() };
+    }
+    if (token.kind === 'paren' && token.value === '(') {
+      const inner = parseSum();
+      const closing = tokens[position++];
+      if (!closing || closing.kind !== 'paren' || closing.value !== ')') {
+        throw new ExpressionError('Missing closing parenthesis');
+      }
+      return inner;
+    }
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseFactor();
+    let token = peek();
+    while (token && token.kind === 'operator' && (token.value === '*' || token.value === '/')) {
+      position++;
+      node = { type: 'binary', operator: token.value, left: node, right: parseFactor() };
+      token = peek();
+    }
+    return node;
+  };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    let token = peek();
+    while (token && token.kind === 'operator' && (token.value === '+' || token.value === '-')) {
+      position++;
+      node = { type: 'binary', operator: token.value, left: node, right: parseProduct() };
+      token = peek();
+    }
+    return node;
+  };
+
+  const tree = parseSum();
+  if (position < tokens.length) {
+    throw new ExpressionError(`Unexpected "${tokens[position].value}" after end of expression`);
+  }
+  return tree;
+}
+
+/**
+ * Evaluates an expression string or an already-parsed tree
+ * @throws ExpressionError on invalid syntax or division by zero
+ */
+export function evaluateExpression(expression: string | ExpressionNode): number {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'negate':
+      return -evaluateExpression(node.operand);
+    case 'binary': {
+      const left = evaluateExpression(node.left);
+      const right = evaluateExpression(node.right);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) {
+            throw new ExpressionError('Division by zero');
+          }
+          return left / right;
+      }
+    }
+  }
+}
+
+// One operation a student would do by hand, e.g. 45 × 6 = 270
+export interface CalculationStep {
+  operator: Operator;
+  left: number;
+  right: number;
+  result: number;
+  expression: string; // e.g. "45 × 6"
+}
+
+const OPERATOR_SYMBOLS: Record<Operator, string> = { '+': '+', '-': '-', '*': '×', '/': '÷' };
+
+// Rounds away floating-point noise (0.1 + 0.2) without hiding real decimals
+export function formatStepNumber(value: number): string {
+  return String(Math.round(value * 10000) / 10000);
+}
+
+/**
+ * Breaks an expression into single operations, in the order they're worked out
+ * e.g. "45 * 6 - 70" → 45 × 6 = 270, then 270 - 70 = 200
+ * @throws ExpressionError on invalid syntax or division by zero
+ */
+export function listCalculationSteps(expression: string | ExpressionNode): CalculationStep[] {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+
+  switch (node.type) {
+    case 'number':
+      return [];
+    case 'negate':
+      return listCalculationSteps(node.operand);
+    case 'binary': {
+      const left = evaluateExpression(node.left);
+      const right = evaluateExpression(node.right);
+      return [
+        ...listCalculationSteps(node.left),
+        ...listCalculationSteps(node.right),
+        {
+          operator: node.operator,
+          left,
+          right,
+          result: evaluateExpression(node),
+          expression: `${formatStepNumber(left)} ${OPERATOR_SYMBOLS[node.operator]} ${formatStepNumber(right)}`,
+        },
+      ];
+    }
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Misconception Detection
+ *
+ * Checks a wrong answer against common Primary 5 error patterns, using the
+ * numbers and operations in the problem's solution_expression.
+ *
+ * WHY DETERMINISTIC? "Not quite right" tells a student nothing. If 45 + 6 gives
+ * exactly their answer, they almost certainly added instead of multiplied -
+ * that's worth saying in the feedback and counting for the teacher, and it
+ * doesn't need an AI call to work out.
+ *
+ * HOW IT WORKS:
+ * - The expression is parsed into a tree, and small changes are tried one at a
+ *   time (another operator, a skipped step, a number ×10...)
+ * - If a changed tree evaluates to the student's answer (allowing for rounding
+ *   long decimals), that change names the misconception
+ * - Checks run from most to least specific, and the first match wins
+ * - No match (or no usable expression) means no misconception is reported
+ */
+
+import { parseAnswer, rationalToNumber } from './answer';
+import type { AnswerPartWithKey, PartResult } from './answerSchema';
+import { evaluateExpression, ExpressionNode, formatStepNumber, Operator, parseExpression } from './expression';
+
+export type MisconceptionKind = 'wrong_operation' | 'missed_step' | 'off_by_one_step' | 'remainder' | 'place_value';
+
+export const MISCONCEPTION_KINDS: MisconceptionKind[] = ['wrong_operation', 'missed_step', 'off_by_one_step', 'remainder', 'place_value'];
+
+export const MISCONCEPTION_LABELS: Record<MisconceptionKind, string> = {
+  wrong_operation: 'Wrong operation',
+  missed_step: 'Missed a step',
+  off_by_one_step: 'Off by one step',
+  remainder: 'Remainder mistake',
+  place_value: 'Place-value slip',
+};
+
+export interface Misconception {
+  kind: MisconceptionKind;
+  detail: string; // e.g. "Added instead of multiplied: 45 + 6 = 51, not 45 × 6 = 270"
+}
+
+export interface MisconceptionInput {
+  solutionExpression: string | null | undefined;
+  parts: AnswerPartWithKey[]; // The answer key - the expression produces the first part
+  results: PartResult[]; // The graded answer, part by part
+}
+
+type BinaryNode = Extract<ExpressionNode, { type: 'binary' }>;
+
+const OPERATORS: Operator[] = ['+', '-', '*', '/'];
+const SYMBOLS: Record<Operator, string> = { '+': '+', '-': '-', '*': '×', '/': '÷' };
+const PAST_TENSE: Record<Operator, string> = { '+': 'Added', '-': 'Subtracted', '*': 'Multiplied', '/': 'Divided' };
+const INFINITIVE: Record<Operator, string> = { '+': 'adding', '-': 'subtracting', '*': 'multiplying', '/': 'dividing' };
+const REMAINDER_PART = /remainder|left/i;
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-6;
+}
+
+// Evaluates a changed tree - changes can divide by zero, which just means "no match"
+function tryEvaluate(node: ExpressionNode): number | null {
+  try {
+    return evaluateExpression(node);
+  } catch {
+    return null;
+  }
+}
+
+function binaryNodes(node: ExpressionNode): BinaryNode[] {
+  switch (node.type) {
+    case 'number':
+      return [];
+    case 'negate':
+      return binaryNodes(node.operand);
+    case 'binary':
+      return [...binaryNodes(node.left), ...binaryNodes(node.right), node];
+  }
+}
+
+function numberNodes(node: ExpressionNode): Array<Extract<ExpressionNode, { type: 'number' }>> {
+  switch (node.type) {
+    case 'number':
+      return [node];
+    case 'negate':
+      return numberNodes(node.operand);
+    case 'binary':
+      return [...numberNodes(node.left), ...numberNodes(node.right)];
+  }
+}
+
+// Copy of the tree with one node swapped out (matched by identity)
+function replaceNode(node: ExpressionNode, target: ExpressionNode, replacement: ExpressionNode): ExpressionNode {
+  if (node === target) return replacement;
+  switch (node.type) {
+    case 'number':
+      return node;
+    case 'negate':
+      return { ...node, operand: replaceNode(node.operand, target, replacement) };
+    case 'binary':
+      return { ...node, left: replaceNode(node.left, target, replacement), right: replaceNode(node.right, target, replacement) };
+  }
+}
+
+function num(value: number): ExpressionNode {
+  return { type: 'number', value };
+}
+
+// "45 × 6" with each side already worked out
+function describeNode(node: BinaryNode, operator: Operator = node.operator): string {
+  return `${formatStepNumber(evaluateExpression(node.left))} ${SYMBOLS[operator]} ${formatStepNumber(evaluateExpression(node.right))}`;
+}
+
+// Changes whose result matches the answer, tried in order
+type Candidate = { tree: ExpressionNode; misconception: Misconception };
+
+// WHY round? Students round long decimals - 7.14 should match 50 ÷ 7
+function firstMatch(candidates: Candidate[], answer: number, decimals: number, correct: number): Misconception | null {
+  const matches = (value: number) =>
+    sameValue(value, answer) || (decimals > 0 && sameValue(Number(value.toFixed(decimals)), answer));
+
+  for (const { tree, misconception } of candidates) {
+    const value = tryEvaluate(tree);
+    if (value !== null && !sameValue(value, correct) && matches(value)) {
+      return misconception;
+    }
+  }
+  return null;
+}
+
+function remainderCandidates(root: ExpressionNode): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const node of binaryNodes(root).filter((n) => n.operator === '/')) {
+    const dividend = evaluateExpression(node.left);
+    const divisor = evaluateExpression(node.right);
+    if (divisor === 0) continue;
+    const exact = dividend / divisor;
+    const division = describeNode(node);
+
+    if (!Number.isInteger(exact)) {
+      candidates.push(
+        {
+          tree: replaceNode(root, node, num(Math.floor(exact))),
+          misconception: { kind: 'remainder', detail: `Rounded ${division} down to ${Math.floor(exact)} - the remainder still needs to count` },
+        },
+        {
+          tree: replaceNode(root, node, num(Math.ceil(exact))),
+          misconception: { kind: 'remainder', detail: `Rounded ${division} up to ${Math.ceil(exact)} - the remainder doesn't make a full group` },
+        },
+        {
+          tree: replaceNode(root, node, num(dividend % divisor)),
+          misconception: { kind: 'remainder', detail: `Gave the remainder of ${division} (${dividend % divisor}) instead of the quotient` },
+        }
+      );
+    }
+
+    // Quotient-and-remainder problems are written (total - left over) / size
+    if (node.left.type === 'binary' && node.left.operator === '-') {
+      const total = evaluateExpression(node.left.left);
+      const leftOver = evaluateExpression(node.left.right);
+      if (leftOver > 0 && leftOver < divisor) {
+        const withRemainder = `${formatStepNumber(total)} ${SYMBOLS['/']} ${formatStepNumber(divisor)}`;
+        candidates.push(
+          {
+            tree: replaceNode(root, node, num(total / divisor)),
+            misconception: { kind: 'remainder', detail: `Gave the decimal ${withRemainder} = ${formatStepNumber(total / divisor)} instead of a whole number with a remainder` },
+          },
+          {
+            tree: replaceNode(root, node, num(Math.ceil(total / divisor))),
+            misconception: { kind: 'remainder', detail: `Counted the ${formatStepNumber(leftOver)} left over as another full group` },
+          },
+          {
+            tree: replaceNode(root, node, num(leftOver)),
+            misconception: { kind: 'remainder', detail: `Gave the remainder (${formatStepNumber(leftOver)}) instead of the number of full groups` },
+          }
+        );
+      }
+    }
+  }
+
+  return candidates;
+}
+
+function wrongOperationCandidates(root: ExpressionNode): Candidate[] {
+  return binaryNodes(root).flatMap((node) => OPERATORS
+    .filter((operator) => operator !== node.operator)
+    .map((operator) => {
+      const changed: BinaryNode = { ...node, operator };
+      const changedValue = tryEvaluate(changed);
+      return {
+        tree: replaceNode(root, node, changed),
+        misconception: {
+          kind: 'wrong_operation' as MisconceptionKind,
+          detail: `${PAST_TENSE[operator]} instead of ${INFINITIVE[node.operator]}: ${describeNode(node, operator)}` +
+            `${changedValue !== null ? ` = ${formatStepNumber(changedValue)}` : ''}, not ${describeNode(node)} = ${formatStepNumber(evaluateExpression(node))}`,
+        },
+      };
+    }));
+}
+
+function missedStepCandidates(root: ExpressionNode): Candidate[] {
+  const steps = binaryNodes(root);
+  const candidates: Candidate[] = [];
+
+  // Stopped part-way: the answer is an intermediate result
+  for (const node of steps.slice(0, -1)) {
+    candidates.push({
+      tree: node,
+      misconception: { kind: 'missed_step', detail: `Stopped after ${describeNode(node)} = ${formatStepNumber(evaluateExpression(node))} and missed the steps after it` },
+    });
+  }
+
+  // Skipped one step in the middle: that step's result is replaced by one of its numbers
+  for (const node of steps) {
+    for (const side of [node.left, node.right]) {
+      candidates.push({
+        tree: replaceNode(root, node, side),
+        misconception: { kind: 'missed_step', detail: `Left out the step ${describeNode(node)}` },
+      });
+    }
+  }
+
+  return candidates;
+}
+
+function placeValueCandidates(root: ExpressionNode, correct: number): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const power of [1, 2, 3]) {
+    const scale = 10 ** power;
+    candidates.push(
+      {
+        tree: num(correct * scale),
+        misconception: { kind: 'place_value', detail: `Answer is ${scale} times too big - check the place value of each digit` },
+      },
+      {
+        tree: num(correct / scale),
+        misconception: { kind: 'place_value', detail: `Answer is ${scale} times too small - check the place value of each digit` },
+      }
+    );
+  }
+
+  // A misaligned column: one number in the working read as 10 times bigger or smaller
+  for (const node of numberNodes(root)) {
+    for (const value of [node.value * 10, node.value / 10]) {
+      candidates.push({
+        tree: replaceNode(root, node, num(value)),
+        misconception: { kind: 'place_value', detail: `Used ${formatStepNumber(value)} instead of ${formatStepNumber(node.value)} - the digits were lined up in the wrong place` },
+      });
+    }
+  }
+
+  return candidates;
+}
+
+function offByOneCandidates(root: ExpressionNode, correct: number): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  // One group too many or too few, e.g. 8 × 9 instead of 7 × 9
+  for (const node of binaryNodes(root).filter((n) => n.operator === '*')) {
+    for (const side of ['left', 'right'] as const) {
+      const factor = evaluateExpression(node[side]);
+      for (const delta of [1, -1]) {
+        const changed: BinaryNode = { ...node, [side]: num(factor + delta) };
+        candidates.push({
+          tree: replaceNode(root, node, changed),
+          misconception: {
+            kind: 'off_by_one_step',
+            detail: `Worked out ${describeNode(changed)} instead of ${describeNode(node)} - one group ${delta > 0 ? 'too many' : 'too few'}`,
+          },
+        });
+      }
+    }
+  }
+
+  for (const delta of [1, -1]) {
+    candidates.push({
+      tree: num(correct + delta),
+      misconception: { kind: 'off_by_one_step', detail: `Off by one (${formatStepNumber(correct + delta)} instead of ${formatStepNumber(correct)}) - check the counting at the start or end` },
+    });
+  }
+
+  return candidates;
+}
+
+// Multi-part quotient/remainder answers typed into each other's boxes
+function detectSwappedParts(parts: AnswerPartWithKey[], results: PartResult[]): Misconception | null {
+  if (parts.length !== 2 || !parts.some((part) => REMAINDER_PART.test(`${part.name} ${part.label}`))) {
+    return null;
+  }
+  const [first, second] = results;
+  const swapped = parseAnswer(first.user_answer);
+  const expected = parseAnswer(second.correct_answer);
+  const swappedBack = parseAnswer(second.user_answer);
+  const expectedBack = parseAnswer(first.correct_answer);
+
+  if (swapped.ok === true && expected.ok === true && swappedBack.ok === true && expectedBack.ok === true
+    && sameValue(rationalToNumber(swapped.answer.value), rationalToNumber(expected.answer.value))
+    && sameValue(rationalToNumber(swappedBack.answer.value), rationalToNumber(expectedBack.answer.value))) {
+    return { kind: 'remainder', detail: `Swapped the ${parts[0].label.toLowerCase()} and the ${parts[1].label.toLowerCase()}` };
+  }
+  return null;
+}
+
+/**
+ * Names the most likely misconception behind a wrong answer
+ * @returns null for correct answers, or when no pattern matches
+ */
+export function detectMisconception({ solutionExpression, parts, results }: MisconceptionInput): Misconception | null {
+  if (results.length === 0 || results.every((result) => result.is_correct)) {
+    return null;
+  }
+
+  const swapped = detectSwappedParts(parts, results);
+  if (swapped) {
+    return swapped;
+  }
+
+  // The expression produces the first part, so only a wrong first part can be diagnosed
+  const [primary] = results;
+  const answer = parseAnswer(primary.user_answer);
+  if (primary.is_correct || answer.ok === false || !solutionExpression) {
+    return null;
+  }
+
+  let root: ExpressionNode;
+  let correct: number;
+  try {
+    root = parseExpression(solutionExpression);
+    correct = evaluateExpression(root);
+  } catch {
+    return null;
+  }
+
+  const studentValue = rationalToNumber(answer.answer.value);
+  const decimals = primary.user_answer.match(/\.(\d+)$/)?.[1].length ?? 0;
+  return firstMatch([
+    ...remainderCandidates(root),
+    ...wrongOperationCandidates(root),
+    ...missedStepCandidates(root),
+    ...placeValueCandidates(root, correct),
+    ...offByOneCandidates(root, correct),
+  ], studentValue, decimals, correct);
+}
@@ -0,0 +1,17 @@
+/**
+ * Database Errors
+ *
+ * Builds the Error thrown when a Supabase query fails, and counts it in
+ * db_errors_total so failing queries show up in /api/metrics.
+ */
+
+import { incrementCounter } from './metrics';
+
+/**
+ * e.g. throw databaseError('save problem', error) → "Failed to save problem: <message>"
+ * @param action What was being done - also the metric label, so keep it fixed text (no IDs)
+ */
+export function databaseError(action: string, error: { message?: string } | null): Error {
+  incrementCounter('db_errors_total', { action });
+  return new Error(`Failed to ${action}: ${error?.message}`);
+}
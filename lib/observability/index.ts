@@ -0,0 +1,20 @@
+/**
+ * Observability
+ *
+ * Structured logging, request IDs and metrics for the API routes.
+ *
+ * - logger: JSON log lines with the request ID (see ./logger)
+ * - instrumentRoute: request ID header, access log and request metrics for a route handler (see ./route)
+ * - Counters and timings, read through /api/metrics (see ./metrics)
+ * - databaseError: the Error for a failed query, counted in db_errors_total (see ./database)
+ *
+ * NOTE: Server-only. Browser-bundled modules import ./metrics directly.
+ */
+
+export { databaseError } from './database';
+export { createLogger, logger } from './logger';
+export type { LogFields, Logger, LogLevel } from './logger';
+export * from './metrics';
+export { getRequestContext, REQUEST_ID_HEADER } from './requestContext';
+export type { RequestContext } from './requestContext';
+export { instrumentRoute } from './route';
@@ -0,0 +1,90 @@
+/**
+ * Structured Logger
+ *
+ * Writes one JSON object per line:
+ *   {"time":"...","level":"info","msg":"Request completed","requestId":"...","route":"POST /api/math-problem","status":201,"durationMs":812}
+ *
+ * WHY JSON? Log platforms (Vercel, Datadog, CloudWatch, ...) index the fields,
+ * so "every error for request X" or "all slow AI calls" is a query instead of
+ * a grep through emoji and multi-line debug dumps.
+ *
+ * CONFIGURATION:
+ * - LOG_LEVEL=debug|info|warn|error|silent (default info)
+ * - debug includes the raw AI replies, which can be long
+ *
+ * HOW IT WORKS:
+ * - The request ID and route are added from the request context automatically
+ * - Error values are written as { name, message, stack }
+ * - A line that can't be serialised is still written, with the fields dropped -
+ *   logging never throws
+ */
+
+import { getRequestContext } from './requestContext';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A logger that adds these fields to every line (e.g. { provider: 'gemini' })
+  child(bindings: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 50 };
+
+function minimumLevel(): number {
+  const configured = process.env.LOG_LEVEL?.trim().toLowerCase();
+  // WHY not throw on an unknown level like AI_PROVIDER does? A typo here shouldn't take the API down
+  return LEVEL_ORDER[configured as LogLevel] ?? LEVEL_ORDER.info;
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function write(level: LogLevel, message: string, bindings: LogFields, fields: LogFields = {}): void {
+  if (LEVEL_ORDER[level] < minimumLevel()) {
+    return;
+  }
+
+  const context = getRequestContext();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(context ? { requestId: context.requestId, route: context.route } : {}),
+    ...bindings,
+    ...fields,
+  };
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry, (_key, value) => serialize(value));
+  } catch {
+    // e.g. a circular object in the fields
+    line = JSON.stringify({ time: entry.time, level, msg: message, requestId: context?.requestId, logError: 'Fields could not be serialised' });
+  }
+
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, bindings, fields),
+    info: (message, fields) => write('info', message, bindings, fields),
+    warn: (message, fields) => write('warn', message, bindings, fields),
+    error: (message, fields) => write('error', message, bindings, fields),
+    child: (extra) => createLogger({ ...bindings, ...extra }),
+  };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,176 @@
+/**
+ * Metrics
+ *
+ * In-process counters and timings, read through /api/metrics.
+ *
+ * WHY IN-PROCESS? No metrics service to set up - enough to see AI latency,
+ * how often replies need the template fallback, and how many requests fail
+ * validation or hit database errors. Each server instance counts its own
+ * requests from when it started.
+ *
+ * HOW IT WORKS:
+ * - A metric is a name plus labels, e.g. ai_requests_total{operation="feedback",outcome="error",provider="gemini"}
+ * - Timings keep count, total, min and max, plus the latest samples for percentiles
+ * - Labels must have a small, fixed set of values (route patterns, not URLs with IDs)
+ *
+ * NOTE: No server-only imports - lib/schemas (also bundled for the browser) counts validation failures here.
+ */
+
+export type MetricLabels = Record<string, string | number | boolean>;
+
+interface Counter {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+interface Timing {
+  name: string;
+  labels: MetricLabels;
+  count: number;
+  totalMs: number;
+  minMs: number;
+  maxMs: number;
+  samples: number[]; // Latest MAX_SAMPLES durations, oldest first
+}
+
+interface MetricsRegistry {
+  startedAt: Date;
+  counters: Map<string, Counter>;
+  timings: Map<string, Timing>;
+}
+
+export interface TimingSummary {
+  count: number;
+  avgMs: number;
+  minMs: number;
+  maxMs: number;
+  p50Ms: number;
+  p95Ms: number;
+}
+
+export interface MetricsSnapshot {
+  startedAt: string;
+  uptimeSeconds: number;
+  counters: Record<string, number>;
+  timings: Record<string, TimingSummary>;
+}
+
+// WHY a cap? Percentiles over recent requests are what matters, and memory stays flat
+const MAX_SAMPLES = 500;
+
+// WHY on globalThis? Next.js re-evaluates modules on hot reload in development,
+// which would otherwise zero the counters after every code change
+const globalForMetrics = globalThis as typeof globalThis & { __mathMetrics?: MetricsRegistry };
+
+function registry(): MetricsRegistry {
+  globalForMetrics.__mathMetrics ??= { startedAt: new Date(), counters: new Map(), timings: new Map() };
+  return globalForMetrics.__mathMetrics;
+}
+
+// e.g. http_requests_total{route="POST /api/math-problem",status="201"} - labels sorted so the key is stable
+function metricKey(name: string, labels: MetricLabels): string {
+  const parts = Object.keys(labels)
+    .sort()
+    .map((label) => `${label}=${JSON.stringify(String(labels[label]))}`);
+  return parts.length > 0 ? `${name}{${parts.join(',')}}` : name;
+}
+
+export function incrementCounter(name: string, labels: MetricLabels = {}, by = 1): void {
+  const key = metricKey(name, labels);
+  const counters = registry().counters;
+  const counter = counters.get(key);
+  if (counter) {
+    counter.value += by;
+  } else {
+    counters.set(key, { name, labels: { ...labels }, value: by });
+  }
+}
+
+export function recordTiming(name: string, durationMs: number, labels: MetricLabels = {}): void {
+  const key = metricKey(name, labels);
+  const timings = registry().timings;
+  let timing = timings.get(key);
+  if (!timing) {
+    timing = { name, labels: { ...labels }, count: 0, totalMs: 0, minMs: durationMs, maxMs: durationMs, samples: [] };
+    timings.set(key, timing);
+  }
+
+  timing.count += 1;
+  timing.totalMs += durationMs;
+  timing.minMs = Math.min(timing.minMs, durationMs);
+  timing.maxMs = Math.max(timing.maxMs, durationMs);
+  timing.samples.push(durationMs);
+  if (timing.samples.length > MAX_SAMPLES) {
+    timing.samples.shift();
+  }
+}
+
+/**
+ * Runs fn and records how long it took - also when it throws
+ */
+export async function timeAsync<T>(name: string, labels: MetricLabels, fn: () => Promise<T>): Promise<T> {
+  const started = performance.now();
+  try {
+    return await fn();
+  } finally {
+    recordTiming(name, performance.now() - started, labels);
+  }
+}
+
+/**
+ * Sum of every counter with this name whose labels include the given ones
+ * e.g. getCounterTotal('ai_parse_total', { method: 'template_fallback' })
+ */
+export function getCounterTotal(name: string, labels: MetricLabels = {}): number {
+  let total = 0;
+  for (const counter of Array.from(registry().counters.values())) {
+    const matches = Object.keys(labels).every((label) => String(counter.labels[label]) === String(labels[label]));
+    if (counter.name === name && matches) {
+      total += counter.value;
+    }
+  }
+  return total;
+}
+
+const round = (ms: number) => Math.round(ms * 10) / 10;
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export function getMetricsSnapshot(): MetricsSnapshot {
+  const { startedAt, counters, timings } = registry();
+
+  const counterValues: Record<string, number> = {};
+  for (const key of Array.from(counters.keys()).sort()) {
+    counterValues[key] = counters.get(key).value;
+  }
+
+  const timingSummaries: Record<string, TimingSummary> = {};
+  for (const key of Array.from(timings.keys()).sort()) {
+    const timing = timings.get(key);
+    const sorted = [...timing.samples].sort((a, b) => a - b);
+    timingSummaries[key] = {
+      count: timing.count,
+      avgMs: round(timing.totalMs / timing.count),
+      minMs: round(timing.minMs),
+      maxMs: round(timing.maxMs),
+      p50Ms: round(percentile(sorted, 0.5)),
+      p95Ms: round(percentile(sorted, 0.95)),
+    };
+  }
+
+  return {
+    startedAt: startedAt.toISOString(),
+    uptimeSeconds: Math.round((Date.now() - startedAt.getTime()) / 1000),
+    counters: counterValues,
+    timings: timingSummaries,
+  };
+}
+
+// Starts counting from zero again (used by tests)
+export function resetMetrics(): void {
+  globalForMetrics.__mathMetrics = undefined;
+}
@@ -0,0 +1,43 @@
+/**
+ * Request Context
+ *
+ * Which API request the current code is running for.
+ *
+ * WHY AsyncLocalStorage? Log lines deep in lib/ (provider calls, answer
+ * verification, repository errors) carry the request ID without every
+ * function having to take and pass it along.
+ *
+ * NOTE: Server-only (node:async_hooks) - modules bundled for the browser,
+ * such as lib/schemas, must not import this.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+  route: string; // e.g. "POST /api/math-problem" - the route pattern, never the URL with its IDs
+}
+
+// Sent back on every API response, and accepted from a proxy that already assigned one
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// WHY so strict? The incoming ID ends up in every log line and a response header
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * The caller's x-request-id if it's safe to reuse, otherwise a new one
+ */
+export function resolveRequestId(request: Request): string {
+  const incoming = request.headers.get(REQUEST_ID_HEADER)?.trim();
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+}
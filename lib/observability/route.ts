@@ -0,0 +1,62 @@
+/**
+ * Route Instrumentation
+ *
+ * Wraps an API route handler so every request gets:
+ * - A request ID, returned in the x-request-id response header and added to every log line
+ * - A "Request completed" log line with the status and duration
+ * - http_requests_total and http_request_duration_ms metrics, labelled by route
+ *
+ * Usage:
+ *   export const POST = instrumentRoute('POST /api/math-problem', async (request: Request) => { ... });
+ *
+ * NOTE: For streamed responses (CSV export) the duration covers the time to
+ * the first byte, not the whole download.
+ */
+
+import { logger } from './logger';
+import { incrementCounter, recordTiming } from './metrics';
+import { REQUEST_ID_HEADER, resolveRequestId, runWithRequestContext } from './requestContext';
+
+export function instrumentRoute<Args extends unknown[]>(
+  route: string,
+  handler: (request: Request, ...args: Args) => Promise<Response>
+): (request: Request, ...args: Args) => Promise<Response> {
+  return (request, ...args) => {
+    const requestId = resolveRequestId(request);
+
+    return runWithRequestContext({ requestId, route }, async () => {
+      const started = performance.now();
+
+      let response: Response;
+      try {
+        response = await handler(request, ...args);
+      } catch (error) {
+        // Routes catch their own errors - this is the last line of defence
+        logger.error('Unhandled error in route handler', { error });
+        response = Response.json(
+          { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+          { status: 500 }
+        );
+      }
+
+      const durationMs = performance.now() - started;
+      incrementCounter('http_requests_total', { route, status: response.status });
+      recordTiming('http_request_duration_ms', durationMs, { route });
+      logger.info('Request completed', { status: response.status, durationMs: Math.round(durationMs) });
+
+      return withHeader(response, REQUEST_ID_HEADER, requestId);
+    });
+  };
+}
+
+function withHeader(response: Response, name: string, value: string): Response {
+  try {
+    response.headers.set(name, value);
+    return response;
+  } catch {
+    // Some responses (e.g. Response.redirect) have read-only headers - copy them
+    const copy = new Response(response.body, response);
+    copy.headers.set(name, value);
+    return copy;
+  }
+}
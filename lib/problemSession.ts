@@ -0,0 +1,131 @@
+/**
+ * Problem Sessions
+ *
+ * Generates a verified problem and saves it as a math_problem_sessions row.
+ *
+ * WHY SHARED? New problems (/api/math-problem) and spaced-repetition reviews
+ * (/api/review/next) go through exactly the same generation, verification
+ * and storage steps - only the request differs.
+ */
+
+import { getProblemProvider } from './ai';
+import type { Difficulty, ProblemVariantSource, Topic } from './ai/types';
+import { generateVerifiedProblem } from './ai/verification';
+import { parseAnswer, rationalToNumber } from './math/answer';
+import { AnswerPart, buildAnswerKey, toPublicParts } from './math/answerSchema';
+import { logger } from './observability';
+import { buildWorkedSolution } from './workedSolution';
+import type { AdaptiveDecision } from './adaptive';
+import type { Repositories } from './repositories';
+
+// NOTE: final_answer and the hint text are deliberately NOT part of this
+// WHY? Anything sent to the browser is visible in devtools. The answer is only
+// checked by /api/math-problem/submit, and hints are fetched one level at a
+// time from /api/math-problem/hint when the student asks for them
+export interface PublicProblemSession {
+  problem: {
+    problem_text: string;
+    difficulty: Difficulty; // The difficulty actually used (chosen by the server in adaptive mode)
+    topic: Topic;
+    adaptive: { level: number; reason: string } | null; // Only set in adaptive mode
+    has_hint: boolean; // Lets the frontend decide whether to show the hint button (always true - see lib/hints)
+    answer_parts: AnswerPart[]; // One input per part - names, labels and units only, no answers
+    is_review: boolean; // True for spaced-repetition review problems
+  };
+  sessionId: string;
+}
+
+export interface CreateProblemSessionOptions {
+  difficulty: Difficulty;
+  topic: Topic;
+  adaptive?: AdaptiveDecision | null;
+  // Review problems: the problem to make a variant of, and the review item it belongs to
+  variantOf?: ProblemVariantSource;
+  reviewItemId?: string;
+}
+
+/**
+ * Generates, verifies and stores a problem for the student
+ * @throws if the provider output is unusable or the database insert fails
+ */
+export async function createProblemSession(
+  repos: Repositories,
+  userId: string,
+  { difficulty, topic, adaptive = null, variantOf, reviewItemId }: CreateProblemSessionOptions
+): Promise<PublicProblemSession> {
+  // Ask the configured provider (Gemini or local) for a problem
+  // WHY a provider? Prompting and parsing live behind one interface, so the
+  // route works the same with or without network access
+  // NOTE: The stated answer is checked against the problem's own solution_expression,
+  // and problems whose answer doesn't add up are regenerated before reaching students
+  const provider = getProblemProvider();
+  const { problem: parsedAIResponse, verification, attempts } = await generateVerifiedProblem(
+    provider,
+    { difficulty, topic, tuning: adaptive?.tuning, variantOf }
+  );
+
+  // Validate that we have the required fields
+  // WHY? Prevents runtime errors if AI response is malformed
+  // NOTE: final_answer may be a number or a fraction string like "3/4",
+  // and multi-part problems list each part in answer_parts
+  const answerKey = buildAnswerKey(parsedAIResponse);
+  if (!parsedAIResponse.problem_text || answerKey.ok === false) {
+    logger.error('Generated problem is missing required fields', { provider: provider.name, problem: parsedAIResponse });
+    throw new Error('Invalid AI response format');
+  }
+  const primaryAnswer = parseAnswer(answerKey.parts[0].answer);
+
+  // Validate hint field (optional but log if missing)
+  // WHY? Hints are expected but not critical - we can proceed without them
+  if (!parsedAIResponse.hint) {
+    logger.warn('Generated problem has no hint - the strategy hint will be worked out from the solution', { provider: provider.name });
+  }
+
+  // If we get here, the provider worked! Log success
+  logger.info('Problem generated', {
+    provider: provider.name,
+    topic,
+    difficulty,
+    hasHint: Boolean(parsedAIResponse.hint),
+    verification: verification.status,
+    attempts,
+    templateId: parsedAIResponse.template_id || null,
+  });
+
+  // Save the problem to the database (including hint, difficulty, and topic)
+  // WHY? Persists data for tracking and allows multiple attempts per problem
+  // NOTE: Hint is optional - if AI doesn't provide it, we save NULL
+  const session = await repos.sessions.create({
+    user_id: userId, // Owner of this session
+    problem_text: parsedAIResponse.problem_text,
+    correct_answer: primaryAnswer.ok === true ? rationalToNumber(primaryAnswer.answer.value) : 0, // Numeric value for sorting and analytics
+    correct_answer_text: answerKey.parts[0].answer, // Exact form, e.g. "3/4"
+    answer_parts: answerKey.parts, // Full answer key (names, labels, units and answers) - used for grading
+    hint: parsedAIResponse.hint || null, // Use null if hint is missing
+    difficulty: difficulty, // Save user's difficulty preference
+    topic: topic, // Save user's topic preference
+    solution_expression: parsedAIResponse.solution_expression || null,
+    worked_solution: buildWorkedSolution(parsedAIResponse, answerKey.parts), // Step-by-step walkthrough shown after answering
+    verification_status: verification.status, // 'verified' or 'unverified' - mismatches are never saved
+    generation_attempts: attempts,
+    difficulty_mode: adaptive ? 'adaptive' : 'manual',
+    adaptive_level: adaptive?.level ?? null, // 1-9, see lib/adaptive
+    adaptive_reason: adaptive?.reason ?? null, // e.g. "4 of 5 correct ... - moving up to level 5 (medium)"
+    template_id: parsedAIResponse.template_id || null, // Lets review build an isomorphic variant later
+    review_item_id: reviewItemId ?? null, // Set when this problem is a spaced-repetition review
+  });
+
+  // Only a hint-availability flag is returned - the hint itself stays on the server
+  return {
+    problem: {
+      problem_text: parsedAIResponse.problem_text,
+      difficulty,
+      topic,
+      adaptive: adaptive ? { level: adaptive.level, reason: adaptive.reason } : null,
+      has_hint: true, // A nudge can always be worked out, even without a stored hint
+      answer_parts: toPublicParts(answerKey.parts),
+      is_review: Boolean(reviewItemId),
+    },
+    sessionId: session.id,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Student Progress
+ *
+ * Works out counters, streaks and achievements from what's recorded in the
+ * database, and stores newly unlocked achievements.
+ *
+ * WHY SERVER-SIDE? Progress used to live in localStorage, so it was lost when
+ * a student switched device and anyone could edit it in devtools. Now the
+ * only inputs are recorded submissions and hint reveals.
+ *
+ * NOTE: Students who played before this existed can import their old
+ * localStorage totals once - see importLegacyProgress.
+ */
+
+import { ACHIEVEMENTS, AchievementKey, getAchievement, isAchievementKey, ProgressStats } from './achievements';
+import type { ProgressBaseline, Repositories, SubmissionOutcome } from './repositories';
+
+export interface UnlockedAchievement {
+  key: AchievementKey;
+  name: string;
+  icon: string;
+  description: string;
+  unlockedAt: string;
+}
+
+export interface ProgressSummary {
+  stats: ProgressStats;
+  achievements: UnlockedAchievement[];
+  // True once the student's old localStorage progress has been imported (or skipped)
+  legacyImported: boolean;
+}
+
+export interface LegacyProgress {
+  problemsCompleted?: number;
+  hintsUsed?: number;
+  achievements?: string[];
+}
+
+// Upper bound on imported counters - stops a forged localStorage from inflating totals
+const MAX_IMPORTED_COUNT = 500;
+
+/**
+ * Calculates progress statistics from submissions (oldest first)
+ */
+export function computeStats(
+  submissions: SubmissionOutcome[],
+  hintReveals: number,
+  baseline: ProgressBaseline | null
+): ProgressStats {
+  let correctStreak = 0;
+  let bestStreak = 0;
+  let correctAnswers = 0;
+  let totalStars = 0;
+  let threeStarCount = 0;
+
+  for (const submission of submissions) {
+    if (submission.is_correct) {
+      correctAnswers++;
+      correctStreak++;
+      bestStreak = Math.max(bestStreak, correctStreak);
+    } else {
+      correctStreak = 0;
+    }
+    totalStars += submission.stars_earned || 0;
+    if (submission.stars_earned === 3) threeStarCount++;
+  }
+
+  return {
+    problemsCompleted: submissions.length + (baseline?.imported_problems_completed || 0),
+    correctAnswers,
+    correctStreak,
+    bestStreak,
+    hintsUsed: hintReveals + (baseline?.imported_hints_used || 0),
+    totalStars,
+    threeStarCount,
+  };
+}
+
+async function loadStats(repos: Repositories, userId: string): Promise<{ stats: ProgressStats; baseline: ProgressBaseline | null }> {
+  const [submissions, hintReveals, baseline] = await Promise.all([
+    repos.submissions.listOutcomes(userId),
+    repos.progress.countHintReveals(userId),
+    repos.progress.getBaseline(userId),
+  ]);
+
+  return {
+    stats: computeStats(submissions, hintReveals, baseline),
+    baseline,
+  };
+}
+
+async function loadUnlocked(repos: Repositories, userId: string): Promise<UnlockedAchievement[]> {
+  const rows = await repos.progress.listAchievements(userId);
+  return rows
+    .filter((row) => isAchievementKey(row.achievement_key))
+    .map((row) => toUnlocked(row.achievement_key as AchievementKey, row.unlocked_at));
+}
+
+function toUnlocked(key: AchievementKey, unlockedAt: string): UnlockedAchievement {
+  const { name, icon, description } = getAchievement(key);
+  return { key, name, icon, description, unlockedAt };
+}
+
+/**
+ * Records any achievements the student has newly earned
+ *
+ * HOW IT WORKS:
+ * 1. Recalculate stats from recorded submissions and hint reveals
+ * 2. Compare against achievements already stored
+ * 3. Insert the new ones and return them so the UI can celebrate
+ */
+export async function syncAchievements(repos: Repositories, userId: string): Promise<UnlockedAchievement[]> {
+  const [{ stats }, unlocked] = await Promise.all([loadStats(repos, userId), loadUnlocked(repos, userId)]);
+  const alreadyUnlocked = new Set(unlocked.map((achievement) => achievement.key));
+
+  const newKeys = ACHIEVEMENTS
+    .filter((achievement) => !alreadyUnlocked.has(achievement.key) && achievement.isUnlocked(stats))
+    .map((achievement) => achievement.key);
+
+  if (newKeys.length === 0) {
+    return [];
+  }
+
+  const unlockedAt = new Date().toISOString();
+  await repos.progress.addAchievements(
+    newKeys.map((key) => ({ user_id: userId, achievement_key: key, unlocked_at: unlockedAt }))
+  );
+
+  return newKeys.map((key) => toUnlocked(key, unlockedAt));
+}
+
+/**
+ * Full progress summary for the /api/progress route
+ */
+export async function getProgressSummary(repos: Repositories, userId: string): Promise<ProgressSummary> {
+  const [{ stats, baseline }, achievements] = await Promise.all([
+    loadStats(repos, userId),
+    loadUnlocked(repos, userId),
+  ]);
+
+  return {
+    stats,
+    achievements,
+    legacyImported: Boolean(baseline?.imported_at),
+  };
+}
+
+/**
+ * One-time import of counters and badges from the old localStorage-based progress
+ *
+ * @returns false if this student has already imported (nothing is changed)
+ */
+export async function importLegacyProgress(
+  repos: Repositories,
+  userId: string,
+  legacy: LegacyProgress
+): Promise<boolean> {
+  const clamp = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.floor(value), 0), MAX_IMPORTED_COUNT) : 0;
+
+  // WHY first? Only one baseline is allowed per student, so a second import stops here
+  const created = await repos.progress.createBaseline({
+    user_id: userId,
+    imported_problems_completed: clamp(legacy.problemsCompleted),
+    imported_hints_used: clamp(legacy.hintsUsed),
+    imported_at: new Date().toISOString(),
+  });
+  if (!created) {
+    return false;
+  }
+
+  const legacyKeys = (legacy.achievements || []).filter(isAchievementKey);
+  await repos.progress.addAchievements(legacyKeys.map((key) => ({ user_id: userId, achievement_key: key })));
+
+  return true;
+}
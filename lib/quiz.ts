@@ -0,0 +1,449 @@
+/**
+ * Quizzes
+ *
+ * A quiz is a fixed set of problems the student works through in any order
+ * and submits together, getting one scored summary at the end.
+ *
+ * HOW IT WORKS:
+ * 1. createQuiz generates every problem up front (same generation, verification
+ *    and storage as single problems) and saves them as quiz_items in order
+ * 2. While the quiz is in progress, getQuiz returns the questions only - no
+ *    answers, feedback or correctness
+ * 3. submitQuiz records each answer as an ordinary submission (so stars,
+ *    achievements, review scheduling and teacher analytics all still work),
+ *    links it to its quiz item and saves the score
+ * 4. Once submitted, getQuiz returns the whole attempt for review
+ *
+ * WHY GENERATE UP FRONT? Moving between questions must be instant, and the
+ * set of questions has to be fixed for the score to mean anything.
+ *
+ * NOTE: Only the server writes quizzes and their scores (service role) - a
+ * student's own sign-in can read them but not change them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Difficulty, Topic } from './ai/types';
+import type { Database, Tables } from './database.types';
+import { AnswerPart, answerKeyFromSession, describeAnswers, GradeResult, toPublicParts } from './math/answerSchema';
+import { databaseError, logger } from './observability';
+import { createProblemSession } from './problemSession';
+import { createSupabaseRepositories, SubmissionRecord } from './repositories';
+import { GradableSession, GradedAnswer, gradeSessionAnswers, RecordedSubmission, recordSubmission } from './submissions';
+
+export type DifficultyMix = Difficulty | 'mixed';
+export type QuizStatus = 'in_progress' | 'submitted';
+
+const MIXED_DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+const UNRECORDED_FEEDBACK = "Your answer was marked, but we couldn't save it or write feedback this time.";
+
+export interface CreateQuizOptions {
+  questionCount: number;
+  topic: Topic;
+  difficultyMix: DifficultyMix;
+}
+
+// Only set once the quiz has been submitted
+export interface QuizQuestionResult {
+  isCorrect: boolean;
+  userAnswer: string;
+  correctAnswer: string;
+  feedback: string;
+  starsEarned: number;
+  partResults: Array<{ name: string; isCorrect: boolean }>;
+}
+
+export interface QuizQuestion {
+  position: number; // 1-based
+  sessionId: string;
+  problem_text: string;
+  difficulty: Difficulty;
+  answer_parts: AnswerPart[]; // Names, labels and units only, no answers
+  result: QuizQuestionResult | null;
+}
+
+export interface QuizSummary {
+  id: string;
+  topic: Topic;
+  difficultyMix: DifficultyMix;
+  status: QuizStatus;
+  questionCount: number;
+  score: number | null; // Correct questions, null until submitted
+  timeTakenSeconds: number | null;
+  createdAt: string;
+  submittedAt: string | null;
+}
+
+export interface QuizDetail extends QuizSummary {
+  questions: QuizQuestion[];
+}
+
+// Answers keyed by session ID, then by part name
+export type QuizAnswers = Record<string, Record<string, unknown>>;
+
+export interface SubmitQuizOptions {
+  answers: QuizAnswers;
+  questionTimes?: Record<string, number>; // Seconds spent on each question, keyed by session ID
+  timeTakenSeconds?: number; // Whole quiz
+}
+
+export type SubmitQuizResult =
+  | { ok: true; quiz: QuizDetail }
+  | { ok: false; reason: 'not_found' | 'already_submitted' }
+  | { ok: false; reason: 'invalid_answers'; errors: Record<string, Record<string, string>> };
+
+/**
+ * Difficulty of each question, in order
+ * NOTE: 'mixed' ramps up - the first third easy, then medium, then hard
+ */
+export function planDifficulties(questionCount: number, difficultyMix: DifficultyMix): Difficulty[] {
+  return Array.from({ length: questionCount }, (_, index) =>
+    difficultyMix === 'mixed'
+      ? MIXED_DIFFICULTIES[Math.floor((index * MIXED_DIFFICULTIES.length) / questionCount)]
+      : difficultyMix
+  );
+}
+
+type QuizRow = Tables<'quizzes'>;
+
+function toSummary(row: QuizRow): QuizSummary {
+  return {
+    id: row.id,
+    topic: row.topic as Topic,
+    difficultyMix: row.difficulty_mix as DifficultyMix,
+    status: row.status as QuizStatus,
+    questionCount: row.question_count,
+    score: row.score,
+    timeTakenSeconds: row.time_taken_seconds,
+    createdAt: row.created_at,
+    submittedAt: row.submitted_at,
+  };
+}
+
+/**
+ * Builds a question for the browser - the correct answer is only added alongside a result
+ */
+function toQuestion(
+  position: number,
+  session: GradableSession,
+  result: Omit<QuizQuestionResult, 'correctAnswer'> | null
+): QuizQuestion {
+  const answerKey = answerKeyFromSession(session);
+  const publicParts = toPublicParts(answerKey);
+  return {
+    position,
+    sessionId: session.id,
+    problem_text: session.problem_text,
+    difficulty: session.difficulty as Difficulty,
+    answer_parts: publicParts,
+    result: result && {
+      ...result,
+      correctAnswer: describeAnswers(publicParts, Object.fromEntries(answerKey.map((part) => [part.name, part.answer]))),
+    },
+  };
+}
+
+/**
+ * The result for an answer that couldn't be recorded - graded, but with no stars or AI feedback
+ */
+function unrecordedResult(session: GradableSession, grade: GradedAnswer): Omit<QuizQuestionResult, 'correctAnswer'> {
+  const publicParts = toPublicParts(answerKeyFromSession(session));
+  return {
+    isCorrect: grade.isCorrect,
+    userAnswer: describeAnswers(publicParts, Object.fromEntries(grade.results.map((r) => [r.name, r.user_answer]))),
+    feedback: UNRECORDED_FEEDBACK,
+    starsEarned: 0,
+    partResults: grade.results.map((r) => ({ name: r.name, isCorrect: r.is_correct })),
+  };
+}
+
+/**
+ * Generates the quiz's problems and saves the quiz
+ * @throws if a problem can't be generated or the database insert fails
+ */
+export async function createQuiz(
+  db: SupabaseClient<Database>,
+  userId: string,
+  { questionCount, topic, difficultyMix }: CreateQuizOptions
+): Promise<QuizDetail> {
+  const repos = createSupabaseRepositories(db);
+
+  // WHY one at a time? Keeps us well inside the AI provider's rate limits
+  const problems = [];
+  for (const difficulty of planDifficulties(questionCount, difficultyMix)) {
+    problems.push(await createProblemSession(repos, userId, { difficulty, topic }));
+  }
+
+  const { data: quiz, error: quizError } = await db
+    .from('quizzes')
+    .insert({
+      user_id: userId,
+      topic,
+      difficulty_mix: difficultyMix,
+      question_count: questionCount,
+    })
+    .select()
+    .single();
+
+  if (quizError || !quiz) {
+    throw databaseError('save quiz', quizError);
+  }
+
+  const { error: itemsError } = await db
+    .from('quiz_items')
+    .insert(problems.map((problem, index) => ({
+      quiz_id: quiz.id,
+      user_id: userId,
+      position: index + 1,
+      session_id: problem.sessionId,
+    })));
+
+  if (itemsError) {
+    throw databaseError('save quiz questions', itemsError);
+  }
+
+  return {
+    ...toSummary(quiz),
+    questions: problems.map((problem, index) => ({
+      position: index + 1,
+      sessionId: problem.sessionId,
+      problem_text: problem.problem.problem_text,
+      difficulty: problem.problem.difficulty,
+      answer_parts: problem.problem.answer_parts,
+      result: null,
+    })),
+  };
+}
+
+/**
+ * The student's quizzes, newest first
+ */
+export async function listQuizzes(db: SupabaseClient<Database>, userId: string, limit = 20): Promise<QuizSummary[]> {
+  const { data, error } = await db
+    .from('quizzes')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw databaseError('load quizzes', error);
+  }
+  return (data || []).map(toSummary);
+}
+
+/**
+ * Whether the session is a question in one of the student's unsubmitted quizzes
+ * WHY? Quiz questions are ordinary sessions - answering one through
+ * /api/math-problem/submit (or opening its hints) would reveal the answer
+ * and worked solution before the quiz is scored
+ */
+export async function isInOpenQuiz(db: SupabaseClient<Database>, userId: string, sessionId: string): Promise<boolean> {
+  const { data, error } = await db
+    .from('quiz_items')
+    .select('quiz_id, quizzes!inner(status)')
+    .eq('session_id', sessionId)
+    .eq('user_id', userId)
+    .eq('quizzes.status', 'in_progress')
+    .limit(1);
+
+  if (error) {
+    throw databaseError('check quiz status', error);
+  }
+  return (data || []).length > 0;
+}
+
+type QuizSubmission = Pick<SubmissionRecord, 'is_correct' | 'user_answer_text' | 'feedback_text' | 'stars_earned' | 'part_results'>;
+
+// The quiz with its items, as selected in loadQuiz
+type QuizWithItemsRow = QuizRow & {
+  quiz_items: Array<{
+    position: number;
+    math_problem_sessions: GradableSession;
+    math_problem_submissions: QuizSubmission | null;
+  }>;
+};
+
+interface LoadedQuiz {
+  row: QuizRow;
+  items: Array<{ position: number; session: GradableSession; submission: QuizSubmission | null }>;
+}
+
+async function loadQuiz(db: SupabaseClient<Database>, userId: string, quizId: string): Promise<LoadedQuiz | null> {
+  const { data, error } = await db
+    .from('quizzes')
+    .select(`
+      *,
+      quiz_items(
+        position,
+        math_problem_sessions(id, problem_text, difficulty, topic, correct_answer, correct_answer_text, answer_parts, solution_expression, review_item_id),
+        math_problem_submissions(is_correct, user_answer_text, feedback_text, stars_earned, part_results)
+      )
+    `)
+    .eq('id', quizId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw databaseError('load quiz', error);
+  }
+  if (!data) {
+    return null;
+  }
+
+  // answer_parts and part_results are typed Json - these are the shapes actually stored
+  const row = data as unknown as QuizWithItemsRow;
+  const items = (row.quiz_items || [])
+    .map((item) => ({
+      position: item.position,
+      session: item.math_problem_sessions,
+      submission: item.math_problem_submissions,
+    }))
+    .sort((a, b) => a.position - b.position);
+
+  return { row, items };
+}
+
+/**
+ * A quiz with its questions
+ * NOTE: Answers, feedback and correctness are only included once it's submitted
+ * @returns null if the quiz doesn't exist or belongs to someone else
+ */
+export async function getQuiz(db: SupabaseClient<Database>, userId: string, quizId: string): Promise<QuizDetail | null> {
+  const quiz = await loadQuiz(db, userId, quizId);
+  if (!quiz) {
+    return null;
+  }
+
+  const isSubmitted = quiz.row.status === 'submitted';
+  return {
+    ...toSummary(quiz.row),
+    questions: quiz.items.map(({ position, session, submission }) => toQuestion(
+      position,
+      session,
+      isSubmitted && submission
+        ? {
+          isCorrect: submission.is_correct,
+          userAnswer: submission.user_answer_text,
+          feedback: submission.feedback_text,
+          starsEarned: submission.stars_earned || 0,
+          partResults: (submission.part_results || []).map((r) => ({ name: r.name, isCorrect: r.is_correct })),
+        }
+        : null
+    )),
+  };
+}
+
+/**
+ * Grades and records every answer in a quiz
+ *
+ * HOW IT WORKS:
+ * 1. Checks every answer parses first - nothing is saved if any can't be read
+ * 2. Marks the quiz submitted before recording anything
+ *    WHY? The status check doubles as a lock, so a double-click can't score a quiz twice
+ * 3. Records each answer as an ordinary submission and links it to its quiz item
+ *    (an answer that can't be recorded is still graded and counted)
+ * 4. Saves the score
+ */
+export async function submitQuiz(
+  db: SupabaseClient<Database>,
+  userId: string,
+  quizId: string,
+  { answers, questionTimes = {}, timeTakenSeconds }: SubmitQuizOptions
+): Promise<SubmitQuizResult> {
+  const quiz = await loadQuiz(db, userId, quizId);
+  if (!quiz) {
+    return { ok: false, reason: 'not_found' };
+  }
+  if (quiz.row.status === 'submitted') {
+    return { ok: false, reason: 'already_submitted' };
+  }
+
+  const grades: GradedAnswer[] = [];
+  const errors: Record<string, Record<string, string>> = {};
+  for (const { session } of quiz.items) {
+    const grade: GradeResult = gradeSessionAnswers(session, answers[session.id] || {});
+    if (grade.ok === false) {
+      errors[session.id] = grade.errors;
+    } else {
+      grades.push(grade);
+    }
+  }
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, reason: 'invalid_answers', errors };
+  }
+
+  const { data: claimed, error: claimError } = await db
+    .from('quizzes')
+    .update({
+      status: 'submitted',
+      submitted_at: new Date().toISOString(),
+      time_taken_seconds: timeTakenSeconds ? Math.round(timeTakenSeconds) : null,
+    })
+    .eq('id', quizId)
+    .eq('user_id', userId)
+    .eq('status', 'in_progress')
+    .select('id');
+
+  if (claimError) {
+    throw databaseError('submit quiz', claimError);
+  }
+  if (!claimed || claimed.length === 0) {
+    return { ok: false, reason: 'already_submitted' };
+  }
+
+  // WHY one at a time? Each answer gets its own AI feedback call
+  const repos = createSupabaseRepositories(db);
+  const questions: QuizQuestion[] = [];
+  for (let index = 0; index < quiz.items.length; index++) {
+    const { position, session } = quiz.items[index];
+
+    // WHY catch? The quiz is already claimed - an error escaping here would leave it
+    // submitted with no score, and every retry would get 'already_submitted'
+    let recorded: RecordedSubmission;
+    try {
+      recorded = await recordSubmission(repos, userId, session, grades[index], questionTimes[session.id]);
+    } catch (recordError) {
+      logger.error('Error recording quiz answer', { error: recordError, sessionId: session.id });
+      questions.push(toQuestion(position, session, unrecordedResult(session, grades[index])));
+      continue;
+    }
+
+    questions.push(toQuestion(position, session, {
+      isCorrect: recorded.isCorrect,
+      userAnswer: recorded.userAnswerText,
+      feedback: recorded.feedback,
+      starsEarned: recorded.starsEarned,
+      partResults: recorded.partResults.map((r) => ({ name: r.name, isCorrect: r.is_correct })),
+    }));
+
+    if (recorded.submissionId) {
+      const { error: linkError } = await db
+        .from('quiz_items')
+        .update({ submission_id: recorded.submissionId })
+        .eq('quiz_id', quizId)
+        .eq('session_id', session.id);
+
+      if (linkError) {
+        logger.error('Error linking quiz submission', { error: linkError });
+      }
+    }
+  }
+
+  const score = questions.filter((question) => question.result?.isCorrect).length;
+  const { data: scored, error: scoreError } = await db
+    .from('quizzes')
+    .update({ score })
+    .eq('id', quizId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (scoreError || !scored) {
+    throw databaseError('save quiz score', scoreError);
+  }
+
+  // WHY build the summary here rather than reload? A submission that failed
+  // to save still has feedback to show
+  return { ok: true, quiz: { ...toSummary(scored), questions } };
+}
@@ -0,0 +1,79 @@
+/**
+ * Data Store Selection
+ *
+ * Picks where sessions, submissions and progress are stored.
+ *
+ * CONFIGURATION:
+ * - DATA_STORE=supabase → Supabase (requires NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY)
+ * - DATA_STORE=memory   → In-memory store, lost on restart (no database needed)
+ * - Unset               → Supabase when it's configured, otherwise memory
+ *
+ * NOTE: Running fully offline also needs NEXT_PUBLIC_AUTH_MODE=mock (Supabase
+ * Auth can't verify sign-ins without Supabase) and a local AI provider.
+ */
+
+import { logger } from '../observability';
+import { getServiceSupabase, isSupabaseConfigured } from '../supabaseClient';
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from './memoryRepositories';
+import { createSupabaseRepositories } from './supabaseRepositories';
+import { Repositories } from './types';
+
+export * from './types';
+export { createMemoryRepositories, createMemoryStore, createSupabaseRepositories };
+export type { MemoryStore };
+
+export type DataStoreName = 'supabase' | 'memory';
+
+const DATA_STORE_NAMES: DataStoreName[] = ['supabase', 'memory'];
+
+// WHY on globalThis? Next.js re-evaluates modules on hot reload in development,
+// which would otherwise empty the store after every code change
+const globalForStore = globalThis as typeof globalThis & { __mathMemoryStore?: MemoryStore };
+
+let loggedStore = false;
+
+/**
+ * Repositories for the API routes' queries
+ * NOTE: On Supabase, queries use the server's service-role client and filter by the student's ID
+ * WHY the service role, not the student's JWT? Graded rows (problems, answers,
+ * stars, scores) must only be written by the server, so students get no write
+ * access of their own
+ */
+export function getRepositories(): Repositories {
+  const name = resolveDataStoreName();
+  if (!loggedStore) {
+    loggedStore = true;
+    logger.info('Data store selected', { dataStore: name });
+  }
+
+  if (name === 'memory') {
+    globalForStore.__mathMemoryStore ??= createMemoryStore();
+    return createMemoryRepositories(globalForStore.__mathMemoryStore);
+  }
+  return createSupabaseRepositories(getServiceSupabase());
+}
+
+/**
+ * Standard response for features that are only stored in Supabase (reviews, quizzes, classes)
+ * WHY 501, not 500? Nothing failed - the in-memory store (DATA_STORE=memory) just doesn't have them
+ */
+export function supabaseRequiredResponse(feature: string): Response {
+  return Response.json(
+    { error: 'Not available offline', message: `${feature} need Supabase - they aren't available with DATA_STORE=memory` },
+    { status: 501 }
+  );
+}
+
+export function resolveDataStoreName(): DataStoreName {
+  const configured = process.env.DATA_STORE?.trim().toLowerCase();
+
+  if (DATA_STORE_NAMES.includes(configured as DataStoreName)) {
+    return configured as DataStoreName;
+  }
+  if (configured) {
+    throw new Error(`Unknown DATA_STORE "${configured}". Expected one of: ${DATA_STORE_NAMES.join(', ')}.`);
+  }
+
+  // No explicit choice - fall back to memory when there's no Supabase project to use
+  return isSupabaseConfigured() ? 'supabase' : 'memory';
+}
@@ -0,0 +1,224 @@
+/**
+ * In-Memory Repositories
+ *
+ * Offline stand-in for Supabase: sessions, submissions and progress are kept
+ * in plain arrays in the server process.
+ *
+ * WHY? Lets us develop, demo without a database and run route tests without
+ * network access - together with the local AI provider and mock auth, the
+ * whole generate / hint / submit / progress loop works offline.
+ *
+ * HOW IT WORKS:
+ * - Inserts fill in the same defaults as the migrations (ids, timestamps,
+ *   difficulty 'medium', hint level 1, ...)
+ * - Every read is scoped to the student, like row-level security
+ * - Records are copied in and out, so callers can't change stored rows by accident
+ *
+ * NOTE: Everything is lost when the server restarts. Reviews, quizzes and
+ * classes still need Supabase (Repositories.supabase is null here).
+ */
+
+import {
+  AchievementRecord,
+  HintRevealRecord,
+  ProgressBaseline,
+  ProgressRepository,
+  Repositories,
+  SessionRecord,
+  SessionRepository,
+  SubmissionRecord,
+  SubmissionRepository,
+} from './types';
+
+export interface MemoryStore {
+  sessions: SessionRecord[];
+  submissions: SubmissionRecord[];
+  hintReveals: HintRevealRecord[];
+  baselines: Array<ProgressBaseline & { user_id: string; created_at: string }>;
+  achievements: AchievementRecord[];
+}
+
+export function createMemoryStore(): MemoryStore {
+  return { sessions: [], submissions: [], hintReveals: [], baselines: [], achievements: [] };
+}
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+const now = () => new Date().toISOString();
+
+// WHY? These columns default to auth.uid() in Postgres - there's no signed-in user to fall back on here
+function requireUserId(row: { user_id?: string }, what: string): string {
+  if (!row.user_id) {
+    throw new Error(`Failed to ${what}: user_id is required`);
+  }
+  return row.user_id;
+}
+
+// Oldest first; insertion order breaks ties, like the serial order of rows in Postgres
+function byCreatedAt<T extends { created_at: string | null }>(rows: T[]): T[] {
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => (a.row.created_at || '').localeCompare(b.row.created_at || '') || a.index - b.index)
+    .map(({ row }) => row);
+}
+
+function createSessionRepository(store: MemoryStore): SessionRepository {
+  return {
+    async create(session) {
+      const record: SessionRecord = {
+        id: crypto.randomUUID(),
+        created_at: now(),
+        user_id: null,
+        hint: null,
+        difficulty: 'medium',
+        topic: 'random',
+        solution_expression: null,
+        verification_status: 'unverified',
+        generation_attempts: 1,
+        correct_answer_text: null,
+        answer_parts: null,
+        difficulty_mode: 'manual',
+        adaptive_level: null,
+        adaptive_reason: null,
+        template_id: null,
+        review_item_id: null,
+        worked_solution: null,
+        ...copy(session),
+      };
+      store.sessions.push(record);
+      return copy(record);
+    },
+
+    async findForUser(userId, sessionId) {
+      const session = store.sessions.find((row) => row.id === sessionId && row.user_id === userId);
+      return session ? copy(session) : null;
+    },
+  };
+}
+
+function createSubmissionRepository(store: MemoryStore): SubmissionRepository {
+  const forUser = (userId: string) => store.submissions.filter((row) => row.user_id === userId);
+
+  return {
+    async create(submission) {
+      const record: SubmissionRecord = {
+        id: crypto.randomUUID(),
+        created_at: now(),
+        user_id: null,
+        user_answer_text: null,
+        time_taken_seconds: null,
+        stars_earned: null,
+        part_results: null,
+        attempt_number: null,
+        hint_revealed: null,
+        seconds_since_previous_attempt: null,
+        misconception: null,
+        misconception_detail: null,
+        ...copy(submission),
+      };
+      store.submissions.push(record);
+      return copy(record);
+    },
+
+    async listForSession(userId, sessionId) {
+      return copy(byCreatedAt(forUser(userId).filter((row) => row.session_id === sessionId)));
+    },
+
+    async listOutcomes(userId) {
+      return byCreatedAt(forUser(userId)).map(({ is_correct, stars_earned, created_at }) => ({ is_correct, stars_earned, created_at }));
+    },
+
+    async listRecentWithSessions(userId, { topic, limit }) {
+      const sessions = new Map(store.sessions.map((session) => [session.id, session]));
+      return byCreatedAt(forUser(userId))
+        .reverse()
+        .filter((row) => sessions.has(row.session_id) && (!topic || sessions.get(row.session_id).topic === topic))
+        .slice(0, limit)
+        .map((row) => {
+          const { topic: sessionTopic, difficulty, adaptive_level } = sessions.get(row.session_id);
+          return {
+            session_id: row.session_id,
+            is_correct: row.is_correct,
+            time_taken_seconds: row.time_taken_seconds,
+            created_at: row.created_at,
+            session: { topic: sessionTopic, difficulty, adaptive_level },
+          };
+        });
+    },
+  };
+}
+
+function createProgressRepository(store: MemoryStore): ProgressRepository {
+  return {
+    async listHintReveals(userId, sessionIds) {
+      return copy(store.hintReveals.filter((row) => row.user_id === userId && sessionIds.includes(row.session_id)));
+    },
+
+    async countHintReveals(userId) {
+      return store.hintReveals.filter((row) => row.user_id === userId).length;
+    },
+
+    async recordHintReveal(reveal) {
+      const userId = requireUserId(reveal, 'record hint reveal');
+      store.hintReveals.push({ id: crypto.randomUUID(), created_at: now(), level: 1, ...copy(reveal), user_id: userId });
+    },
+
+    async getBaseline(userId) {
+      const baseline = store.baselines.find((row) => row.user_id === userId);
+      if (!baseline) {
+        return null;
+      }
+      const { imported_problems_completed, imported_hints_used, imported_at } = baseline;
+      return { imported_problems_completed, imported_hints_used, imported_at };
+    },
+
+    async createBaseline(baseline) {
+      // Same rule as the primary key on student_progress: one baseline per student
+      const userId = requireUserId(baseline, 'import progress');
+      if (store.baselines.some((row) => row.user_id === userId)) {
+        return false;
+      }
+      store.baselines.push({
+        imported_problems_completed: 0,
+        imported_hints_used: 0,
+        imported_at: null,
+        created_at: now(),
+        ...copy(baseline),
+        user_id: userId,
+      });
+      return true;
+    },
+
+    async listAchievements(userId) {
+      return copy(
+        store.achievements
+          .filter((row) => row.user_id === userId)
+          .sort((a, b) => (a.unlocked_at || '').localeCompare(b.unlocked_at || ''))
+      );
+    },
+
+    async addAchievements(achievements) {
+      for (const achievement of achievements) {
+        const userId = requireUserId(achievement, 'save achievements');
+        const exists = store.achievements.some(
+          (row) => row.user_id === userId && row.achievement_key === achievement.achievement_key
+        );
+        if (!exists) {
+          store.achievements.push({ unlocked_at: now(), ...copy(achievement), user_id: userId });
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Repositories backed by the given in-memory store
+ */
+export function createMemoryRepositories(store: MemoryStore = createMemoryStore()): Repositories {
+  return {
+    sessions: createSessionRepository(store),
+    submissions: createSubmissionRepository(store),
+    progress: createProgressRepository(store),
+    supabase: null,
+  };
+}
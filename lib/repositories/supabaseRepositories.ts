@@ -0,0 +1,253 @@
+/**
+ * Supabase Repositories
+ *
+ * Stores sessions, submissions and progress in Supabase.
+ *
+ * HOW IT WORKS:
+ * - Every method is one query on the client it's given - the server's
+ *   service-role client (see lib/supabaseClient getServiceSupabase)
+ * - Every read filters by user_id explicitly, because the service role isn't
+ *   restricted by row-level security
+ * - Query errors are thrown as Errors naming what failed, and counted in
+ *   db_errors_total (see lib/observability)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, TablesInsert } from '../database.types';
+import { databaseError } from '../observability';
+import {
+  AchievementRecord,
+  HintRevealRecord,
+  ProgressBaseline,
+  ProgressRepository,
+  Repositories,
+  SessionRecord,
+  SessionRepository,
+  SubmissionOutcome,
+  SubmissionRecord,
+  SubmissionRepository,
+  SubmissionWithSession,
+} from './types';
+
+// Postgres error code for a duplicate primary key
+const UNIQUE_VIOLATION = '23505';
+
+// Supabase returns at most 1000 rows per request, so larger reads are paged
+const PAGE_SIZE = 1000;
+
+// WHY the casts below? JSONB columns are typed Json; the records give the shapes
+// actually stored (see ./types SessionJson and SubmissionJson)
+
+function createSessionRepository(db: SupabaseClient<Database>): SessionRepository {
+  return {
+    async create(session) {
+      const { data, error } = await db
+        .from('math_problem_sessions')
+        .insert(session as unknown as TablesInsert<'math_problem_sessions'>)
+        .select()
+        .single();
+
+      if (error) {
+        throw databaseError('save problem', error);
+      }
+      return data as unknown as SessionRecord;
+    },
+
+    async findForUser(userId, sessionId) {
+      // WHY maybeSingle? A missing session is a 404 for the caller, not an error
+      const { data, error } = await db
+        .from('math_problem_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        throw databaseError('load problem', error);
+      }
+      return data as unknown as SessionRecord | null;
+    },
+  };
+}
+
+function createSubmissionRepository(db: SupabaseClient<Database>): SubmissionRepository {
+  return {
+    async create(submission) {
+      const { data, error } = await db
+        .from('math_problem_submissions')
+        .insert(submission as unknown as TablesInsert<'math_problem_submissions'>)
+        .select()
+        .single();
+
+      if (error) {
+        throw databaseError('save submission', error);
+      }
+      return data as unknown as SubmissionRecord;
+    },
+
+    async listForSession(userId, sessionId) {
+      const { data, error } = await db
+        .from('math_problem_submissions')
+        .select('*')
+        .eq('session_id', sessionId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw databaseError('load previous attempts', error);
+      }
+      return (data || []) as unknown as SubmissionRecord[];
+    },
+
+    async listOutcomes(userId) {
+      // WHY paged? Totals and streaks need every answer - one request would stop at
+      // the oldest 1000, dropping a busy student's newest answers
+      const outcomes: SubmissionOutcome[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        // WHY order by id too? Keeps paging stable when two answers share a timestamp
+        const { data, error } = await db
+          .from('math_problem_submissions')
+          .select('is_correct, stars_earned, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          throw databaseError('load progress', error);
+        }
+        outcomes.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) {
+          return outcomes;
+        }
+      }
+    },
+
+    async listRecentWithSessions(userId, { topic, limit }) {
+      let query = db
+        .from('math_problem_submissions')
+        .select('session_id, is_correct, time_taken_seconds, created_at, session:math_problem_sessions!inner(topic, difficulty, adaptive_level)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (topic) {
+        query = query.eq('session.topic', topic); // Filters on the embedded (aliased) session
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw databaseError('load answer history', error);
+      }
+      return (data || []) as unknown as SubmissionWithSession[];
+    },
+  };
+}
+
+function createProgressRepository(db: SupabaseClient<Database>): ProgressRepository {
+  return {
+    async listHintReveals(userId, sessionIds) {
+      if (sessionIds.length === 0) {
+        return [];
+      }
+      const { data, error } = await db
+        .from('math_problem_hint_reveals')
+        .select('*')
+        .eq('user_id', userId)
+        .in('session_id', sessionIds);
+
+      if (error) {
+        throw databaseError('load hint reveals', error);
+      }
+      return (data || []) as HintRevealRecord[];
+    },
+
+    async countHintReveals(userId) {
+      const { count, error } = await db
+        .from('math_problem_hint_reveals')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (error) {
+        throw databaseError('load progress', error);
+      }
+      return count || 0;
+    },
+
+    async recordHintReveal(reveal) {
+      const { error } = await db
+        .from('math_problem_hint_reveals')
+        .insert(reveal);
+
+      if (error) {
+        throw databaseError('record hint reveal', error);
+      }
+    },
+
+    async getBaseline(userId) {
+      const { data, error } = await db
+        .from('student_progress')
+        .select('imported_problems_completed, imported_hints_used, imported_at')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        throw databaseError('load progress', error);
+      }
+      return data as ProgressBaseline | null;
+    },
+
+    async createBaseline(baseline) {
+      // WHY insert, not upsert? The primary key on user_id makes a second import fail
+      const { error } = await db
+        .from('student_progress')
+        .insert(baseline);
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return false;
+      }
+      if (error) {
+        throw databaseError('import progress', error);
+      }
+      return true;
+    },
+
+    async listAchievements(userId) {
+      const { data, error } = await db
+        .from('student_achievements')
+        .select('*')
+        .eq('user_id', userId)
+        .order('unlocked_at', { ascending: true });
+
+      if (error) {
+        throw databaseError('load achievements', error);
+      }
+      return (data || []) as AchievementRecord[];
+    },
+
+    async addAchievements(achievements) {
+      if (achievements.length === 0) {
+        return;
+      }
+      const { error } = await db
+        .from('student_achievements')
+        .upsert(achievements, { onConflict: 'user_id,achievement_key', ignoreDuplicates: true });
+
+      if (error) {
+        throw databaseError('save achievements', error);
+      }
+    },
+  };
+}
+
+/**
+ * Repositories that query Supabase as the given client
+ */
+export function createSupabaseRepositories(db: SupabaseClient<Database>): Repositories {
+  return {
+    sessions: createSessionRepository(db),
+    submissions: createSubmissionRepository(db),
+    progress: createProgressRepository(db),
+    supabase: db,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Repository Types
+ *
+ * Shared contract for where sessions, submissions and progress are stored.
+ *
+ * WHY REPOSITORIES?
+ * - Routes and lib functions no longer build Supabase queries inline
+ * - The same code runs against Supabase or an in-memory store, so the app can
+ *   be developed, demoed and tested without a database
+ *
+ * NOTE: Row types come from the generated Database type (lib/database.types.ts),
+ * so a column added by a migration shows up here after `npm run db:types`.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../database.types';
+import type { AnswerPartWithKey, PartResult } from '../math/answerSchema';
+import type { MisconceptionKind } from '../math/misconceptions';
+import type { WorkedSolution } from '../workedSolution';
+
+type Tables = Database['public']['Tables'];
+type SessionTable = Tables['math_problem_sessions'];
+type SubmissionTable = Tables['math_problem_submissions'];
+
+// JSONB columns come out of the generator as Json - these are the shapes actually stored
+type SessionJson = {
+  answer_parts: AnswerPartWithKey[] | null;
+  worked_solution: WorkedSolution | null;
+};
+type SubmissionJson = {
+  part_results: PartResult[] | null;
+  misconception: MisconceptionKind | null;
+};
+
+export type SessionRecord = Omit<SessionTable['Row'], keyof SessionJson> & SessionJson;
+export type NewSession = Omit<SessionTable['Insert'], keyof SessionJson> & Partial<SessionJson>;
+
+export type SubmissionRecord = Omit<SubmissionTable['Row'], keyof SubmissionJson> & SubmissionJson;
+export type NewSubmission = Omit<SubmissionTable['Insert'], keyof SubmissionJson> & Partial<SubmissionJson>;
+
+// What progress needs from each submission
+export type SubmissionOutcome = Pick<SubmissionRecord, 'is_correct' | 'stars_earned' | 'created_at'>;
+
+// A recent answer with the session it answered - adaptive difficulty reads these
+export type SubmissionWithSession = Pick<SubmissionRecord, 'session_id' | 'is_correct' | 'time_taken_seconds' | 'created_at'> & {
+  session: Pick<SessionRecord, 'topic' | 'difficulty' | 'adaptive_level'>;
+};
+
+export type HintRevealRecord = Tables['math_problem_hint_reveals']['Row'];
+export type NewHintReveal = Tables['math_problem_hint_reveals']['Insert'];
+
+export type ProgressBaseline = Pick<Tables['student_progress']['Row'], 'imported_problems_completed' | 'imported_hints_used' | 'imported_at'>;
+export type NewProgressBaseline = Tables['student_progress']['Insert'];
+
+export type AchievementRecord = Tables['student_achievements']['Row'];
+export type NewAchievement = Tables['student_achievements']['Insert'];
+
+/**
+ * math_problem_sessions
+ */
+export interface SessionRepository {
+  // @throws if the session can't be saved
+  create(session: NewSession): Promise<SessionRecord>;
+  // The student's session, or null if it doesn't exist or belongs to someone else
+  findForUser(userId: string, sessionId: string): Promise<SessionRecord | null>;
+}
+
+/**
+ * math_problem_submissions
+ */
+export interface SubmissionRepository {
+  // @throws if the submission can't be saved
+  create(submission: NewSubmission): Promise<SubmissionRecord>;
+  // The student's answers to one session, oldest first
+  listForSession(userId: string, sessionId: string): Promise<SubmissionRecord[]>;
+  // Every answer the student has given, oldest first
+  listOutcomes(userId: string): Promise<SubmissionOutcome[]>;
+  // The student's latest answers, newest first - all topics when topic is null
+  listRecentWithSessions(userId: string, options: { topic: string | null; limit: number }): Promise<SubmissionWithSession[]>;
+}
+
+/**
+ * Hint reveals, imported localStorage totals and unlocked achievements
+ */
+export interface ProgressRepository {
+  // The student's reveals on the given sessions
+  listHintReveals(userId: string, sessionIds: string[]): Promise<HintRevealRecord[]>;
+  countHintReveals(userId: string): Promise<number>;
+  recordHintReveal(reveal: NewHintReveal): Promise<void>;
+  getBaseline(userId: string): Promise<ProgressBaseline | null>;
+  // @returns false if the student already has a baseline (nothing is changed)
+  createBaseline(baseline: NewProgressBaseline): Promise<boolean>;
+  // Oldest first
+  listAchievements(userId: string): Promise<AchievementRecord[]>;
+  // Achievements the student already has are left as they are
+  addAchievements(achievements: NewAchievement[]): Promise<void>;
+}
+
+export interface Repositories {
+  sessions: SessionRepository;
+  submissions: SubmissionRepository;
+  progress: ProgressRepository;
+  // For features not behind a repository yet (reviews, quizzes, classes) - null on the in-memory store
+  supabase: SupabaseClient<Database> | null;
+}
@@ -0,0 +1,267 @@
+/**
+ * Spaced-Repetition Review
+ *
+ * Schedules problems a student got wrong (or right only slowly, or with a hint)
+ * for review, using the SM-2 algorithm.
+ *
+ * HOW IT WORKS:
+ * 1. A weak answer creates a review item for that problem, due the next day
+ * 2. When the item is due, /api/review/next serves an "isomorphic" variant -
+ *    same structure and steps, new numbers - so it can't be answered from memory
+ * 3. Each review answer is scored 0-5 and SM-2 sets the next interval:
+ *    1 day, then 6 days, then growing by the item's ease factor. A wrong
+ *    answer starts the item over. Only the first attempt at a problem
+ *    counts - retries don't reschedule anything (see lib/submissions)
+ *
+ * WHY SM-2? Simple, well understood, and only needs three numbers per item.
+ *
+ * NOTE: Only the server creates and reschedules review items (service role) -
+ * a student's own sign-in can read their queue but not change it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Difficulty, ProblemVariantSource, Topic } from './ai/types';
+import type { Database } from './database.types';
+import { databaseError } from './observability';
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: string;
+}
+
+export interface ReviewStatus {
+  dueCount: number;
+  nextDueAt: string | null; // Earliest upcoming review when nothing is due yet
+}
+
+export interface DueReviewItem {
+  id: string;
+  difficulty: Difficulty;
+  topic: Topic;
+  variantOf: ProblemVariantSource;
+}
+
+// What we need from the graded submission to score a review
+export interface ReviewOutcome {
+  isCorrect: boolean;
+  starsEarned: number;
+  usedHint?: boolean; // Looked up from hint reveals if not given
+}
+
+interface ReviewSession {
+  id: string;
+  review_item_id: string | null;
+}
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Quality below this (0-5 scale) puts a problem in the review queue
+const REVIEW_QUALITY_THRESHOLD = 4;
+
+/**
+ * Scores an answer on SM-2's 0-5 quality scale
+ *
+ * - 1: wrong
+ * - 3: right, but slow (1 star) or after a hint
+ * - 4: right in 2-star time (or untimed)
+ * - 5: right in 3-star time
+ */
+export function reviewQuality({ isCorrect, starsEarned }: ReviewOutcome, usedHint: boolean): number {
+  if (!isCorrect) return 1;
+  if (usedHint || starsEarned === 1) return 3;
+  if (starsEarned === 3) return 5;
+  return 4;
+}
+
+/**
+ * SM-2: next interval and ease factor after an answer of the given quality
+ */
+export function scheduleReview(
+  previous: Omit<ReviewSchedule, 'dueAt'> | null,
+  quality: number,
+  now: Date = new Date()
+): ReviewSchedule {
+  const easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+  const repetitions = previous?.repetitions ?? 0;
+  const intervalDays = previous?.intervalDays ?? 0;
+
+  let nextRepetitions: number;
+  let nextInterval: number;
+  if (quality < 3) {
+    // Forgotten - start over
+    nextRepetitions = 0;
+    nextInterval = 1;
+  } else {
+    nextRepetitions = repetitions + 1;
+    nextInterval = nextRepetitions === 1 ? 1 : nextRepetitions === 2 ? 6 : Math.round(intervalDays * easeFactor);
+  }
+
+  const nextEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    easeFactor: Math.round(nextEaseFactor * 100) / 100,
+    intervalDays: nextInterval,
+    repetitions: nextRepetitions,
+    dueAt: new Date(now.getTime() + nextInterval * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Updates the review queue after a graded submission
+ *
+ * - Review problems: reschedule their review item with SM-2
+ * - Other problems: add a review item if the answer was weak
+ *
+ * @returns when the problem will come back for review, or null if it won't
+ */
+export async function recordReviewOutcome(
+  db: SupabaseClient<Database>,
+  userId: string,
+  session: ReviewSession,
+  outcome: ReviewOutcome
+): Promise<string | null> {
+  let usedHint = outcome.usedHint;
+  if (usedHint === undefined) {
+    const { count, error: hintError } = await db
+      .from('math_problem_hint_reveals')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', session.id)
+      .eq('user_id', userId);
+
+    if (hintError) {
+      throw databaseError('load hint usage', hintError);
+    }
+    usedHint = (count || 0) > 0;
+  }
+  const quality = reviewQuality(outcome, usedHint);
+  const now = new Date();
+
+  if (session.review_item_id) {
+    const { data: item, error: itemError } = await db
+      .from('review_items')
+      .select('ease_factor, interval_days, repetitions')
+      .eq('id', session.review_item_id)
+      .eq('user_id', userId)
+      .single();
+
+    if (itemError || !item) {
+      throw new Error(`Review item not found: ${itemError?.message}`);
+    }
+
+    const schedule = scheduleReview(
+      { easeFactor: Number(item.ease_factor), intervalDays: item.interval_days, repetitions: item.repetitions },
+      quality,
+      now
+    );
+    const { error: updateError } = await db
+      .from('review_items')
+      .update({
+        ease_factor: schedule.easeFactor,
+        interval_days: schedule.intervalDays,
+        repetitions: schedule.repetitions,
+        due_at: schedule.dueAt,
+        last_quality: quality,
+        last_reviewed_at: now.toISOString(),
+      })
+      .eq('id', session.review_item_id)
+      .eq('user_id', userId);
+
+    if (updateError) {
+      throw databaseError('reschedule review', updateError);
+    }
+    return schedule.dueAt;
+  }
+
+  if (quality >= REVIEW_QUALITY_THRESHOLD) {
+    return null;
+  }
+
+  const schedule = scheduleReview(null, quality, now);
+  // WHY ignore duplicates? A problem already in the queue keeps its schedule
+  const { error: insertError } = await db
+    .from('review_items')
+    .upsert({
+      user_id: userId,
+      source_session_id: session.id,
+      ease_factor: schedule.easeFactor,
+      interval_days: schedule.intervalDays,
+      repetitions: schedule.repetitions,
+      due_at: schedule.dueAt,
+      last_quality: quality,
+    }, { onConflict: 'user_id,source_session_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    throw databaseError('schedule review', insertError);
+  }
+  return schedule.dueAt;
+}
+
+/**
+ * How many reviews are due now, and when the next one is if none are
+ */
+export async function getReviewStatus(db: SupabaseClient<Database>, userId: string): Promise<ReviewStatus> {
+  const now = new Date().toISOString();
+  const [dueResult, upcomingResult] = await Promise.all([
+    db.from('review_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .lte('due_at', now),
+    db.from('review_items')
+      .select('due_at')
+      .eq('user_id', userId)
+      .gt('due_at', now)
+      .order('due_at', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const error = dueResult.error || upcomingResult.error;
+  if (error) {
+    throw databaseError('load review queue', error);
+  }
+
+  return {
+    dueCount: dueResult.count || 0,
+    nextDueAt: upcomingResult.data?.due_at ?? null,
+  };
+}
+
+/**
+ * The most overdue review item, with the problem it was created from
+ */
+export async function getNextDueReview(db: SupabaseClient<Database>, userId: string): Promise<DueReviewItem | null> {
+  const { data, error } = await db
+    .from('review_items')
+    .select('id, math_problem_sessions!review_items_source_session_id_fkey(problem_text, solution_expression, template_id, difficulty, topic)')
+    .eq('user_id', userId)
+    .lte('due_at', new Date().toISOString())
+    .order('due_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw databaseError('load review item', error);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const source = data.math_problem_sessions;
+  return {
+    id: data.id,
+    difficulty: (source.difficulty || 'medium') as Difficulty,
+    topic: (source.topic || 'random') as Topic,
+    variantOf: {
+      problemText: source.problem_text,
+      solutionExpression: source.solution_expression,
+      templateId: source.template_id,
+    },
+  };
+}
@@ -0,0 +1,516 @@
+/**
+ * API Schemas
+ *
+ * The request and response bodies of every API route in one place: the
+ * TypeScript types, plus runtime validators for everything a client sends.
+ *
+ * WHY? A type on `await request.json()` is only a promise - nothing checks it.
+ * A body with difficulty "extreme" used to reach the prompt builder and put
+ * "undefined" into the prompt. Every route now validates its body here first,
+ * and bad input gets a 400 with an error per field instead of a 500 (or worse,
+ * a problem generated from garbage).
+ *
+ * HOW IT WORKS:
+ * - Small validators (text, wholeNumber, oneOf, record...) combine into one
+ *   validator per request body
+ * - A validator returns the cleaned value (trimmed, defaults filled in), or
+ *   errors keyed by field path, e.g. { "answers.remainder": "..." }
+ * - readJsonBody() parses and validates a request in one go, handing back either
+ *   the body or a ready-made 400 response
+ *
+ * NOTE: Client pages import the response types from here, so this file must
+ * stay free of server-only dependencies - other lib modules are imported as types only,
+ * apart from topics and observability/metrics (neither imports anything server-side).
+ */
+
+import type { PublicProblemSession } from './problemSession';
+import type { ProgressSummary, UnlockedAchievement } from './progress';
+import type { DifficultyMix, QuizDetail, QuizSummary } from './quiz';
+import type { ReviewStatus } from './review';
+import type { ClassReport, ClassSummary, StudentReport } from './teacher';
+import type { Hint } from './hints';
+import type { MetricsSnapshot } from './observability/metrics';
+import type { WorkedSolution } from './workedSolution';
+import type { WorksheetSource, WorksheetSummary } from './worksheet';
+import { incrementCounter } from './observability/metrics';
+import { Topic, TOPIC_IDS } from './topics';
+
+// ---------- Shared domain values ----------
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type Difficulty = typeof DIFFICULTIES[number];
+
+// What a student can pick - 'adaptive' lets the server choose from their recent answers
+export const DIFFICULTY_SETTINGS = [...DIFFICULTIES, 'adaptive'] as const;
+export type DifficultySetting = typeof DIFFICULTY_SETTINGS[number];
+
+export const DIFFICULTY_MIXES: readonly DifficultyMix[] = [...DIFFICULTIES, 'mixed'];
+export const WORKSHEET_SOURCES: readonly WorksheetSource[] = ['generate', 'bank'];
+
+export const MIN_QUIZ_QUESTIONS = 1;
+export const MAX_QUIZ_QUESTIONS = 10; // Every problem is generated before the quiz starts
+export const DEFAULT_QUIZ_QUESTIONS = 5;
+
+export const MIN_WORKSHEET_PROBLEMS = 1;
+export const MAX_WORKSHEET_PROBLEMS = 30; // Two printed pages is plenty for one sitting
+export const DEFAULT_WORKSHEET_PROBLEMS = 10;
+
+export const MAX_WORKSHEET_TITLE_LENGTH = 100;
+export const MAX_CLASS_NAME_LENGTH = 80; // Long enough for "Primary 5 Blue - Maths enrichment"
+
+// ---------- Validators ----------
+
+// Messages keyed by field path, e.g. { difficulty: "difficulty must be one of easy, medium, hard, adaptive" }
+export type FieldErrors = Record<string, string>;
+
+export type Validation<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldErrors };
+
+// Checks one value - field is its path, used as the error key and in the message
+export type Validator<T> = (value: unknown, field: string) => Validation<T>;
+
+function valid<T>(value: T): Validation<T> {
+  return { ok: true, value };
+}
+
+function invalid(field: string, message: string): Validation<never> {
+  return { ok: false, errors: { [field]: message } };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fieldPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Non-blank text, trimmed
+ */
+export function text({ maxLength }: { maxLength: number }): Validator<string> {
+  return (value, field) => {
+    if (typeof value !== 'string') return invalid(field, `${field} must be text`);
+    const trimmed = value.trim();
+    if (!trimmed) return invalid(field, `${field} is required`);
+    if (trimmed.length > maxLength) return invalid(field, `${field} must be ${maxLength} characters or fewer`);
+    return valid(trimmed);
+  };
+}
+
+// Row IDs are Postgres UUIDs
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A row ID, lower-cased
+ * WHY check? Postgres rejects anything else (22P02) - that was a 500, not a 400
+ */
+export const uuid: Validator<string> = (value, field) =>
+  typeof value === 'string' && UUID_PATTERN.test(value.trim())
+    ? valid(value.trim().toLowerCase())
+    : invalid(field, `${field} must be a valid ID`);
+
+export function wholeNumber({ min, max }: { min: number; max?: number }): Validator<number> {
+  const range = max === undefined ? `of at least ${min}` : `from ${min} to ${max}`;
+  return (value, field) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && (max === undefined || value <= max)
+      ? valid(value)
+      : invalid(field, `${field} must be a whole number ${range}`);
+}
+
+export function number({ min }: { min: number }): Validator<number> {
+  return (value, field) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min
+      ? valid(value)
+      : invalid(field, `${field} must be a number of at least ${min}`);
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return (value, field) =>
+    typeof value === 'string' && (values as readonly string[]).includes(value)
+      ? valid(value as T)
+      : invalid(field, `${field} must be one of ${values.join(', ')}`);
+}
+
+/**
+ * An answer as typed - text such as "3/4" or a plain number
+ * NOTE: null is allowed (a blank answer) - grading reports which parts still need one
+ */
+export const answerValue: Validator<string | number | null> = (value, field) =>
+  value === null || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))
+    ? valid(value as string | number | null)
+    : invalid(field, `${field} must be a number or text`);
+
+/**
+ * A field that may be left out
+ * WHY treat blank text as missing? Forms send "" for an empty input
+ */
+export function optional<T>(validator: Validator<T>, fallback?: T): Validator<T | undefined> {
+  return (value, field) => {
+    if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+      return valid(fallback);
+    }
+    return validator(value, field);
+  };
+}
+
+export function list<T>(validator: Validator<T>, { maxLength }: { maxLength: number }): Validator<T[]> {
+  return (value, field) => {
+    if (!Array.isArray(value)) return invalid(field, `${field} must be a list`);
+    if (value.length > maxLength) return invalid(field, `${field} must have ${maxLength} items or fewer`);
+    return collect(value.map((item, index) => validator(item, fieldPath(field, String(index)))), (items) => items);
+  };
+}
+
+/**
+ * An object with any keys, e.g. answers keyed by part name
+ * @param keyValidator - Optional check on each key, e.g. uuid for objects keyed by session ID
+ */
+export function record<T>(validator: Validator<T>, keyValidator?: Validator<string>): Validator<Record<string, T>> {
+  return (value, field) => {
+    if (!isPlainObject(value)) return invalid(field, `${field} must be an object`);
+    const keys = Object.keys(value);
+    let checkedKeys = keys;
+    if (keyValidator) {
+      const keyResult = collect(keys.map((key) => keyValidator(key, fieldPath(field, key))), (checked) => checked);
+      if (keyResult.ok === false) return keyResult;
+      checkedKeys = keyResult.value;
+    }
+
+    return collect(keys.map((key) => validator(value[key], fieldPath(field, key))), (values) =>
+      Object.fromEntries(checkedKeys.map((key, index) => [key, values[index]]))
+    );
+  };
+}
+
+/**
+ * An object with known fields - unknown fields are dropped
+ * @param check - Optional rule across fields, e.g. "send userAnswer or answers"
+ */
+export function object<T>(
+  shape: { [K in keyof T]-?: Validator<T[K]> },
+  check?: (value: T) => FieldErrors | null
+): Validator<T> {
+  return (value, field) => {
+    if (!isPlainObject(value)) {
+      return invalid(field || 'body', field ? `${field} must be an object` : 'Request body must be a JSON object');
+    }
+    const keys = Object.keys(shape) as Array<keyof T & string>;
+    const result = collect(keys.map((key) => shape[key](value[key], fieldPath(field, key))), (values) =>
+      Object.fromEntries(keys.map((key, index) => [key, values[index]])) as T
+    );
+    if (result.ok === false || !check) return result;
+
+    const errors = check(result.value);
+    return errors ? { ok: false, errors } : result;
+  };
+}
+
+// Every error from a set of results, or all their values
+function collect<T, R>(results: Array<Validation<T>>, build: (values: T[]) => R): Validation<R> {
+  const errors: FieldErrors = {};
+  for (const result of results) {
+    if (result.ok === false) Object.assign(errors, result.errors);
+  }
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+  return valid(build(results.map((result) => (result as { ok: true; value: T }).value)));
+}
+
+export function validate<T>(validator: Validator<T>, value: unknown): Validation<T> {
+  return validator(value, '');
+}
+
+// ---------- Errors ----------
+
+// Every error response has this shape; fieldErrors is set for 400s
+export interface ApiErrorResponse {
+  error: string;
+  message?: string;
+  fieldErrors?: FieldErrors;
+}
+
+/**
+ * 400 with a message per field - the first one doubles as the summary
+ */
+export function invalidRequestResponse(errors: FieldErrors): Response {
+  incrementCounter('validation_failures_total', { kind: 'request' });
+  const body: ApiErrorResponse = {
+    error: 'Invalid request',
+    message: Object.values(errors)[0],
+    fieldErrors: errors,
+  };
+  return Response.json(body, { status: 400 });
+}
+
+export type BodyResult<T> =
+  | { ok: true; body: T }
+  | { ok: false; response: Response };
+
+export type ParamsResult<T> =
+  | { ok: true; params: T }
+  | { ok: false; response: Response };
+
+/**
+ * Parses and validates a request's JSON body
+ * WHY catch parse errors here? Malformed JSON is the client's mistake - a 400, not a 500
+ */
+export async function readJsonBody<T>(request: Request, validator: Validator<T>): Promise<BodyResult<T>> {
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return { ok: false, response: invalidRequestResponse({ body: 'Request body must be valid JSON' }) };
+  }
+
+  const result = validate(validator, raw);
+  if (result.ok === false) {
+    return { ok: false, response: invalidRequestResponse(result.errors) };
+  }
+  return { ok: true, body: result.value };
+}
+
+/**
+ * Validates a dynamic route's params, e.g. { quizId } for /api/quiz/[quizId]
+ * WHY? Params come straight from the URL - an ID that isn't a UUID is a 400
+ */
+export function readRouteParams<T>(params: unknown, validator: Validator<T>): ParamsResult<T> {
+  const result = validate(validator, params);
+  if (result.ok === false) {
+    return { ok: false, response: invalidRequestResponse(result.errors) };
+  }
+  return { ok: true, params: result.value };
+}
+
+// ---------- Problems: /api/math-problem ----------
+
+export interface GenerateProblemRequest {
+  difficulty?: DifficultySetting; // Defaults to 'medium'
+  topic?: Topic; // Defaults to 'random'
+}
+
+export const generateProblemRequest = object<GenerateProblemRequest>({
+  difficulty: optional(oneOf(DIFFICULTY_SETTINGS), 'medium'),
+  topic: optional(oneOf(TOPIC_IDS), 'random'),
+});
+
+// NOTE: final_answer and the hint text are deliberately NOT part of this response
+// (see PublicProblemSession in lib/problemSession.ts)
+export type GenerateProblemResponse = PublicProblemSession;
+
+// Send either userAnswer (single-answer problems) or answers keyed by part name
+export interface SubmitAnswerRequest {
+  sessionId: string;
+  // Text such as "12", "2.5", "3/4" or "1 1/2" (plain numbers still accepted)
+  userAnswer?: string | number;
+  // Multi-part problems, e.g. { quotient: "12", remainder: "3" }
+  answers?: Record<string, string | number | null>;
+  timeTakenSeconds?: number;
+}
+
+export const submitAnswerRequest = object<SubmitAnswerRequest>(
+  {
+    sessionId: uuid,
+    userAnswer: optional(answerValue),
+    answers: optional(record(answerValue)),
+    timeTakenSeconds: optional(number({ min: 0 })),
+  },
+  (body) => body.userAnswer === undefined && body.answers === undefined
+    ? { userAnswer: 'userAnswer (or answers) is required' }
+    : null
+);
+
+// NOTE: This is the only place correctness is revealed to the browser,
+// and only after the student has made an attempt
+export interface SubmitAnswerResponse {
+  isCorrect: boolean;
+  feedback: string;
+  starsEarned: number;
+  partResults: Array<{ name: string; isCorrect: boolean }>;
+  newAchievements: UnlockedAchievement[]; // Badges unlocked by this submission
+  reviewScheduledAt: string | null; // When this problem comes back for review (null if it won't)
+  attemptNumber: number; // 1 for the first answer to this problem, 2 for the first retry, ...
+  hintRevealed: boolean; // Whether the hint was opened first (caps stars at 2)
+  workedSolution: WorkedSolution | null; // Numbered steps to the answer (null if the problem has no stored working)
+}
+
+export interface HintRequest {
+  sessionId: string;
+  level?: number; // Defaults to the next level the student hasn't seen
+}
+
+export const hintRequest = object<HintRequest>({
+  sessionId: uuid,
+  level: optional(wholeNumber({ min: 1 })),
+});
+
+export interface HintResponse {
+  hint: Hint; // The level just asked for
+  revealed: Hint[]; // Every level revealed so far, gentlest first
+  maxLevel: number; // How many levels this problem has
+  newAchievements: UnlockedAchievement[];
+}
+
+// ---------- Quizzes: /api/quiz ----------
+
+export interface CreateQuizRequest {
+  questionCount?: number; // Defaults to DEFAULT_QUIZ_QUESTIONS
+  topic?: Topic; // Defaults to 'random'
+  difficultyMix?: DifficultyMix; // Defaults to 'mixed'
+}
+
+export const createQuizRequest = object<CreateQuizRequest>({
+  questionCount: optional(wholeNumber({ min: MIN_QUIZ_QUESTIONS, max: MAX_QUIZ_QUESTIONS }), DEFAULT_QUIZ_QUESTIONS),
+  topic: optional(oneOf(TOPIC_IDS), 'random'),
+  difficultyMix: optional(oneOf(DIFFICULTY_MIXES), 'mixed'),
+});
+
+export interface QuizParams {
+  quizId: string;
+}
+
+export const quizParams = object<QuizParams>({ quizId: uuid });
+
+// NOTE: Questions only - answers and feedback come back when the quiz is submitted
+export type CreateQuizResponse = QuizDetail;
+export type QuizResponse = QuizDetail;
+
+export interface ListQuizzesResponse {
+  quizzes: QuizSummary[];
+}
+
+export interface SubmitQuizRequest {
+  // Keyed by session ID, then part name, e.g. { "<sessionId>": { answer: "3/4" } }
+  answers: Record<string, Record<string, string | number | null>>;
+  questionTimes?: Record<string, number>; // Seconds spent on each question, keyed by session ID
+  timeTakenSeconds?: number; // Whole quiz
+}
+
+export const submitQuizRequest = object<SubmitQuizRequest>({
+  answers: record(record(answerValue), uuid),
+  questionTimes: optional(record(number({ min: 0 }), uuid)),
+  timeTakenSeconds: optional(number({ min: 0 })),
+});
+
+export interface SubmitQuizResponse {
+  quiz: QuizDetail; // Score, plus each question's answer, correct answer and feedback
+  newAchievements: UnlockedAchievement[];
+}
+
+// ---------- Review: /api/review ----------
+
+export type ReviewStatusResponse = ReviewStatus;
+
+// Same shape as /api/math-problem, with problem.is_review set
+export type NextReviewResponse = PublicProblemSession;
+
+// ---------- Progress: /api/progress ----------
+
+export type ProgressResponse = ProgressSummary;
+
+// Same shape the old page.tsx kept in localStorage (values are clamped in lib/progress)
+export interface ImportProgressRequest {
+  problemsCompleted?: number;
+  hintsUsed?: number;
+  achievements?: string[];
+}
+
+export const importProgressRequest = object<ImportProgressRequest>({
+  problemsCompleted: optional(wholeNumber({ min: 0 })),
+  hintsUsed: optional(wholeNumber({ min: 0 })),
+  achievements: optional(list(text({ maxLength: 100 }), { maxLength: 100 })),
+});
+
+export type ImportProgressResponse = ProgressSummary;
+
+// ---------- Classes: /api/classes and /api/teacher/classes ----------
+
+export interface JoinClassRequest {
+  joinCode: string;
+}
+
+export const joinClassRequest = object<JoinClassRequest>({
+  joinCode: text({ maxLength: 20 }),
+});
+
+export interface JoinClassResponse {
+  className: string;
+}
+
+export interface CreateClassRequest {
+  name: string;
+}
+
+export const createClassRequest = object<CreateClassRequest>({
+  name: text({ maxLength: MAX_CLASS_NAME_LENGTH }),
+});
+
+export interface ClassParams {
+  classId: string;
+}
+
+export const classParams = object<ClassParams>({ classId: uuid });
+
+export interface StudentParams extends ClassParams {
+  studentId: string;
+}
+
+export const studentParams = object<StudentParams>({ classId: uuid, studentId: uuid });
+
+export interface ClassesResponse {
+  classes: ClassSummary[];
+}
+
+export interface CreateClassResponse {
+  class: ClassSummary;
+}
+
+export type ClassReportResponse = ClassReport;
+export type StudentReportResponse = StudentReport;
+
+// ---------- Worksheets: /api/teacher/worksheets ----------
+
+export interface CreateWorksheetRequest {
+  title?: string; // Defaults to "Maths Practice"
+  className?: string;
+  problemCount?: number; // Defaults to DEFAULT_WORKSHEET_PROBLEMS
+  topic?: Topic; // Defaults to 'random'
+  difficultyMix?: DifficultyMix; // Defaults to 'mixed'
+  source?: WorksheetSource; // 'generate' (default) or 'bank'
+}
+
+export const createWorksheetRequest = object<CreateWorksheetRequest>({
+  title: optional(text({ maxLength: MAX_WORKSHEET_TITLE_LENGTH }), 'Maths Practice'),
+  className: optional(text({ maxLength: MAX_CLASS_NAME_LENGTH })),
+  problemCount: optional(wholeNumber({ min: MIN_WORKSHEET_PROBLEMS, max: MAX_WORKSHEET_PROBLEMS }), DEFAULT_WORKSHEET_PROBLEMS),
+  topic: optional(oneOf(TOPIC_IDS), 'random'),
+  difficultyMix: optional(oneOf(DIFFICULTY_MIXES), 'mixed'),
+  source: optional(oneOf(WORKSHEET_SOURCES), 'generate'),
+});
+
+export interface WorksheetParams {
+  worksheetId: string;
+}
+
+export const worksheetParams = object<WorksheetParams>({ worksheetId: uuid });
+
+export interface WorksheetsResponse {
+  worksheets: WorksheetSummary[];
+}
+
+export interface CreateWorksheetResponse {
+  worksheet: WorksheetSummary;
+}
+
+// ---------- Metrics: /api/metrics ----------
+
+export interface MetricsResponse extends MetricsSnapshot {
+  // Share of calls that went wrong, from the counters above - null until there's been a call
+  rates: {
+    aiParseFallback: number | null; // Gemini replies that couldn't be read as JSON (template problem used instead)
+    aiError: number | null; // Provider calls that threw
+    verificationFallback: number | null; // Problems where every attempt had a wrong answer
+  };
+}
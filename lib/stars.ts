@@ -0,0 +1,59 @@
+/**
+ * Star Ratings
+ *
+ * How many stars a correct answer earns, based on time and difficulty.
+ *
+ * RETRIES AND HINTS:
+ * - First attempt, no hint: 1-3 stars by time
+ * - Hint opened first: at most 2 stars
+ * - Any retry (attempt 2+): at most 1 star
+ * WHY? Getting there in the end still deserves a star, but three stars
+ * should mean "solved it alone, first time, quickly".
+ *
+ * WHY SHARED? The submit route awards stars, and the adaptive difficulty
+ * engine uses the same thresholds to decide whether a student was "fast".
+ */
+
+import type { Difficulty } from './ai/types';
+
+export interface StarThresholds {
+  three: number; // Under this many seconds → 3 stars
+  two: number; // Under this many seconds → 2 stars (otherwise 1)
+}
+
+export const STAR_THRESHOLDS: Record<Difficulty, StarThresholds> = {
+  easy: { three: 30, two: 60 },
+  medium: { three: 60, two: 120 },
+  hard: { three: 120, two: 180 },
+};
+
+export const HINT_STAR_CAP = 2;
+export const RETRY_STAR_CAP = 1;
+
+export interface AttemptContext {
+  attemptNumber?: number; // 1 for the first answer to a problem
+  hintRevealed?: boolean;
+}
+
+/**
+ * Stars for a submission - 0 if wrong or untimed
+ */
+export function calculateStars(
+  difficulty: string,
+  isCorrect: boolean,
+  timeTakenSeconds: number | undefined | null,
+  { attemptNumber = 1, hintRevealed = false }: AttemptContext = {}
+): number {
+  if (!isCorrect || timeTakenSeconds === undefined || timeTakenSeconds === null) {
+    return 0;
+  }
+
+  const threshold = STAR_THRESHOLDS[difficulty as Difficulty] || STAR_THRESHOLDS.medium;
+  let stars = 1;
+  if (timeTakenSeconds < threshold.three) stars = 3;
+  else if (timeTakenSeconds < threshold.two) stars = 2;
+
+  if (hintRevealed) stars = Math.min(stars, HINT_STAR_CAP);
+  if (attemptNumber > 1) stars = Math.min(stars, RETRY_STAR_CAP);
+  return stars;
+}
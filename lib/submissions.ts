@@ -0,0 +1,194 @@
+/**
+ * Answer Submissions
+ *
+ * Turns a graded answer into a saved math_problem_submissions row: attempt
+ * tracking, stars, misconception detection, AI feedback, the insert itself
+ * and spaced-repetition scheduling.
+ *
+ * WHY SHARED? Single problems (/api/math-problem/submit) and quizzes
+ * (/api/quiz/[quizId]/submit) record answers exactly the same way.
+ */
+
+import { getProblemProvider } from './ai';
+import { parseAnswer, rationalToNumber } from './math/answer';
+import { answerKeyFromSession, AnswerPartWithKey, describeAnswers, gradeAnswers, GradeResult, PartResult, toPublicParts } from './math/answerSchema';
+import { detectMisconception, Misconception } from './math/misconceptions';
+import { logger } from './observability';
+import type { Repositories } from './repositories';
+import { recordReviewOutcome } from './review';
+import { calculateStars } from './stars';
+import { checkAnswerFormat } from './topics';
+
+// The session columns needed to grade and record an answer
+export interface GradableSession {
+  id: string;
+  problem_text: string;
+  difficulty: string;
+  correct_answer: number | string;
+  correct_answer_text?: string | null;
+  answer_parts?: AnswerPartWithKey[] | null;
+  solution_expression?: string | null; // Used to diagnose wrong answers
+  topic?: string | null; // Decides which answer forms are accepted (see lib/topics)
+  review_item_id: string | null;
+}
+
+export type GradedAnswer = Extract<GradeResult, { ok: true }>;
+
+// Where this answer sits among the student's answers to the same problem
+export interface AttemptInfo {
+  attemptNumber: number; // 1 for the first answer, 2 for the first retry, ...
+  hintRevealed: boolean; // Hint opened before this answer
+  secondsSincePreviousAttempt: number | null; // null on the first attempt
+}
+
+export interface RecordedSubmission extends AttemptInfo {
+  submissionId: string | null; // null if saving failed (the student still gets feedback)
+  isCorrect: boolean;
+  feedback: string;
+  starsEarned: number;
+  partResults: PartResult[];
+  userAnswerText: string;
+  correctAnswerText: string;
+  misconception: Misconception | null; // Likely mistake behind a wrong answer, if one was recognised
+  reviewScheduledAt: string | null;
+}
+
+/**
+ * Grades answers (keyed by part name) against the session's answer key
+ * WHY compare as fractions? Equivalent forms count (6/8 = 3/4 = 0.75)
+ * NOTE: Forms the topic doesn't accept are rejected, not marked wrong - e.g. 3/4 on a decimals problem
+ */
+export function gradeSessionAnswers(session: GradableSession, answers: Record<string, unknown>): GradeResult {
+  return gradeAnswers(answerKeyFromSession(session), answers, (answerKind, part) => {
+    if (!session.topic) return null;
+    const correct = parseAnswer(part.answer);
+    return correct.ok === true ? checkAnswerFormat(session.topic, answerKind, correct.answer.kind) : null;
+  });
+}
+
+/**
+ * Numbers this answer among the student's answers to the session, and checks for a hint
+ * WHY ON THE SERVER? The browser's own counts reset on reload and can be edited
+ */
+export async function loadAttemptInfo(repos: Repositories, userId: string, sessionId: string, now: Date = new Date()): Promise<AttemptInfo> {
+  const [previous, reveals] = await Promise.all([
+    repos.submissions.listForSession(userId, sessionId),
+    repos.progress.listHintReveals(userId, [sessionId]),
+  ]);
+
+  const lastAttemptAt = previous.length > 0 ? previous[previous.length - 1].created_at : null;
+  return {
+    attemptNumber: previous.length + 1,
+    hintRevealed: reveals.length > 0,
+    secondsSincePreviousAttempt: lastAttemptAt
+      ? Math.max(0, Math.round((now.getTime() - new Date(lastAttemptAt).getTime()) / 1000))
+      : null,
+  };
+}
+
+/**
+ * Records a graded answer
+ *
+ * HOW IT WORKS:
+ * 1. Numbers the attempt and checks whether the hint was opened
+ * 2. Works out stars from time and difficulty (only for correct answers),
+ *    capped for retries and hint-assisted answers
+ * 3. Checks a wrong answer for a known misconception (wrong operation, missed step...)
+ *    and asks the configured provider for personalised feedback that mentions it
+ * 4. Saves the submission - a failed save is logged, not thrown
+ * 5. Schedules weak first answers (and review problems) for spaced repetition - Supabase only
+ */
+export async function recordSubmission(
+  repos: Repositories,
+  userId: string,
+  session: GradableSession,
+  grade: GradedAnswer,
+  timeTakenSeconds: number | undefined | null
+): Promise<RecordedSubmission> {
+  const answerKey = answerKeyFromSession(session);
+  const isCorrect = grade.isCorrect;
+  const partResults = grade.results;
+  const publicParts = toPublicParts(answerKey);
+  const userAnswerText = describeAnswers(publicParts, Object.fromEntries(partResults.map((r) => [r.name, r.user_answer])));
+  const correctAnswerText = describeAnswers(publicParts, Object.fromEntries(answerKey.map((p) => [p.name, p.answer])));
+  // First part's value keeps the numeric user_answer column meaningful for analytics
+  const primaryUserAnswer = parseAnswer(partResults[0].user_answer);
+
+  const attempt = await loadAttemptInfo(repos, userId, session.id);
+
+  // Calculate stars if answer is correct and time is provided
+  // WHY? Rewards both speed and accuracy for better engagement
+  // NOTE: Thresholds depend on the session's difficulty; retries and hints cap the stars (see lib/stars)
+  const starsEarned = calculateStars(session.difficulty || 'medium', isCorrect, timeTakenSeconds, attempt);
+
+  // Diagnose wrong answers from the problem's own working (see lib/math/misconceptions)
+  const misconception = isCorrect
+    ? null
+    : detectMisconception({ solutionExpression: session.solution_expression, parts: answerKey, results: partResults });
+
+  // Generate personalized feedback with the configured provider
+  // WHY a provider? Gemini in production, deterministic local feedback offline
+  // NOTE: A slow or failing Gemini call falls back to templated feedback (lib/ai/resilience),
+  // so the answer is still graded and saved
+  const feedback = await getProblemProvider().generateFeedback({
+    problemText: session.problem_text,
+    correctAnswer: correctAnswerText,
+    userAnswer: userAnswerText,
+    isCorrect,
+    misconception: misconception?.detail ?? null,
+  });
+
+  // Save the submission to database with time and stars
+  // WHY? Tracks user progress, performance metrics, and stores feedback
+  let submissionId: string | null = null;
+  try {
+    const submission = await repos.submissions.create({
+      session_id: session.id,
+      user_id: userId,
+      user_answer: primaryUserAnswer.ok === true ? rationalToNumber(primaryUserAnswer.answer.value) : 0,
+      user_answer_text: userAnswerText, // Keeps fractions and units exact, e.g. "1 1/2 kg"
+      part_results: partResults, // Per-part correctness for multi-part answers
+      is_correct: isCorrect,
+      feedback_text: feedback,
+      time_taken_seconds: timeTakenSeconds ? Math.round(timeTakenSeconds) : null, // INTEGER column
+      stars_earned: starsEarned,
+      attempt_number: attempt.attemptNumber,
+      hint_revealed: attempt.hintRevealed,
+      seconds_since_previous_attempt: attempt.secondsSincePreviousAttempt,
+      misconception: misconception?.kind ?? null,
+      misconception_detail: misconception?.detail ?? null,
+    });
+    submissionId = submission.id;
+  } catch (submitError) {
+    // Handle database errors during submission but don't fail the request
+    // WHY? Feedback generation is the main purpose - saving is secondary
+    logger.error('Error saving submission', { error: submitError });
+  }
+
+  // Wrong, slow or hint-assisted answers go into the spaced-repetition queue;
+  // answers to review problems reschedule their review item
+  // WHY first attempts only? SM-2 scores recall - a retry right after seeing
+  // "wrong" would otherwise count as a second successful review and push the item out
+  // NOTE: Review items live in Supabase only - the in-memory store skips this
+  let reviewScheduledAt: string | null = null;
+  if (submissionId && repos.supabase && attempt.attemptNumber === 1) {
+    try {
+      reviewScheduledAt = await recordReviewOutcome(repos.supabase, userId, session, { isCorrect, starsEarned, usedHint: attempt.hintRevealed });
+    } catch (reviewError) {
+      logger.error('Error scheduling review', { error: reviewError });
+    }
+  }
+
+  return {
+    submissionId,
+    isCorrect,
+    feedback,
+    starsEarned,
+    partResults,
+    userAnswerText,
+    correctAnswerText,
+    misconception,
+    reviewScheduledAt,
+    ...attempt,
+  };
+}
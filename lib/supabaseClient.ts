@@ -1,75 +1,62 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './database.types'
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+/**
+ * Whether the Supabase URL and anon key are set
+ * WHY? Without them the app falls back to the in-memory data store (see lib/repositories)
+ */
+export function isSupabaseConfigured(): boolean {
+  return Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY)
+}
+
+function getSupabaseConfig(): { url: string; anonKey: string } {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!url || !anonKey) {
+    throw new Error('Missing Supabase environment variables')
+  }
+  return { url, anonKey }
+}
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables')
+let cachedClient: SupabaseClient<Database> | null = null
+
+/**
+ * Shared anon-key client (browser sign-in, verifying access tokens on the server)
+ * WHY created on first use? Importing this file must not fail when Supabase
+ * isn't configured - offline mode never calls it
+ * @throws if the Supabase environment variables are missing
+ */
+export function getSupabase(): SupabaseClient<Database> {
+  if (!cachedClient) {
+    const { url, anonKey } = getSupabaseConfig()
+    cachedClient = createClient<Database>(url, anonKey)
+  }
+  return cachedClient
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+let cachedServiceClient: SupabaseClient<Database> | null = null
 
-export type Database = {
-  public: {
-    Tables: {
-      math_problem_sessions: {
-        Row: {
-          id: string
-          created_at: string
-          problem_text: string
-          correct_answer: number
-          hint: string | null
-          difficulty: string
-          topic: string
-        }
-        Insert: {
-          id?: string
-          created_at?: string
-          problem_text: string
-          correct_answer: number
-          hint?: string
-          difficulty?: string
-          topic?: string
-        }
-        Update: {
-          id?: string
-          created_at?: string
-          problem_text?: string
-          correct_answer?: number
-          hint?: string
-          difficulty?: string
-          topic?: string
-        }
-      }
-      math_problem_submissions: {
-        Row: {
-          id: string
-          session_id: string
-          user_answer: number
-          is_correct: boolean
-          feedback_text: string
-          time_taken_seconds: number | null
-          stars_earned: number | null
-        }
-        Insert: {
-          id?: string
-          session_id: string
-          user_answer: number
-          is_correct: boolean
-          feedback_text: string
-          time_taken_seconds?: number
-          stars_earned?: number
-        }
-        Update: {
-          id?: string
-          session_id?: string
-          user_answer?: number
-          is_correct?: boolean
-          feedback_text?: string
-          time_taken_seconds?: number
-          stars_earned?: number
-        }
-      }
+/**
+ * Server-only client with the service role key, used for every API route query
+ * WHY? Students' own JWTs can't write problems, answers or grades, or read answer
+ * columns (see db/migrations/0017_server_only_writes.sql) - only the server grades
+ * NOTE: The service role bypasses row-level security, so every query must filter
+ * by the signed-in user itself. Never expose SUPABASE_SERVICE_ROLE_KEY to the browser
+ * @throws if the Supabase URL or SUPABASE_SERVICE_ROLE_KEY is missing
+ */
+export function getServiceSupabase(): SupabaseClient<Database> {
+  if (!cachedServiceClient) {
+    const { url } = getSupabaseConfig()
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!serviceRoleKey) {
+      throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY - the server needs it to save answers')
     }
+    cachedServiceClient = createClient<Database>(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
   }
-}
\ No newline at end of file
+  return cachedServiceClient
+}
+
+// Generated from the migrated schema - see scripts/generate-db-types.mjs
+export type { Database, Json, Tables } from './database.types'
@@ -0,0 +1,386 @@
+/**
+ * Teacher Data Access
+ *
+ * Classes, rosters and the submission data behind the teacher dashboard.
+ *
+ * WHO IS A TEACHER?
+ * - Supabase mode: anyone with a row in the teachers table (added by an admin)
+ * - Mock mode: the x-mock-user-role header says 'teacher' (local development only)
+ *
+ * NOTE: Queries use the server's service-role client, so each one filters by
+ * the teacher's own classes and roster explicitly - row-level security doesn't
+ * restrict the service role.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AuthUser, getAuthMode } from './auth';
+import { AnalyticsSubmission, analyzeSubmissions, HintReveal, SubmissionAnalytics, summarizeAccuracy } from './analytics';
+import type { Database, Tables } from './database.types';
+import type { Misconception } from './math/misconceptions';
+import { databaseError } from './observability';
+import type { SessionRecord, SubmissionRecord } from './repositories';
+
+export interface ClassSummary {
+  id: string;
+  name: string;
+  joinCode: string;
+  studentCount: number;
+  createdAt: string;
+}
+
+export interface RosterStudent {
+  studentId: string;
+  displayName: string;
+  joinedAt: string;
+  attempts: number;
+  accuracy: number | null;
+  averageTimeSeconds: number | null;
+  totalStars: number;
+  hintsUsed: number;
+  lastActiveAt: string | null;
+}
+
+export interface ClassReport {
+  class: ClassSummary;
+  roster: RosterStudent[];
+  analytics: SubmissionAnalytics;
+}
+
+export interface StudentSubmissionDetail {
+  id: string;
+  createdAt: string;
+  problemText: string;
+  topic: string;
+  difficulty: string;
+  userAnswer: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+  timeTakenSeconds: number | null;
+  starsEarned: number | null;
+  hintUsed: boolean;
+  attemptNumber: number | null; // null for submissions made before attempt tracking
+  misconception: Misconception | null; // Recognised mistake behind a wrong answer
+  feedbackText: string;
+}
+
+export interface StudentReport {
+  student: RosterStudent;
+  analytics: SubmissionAnalytics;
+  submissions: StudentSubmissionDetail[];
+}
+
+// Supabase returns at most 1000 rows per request, so larger reads are paged
+const PAGE_SIZE = 1000;
+
+// No 0/O or 1/I - join codes are read aloud and copied from the board
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+const SUBMISSION_COLUMNS =
+  'id, session_id, user_id, is_correct, time_taken_seconds, stars_earned, created_at, user_answer, user_answer_text, feedback_text, attempt_number, ' +
+  'misconception, misconception_detail, ' +
+  'math_problem_sessions(problem_text, topic, difficulty, correct_answer, correct_answer_text)';
+
+// A row selected with SUBMISSION_COLUMNS
+type SubmissionRow = Pick<
+  SubmissionRecord,
+  | 'id' | 'session_id' | 'user_id' | 'is_correct' | 'time_taken_seconds' | 'stars_earned' | 'created_at' | 'user_answer'
+  | 'user_answer_text' | 'feedback_text' | 'attempt_number' | 'misconception' | 'misconception_detail'
+> & {
+  math_problem_sessions: Pick<SessionRecord, 'problem_text' | 'topic' | 'difficulty' | 'correct_answer' | 'correct_answer_text'> | null;
+};
+
+// class_members(count) comes back as [{ count }]; createClass doesn't select it
+type ClassRow = Pick<Tables<'classes'>, 'id' | 'name' | 'join_code' | 'created_at'> & {
+  class_members?: Array<{ count: number }>;
+};
+
+type MemberRow = Pick<Tables<'class_members'>, 'student_id' | 'display_name' | 'joined_at'>;
+
+/**
+ * Whether the signed-in user may use the teacher dashboard
+ */
+export async function isTeacher(db: SupabaseClient<Database>, user: AuthUser, request: Request): Promise<boolean> {
+  if (getAuthMode() === 'mock') {
+    return request.headers.get('x-mock-user-role') === 'teacher';
+  }
+
+  const { data, error } = await db
+    .from('teachers')
+    .select('user_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    throw databaseError('check teacher access', error);
+  }
+  return Boolean(data);
+}
+
+export function generateJoinCode(random: () => number = Math.random): string {
+  let code = '';
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[Math.floor(random() * JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+async function fetchAllPages<T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+function toClassSummary(row: ClassRow): ClassSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    joinCode: row.join_code,
+    studentCount: row.class_members?.[0]?.count ?? 0,
+    createdAt: row.created_at,
+  };
+}
+
+export async function listClasses(db: SupabaseClient<Database>, teacherId: string): Promise<ClassSummary[]> {
+  const { data, error } = await db
+    .from('classes')
+    .select('id, name, join_code, created_at, class_members(count)')
+    .eq('teacher_id', teacherId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw databaseError('load classes', error);
+  }
+  return (data || []).map(toClassSummary);
+}
+
+export async function createClass(db: SupabaseClient<Database>, teacherId: string, name: string): Promise<ClassSummary> {
+  const { data, error } = await db
+    .from('classes')
+    .insert({ teacher_id: teacherId, name, join_code: generateJoinCode() })
+    .select('id, name, join_code, created_at')
+    .single();
+
+  if (error || !data) {
+    throw databaseError('create class', error);
+  }
+  return toClassSummary(data);
+}
+
+/**
+ * Students in the teacher's classes (or just one class), by ID with their display names
+ */
+export async function listStudents(db: SupabaseClient<Database>, teacherId: string, classId?: string): Promise<Map<string, string>> {
+  let query = db
+    .from('class_members')
+    .select('student_id, display_name, classes!inner(teacher_id)')
+    .eq('classes.teacher_id', teacherId);
+
+  if (classId) {
+    query = query.eq('class_id', classId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw databaseError('load students', error);
+  }
+  return new Map((data || []).map((member) => [member.student_id, member.display_name] as [string, string]));
+}
+
+/**
+ * Every student in any of the teacher's classes
+ */
+export async function listStudentIds(db: SupabaseClient<Database>, teacherId: string): Promise<string[]> {
+  return Array.from((await listStudents(db, teacherId)).keys());
+}
+
+async function getOwnedClass(db: SupabaseClient<Database>, teacherId: string, classId: string): Promise<ClassSummary | null> {
+  const { data, error } = await db
+    .from('classes')
+    .select('id, name, join_code, created_at, class_members(count)')
+    .eq('id', classId)
+    .eq('teacher_id', teacherId)
+    .maybeSingle();
+
+  if (error) {
+    throw databaseError('load class', error);
+  }
+  return data ? toClassSummary(data) : null;
+}
+
+/**
+ * Flattens a submission row and its joined session for the analytics helpers
+ */
+function toAnalyticsSubmission(row: SubmissionRow): AnalyticsSubmission {
+  return {
+    session_id: row.session_id,
+    user_id: row.user_id,
+    is_correct: row.is_correct,
+    time_taken_seconds: row.time_taken_seconds,
+    stars_earned: row.stars_earned,
+    created_at: row.created_at,
+    topic: row.math_problem_sessions?.topic ?? 'unknown',
+    difficulty: row.math_problem_sessions?.difficulty ?? 'unknown',
+    misconception: row.misconception,
+  };
+}
+
+async function loadActivity(db: SupabaseClient<Database>, studentIds: string[]) {
+  if (studentIds.length === 0) {
+    return { rows: [] as SubmissionRow[], reveals: [] as HintReveal[] };
+  }
+
+  const [rows, reveals] = await Promise.all([
+    fetchAllPages<SubmissionRow>((from, to) =>
+      db.from('math_problem_submissions')
+        .select(SUBMISSION_COLUMNS)
+        .in('user_id', studentIds)
+        .order('created_at', { ascending: false })
+        .range(from, to)
+        .overrideTypes<SubmissionRow[], { merge: false }>() // SUBMISSION_COLUMNS is built from parts, so it can't be inferred
+    ),
+    fetchAllPages<HintReveal>((from, to) =>
+      db.from('math_problem_hint_reveals')
+        .select('session_id, user_id')
+        .in('user_id', studentIds)
+        .order('created_at', { ascending: false })
+        .range(from, to)
+    ),
+  ]);
+
+  return { rows, reveals };
+}
+
+function toRosterStudent(member: MemberRow, submissions: AnalyticsSubmission[], reveals: HintReveal[]): RosterStudent {
+  const accuracy = summarizeAccuracy(submissions);
+  return {
+    studentId: member.student_id,
+    displayName: member.display_name,
+    joinedAt: member.joined_at,
+    attempts: accuracy.attempts,
+    accuracy: accuracy.accuracy,
+    averageTimeSeconds: accuracy.averageTimeSeconds,
+    totalStars: submissions.reduce((sum, submission) => sum + (submission.stars_earned || 0), 0),
+    hintsUsed: reveals.length,
+    // Submissions are loaded newest first
+    lastActiveAt: submissions[0]?.created_at ?? null,
+  };
+}
+
+async function loadMembers(db: SupabaseClient<Database>, classId: string, studentId?: string) {
+  let query = db
+    .from('class_members')
+    .select('student_id, display_name, joined_at')
+    .eq('class_id', classId)
+    .order('display_name', { ascending: true });
+
+  if (studentId) {
+    query = query.eq('student_id', studentId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw databaseError('load roster', error);
+  }
+  return data || [];
+}
+
+/**
+ * Roster and class-wide analytics
+ * @returns null if the class doesn't exist or belongs to another teacher
+ */
+export async function getClassReport(db: SupabaseClient<Database>, teacherId: string, classId: string): Promise<ClassReport | null> {
+  const classSummary = await getOwnedClass(db, teacherId, classId);
+  if (!classSummary) {
+    return null;
+  }
+
+  const members = await loadMembers(db, classId);
+  const { rows, reveals } = await loadActivity(db, members.map((member) => member.student_id));
+  const submissions = rows.map(toAnalyticsSubmission);
+
+  const roster = members.map((member) => toRosterStudent(
+    member,
+    submissions.filter((submission) => submission.user_id === member.student_id),
+    reveals.filter((reveal) => reveal.user_id === member.student_id)
+  ));
+
+  return {
+    class: classSummary,
+    roster,
+    analytics: analyzeSubmissions(submissions, reveals),
+  };
+}
+
+/**
+ * One student's analytics plus every submission with its AI feedback
+ * @returns null if the student isn't in this teacher's class
+ */
+export async function getStudentReport(
+  db: SupabaseClient<Database>,
+  teacherId: string,
+  classId: string,
+  studentId: string
+): Promise<StudentReport | null> {
+  const classSummary = await getOwnedClass(db, teacherId, classId);
+  if (!classSummary) {
+    return null;
+  }
+
+  const [member] = await loadMembers(db, classId, studentId);
+  if (!member) {
+    return null;
+  }
+
+  const { rows, reveals } = await loadActivity(db, [studentId]);
+  const submissions = rows.map(toAnalyticsSubmission);
+  const hintedSessions = new Set(reveals.map((reveal) => reveal.session_id));
+
+  return {
+    student: toRosterStudent(member, submissions, reveals),
+    analytics: analyzeSubmissions(submissions, reveals),
+    submissions: rows.map((row) => ({
+      id: row.id,
+      createdAt: row.created_at,
+      problemText: row.math_problem_sessions?.problem_text ?? '',
+      topic: row.math_problem_sessions?.topic ?? 'unknown',
+      difficulty: row.math_problem_sessions?.difficulty ?? 'unknown',
+      userAnswer: row.user_answer_text ?? String(row.user_answer),
+      correctAnswer: row.math_problem_sessions?.correct_answer_text ?? String(row.math_problem_sessions?.correct_answer ?? ''),
+      isCorrect: row.is_correct,
+      timeTakenSeconds: row.time_taken_seconds,
+      starsEarned: row.stars_earned,
+      hintUsed: hintedSessions.has(row.session_id),
+      attemptNumber: row.attempt_number,
+      misconception: row.misconception ? { kind: row.misconception, detail: row.misconception_detail ?? '' } : null,
+      feedbackText: row.feedback_text,
+    })),
+  };
+}
+
+/**
+ * Adds the signed-in student to the class with this join code
+ * @returns the class name, or null if the code doesn't match a class
+ */
+export async function joinClass(db: SupabaseClient<Database>, studentId: string, displayName: string, joinCode: string): Promise<string | null> {
+  // WHY a database function? Students can't read the classes table, so the
+  // lookup-and-insert runs with elevated rights inside Postgres
+  const { data, error } = await db.rpc('join_class', {
+    p_join_code: joinCode.trim().toUpperCase(),
+    p_student_id: studentId,
+    p_display_name: displayName,
+  });
+
+  if (error) {
+    throw databaseError('join class', error);
+  }
+  return (data as string | null) ?? null;
+}
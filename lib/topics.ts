@@ -0,0 +1,255 @@
+/**
+ * Topic Registry
+ *
+ * Every Primary 5 topic the app can set problems on, in one place: its
+ * display label, the instructions and examples given to the AI, and which
+ * answer formats it accepts.
+ *
+ * WHY ONE REGISTRY? The topic list used to be copied into the generate route,
+ * the prompts, the settings modal, the quiz page and the teacher dashboard.
+ * Adding a topic now means adding one entry here (plus offline problems in
+ * lib/ai/localProvider.ts and lib/ai/templateGenerator.ts).
+ *
+ * NOTE: This file is imported by client pages too, so it must stay free of
+ * server-only dependencies.
+ */
+
+import type { AnswerKind } from './math/answer';
+
+export const TOPIC_IDS = [
+  'addition',
+  'subtraction',
+  'multiplication',
+  'division',
+  'whole_numbers',
+  'fractions',
+  'decimals',
+  'percentage',
+  'ratio',
+  'average',
+  'area_perimeter',
+  'volume',
+  'angles',
+  'random',
+] as const;
+
+export type Topic = typeof TOPIC_IDS[number];
+
+// Syllabus strand - groups topics in pickers
+export type TopicGroup = 'operations' | 'numbers' | 'measurement' | 'geometry' | 'mixed';
+
+export interface TopicDefinition {
+  id: Topic;
+  label: string; // e.g. "Area & Perimeter"
+  shortLabel: string; // Fits on a settings chip, e.g. "Area"
+  icon: string;
+  group: TopicGroup;
+  promptInstructions: string; // Added to the generation prompt under TOPIC
+  examples: string[]; // Example problems for the prompt
+  answerFormats: AnswerKind[]; // Forms a student's answer may take (see checkAnswerFormat)
+}
+
+export const TOPIC_GROUP_LABELS: Record<TopicGroup, string> = {
+  operations: 'Four operations',
+  numbers: 'Numbers',
+  measurement: 'Measurement',
+  geometry: 'Geometry',
+  mixed: 'Mixed',
+};
+
+const ALL_FORMATS: AnswerKind[] = ['integer', 'decimal', 'fraction', 'mixed'];
+
+export const TOPICS: Record<Topic, TopicDefinition> = {
+  addition: {
+    id: 'addition',
+    label: 'Addition',
+    shortLabel: 'Addition',
+    icon: '➕',
+    group: 'operations',
+    promptInstructions: 'Use ONLY ADDITION operations (can be multi-step addition)',
+    examples: ['Tom scored 23 points in the first basketball game and 31 in the second. How many total points did he score?'],
+    answerFormats: ALL_FORMATS,
+  },
+  subtraction: {
+    id: 'subtraction',
+    label: 'Subtraction',
+    shortLabel: 'Subtraction',
+    icon: '➖',
+    group: 'operations',
+    promptInstructions: 'Use ONLY SUBTRACTION operations (can be multi-step subtraction)',
+    examples: ['A library had 420 books and lent out 268. How many books are still on the shelves?'],
+    answerFormats: ALL_FORMATS,
+  },
+  multiplication: {
+    id: 'multiplication',
+    label: 'Multiplication',
+    shortLabel: 'Multiply',
+    icon: '✖️',
+    group: 'operations',
+    promptInstructions: 'Use ONLY MULTIPLICATION operations (can include finding totals of groups)',
+    examples: ['A farmer planted 7 rows of tomato plants with 9 plants in each row. How many tomato plants did he plant?'],
+    answerFormats: ALL_FORMATS,
+  },
+  division: {
+    id: 'division',
+    label: 'Division',
+    shortLabel: 'Division',
+    icon: '➗',
+    group: 'operations',
+    promptInstructions: 'Use ONLY DIVISION operations (can include sharing or grouping problems)',
+    examples: ['A zoo has 48 penguins split equally into 6 enclosures. How many penguins are in each enclosure?'],
+    answerFormats: ALL_FORMATS,
+  },
+  whole_numbers: {
+    id: 'whole_numbers',
+    label: 'Whole Numbers to 10 Million',
+    shortLabel: 'Big Numbers',
+    icon: '🔢',
+    group: 'numbers',
+    promptInstructions: 'Use WHOLE NUMBERS up to 10 000 000: place value, or adding and subtracting large numbers. The answer must be a whole number no greater than 10 000 000',
+    examples: [
+      'A city had 2,345,670 residents. Over ten years, 1,208,455 more people moved in. How many residents does the city have now?',
+      'What is the value of the digit 7 in 3,748,512?',
+    ],
+    answerFormats: ['integer'],
+  },
+  fractions: {
+    id: 'fractions',
+    label: 'Fractions',
+    shortLabel: 'Fractions',
+    icon: '🍕',
+    group: 'numbers',
+    promptInstructions: 'Use FRACTIONS: fractions of a quantity, adding and subtracting fractions, or multiplying a fraction by a whole number. Give fraction answers in lowest terms',
+    examples: [
+      'Mei Ling had 36 stickers. She gave 3/4 of them to her friends. How many stickers did she give away?',
+      'Ravi ate 1/3 of a pizza and his sister ate 1/6 of it. What fraction of the pizza did they eat altogether?',
+    ],
+    answerFormats: ['integer', 'fraction', 'mixed'],
+  },
+  decimals: {
+    id: 'decimals',
+    label: 'Decimals',
+    shortLabel: 'Decimals',
+    icon: '🔟',
+    group: 'numbers',
+    promptInstructions: 'Use DECIMALS (up to 3 decimal places): money, lengths or masses, with the four operations. The answer must be a decimal or whole number, never a fraction',
+    examples: ['A pen costs $2.35. How much do 4 pens cost?', 'A ribbon 3.6 m long is cut into 4 equal pieces. How long is each piece?'],
+    answerFormats: ['integer', 'decimal'],
+  },
+  percentage: {
+    id: 'percentage',
+    label: 'Percentage',
+    shortLabel: 'Percentage',
+    icon: '💯',
+    group: 'numbers',
+    promptInstructions: 'Use PERCENTAGE: finding a percentage of a quantity, discounts, or expressing a part as a percentage. Give the answer as a number (put "%" in answer_unit when the answer is a percentage)',
+    examples: [
+      'A bicycle costs $240. It is sold at a 25% discount. How much is the discount?',
+      '18 of the 40 children in a club are girls. What percentage of the children are girls?',
+    ],
+    answerFormats: ['integer', 'decimal'],
+  },
+  ratio: {
+    id: 'ratio',
+    label: 'Ratio',
+    shortLabel: 'Ratio',
+    icon: '⚖️',
+    group: 'numbers',
+    promptInstructions: 'Use RATIO: sharing a quantity in a given ratio, or finding one quantity from a ratio and another quantity. Ask for ONE quantity as a number - never ask for the ratio itself',
+    examples: ['Aisha and Ben share 45 marbles in the ratio 2 : 3. How many marbles does Ben get?'],
+    answerFormats: ['integer'],
+  },
+  average: {
+    id: 'average',
+    label: 'Average',
+    shortLabel: 'Average',
+    icon: '📊',
+    group: 'numbers',
+    promptInstructions: 'Use AVERAGE: finding the average of a set of numbers, or finding a total or missing value from an average',
+    examples: ['Omar scored 78, 85 and 92 in three spelling tests. What was his average score?'],
+    answerFormats: ['integer', 'decimal'],
+  },
+  area_perimeter: {
+    id: 'area_perimeter',
+    label: 'Area & Perimeter',
+    shortLabel: 'Area',
+    icon: '📐',
+    group: 'measurement',
+    promptInstructions: 'Use AREA AND PERIMETER of rectangles, squares, triangles or shapes made of them. Put the unit (e.g. "cm", "cm²", "m²") in answer_unit',
+    examples: [
+      'A rectangular garden is 12 m long and 8 m wide. What is its area?',
+      'A square photo frame has sides of 15 cm. What is its perimeter?',
+    ],
+    answerFormats: ['integer', 'decimal'],
+  },
+  volume: {
+    id: 'volume',
+    label: 'Volume',
+    shortLabel: 'Volume',
+    icon: '🧊',
+    group: 'measurement',
+    promptInstructions: 'Use VOLUME of cubes and cuboids, or liquid volume in litres and millilitres. Put the unit (e.g. "cm³", "ℓ", "ml") in answer_unit',
+    examples: ['A fish tank is 40 cm long, 25 cm wide and 30 cm high. What is its volume?'],
+    answerFormats: ['integer', 'decimal'],
+  },
+  angles: {
+    id: 'angles',
+    label: 'Angles',
+    shortLabel: 'Angles',
+    icon: '📏',
+    group: 'geometry',
+    promptInstructions: 'Use ANGLES: angles on a straight line, angles at a point, and angles in triangles. Describe the figure in words. Put "°" in answer_unit',
+    examples: ['Two angles lie on a straight line. One of them is 65°. What is the other angle?'],
+    answerFormats: ['integer'],
+  },
+  random: {
+    id: 'random',
+    label: 'Random',
+    shortLabel: 'Random',
+    icon: '🎲',
+    group: 'mixed',
+    promptInstructions: 'Use ANY combination of operations (addition, subtraction, multiplication, division)',
+    examples: [],
+    answerFormats: ALL_FORMATS,
+  },
+};
+
+// Registry order - the order topics appear in pickers
+export const TOPIC_LIST: TopicDefinition[] = TOPIC_IDS.map((id) => TOPICS[id]);
+
+export function isTopic(value: unknown): value is Topic {
+  return typeof value === 'string' && (TOPIC_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Label for a stored topic - older rows and unknown values are shown as-is
+ */
+export function topicLabel(topic: string): string {
+  return isTopic(topic) ? TOPICS[topic].label : topic;
+}
+
+const FORMAT_EXAMPLES: Record<AnswerKind, string> = {
+  integer: 'a whole number',
+  decimal: 'a decimal',
+  fraction: 'a fraction',
+  mixed: 'a mixed number',
+};
+
+/**
+ * Whether an answer's form is allowed for the topic, e.g. decimals problems want 0.75, not 3/4
+ *
+ * @param answerKind - The form the student used
+ * @param correctKind - The form of the stored answer - always allowed, in case a problem needs it
+ * @returns null if allowed, otherwise a message for the student
+ */
+export function checkAnswerFormat(topic: string, answerKind: AnswerKind, correctKind: AnswerKind): string | null {
+  if (!isTopic(topic)) return null;
+
+  const allowed = TOPICS[topic].answerFormats;
+  if (allowed.includes(answerKind) || answerKind === correctKind) {
+    return null;
+  }
+  const forms = Array.from(new Set([...allowed, correctKind])).map((kind) => FORMAT_EXAMPLES[kind]);
+  const list = forms.length > 1 ? `${forms.slice(0, -1).join(', ')} or ${forms[forms.length - 1]}` : forms[0];
+  return `For ${TOPICS[topic].label.toLowerCase()} problems, give your answer as ${list}`;
+}
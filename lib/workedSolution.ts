@@ -0,0 +1,152 @@
+/**
+ * Worked Solutions
+ *
+ * Builds a problem's step-by-step solution: an ordered list of steps, each
+ * with what to do, the calculation and its result, then the final answer.
+ *
+ * WHY STRUCTURED? A paragraph of feedback mixes the method and the praise
+ * together. Separate steps can be shown as a numbered walkthrough and
+ * revealed one at a time, so a student can check their own working step by step.
+ *
+ * HOW IT WORKS:
+ * - Providers may send "solution_steps" (a description and expression each)
+ * - Every step's result is worked out locally - provider results are never trusted
+ * - Provider steps are only used if the last one reaches the stored answer
+ * - Without usable provider steps, steps are derived from solution_expression
+ *   with plain descriptions ("Multiply 45 by 6")
+ * - The solution is stored on the session when the problem is created
+ */
+
+import type { GeneratedSolutionStep } from './ai/types';
+import { parseAnswer, rationalToNumber } from './math/answer';
+import { AnswerPartWithKey, answerKeyFromSession, describeAnswers, formatWithUnit } from './math/answerSchema';
+import { evaluateExpression, formatStepNumber, listCalculationSteps, Operator } from './math/expression';
+
+export interface WorkedStep {
+  description: string; // e.g. "Find the cost of 45 pens"
+  expression: string; // e.g. "45 × 6"
+  result: string; // e.g. "270", or "$270" on the last step
+}
+
+export interface WorkedSolution {
+  steps: WorkedStep[];
+  answer: string; // Final answer line, e.g. "Quotient: 7, Remainder: 1"
+}
+
+// What a worked solution is built from - a generated problem or a stored session
+export interface WorkedSolutionSource {
+  solution_steps?: GeneratedSolutionStep[] | null;
+  solution_expression?: string | null;
+}
+
+// The math_problem_sessions columns needed to read (or rebuild) a worked solution
+export interface WorkedSolutionSession {
+  worked_solution?: WorkedSolution | null;
+  solution_expression?: string | null;
+  answer_parts?: AnswerPartWithKey[] | null;
+  correct_answer: number | string;
+  correct_answer_text?: string | null;
+}
+
+const MAX_STEPS = 8;
+
+// A step before its result is formatted
+type DraftStep = Omit<WorkedStep, 'result'> & { value: number };
+
+function describeOperation(operator: Operator, left: string, right: string): string {
+  switch (operator) {
+    case '+':
+      return `Add ${left} and ${right}`;
+    case '-':
+      return `Subtract ${right} from ${left}`;
+    case '*':
+      return `Multiply ${left} by ${right}`;
+    case '/':
+      return `Divide ${left} by ${right}`;
+  }
+}
+
+// × and ÷ read better than * and / in a walkthrough
+function formatExpression(expression: string): string {
+  return expression.replace(/\s*\*\s*/g, ' × ').replace(/\s*\/\s*/g, ' ÷ ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Steps as the provider wrote them, with results worked out here
+ * @returns null if any step is missing a description or its expression doesn't evaluate
+ */
+function fromProviderSteps(steps: GeneratedSolutionStep[]): DraftStep[] | null {
+  if (steps.length === 0 || steps.length > MAX_STEPS) return null;
+
+  const worked: DraftStep[] = [];
+  for (const step of steps) {
+    if (!step || typeof step.description !== 'string' || !step.description.trim() || typeof step.expression !== 'string') {
+      return null;
+    }
+    try {
+      worked.push({
+        description: step.description.trim(),
+        expression: formatExpression(step.expression),
+        value: evaluateExpression(step.expression),
+      });
+    } catch {
+      return null;
+    }
+  }
+  return worked;
+}
+
+function fromExpression(expression: string | null | undefined): DraftStep[] {
+  if (!expression) return [];
+  try {
+    return listCalculationSteps(expression).slice(0, MAX_STEPS).map((step) => ({
+      description: describeOperation(step.operator, formatStepNumber(step.left), formatStepNumber(step.right)),
+      expression: step.expression,
+      value: step.result,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Builds the worked solution for a problem
+ * @returns null if there's nothing to show (no usable steps or solution_expression)
+ */
+export function buildWorkedSolution(source: WorkedSolutionSource, parts: AnswerPartWithKey[]): WorkedSolution | null {
+  const [firstPart] = parts;
+  const firstAnswer = parseAnswer(firstPart.answer);
+  const reachesAnswer = (value: number) =>
+    firstAnswer.ok === true && Math.abs(rationalToNumber(firstAnswer.answer.value) - value) < 1e-9;
+
+  const providerSteps = Array.isArray(source.solution_steps) ? fromProviderSteps(source.solution_steps) : null;
+  const steps = providerSteps && reachesAnswer(providerSteps[providerSteps.length - 1].value)
+    ? providerSteps
+    : fromExpression(source.solution_expression);
+  if (steps.length === 0) {
+    return null;
+  }
+
+  // WHY use the answer key's wording for the last result? "3/4" and "$4.50" read
+  // better than 0.75 and 4.5 - but only when the working really does reach that answer
+  const last = steps.length - 1;
+
+  return {
+    steps: steps.map(({ value, ...step }, index) => ({
+      ...step,
+      result: index === last && reachesAnswer(value) ? formatWithUnit(firstPart.answer, firstPart.unit) : formatStepNumber(value),
+    })),
+    answer: describeAnswers(parts, Object.fromEntries(parts.map((part) => [part.name, part.answer]))),
+  };
+}
+
+/**
+ * The session's stored worked solution, or one rebuilt from solution_expression
+ * NOTE: Sessions created before worked solutions were stored have none saved
+ */
+export function workedSolutionFromSession(session: WorkedSolutionSession): WorkedSolution | null {
+  if (session.worked_solution && Array.isArray(session.worked_solution.steps)) {
+    return session.worked_solution;
+  }
+  return buildWorkedSolution(session, answerKeyFromSession(session));
+}
@@ -0,0 +1,263 @@
+/**
+ * Printable Worksheets
+ *
+ * Paper practice sets for teachers, built from the same generator students use.
+ *
+ * WHERE DO THE PROBLEMS COME FROM?
+ * - 'generate': fresh problems from the configured provider (answer-verified as usual)
+ * - 'bank': verified problems the teacher's students have already been given,
+ *   topped up with fresh ones if there aren't enough
+ *
+ * WHY SAVE A SNAPSHOT? The worksheet and its answer key are separate documents,
+ * printed at different times - both have to show exactly the same problems.
+ * Rendering lives in lib/worksheetHtml.ts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getProblemProvider } from './ai';
+import type { Difficulty, Topic } from './ai/types';
+import { generateVerifiedProblem } from './ai/verification';
+import type { Database, Json, Tables } from './database.types';
+import { AnswerPartWithKey, answerKeyFromSession, buildAnswerKey } from './math/answerSchema';
+import { databaseError } from './observability';
+import { DifficultyMix, planDifficulties } from './quiz';
+import type { SessionRecord } from './repositories';
+import { listStudentIds } from './teacher';
+
+export type WorksheetSource = 'generate' | 'bank';
+
+// How many recent sessions to pick bank problems from
+const BANK_CANDIDATE_LIMIT = 500;
+
+export interface WorksheetProblem {
+  number: number; // 1-based, as printed
+  problem_text: string;
+  difficulty: Difficulty;
+  topic: Topic;
+  answer_parts: AnswerPartWithKey[]; // Answers are only printed on the answer key
+  hint: string | null;
+  solution_expression: string | null; // Worked solution, e.g. "45 * 6 - 70"
+}
+
+export interface WorksheetOptions {
+  title: string;
+  className: string | null;
+  problemCount: number;
+  topic: Topic;
+  difficultyMix: DifficultyMix;
+  source: WorksheetSource;
+}
+
+export interface WorksheetSummary {
+  id: string;
+  title: string;
+  className: string | null;
+  topic: Topic;
+  difficultyMix: DifficultyMix;
+  source: WorksheetSource;
+  problemCount: number;
+  createdAt: string;
+}
+
+export interface Worksheet extends WorksheetSummary {
+  problems: WorksheetProblem[];
+}
+
+/**
+ * Generates one fresh problem for a worksheet
+ * NOTE: Not saved as a session - nobody answers it online
+ */
+async function generateWorksheetProblem(difficulty: Difficulty, topic: Topic): Promise<Omit<WorksheetProblem, 'number'>> {
+  const { problem } = await generateVerifiedProblem(getProblemProvider(), { difficulty, topic });
+  const answerKey = buildAnswerKey(problem);
+  if (!problem.problem_text || answerKey.ok === false) {
+    throw new Error('Invalid AI response format');
+  }
+
+  return {
+    problem_text: problem.problem_text,
+    difficulty,
+    topic,
+    answer_parts: answerKey.parts,
+    hint: problem.hint || null,
+    solution_expression: problem.solution_expression || null,
+  };
+}
+
+type BankRow = Pick<
+  SessionRecord,
+  'problem_text' | 'difficulty' | 'topic' | 'correct_answer' | 'correct_answer_text' | 'answer_parts' | 'hint' | 'solution_expression'
+>;
+
+/**
+ * Picks verified problems the teacher's students (or the teacher) have already seen,
+ * one for each planned difficulty where the bank has one
+ * WHY ONLY VERIFIED? A printed answer key can't be corrected later
+ * @returns the problems, and the planned difficulties left for fresh problems
+ */
+async function loadBankProblems(
+  db: SupabaseClient<Database>,
+  teacherId: string,
+  topic: Topic,
+  difficulties: Difficulty[]
+): Promise<{ problems: Array<Omit<WorksheetProblem, 'number'>>; unfilled: Difficulty[] }> {
+  const ownerIds = [teacherId, ...(await listStudentIds(db, teacherId))];
+
+  let query = db
+    .from('math_problem_sessions')
+    .select('problem_text, difficulty, topic, correct_answer, correct_answer_text, answer_parts, hint, solution_expression')
+    .in('user_id', ownerIds)
+    .eq('verification_status', 'verified')
+    .order('created_at', { ascending: false })
+    .limit(BANK_CANDIDATE_LIMIT);
+
+  if (topic !== 'random') {
+    query = query.eq('topic', topic);
+  }
+  query = query.in('difficulty', Array.from(new Set(difficulties)));
+
+  const { data, error } = await query;
+  if (error) {
+    throw databaseError('load problems', error);
+  }
+
+  // answer_parts is typed Json - SessionRecord has the shape actually stored
+  const rows = (data || []) as unknown as BankRow[];
+
+  // The same problem text can appear more than once (e.g. template problems)
+  const unique = new Map<string, BankRow>();
+  for (const row of rows) {
+    if (!unique.has(row.problem_text)) unique.set(row.problem_text, row);
+  }
+
+  // Shuffle, then take one of the planned difficulty for each slot
+  // WHY per slot? A 'mixed' worksheet keeps its easy/medium/hard split however
+  // lopsided the bank is - the slots it can't fill are generated
+  const candidates = Array.from(unique.values());
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+  }
+
+  const problems: Array<Omit<WorksheetProblem, 'number'>> = [];
+  const unfilled: Difficulty[] = [];
+  for (const difficulty of difficulties) {
+    const index = candidates.findIndex((row) => row.difficulty === difficulty);
+    if (index === -1) {
+      unfilled.push(difficulty);
+      continue;
+    }
+    const [row] = candidates.splice(index, 1);
+    problems.push({
+      problem_text: row.problem_text,
+      difficulty,
+      topic: row.topic as Topic,
+      answer_parts: answerKeyFromSession(row),
+      hint: row.hint,
+      solution_expression: row.solution_expression,
+    });
+  }
+  return { problems, unfilled };
+}
+
+type WorksheetRow = Tables<'worksheets'>;
+
+// Lists select problem_count, single worksheets select problems
+type SummaryRow = Pick<WorksheetRow, 'id' | 'title' | 'class_name' | 'topic' | 'difficulty_mix' | 'source' | 'created_at'> &
+  Partial<Pick<WorksheetRow, 'problems' | 'problem_count'>>;
+
+function toSummary(row: SummaryRow): WorksheetSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    className: row.class_name,
+    topic: row.topic as Topic,
+    difficultyMix: row.difficulty_mix as DifficultyMix,
+    source: row.source as WorksheetSource,
+    problemCount: Array.isArray(row.problems) ? row.problems.length : row.problem_count,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Builds and saves a worksheet
+ *
+ * HOW IT WORKS:
+ * 1. Plans each problem's difficulty, as quizzes do (see planDifficulties)
+ * 2. 'bank' worksheets fill as many planned slots as they can from past sessions
+ * 3. The remaining slots are generated fresh, one at a time
+ * 4. Problems are ordered easy to hard and numbered
+ * 5. The whole set is saved, so the answer key always matches the worksheet
+ */
+export async function createWorksheet(db: SupabaseClient<Database>, teacherId: string, options: WorksheetOptions): Promise<WorksheetSummary> {
+  const { title, className, problemCount, topic, difficultyMix, source } = options;
+
+  const plan = planDifficulties(problemCount, difficultyMix);
+  const { problems, unfilled } = source === 'bank'
+    ? await loadBankProblems(db, teacherId, topic, plan)
+    : { problems: [], unfilled: plan };
+
+  // WHY one at a time? Keeps us well inside the AI provider's rate limits
+  for (const difficulty of unfilled) {
+    problems.push(await generateWorksheetProblem(difficulty, topic));
+  }
+
+  const difficultyOrder: Record<string, number> = { easy: 0, medium: 1, hard: 2 };
+  const numbered: WorksheetProblem[] = problems
+    .sort((a, b) => (difficultyOrder[a.difficulty] ?? 1) - (difficultyOrder[b.difficulty] ?? 1))
+    .map((problem, index) => ({ number: index + 1, ...problem }));
+
+  const { data, error } = await db
+    .from('worksheets')
+    .insert({
+      teacher_id: teacherId,
+      title,
+      class_name: className,
+      topic,
+      difficulty_mix: difficultyMix,
+      source,
+      problems: numbered as unknown as Json,
+    })
+    .select('id, title, class_name, topic, difficulty_mix, source, problems, created_at')
+    .single();
+
+  if (error || !data) {
+    throw databaseError('save worksheet', error);
+  }
+  return toSummary(data);
+}
+
+/**
+ * The teacher's worksheets, newest first (without the problems)
+ */
+export async function listWorksheets(db: SupabaseClient<Database>, teacherId: string, limit = 50): Promise<WorksheetSummary[]> {
+  const { data, error } = await db
+    .from('worksheets')
+    .select('id, title, class_name, topic, difficulty_mix, source, problem_count, created_at')
+    .eq('teacher_id', teacherId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw databaseError('load worksheets', error);
+  }
+  return (data || []).map(toSummary);
+}
+
+/**
+ * A worksheet with its problems
+ * @returns null if it doesn't exist or belongs to another teacher
+ */
+export async function getWorksheet(db: SupabaseClient<Database>, teacherId: string, worksheetId: string): Promise<Worksheet | null> {
+  const { data, error } = await db
+    .from('worksheets')
+    .select('id, title, class_name, topic, difficulty_mix, source, problems, created_at')
+    .eq('id', worksheetId)
+    .eq('teacher_id', teacherId)
+    .maybeSingle();
+
+  if (error) {
+    throw databaseError('load worksheet', error);
+  }
+  return data ? { ...toSummary(data), problems: data.problems as unknown as WorksheetProblem[] } : null;
+}
@@ -0,0 +1,141 @@
+/**
+ * Worksheet Printing
+ *
+ * Renders a saved worksheet as a print-ready HTML page - either the student
+ * worksheet (problems and answer lines) or its answer key (answers, hints and
+ * worked solutions).
+ *
+ * WHY HTML, NOT PDF? Every browser can print HTML to paper or "Save as PDF",
+ * and it needs no PDF library on the server. The @page and print styles below
+ * make it come out as clean A4/Letter pages.
+ */
+
+import { AnswerPartWithKey, describeAnswers, formatWithUnit, isPrefixUnit } from './math/answerSchema';
+import type { Worksheet, WorksheetProblem } from './worksheet';
+
+export type WorksheetDocument = 'worksheet' | 'answer-key';
+
+export function isWorksheetDocument(value: unknown): value is WorksheetDocument {
+  return value === 'worksheet' || value === 'answer-key';
+}
+
+// WHY escape? Problem text comes from the AI and titles from the teacher
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Expressions are stored with programming operators - print them the way students write them
+function formatExpression(expression: string): string {
+  return expression.replace(/\*/g, '×').replace(/\//g, '÷');
+}
+
+const STYLES = `
+  @page { size: auto; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: "Segoe UI", Arial, sans-serif; color: #111; font-size: 12pt; line-height: 1.45; margin: 0 auto; max-width: 780px; padding: 24px; }
+  header { border-bottom: 2px solid #111; padding-bottom: 8px; margin-bottom: 16px; }
+  h1 { font-size: 20pt; margin: 0 0 4px; }
+  .meta { display: flex; justify-content: space-between; font-size: 10pt; color: #444; }
+  .fill { display: flex; gap: 24px; margin-top: 12px; }
+  .fill span { flex: 1; border-bottom: 1px solid #111; padding-bottom: 2px; }
+  ol { padding-left: 0; list-style: none; margin: 0; }
+  li { display: flex; gap: 10px; padding: 10px 0 14px; border-bottom: 1px dashed #bbb; page-break-inside: avoid; break-inside: avoid; }
+  .number { font-weight: 700; min-width: 28px; }
+  .body { flex: 1; }
+  .answer-line { display: flex; align-items: baseline; gap: 6px; margin-top: 14px; }
+  .answer-line .blank { display: inline-block; width: 160px; border-bottom: 1px solid #111; }
+  .working { height: 64px; }
+  .answer { font-weight: 700; margin-top: 6px; }
+  .label { font-size: 9pt; text-transform: uppercase; letter-spacing: 0.04em; color: #555; margin-right: 6px; }
+  .detail { margin-top: 4px; font-size: 11pt; }
+  .badge { font-size: 9pt; color: #555; text-transform: capitalize; }
+  .print-button { position: fixed; top: 16px; right: 16px; padding: 8px 14px; font-size: 11pt; cursor: pointer; }
+  @media print {
+    body { padding: 0; }
+    .print-button { display: none; }
+  }
+`;
+
+function renderAnswerLines(parts: AnswerPartWithKey[]): string {
+  return parts
+    .map((part) => {
+      const label = parts.length === 1 ? 'Answer' : part.label;
+      const prefix = isPrefixUnit(part.unit) ? escapeHtml(part.unit as string) : '';
+      const suffix = part.unit && !isPrefixUnit(part.unit) ? escapeHtml(part.unit) : '';
+      return `<div class="answer-line"><span>${escapeHtml(label)}:</span>${prefix}<span class="blank"></span>${suffix}</div>`;
+    })
+    .join('');
+}
+
+function renderWorksheetProblem(problem: WorksheetProblem): string {
+  return `
+    <li>
+      <span class="number">${problem.number}.</span>
+      <div class="body">
+        <div>${escapeHtml(problem.problem_text)}</div>
+        <div class="working"></div>
+        ${renderAnswerLines(problem.answer_parts)}
+      </div>
+    </li>`;
+}
+
+function renderAnswerKeyProblem(problem: WorksheetProblem): string {
+  const answers = describeAnswers(
+    problem.answer_parts,
+    Object.fromEntries(problem.answer_parts.map((part) => [part.name, part.answer]))
+  );
+  // e.g. "45 × 6 - 70 = 200 cm" (multi-part answers are listed above instead)
+  const [firstPart] = problem.answer_parts;
+  const solution = problem.solution_expression
+    ? formatExpression(problem.solution_expression) +
+      (problem.answer_parts.length === 1 ? ` = ${formatWithUnit(firstPart.answer, firstPart.unit)}` : '')
+    : null;
+
+  return `
+    <li>
+      <span class="number">${problem.number}.</span>
+      <div class="body">
+        <div>${escapeHtml(problem.problem_text)} <span class="badge">(${escapeHtml(problem.difficulty)})</span></div>
+        <div class="answer"><span class="label">Answer</span>${escapeHtml(answers)}</div>
+        ${solution ? `<div class="detail"><span class="label">Working</span>${escapeHtml(solution)}</div>` : ''}
+        ${problem.hint ? `<div class="detail"><span class="label">Hint</span>${escapeHtml(problem.hint)}</div>` : ''}
+      </div>
+    </li>`;
+}
+
+/**
+ * Renders the student worksheet or its answer key as a complete HTML page
+ */
+export function renderWorksheetHtml(worksheet: Worksheet, document: WorksheetDocument): string {
+  const isAnswerKey = document === 'answer-key';
+  const heading = isAnswerKey ? `${worksheet.title} - Answer Key` : worksheet.title;
+  const created = new Date(worksheet.createdAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(heading)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <button class="print-button" onclick="window.print()">🖨️ Print</button>
+  <header>
+    <h1>${escapeHtml(heading)}</h1>
+    <div class="meta">
+      <span>${worksheet.className ? escapeHtml(worksheet.className) : ''}</span>
+      <span>${worksheet.problems.length} problems · ${escapeHtml(created)}</span>
+    </div>
+    ${isAnswerKey ? '' : '<div class="fill"><span>Name:</span><span>Date:</span><span>Score: &nbsp;&nbsp;&nbsp;&nbsp;/ ' + worksheet.problems.length + '</span></div>'}
+  </header>
+  <ol>
+    ${worksheet.problems.map(isAnswerKey ? renderAnswerKeyProblem : renderWorksheetProblem).join('')}
+  </ol>
+</body>
+</html>`;
+}
@@ -0,0 +1,242 @@
+/**
+ * Database Type Generator
+ *
+ * Reads the tables and functions in a migrated database's "public" schema
+ * and writes them as the `Database` type in lib/database.types.ts.
+ *
+ * Usage:
+ *   DATABASE_URL=postgres://... npm run db:types
+ *
+ * WHY GENERATE? The hand-written type in lib/supabaseClient.ts drifted from
+ * the real schema - it listed columns database.sql never created. Generating
+ * from a database the migrations have just built keeps the two in step.
+ *
+ * HOW IT WORKS:
+ * - Columns come from information_schema.columns, foreign keys from
+ *   pg_constraint and functions from pg_proc
+ * - Row: every column, with `| null` for nullable ones
+ * - Insert / Update: columns with a default or that allow NULL are optional;
+ *   generated columns (e.g. worksheets.problem_count) can't be written, so they're left out
+ * - Relationships: each foreign key, so supabase-js can type embedded selects
+ *   such as quiz_items(math_problem_sessions(...))
+ * - Tables and columns are sorted by name so regenerating gives a stable diff
+ * - The output has the same shape as `supabase gen types typescript`
+ */
+
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { psql } from './migrate.mjs';
+
+const OUTPUT_FILE = join(fileURLToPath(new URL('..', import.meta.url)), 'lib', 'database.types.ts');
+
+const COLUMNS_QUERY = `
+SELECT COALESCE(json_agg(json_build_object(
+    'table', c.table_name,
+    'column', c.column_name,
+    'type', c.udt_name,
+    'nullable', c.is_nullable = 'YES',
+    'hasDefault', c.column_default IS NOT NULL OR c.is_identity = 'YES',
+    'generated', c.is_generated = 'ALWAYS'
+)), '[]')
+FROM information_schema.columns c
+JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+WHERE c.table_schema = 'public' AND t.table_type = 'BASE TABLE'`;
+
+// isOneToOne: the foreign key columns are also the table's primary key or a unique key
+const FOREIGN_KEYS_QUERY = `
+SELECT COALESCE(json_agg(json_build_object(
+    'table', src.relname,
+    'name', con.conname,
+    'columns', (SELECT array_agg(a.attname ORDER BY k.position)
+                FROM unnest(con.conkey) WITH ORDINALITY k(attnum, position)
+                JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum),
+    'isOneToOne', EXISTS (SELECT 1 FROM pg_constraint u
+                          WHERE u.conrelid = con.conrelid AND u.contype IN ('p', 'u')
+                            AND u.conkey::INT[] @> con.conkey::INT[] AND u.conkey::INT[] <@ con.conkey::INT[]),
+    'referencedRelation', ref.relname,
+    'referencedColumns', (SELECT array_agg(a.attname ORDER BY k.position)
+                          FROM unnest(con.confkey) WITH ORDINALITY k(attnum, position)
+                          JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum)
+)), '[]')
+FROM pg_constraint con
+JOIN pg_class src ON src.oid = con.conrelid
+JOIN pg_class ref ON ref.oid = con.confrelid
+JOIN pg_namespace n ON n.oid = src.relnamespace
+WHERE n.nspname = 'public' AND con.contype = 'f'`;
+
+const FUNCTIONS_QUERY = `
+SELECT COALESCE(json_agg(json_build_object(
+    'name', p.proname,
+    'argNames', COALESCE(p.proargnames, ARRAY[]::TEXT[]),
+    'argTypes', (SELECT COALESCE(array_agg(t.typname ORDER BY a.position), ARRAY[]::NAME[])
+                 FROM unnest(p.proargtypes::OID[]) WITH ORDINALITY a(oid, position)
+                 JOIN pg_type t ON t.oid = a.oid),
+    'returns', r.typname
+)), '[]')
+FROM pg_proc p
+JOIN pg_namespace n ON n.oid = p.pronamespace
+JOIN pg_type r ON r.oid = p.prorettype
+WHERE n.nspname = 'public' AND p.prokind = 'f'`;
+
+// Postgres type -> TypeScript type (array types are the element type with a leading _)
+const TYPE_MAP = {
+  bool: 'boolean',
+  int2: 'number',
+  int4: 'number',
+  int8: 'number',
+  float4: 'number',
+  float8: 'number',
+  numeric: 'number',
+  text: 'string',
+  varchar: 'string',
+  bpchar: 'string',
+  uuid: 'string',
+  date: 'string',
+  time: 'string',
+  timestamp: 'string',
+  timestamptz: 'string',
+  json: 'Json',
+  jsonb: 'Json',
+  void: 'undefined',
+};
+
+export function toTsType(pgType) {
+  if (pgType.startsWith('_')) {
+    return `${toTsType(pgType.slice(1))}[]`;
+  }
+  return TYPE_MAP[pgType] || 'unknown';
+}
+
+const byName = (a, b) => (a < b ? -1 : a > b ? 1 : 0);
+
+const quoted = (names) => `[${names.map((name) => `"${name}"`).join(', ')}]`;
+
+function renderRelationships(foreignKeys) {
+  if (foreignKeys.length === 0) {
+    return ['        Relationships: []'];
+  }
+  return [
+    '        Relationships: [',
+    ...[...foreignKeys].sort((a, b) => byName(a.name, b.name)).flatMap((fk) => [
+      '          {',
+      `            foreignKeyName: "${fk.name}"`,
+      `            columns: ${quoted(fk.columns)}`,
+      `            isOneToOne: ${fk.isOneToOne}`,
+      `            referencedRelation: "${fk.referencedRelation}"`,
+      `            referencedColumns: ${quoted(fk.referencedColumns)}`,
+      '          },',
+    ]),
+    '        ]',
+  ];
+}
+
+function renderTable(columns, foreignKeys) {
+  const sorted = [...columns].sort((a, b) => byName(a.column, b.column));
+  const row = sorted.map((c) => `          ${c.column}: ${toTsType(c.type)}${c.nullable ? ' | null' : ''}`);
+  const writable = sorted.filter((c) => !c.generated);
+  const insert = writable.map((c) => {
+    const optional = c.nullable || c.hasDefault ? '?' : '';
+    return `          ${c.column}${optional}: ${toTsType(c.type)}${c.nullable ? ' | null' : ''}`;
+  });
+  const update = writable.map((c) => `          ${c.column}?: ${toTsType(c.type)}${c.nullable ? ' | null' : ''}`);
+  return [
+    '        Row: {', ...row, '        }',
+    '        Insert: {', ...insert, '        }',
+    '        Update: {', ...update, '        }',
+    ...renderRelationships(foreignKeys),
+  ];
+}
+
+function renderFunction(fn) {
+  const args = fn.argNames.slice(0, fn.argTypes.length).map((name, index) => `${name}: ${toTsType(fn.argTypes[index])}`);
+  return [
+    `      ${fn.name}: {`,
+    `        Args: ${args.length > 0 ? `{ ${args.join('; ')} }` : 'Record<string, never>'}`,
+    `        Returns: ${toTsType(fn.returns)}`,
+    '      }',
+  ];
+}
+
+/**
+ * Builds lib/database.types.ts from the catalog query results
+ */
+export function renderDatabaseTypes(columns, foreignKeys, functions) {
+  const tables = new Map();
+  for (const column of columns) {
+    tables.set(column.table, [...(tables.get(column.table) || []), column]);
+  }
+  const tableNames = Array.from(tables.keys()).sort(byName);
+
+  return [
+    '// Generated by scripts/generate-db-types.mjs from the schema built by db/migrations',
+    '// Do not edit by hand - add a migration, apply it, then run `npm run db:types`',
+    '',
+    'export type Json =',
+    '  | string',
+    '  | number',
+    '  | boolean',
+    '  | null',
+    '  | { [key: string]: Json | undefined }',
+    '  | Json[]',
+    '',
+    'export type Database = {',
+    '  public: {',
+    '    Tables: {',
+    ...tableNames.flatMap((name) => [
+      `      ${name}: {`,
+      ...renderTable(tables.get(name), foreignKeys.filter((fk) => fk.table === name)),
+      '      }',
+    ]),
+    '    }',
+    '    Views: {',
+    '      [_ in never]: never',
+    '    }',
+    '    Functions: {',
+    ...[...functions].sort((a, b) => byName(a.name, b.name)).flatMap(renderFunction),
+    '    }',
+    '    Enums: {',
+    '      [_ in never]: never',
+    '    }',
+    '    CompositeTypes: {',
+    '      [_ in never]: never',
+    '    }',
+    '  }',
+    '}',
+    '',
+    "type PublicSchema = Database['public']",
+    '',
+    '// Row, Insert and Update types by table name, e.g. Tables<\'quizzes\'>',
+    "export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']",
+    "export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']",
+    "export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']",
+    '',
+  ].join('\n');
+}
+
+function main() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    console.error('DATABASE_URL is not set - point it at a database migrated with `npm run db:migrate`');
+    process.exit(1);
+  }
+
+  const read = (sql) => JSON.parse(psql(databaseUrl, ['--tuples-only', '--no-align', '-c', sql]));
+  const columns = read(COLUMNS_QUERY);
+  if (columns.length === 0) {
+    console.error('No tables found in the public schema - run `npm run db:migrate` first');
+    process.exit(1);
+  }
+
+  writeFileSync(OUTPUT_FILE, renderDatabaseTypes(columns, read(FOREIGN_KEYS_QUERY), read(FUNCTIONS_QUERY)));
+  console.log(`Wrote ${OUTPUT_FILE}`);
+}
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1]) {
+  try {
+    main();
+  } catch (error) {
+    console.error(`Type generation failed: ${error.message}`);
+    process.exit(1);
+  }
+}
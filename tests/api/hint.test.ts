@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from '../../app/api/math-problem/hint/route';
+import { jsonRequest, seedSession, testStore } from '../helpers';
+
+const reveal = (body: unknown) => POST(jsonRequest('/api/math-problem/hint', body));
+
+describe('POST /api/math-problem/hint', () => {
+  it('reveals the levels in order', async () => {
+    const session = await seedSession();
+
+    const first = await (await reveal({ sessionId: session.id })).json();
+    const second = await (await reveal({ sessionId: session.id })).json();
+
+    expect(first.revealed).toHaveLength(1);
+    expect(second.revealed).toHaveLength(2);
+    expect(testStore().hintReveals.map((row) => row.level)).toEqual([1, 2]);
+  });
+
+  it('records every reveal, including a level opened again', async () => {
+    const session = await seedSession();
+    await reveal({ sessionId: session.id, level: 1 });
+
+    const response = await reveal({ sessionId: session.id, level: 1 });
+
+    expect(response.status).toBe(200);
+    expect(testStore().hintReveals.map((row) => row.level)).toEqual([1, 1]);
+  });
+
+  it('refuses to skip ahead', async () => {
+    const session = await seedSession();
+
+    const response = await reveal({ sessionId: session.id, level: 2 });
+
+    expect(response.status).toBe(400);
+    expect(testStore().hintReveals).toHaveLength(0);
+  });
+});
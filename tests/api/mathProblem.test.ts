@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from 'vitest';
+import { POST } from '../../app/api/math-problem/route';
+import { MAX_GENERATION_ATTEMPTS } from '../../lib/ai/verification';
+import { jsonRequest, problemReply, queueAiReplies, sentPrompts, STUDENT_ID, testRepositories, testStore } from '../helpers';
+
+const generate = (body: unknown = { difficulty: 'medium', topic: 'multiplication' }, userId?: string | null) =>
+  POST(jsonRequest('/api/math-problem', body, userId));
+
+describe('POST /api/math-problem', () => {
+  it('saves the generated problem and returns it without the answer', async () => {
+    queueAiReplies(problemReply());
+
+    const response = await generate();
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.problem).toEqual({
+      problem_text: 'A pen costs $6. How much do 45 pens cost?',
+      difficulty: 'medium',
+      topic: 'multiplication',
+      adaptive: null,
+      has_hint: true,
+      answer_parts: [{ name: 'answer', label: 'Answer', unit: null }],
+      is_review: false,
+    });
+    expect(JSON.stringify(body)).not.toContain('270');
+    expect(JSON.stringify(body)).not.toContain('Multiply the number');
+
+    const session = await testRepositories().sessions.findForUser(STUDENT_ID, body.sessionId);
+    expect(session).toMatchObject({
+      correct_answer: 270,
+      correct_answer_text: '270',
+      hint: 'Multiply the number of pens by the price of one pen.',
+      difficulty: 'medium',
+      topic: 'multiplication',
+      verification_status: 'verified',
+      generation_attempts: 1,
+      template_id: null,
+    });
+  });
+
+  it('accepts JSON wrapped in a markdown code block', async () => {
+    queueAiReplies('```json\n' + problemReply() + '\n```');
+
+    const response = await generate();
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.problem.problem_text).toBe('A pen costs $6. How much do 45 pens cost?');
+    expect(testStore().sessions[0].template_id).toBeNull();
+  });
+
+  it('accepts JSON with text around it', async () => {
+    queueAiReplies(`Here is your problem:\n${problemReply()}\nGood luck!`);
+
+    const response = await generate();
+
+    expect(response.status).toBe(201);
+    expect(testStore().sessions[0].correct_answer).toBe(270);
+  });
+
+  it('falls back to a template problem when the reply is not valid JSON', async () => {
+    queueAiReplies('{"problem_text": "A pen costs $6.", "final_answer": 270,');
+
+    const response = await generate();
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    const [session] = testStore().sessions;
+    expect(session.id).toBe(body.sessionId);
+    expect(session.template_id).toEqual(expect.any(String));
+    expect(session.verification_status).toBe('verified');
+    expect(body.problem.problem_text).toBe(session.problem_text);
+  });
+
+  it.each([
+    ['null', 'null'],
+    ['a problem without final_answer', problemReply({ final_answer: undefined })],
+  ])('falls back to a template problem when the reply is %s', async (_, reply) => {
+    queueAiReplies(reply);
+
+    const response = await generate();
+
+    expect(response.status).toBe(201);
+    expect(testStore().sessions[0].template_id).toEqual(expect.any(String));
+  });
+
+  it('falls back to a template problem when Gemini fails', async () => {
+    queueAiReplies(new Error('Error fetching from https://example.test: [400 Bad Request] API key not valid'));
+
+    const response = await generate();
+
+    expect(response.status).toBe(201);
+    expect(sentPrompts()).toHaveLength(1);
+    expect(testStore().sessions[0]).toMatchObject({ topic: 'multiplication', template_id: expect.any(String) });
+  });
+
+  it('saves a null hint when the reply has none, but still offers hints', async () => {
+    queueAiReplies(problemReply({ hint: undefined }));
+
+    const response = await generate();
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.problem.has_hint).toBe(true);
+    expect(testStore().sessions[0].hint).toBeNull();
+  });
+
+  it('regenerates a problem whose answer does not match its expression', async () => {
+    queueAiReplies(problemReply({ final_answer: 260 }), problemReply());
+
+    const response = await generate();
+
+    expect(response.status).toBe(201);
+    expect(sentPrompts()).toHaveLength(2);
+    expect(testStore().sessions[0]).toMatchObject({ correct_answer: 270, generation_attempts: 2 });
+  });
+
+  it('uses a template problem after every attempt mismatches', async () => {
+    queueAiReplies(...Array(MAX_GENERATION_ATTEMPTS).fill(problemReply({ final_answer: 260 })));
+
+    const response = await generate();
+
+    expect(response.status).toBe(201);
+    expect(sentPrompts()).toHaveLength(MAX_GENERATION_ATTEMPTS);
+    expect(testStore().sessions[0].template_id).toEqual(expect.any(String));
+  });
+
+  it('defaults to medium difficulty and a random topic', async () => {
+    queueAiReplies(problemReply());
+
+    const response = await generate({});
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.problem).toMatchObject({ difficulty: 'medium', topic: 'random' });
+  });
+
+  it('rejects an unknown difficulty with a field error', async () => {
+    const response = await generate({ difficulty: 'impossible' });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.fieldErrors).toHaveProperty('difficulty');
+    expect(sentPrompts()).toHaveLength(0);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await generate('not json');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('requires a signed-in student', async () => {
+    const response = await generate(undefined, null);
+
+    expect(response.status).toBe(401);
+    expect(sentPrompts()).toHaveLength(0);
+  });
+
+  it('returns 500 when the session cannot be saved', async () => {
+    queueAiReplies(problemReply());
+    vi.spyOn(testRepositories().sessions, 'create').mockRejectedValue(new Error('Failed to save problem: connection refused'));
+
+    const response = await generate();
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body).toEqual({ error: 'Failed to generate problem', message: 'Failed to save problem: connection refused' });
+  });
+});
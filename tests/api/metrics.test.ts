@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from '../../app/api/metrics/route';
+import { POST as generate } from '../../app/api/math-problem/route';
+import { POST as submit } from '../../app/api/math-problem/submit/route';
+import { jsonRequest, problemReply, queueAiReplies, seedSession } from '../helpers';
+
+const readMetrics = async (headers: Record<string, string> = {}) => GET(new Request('http://localhost/api/metrics', { headers }));
+
+describe('GET /api/metrics', () => {
+  it('counts requests, AI calls and parse fallbacks', async () => {
+    queueAiReplies(problemReply(), 'not json at all');
+    await generate(jsonRequest('/api/math-problem', { topic: 'multiplication' }));
+    await generate(jsonRequest('/api/math-problem', { topic: 'multiplication' }));
+
+    const response = await readMetrics();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.counters).toMatchObject({
+      'http_requests_total{route="POST /api/math-problem",status="201"}': 2,
+      'ai_requests_total{operation="generate_problem",outcome="success",provider="gemini"}': 2,
+      'ai_parse_total{method="direct",provider="gemini"}': 1,
+      'ai_parse_total{method="template_fallback",provider="gemini"}': 1,
+    });
+    expect(body.timings['ai_request_duration_ms{operation="generate_problem",provider="gemini"}']).toMatchObject({ count: 2 });
+    expect(body.rates).toEqual({ aiParseFallback: 0.5, aiError: 0, verificationFallback: 0 });
+  });
+
+  it('counts validation failures', async () => {
+    const session = await seedSession();
+    await generate(jsonRequest('/api/math-problem', { difficulty: 'impossible' }));
+    await submit(jsonRequest('/api/math-problem/submit', { sessionId: session.id, userAnswer: 'two hundred' }));
+
+    const body = await (await readMetrics()).json();
+
+    expect(body.counters).toMatchObject({
+      'validation_failures_total{kind="request"}': 1,
+      'validation_failures_total{kind="answer_format"}': 1,
+      'http_requests_total{route="POST /api/math-problem",status="400"}': 1,
+    });
+  });
+
+  it('reports no rates before any AI call', async () => {
+    const body = await (await readMetrics()).json();
+
+    expect(body.rates).toEqual({ aiParseFallback: null, aiError: null, verificationFallback: null });
+  });
+
+  it('needs METRICS_TOKEN in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('METRICS_TOKEN', 'secret');
+
+    expect((await readMetrics()).status).toBe(404);
+    expect((await readMetrics({ authorization: 'Bearer wrong' })).status).toBe(404);
+    expect((await readMetrics({ authorization: 'Bearer secret' })).status).toBe(200);
+  });
+});
+
+describe('request IDs', () => {
+  it('returns a new request ID on every response', async () => {
+    queueAiReplies(problemReply(), problemReply());
+
+    const first = await generate(jsonRequest('/api/math-problem', {}));
+    const second = await generate(jsonRequest('/api/math-problem', { difficulty: 'impossible' }));
+
+    expect(first.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+    expect(first.headers.get('x-request-id')).not.toBe(second.headers.get('x-request-id'));
+  });
+
+  it("reuses the caller's request ID when it's safe", async () => {
+    const request = jsonRequest('/api/math-problem', { difficulty: 'impossible' });
+    request.headers.set('x-request-id', 'edge-1234.abc');
+
+    const response = await generate(request);
+
+    expect(response.headers.get('x-request-id')).toBe('edge-1234.abc');
+  });
+
+  it('replaces an unsafe request ID', async () => {
+    const request = jsonRequest('/api/math-problem', { difficulty: 'impossible' });
+    request.headers.set('x-request-id', 'bad id with spaces');
+
+    const response = await generate(request);
+
+    expect(response.headers.get('x-request-id')).not.toBe('bad id with spaces');
+  });
+});
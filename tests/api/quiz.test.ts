@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { GET as getQuiz } from '../../app/api/quiz/[quizId]/route';
+import { POST as submitQuiz } from '../../app/api/quiz/[quizId]/submit/route';
+import { GET as listQuizzes, POST as createQuiz } from '../../app/api/quiz/route';
+import { getRequest, jsonRequest, sentPrompts } from '../helpers';
+
+const QUIZ_ID = '44444444-4444-4444-8444-444444444444';
+
+// NOTE: Quizzes are only stored in Supabase - these run on the in-memory store
+describe('/api/quiz', () => {
+  it('returns 501 for every quiz route with the in-memory store', async () => {
+    const responses = [
+      await listQuizzes(getRequest('/api/quiz')),
+      await createQuiz(jsonRequest('/api/quiz', { questionCount: 3 })),
+      await getQuiz(getRequest(`/api/quiz/${QUIZ_ID}`), { params: { quizId: QUIZ_ID } }),
+      await submitQuiz(jsonRequest(`/api/quiz/${QUIZ_ID}/submit`, { answers: {} }), { params: { quizId: QUIZ_ID } }),
+    ];
+
+    for (const response of responses) {
+      expect(response.status).toBe(501);
+      expect((await response.json()).message).toContain('DATA_STORE=memory');
+    }
+    expect(sentPrompts()).toHaveLength(0);
+  });
+
+  it('rejects a quiz ID that is not a UUID', async () => {
+    const response = await getQuiz(getRequest('/api/quiz/abc'), { params: { quizId: 'abc' } });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).fieldErrors).toEqual({ quizId: 'quizId must be a valid ID' });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { POST as nextReview } from '../../app/api/review/next/route';
+import { GET } from '../../app/api/review/route';
+import { getRequest, jsonRequest, sentPrompts } from '../helpers';
+
+// NOTE: Review items are only stored in Supabase - these run on the in-memory store
+describe('GET /api/review', () => {
+  it('reports an empty queue with the in-memory store', async () => {
+    const response = await GET(getRequest('/api/review'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ dueCount: 0, nextDueAt: null });
+  });
+
+  it('requires a signed-in student', async () => {
+    const response = await GET(getRequest('/api/review', null));
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('POST /api/review/next', () => {
+  it('returns 501 with the in-memory store', async () => {
+    const response = await nextReview(jsonRequest('/api/review/next', {}));
+
+    expect(response.status).toBe(501);
+    expect(await response.json()).toMatchObject({ error: 'Not available offline' });
+    expect(sentPrompts()).toHaveLength(0);
+  });
+});
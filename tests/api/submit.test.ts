@@ -0,0 +1,263 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it, vi } from 'vitest';
+import { POST } from '../../app/api/math-problem/submit/route';
+import { DEFAULT_RESILIENCE_OPTIONS } from '../../lib/ai/resilience';
+import { isInOpenQuiz } from '../../lib/quiz';
+import { recordReviewOutcome } from '../../lib/review';
+import { HINT_STAR_CAP, RETRY_STAR_CAP, STAR_THRESHOLDS } from '../../lib/stars';
+import {
+  jsonRequest,
+  OTHER_STUDENT_ID,
+  queueAiReplies,
+  seedSession,
+  sentPrompts,
+  STUB_FEEDBACK,
+  STUDENT_ID,
+  testRepositories,
+  testStore,
+} from '../helpers';
+
+// WHY mocked? Review items live in Supabase only - this records what would be scheduled
+vi.mock('../../lib/review', () => ({ recordReviewOutcome: vi.fn(async () => '2026-01-02T00:00:00.000Z') }));
+// WHY mocked? Quizzes live in Supabase only too
+vi.mock('../../lib/quiz', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/quiz')>()),
+  isInOpenQuiz: vi.fn(async () => false),
+}));
+
+const submit = (body: unknown, userId?: string | null) => POST(jsonRequest('/api/math-problem/submit', body, userId));
+
+describe('POST /api/math-problem/submit', () => {
+  it('grades a correct answer, saves it and returns the AI feedback', async () => {
+    const session = await seedSession();
+    queueAiReplies('  Well done - 45 groups of $6 is $270!  ');
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270', timeTakenSeconds: 20 });
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({
+      isCorrect: true,
+      feedback: 'Well done - 45 groups of $6 is $270!',
+      starsEarned: 3,
+      partResults: [{ name: 'answer', isCorrect: true }],
+      attemptNumber: 1,
+      hintRevealed: false,
+      reviewScheduledAt: null,
+    });
+    expect(body.newAchievements.map((a: { key: string }) => a.key)).toContain('firstSteps');
+
+    const [submission] = testStore().submissions;
+    expect(submission).toMatchObject({
+      session_id: session.id,
+      user_id: STUDENT_ID,
+      user_answer_text: '$270', // Stored with the part's unit
+      is_correct: true,
+      feedback_text: 'Well done - 45 groups of $6 is $270!',
+      time_taken_seconds: 20,
+      stars_earned: 3,
+      attempt_number: 1,
+    });
+  });
+
+  it('accepts the answer with its unit', async () => {
+    const session = await seedSession();
+
+    const response = await submit({ sessionId: session.id, userAnswer: '$270', timeTakenSeconds: 20 });
+
+    expect((await response.json()).isCorrect).toBe(true);
+  });
+
+  it('earns no stars for a wrong answer', async () => {
+    const session = await seedSession();
+
+    const response = await submit({ sessionId: session.id, userAnswer: '260', timeTakenSeconds: 5 });
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({ isCorrect: false, starsEarned: 0, feedback: STUB_FEEDBACK });
+    expect(body.workedSolution).not.toBeNull();
+    expect(testStore().submissions[0].is_correct).toBe(false);
+  });
+
+  it('earns no stars for an untimed answer', async () => {
+    const session = await seedSession();
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270' });
+
+    expect((await response.json()).starsEarned).toBe(0);
+  });
+
+  describe('star thresholds', () => {
+    const cases = Object.entries(STAR_THRESHOLDS).flatMap(([difficulty, { three, two }]) => [
+      { difficulty, seconds: three - 1, stars: 3 },
+      { difficulty, seconds: three, stars: 2 },
+      { difficulty, seconds: two - 1, stars: 2 },
+      { difficulty, seconds: two, stars: 1 },
+    ]);
+
+    it.each(cases)('$difficulty answered in $seconds s earns $stars star(s)', async ({ difficulty, seconds, stars }) => {
+      const session = await seedSession({ difficulty });
+
+      const response = await submit({ sessionId: session.id, userAnswer: '270', timeTakenSeconds: seconds });
+
+      expect((await response.json()).starsEarned).toBe(stars);
+      expect(testStore().submissions[0].stars_earned).toBe(stars);
+    });
+  });
+
+  it('caps stars on a retry', async () => {
+    const session = await seedSession();
+    await submit({ sessionId: session.id, userAnswer: '260', timeTakenSeconds: 10 });
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270', timeTakenSeconds: 10 });
+    const body = await response.json();
+
+    expect(body).toMatchObject({ isCorrect: true, attemptNumber: 2, starsEarned: RETRY_STAR_CAP });
+  });
+
+  it('only schedules a review from the first attempt', async () => {
+    testRepositories().supabase = {} as SupabaseClient;
+    const session = await seedSession();
+
+    const first = await (await submit({ sessionId: session.id, userAnswer: '260', timeTakenSeconds: 10 })).json();
+    const retry = await (await submit({ sessionId: session.id, userAnswer: '270', timeTakenSeconds: 10 })).json();
+
+    expect(first.reviewScheduledAt).toBe('2026-01-02T00:00:00.000Z');
+    expect(retry.reviewScheduledAt).toBeNull();
+    expect(recordReviewOutcome).toHaveBeenCalledTimes(1);
+    expect(recordReviewOutcome).toHaveBeenCalledWith({}, STUDENT_ID, expect.objectContaining({ id: session.id }), {
+      isCorrect: false,
+      starsEarned: 0,
+      usedHint: false,
+    });
+  });
+
+  it('caps stars after the hint was revealed', async () => {
+    const session = await seedSession();
+    await testRepositories().progress.recordHintReveal({ user_id: STUDENT_ID, session_id: session.id, level: 1 });
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270', timeTakenSeconds: 10 });
+    const body = await response.json();
+
+    expect(body).toMatchObject({ isCorrect: true, hintRevealed: true, starsEarned: HINT_STAR_CAP });
+  });
+
+  it('returns 404 for a session that does not exist', async () => {
+    const response = await submit({ sessionId: '33333333-3333-4333-8333-333333333333', userAnswer: '270' });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Problem session not found' });
+    expect(testStore().submissions).toHaveLength(0);
+    expect(sentPrompts()).toHaveLength(0);
+  });
+
+  it("returns 404 for another student's session", async () => {
+    const session = await seedSession({ user_id: OTHER_STUDENT_ID });
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('refuses a question from a quiz that has not been submitted', async () => {
+    testRepositories().supabase = {} as SupabaseClient;
+    vi.mocked(isInOpenQuiz).mockResolvedValueOnce(true);
+    const session = await seedSession();
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270', timeTakenSeconds: 10 });
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(body).toEqual({ error: 'Problem is part of a quiz in progress', message: 'Submit the quiz to check your answers' });
+    expect(isInOpenQuiz).toHaveBeenCalledWith({}, STUDENT_ID, session.id);
+    expect(testStore().submissions).toHaveLength(0);
+    expect(sentPrompts()).toHaveLength(0);
+  });
+
+  it('still returns feedback when the submission cannot be saved', async () => {
+    const session = await seedSession();
+    vi.spyOn(testRepositories().submissions, 'create').mockRejectedValue(new Error('Failed to save submission: connection refused'));
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270', timeTakenSeconds: 10 });
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({ isCorrect: true, feedback: STUB_FEEDBACK, starsEarned: 3, newAchievements: [] });
+    expect(testStore().submissions).toHaveLength(0);
+  });
+
+  it('falls back to templated feedback when Gemini fails, and still saves the answer', async () => {
+    const session = await seedSession();
+    queueAiReplies(new Error('Error fetching from https://example.test: [403 Forbidden] API key not valid'));
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270', timeTakenSeconds: 10 });
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({ isCorrect: true, starsEarned: 3 });
+    expect(body.feedback).toContain('270 is exactly right');
+    expect(testStore().submissions).toHaveLength(1);
+    expect(testStore().submissions[0].feedback_text).toBe(body.feedback);
+  });
+
+  it('stops calling Gemini after repeated failures', async () => {
+    const { failureThreshold } = DEFAULT_RESILIENCE_OPTIONS;
+    const session = await seedSession();
+    queueAiReplies(...Array.from({ length: failureThreshold + 1 }, () => new Error('[403 Forbidden] API key not valid')));
+
+    for (let i = 0; i <= failureThreshold; i++) {
+      const response = await submit({ sessionId: session.id, userAnswer: '260' });
+      expect(response.status).toBe(201);
+    }
+
+    expect(sentPrompts()).toHaveLength(failureThreshold);
+    expect(testStore().submissions).toHaveLength(failureThreshold + 1);
+  });
+
+  it('returns 500 when the session lookup fails', async () => {
+    vi.spyOn(testRepositories().sessions, 'findForUser').mockRejectedValue(new Error('Failed to load problem: connection refused'));
+
+    const response = await submit({ sessionId: '33333333-3333-4333-8333-333333333333', userAnswer: '270' });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to submit answer', message: 'Failed to load problem: connection refused' });
+  });
+
+  it('rejects an answer in a form it cannot read', async () => {
+    const session = await seedSession();
+
+    const response = await submit({ sessionId: session.id, userAnswer: 'two hundred' });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({ error: 'Invalid answer format' });
+    expect(body.fieldErrors).toHaveProperty('answer');
+    expect(testStore().submissions).toHaveLength(0);
+  });
+
+  it('rejects a request without a session ID', async () => {
+    const response = await submit({ userAnswer: '270' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).fieldErrors).toHaveProperty('sessionId');
+  });
+
+  it('rejects a session ID that is not a UUID', async () => {
+    const findForUser = vi.spyOn(testRepositories().sessions, 'findForUser');
+
+    const response = await submit({ sessionId: 'abc', userAnswer: '270' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).fieldErrors).toEqual({ sessionId: 'sessionId must be a valid ID' });
+    expect(findForUser).not.toHaveBeenCalled();
+  });
+
+  it('requires a signed-in student', async () => {
+    const session = await seedSession();
+
+    const response = await submit({ sessionId: session.id, userAnswer: '270' }, null);
+
+    expect(response.status).toBe(401);
+  });
+});
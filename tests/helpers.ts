@@ -0,0 +1,140 @@
+/**
+ * Test Helpers
+ *
+ * Shared fixtures for the route tests: a stubbed Gemini SDK, an in-memory data
+ * store that's reset before every test, and request builders.
+ *
+ * HOW IT WORKS:
+ * - tests/setup.ts swaps @google/generative-ai for StubGenerativeAI and
+ *   getRepositories for testRepositories() (see vitest.config.ts setupFiles)
+ * - Each test queues the raw text Gemini should "reply" with - problem
+ *   generation reads the queue in order, and feedback falls back to
+ *   STUB_FEEDBACK once the queue is empty. A queued Error is thrown instead,
+ *   like a failed API call
+ * - Requests sign in through mock auth (x-mock-user-id header)
+ */
+
+// WHY not '../lib/repositories'? tests/setup.ts mocks that module using these helpers
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from '../lib/repositories/memoryRepositories';
+import type { NewSession, Repositories, SessionRecord } from '../lib/repositories/types';
+
+export const STUDENT_ID = '11111111-1111-4111-8111-111111111111';
+export const OTHER_STUDENT_ID = '22222222-2222-4222-8222-222222222222';
+
+export const STUB_FEEDBACK = 'Great effort! Check each step of your working.';
+
+// ---------- Stubbed Gemini SDK ----------
+
+const aiReplies: Array<string | Error> = [];
+const aiPrompts: string[] = [];
+
+/**
+ * Queues raw model replies, used in the order they're queued
+ */
+export function queueAiReplies(...replies: Array<string | Error>): void {
+  aiReplies.push(...replies);
+}
+
+// Every prompt the stub has been sent, oldest first
+export function sentPrompts(): string[] {
+  return [...aiPrompts];
+}
+
+export function resetAi(): void {
+  aiReplies.length = 0;
+  aiPrompts.length = 0;
+}
+
+// Same surface as the parts of GoogleGenerativeAI that lib/ai/geminiProvider uses
+export class StubGenerativeAI {
+  constructor(readonly apiKey: string) {}
+
+  getGenerativeModel() {
+    return {
+      async generateContent(prompt: string) {
+        aiPrompts.push(prompt);
+        const reply = aiReplies.length > 0 ? aiReplies.shift() : STUB_FEEDBACK;
+        if (reply instanceof Error) {
+          throw reply;
+        }
+        return { response: Promise.resolve({ text: () => reply }) };
+      },
+    };
+  }
+}
+
+/**
+ * A well-formed problem reply - 45 pens at $6 each
+ */
+export function problemReply(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    problem_text: 'A pen costs $6. How much do 45 pens cost?',
+    final_answer: 270,
+    hint: 'Multiply the number of pens by the price of one pen.',
+    solution_expression: '45 * 6',
+    ...overrides,
+  });
+}
+
+// ---------- In-memory data store ----------
+
+let store: MemoryStore = createMemoryStore();
+let repositories: Repositories = createMemoryRepositories(store);
+
+// WHY one object per test? Spies like vi.spyOn(testRepositories().submissions, 'create')
+// then reach the same repository the route handler uses
+export function testRepositories(): Repositories {
+  return repositories;
+}
+
+export function testStore(): MemoryStore {
+  return store;
+}
+
+export function resetRepositories(): void {
+  store = createMemoryStore();
+  repositories = createMemoryRepositories(store);
+}
+
+/**
+ * Saves a problem session for the student, as /api/math-problem would
+ */
+export async function seedSession(overrides: Partial<NewSession> = {}): Promise<SessionRecord> {
+  return repositories.sessions.create({
+    user_id: STUDENT_ID,
+    problem_text: 'A pen costs $6. How much do 45 pens cost?',
+    correct_answer: 270,
+    correct_answer_text: '270',
+    answer_parts: [{ name: 'answer', label: 'Answer', unit: '$', answer: '270' }],
+    hint: 'Multiply the number of pens by the price of one pen.',
+    difficulty: 'medium',
+    topic: 'multiplication',
+    solution_expression: '45 * 6',
+    verification_status: 'verified',
+    ...overrides,
+  });
+}
+
+// ---------- Requests ----------
+
+/**
+ * A JSON POST signed in as the given student (pass null for no user)
+ */
+export function jsonRequest(path: string, body: unknown, userId: string | null = STUDENT_ID): Request {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...signInHeaders(userId) },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+/**
+ * A GET signed in as the given student (pass null for no user)
+ */
+export function getRequest(path: string, userId: string | null = STUDENT_ID): Request {
+  return new Request(`http://localhost${path}`, { headers: signInHeaders(userId) });
+}
+
+function signInHeaders(userId: string | null): Record<string, string> {
+  return userId ? { 'x-mock-user-id': userId } : {};
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createGeminiProvider } from '../../../lib/ai/geminiProvider';
+import { getCounterTotal } from '../../../lib/observability';
+import { problemReply, queueAiReplies, sentPrompts } from '../../helpers';
+
+const request = { difficulty: 'medium' as const, topic: 'multiplication' as const };
+
+describe('createGeminiProvider', () => {
+  const provider = createGeminiProvider('test-key');
+
+  it.each([
+    ['plain JSON', problemReply()],
+    ['a ```json code block', '```json\n' + problemReply() + '\n```'],
+    ['a bare ``` code block', '```\n' + problemReply() + '\n```'],
+    ['JSON between other text', `Sure! Here it is:\n${problemReply()}\nEnjoy.`],
+  ])('reads a problem from %s', async (_, reply) => {
+    queueAiReplies(reply);
+
+    const problem = await provider.generateProblem(request);
+
+    expect(problem).toMatchObject({ problem_text: 'A pen costs $6. How much do 45 pens cost?', final_answer: 270, solution_expression: '45 * 6' });
+    expect(problem.template_id).toBeUndefined();
+  });
+
+  it.each([
+    ['truncated JSON', '{"problem_text": "A pen costs $6.", "final_answer": 27'],
+    ['no JSON at all', 'Sorry, I cannot help with that.'],
+    ['an empty reply', ''],
+    ['a JSON null', 'null'],
+    ['a JSON array', '[' + problemReply() + ']'],
+    ['a reply without final_answer', problemReply({ final_answer: undefined })],
+    ['a reply with an empty problem_text', problemReply({ problem_text: '  ' })],
+    ['a reply with an unreadable final_answer', '```json\n' + problemReply({ final_answer: 'lots' }) + '\n```'],
+  ])('falls back to a template problem for %s', async (_, reply) => {
+    queueAiReplies(reply);
+
+    const problem = await provider.generateProblem(request);
+
+    expect(problem.template_id).toEqual(expect.any(String));
+    expect(problem.problem_text).toEqual(expect.any(String));
+    expect(getCounterTotal('ai_parse_total', { method: 'template_fallback' })).toBe(1);
+  });
+
+  it('logs the reply length, not the reply, when falling back', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    queueAiReplies('Sorry, I cannot help with that.');
+
+    await provider.generateProblem(request);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    const line = String(warn.mock.calls[0][0]);
+    expect(line).toContain('"length":31');
+    expect(line).not.toContain('cannot help');
+  });
+
+  it('trims the feedback text', async () => {
+    queueAiReplies('\n  Nice work!  \n');
+
+    const feedback = await provider.generateFeedback({
+      problemText: 'A pen costs $6. How much do 45 pens cost?',
+      correctAnswer: '270',
+      userAnswer: '270',
+      isCorrect: true,
+    });
+
+    expect(feedback).toBe('Nice work!');
+    expect(sentPrompts()[0]).toContain('A pen costs $6.');
+  });
+});
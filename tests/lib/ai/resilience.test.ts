@@ -0,0 +1,203 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AiTimeoutError,
+  callWithRetries,
+  createCircuitBreaker,
+  createResilientProvider,
+  isRetryableError,
+  ResilienceClock,
+  withTimeout,
+} from '../../../lib/ai/resilience';
+import { ProblemProvider } from '../../../lib/ai/types';
+
+const labels = { provider: 'gemini', operation: 'feedback' };
+const unavailable = () => new Error('Error fetching from https://example.test: [503 Service Unavailable] overloaded');
+const badKey = () => new Error('Error fetching from https://example.test: [400 Bad Request] API key not valid');
+
+// Time only moves when a test says so, and backoff doesn't wait
+function fakeClock() {
+  let now = 0;
+  const sleeps: number[] = [];
+  const clock: ResilienceClock = {
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+  };
+  return { clock, sleeps, advance: (ms: number) => (now += ms) };
+}
+
+function stubProvider(name: string, feedback: () => Promise<string>): ProblemProvider {
+  return {
+    name,
+    generateProblem: async () => ({ problem_text: `${name} problem`, final_answer: 1 }),
+    generateFeedback: vi.fn(feedback),
+  };
+}
+
+describe('withTimeout', () => {
+  it('rejects a call that takes too long', async () => {
+    const never = new Promise<string>(() => {});
+
+    await expect(withTimeout(never, 10, 'gemini feedback')).rejects.toThrow(new AiTimeoutError('gemini feedback timed out after 10 ms'));
+  });
+
+  it('passes a quick result through', async () => {
+    await expect(withTimeout(Promise.resolve('ok'), 1000, 'gemini feedback')).resolves.toBe('ok');
+  });
+});
+
+describe('isRetryableError', () => {
+  it.each([
+    ['a timeout', new AiTimeoutError('timed out'), true],
+    ['a 503', unavailable(), true],
+    ['a 429', new Error('[429 Too Many Requests] quota'), true],
+    ['a network error', new TypeError('fetch failed'), true],
+    ['a 400', badKey(), false],
+    ['a 403', new Error('[403 Forbidden] denied'), false],
+  ])('%s → %s', (_, error, expected) => {
+    expect(isRetryableError(error)).toBe(expected);
+  });
+});
+
+describe('callWithRetries', () => {
+  const options = { timeoutMs: 50, maxRetries: 2, backoffMs: 100 };
+
+  it('retries transient failures with growing delays', async () => {
+    const { clock, sleeps } = fakeClock();
+    const call = vi.fn().mockRejectedValueOnce(unavailable()).mockRejectedValueOnce(unavailable()).mockResolvedValue('ok');
+
+    await expect(callWithRetries(call, options, labels, clock)).resolves.toBe('ok');
+
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(sleeps).toHaveLength(2);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(50);
+    expect(sleeps[0]).toBeLessThanOrEqual(100);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(100);
+    expect(sleeps[1]).toBeLessThanOrEqual(200);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const { clock } = fakeClock();
+    const call = vi.fn().mockRejectedValue(unavailable());
+
+    await expect(callWithRetries(call, options, labels, clock)).rejects.toThrow('503');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry an error that would happen again', async () => {
+    const { clock } = fakeClock();
+    const call = vi.fn().mockRejectedValue(badKey());
+
+    await expect(callWithRetries(call, options, labels, clock)).rejects.toThrow('400');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out each attempt', async () => {
+    const { clock } = fakeClock();
+    const call = vi.fn().mockReturnValueOnce(new Promise(() => {})).mockResolvedValue('ok');
+
+    await expect(callWithRetries(call, options, labels, clock)).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  const options = { failureThreshold: 3, cooldownMs: 1000 };
+
+  it('opens after enough failures in a row', () => {
+    const { clock } = fakeClock();
+    const breaker = createCircuitBreaker('gemini', options, clock);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('starts counting again after a success', () => {
+    const { clock } = fakeClock();
+    const breaker = createCircuitBreaker('gemini', options, clock);
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('lets one trial call through after the cooldown', () => {
+    const { clock, advance } = fakeClock();
+    const breaker = createCircuitBreaker('gemini', options, clock);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    advance(999);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    advance(1);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(false); // The trial is still running
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('reopens when the trial call fails', () => {
+    const { clock, advance } = fakeClock();
+    const breaker = createCircuitBreaker('gemini', options, clock);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    advance(1000);
+    breaker.tryAcquire();
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    advance(999);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+});
+
+describe('createResilientProvider', () => {
+  const options = { timeoutMs: 50, maxRetries: 1, backoffMs: 10, failureThreshold: 2, cooldownMs: 1000 };
+
+  it('answers from the fallback when the primary fails', async () => {
+    const { clock } = fakeClock();
+    const primary = stubProvider('gemini', () => Promise.reject(unavailable()));
+    const provider = createResilientProvider(primary, stubProvider('template', async () => 'templated'), options, clock);
+
+    const feedback = await provider.generateFeedback({ problemText: 'p', correctAnswer: '1', userAnswer: '2', isCorrect: false });
+
+    expect(feedback).toBe('templated');
+    expect(primary.generateFeedback).toHaveBeenCalledTimes(2); // First try and one retry
+  });
+
+  it('stops calling the primary while the breaker is open, then tries it again', async () => {
+    const { clock, advance } = fakeClock();
+    const primary = stubProvider('gemini', () => Promise.reject(badKey()));
+    const provider = createResilientProvider(primary, stubProvider('template', async () => 'templated'), options, clock);
+    const request = { problemText: 'p', correctAnswer: '1', userAnswer: '1', isCorrect: true };
+
+    await provider.generateFeedback(request);
+    await provider.generateFeedback(request);
+    await provider.generateFeedback(request);
+    expect(primary.generateFeedback).toHaveBeenCalledTimes(2);
+
+    vi.mocked(primary.generateFeedback).mockResolvedValue('from gemini');
+    advance(1000);
+    await expect(provider.generateFeedback(request)).resolves.toBe('from gemini');
+    await expect(provider.generateFeedback(request)).resolves.toBe('from gemini');
+    expect(primary.generateFeedback).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps the primary provider name', () => {
+    const provider = createResilientProvider(stubProvider('gemini', async () => ''), stubProvider('template', async () => ''));
+
+    expect(provider.name).toBe('gemini');
+  });
+});
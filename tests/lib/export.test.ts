@@ -0,0 +1,73 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import type { Database } from '../../lib/database.types';
+import { ExportFilters, ExportRow, readExportRows } from '../../lib/export';
+
+const NO_FILTERS: ExportFilters = { from: null, to: null, topic: null, difficulty: null, studentId: null, classId: null };
+
+/**
+ * A client answering from in-memory tables, honouring .in() and .range() like
+ * PostgREST (at most 1000 rows per request). Records the IDs of every .in() filter
+ */
+function fakeClient(tables: Record<string, Array<Record<string, unknown>>>) {
+  const inFilters: string[][] = [];
+  const db = {
+    from(table: string) {
+      let rows = tables[table];
+      let range: [number, number] = [0, 999];
+      const builder = {
+        select: () => builder,
+        gte: () => builder,
+        lt: () => builder,
+        eq: () => builder,
+        order: () => builder,
+        overrideTypes: () => builder,
+        in(column: string, values: string[]) {
+          inFilters.push(values);
+          rows = rows.filter((row) => values.includes(row[column] as string));
+          return builder;
+        },
+        range(from: number, to: number) {
+          range = [from, Math.min(to, from + 999)];
+          return builder;
+        },
+        then: (resolve: (value: unknown) => void) => resolve({ data: rows.slice(range[0], range[1] + 1), error: null }),
+      };
+      return builder;
+    },
+  };
+  return { db: db as unknown as SupabaseClient<Database>, inFilters };
+}
+
+async function readAll(rows: AsyncGenerator<ExportRow>): Promise<ExportRow[]> {
+  const all: ExportRow[] = [];
+  for await (const row of rows) all.push(row);
+  return all;
+}
+
+describe('readExportRows', () => {
+  it('looks up hint reveals in small batches and sees every one', async () => {
+    const sessionIds = Array.from({ length: 450 }, (_, index) => `session-${index}`);
+    const { db, inFilters } = fakeClient({
+      math_problem_submissions: sessionIds.map((sessionId, index) => ({
+        id: `submission-${index}`,
+        session_id: sessionId,
+        user_id: 'student',
+        math_problem_sessions: null,
+      })),
+      // Three hint levels on every other session - more than 1000 reveal rows in all
+      math_problem_hint_reveals: sessionIds
+        .filter((_, index) => index % 2 === 0)
+        .flatMap((sessionId) => [1, 2, 3].map((level) => ({ id: `${sessionId}-${level}`, session_id: sessionId }))),
+    });
+
+    const rows = await readAll(readExportRows(db, new Map([['student', 'Ada']]), NO_FILTERS));
+
+    expect(rows).toHaveLength(450);
+    expect(rows.filter((row) => row.hint_used)).toHaveLength(225);
+    expect(rows[448]).toMatchObject({ session_id: 'session-448', hint_used: true });
+    expect(rows[449]).toMatchObject({ session_id: 'session-449', hint_used: false });
+    // The first filter is the student IDs; the rest are reveal lookups
+    expect(inFilters.slice(1).every((ids) => ids.length <= 100)).toBe(true);
+  });
+});
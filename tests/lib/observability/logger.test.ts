@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLogger, logger } from '../../../lib/observability/logger';
+import { runWithRequestContext } from '../../../lib/observability/requestContext';
+
+// Parsed JSON lines written to the given console method
+function captureLines(method: 'log' | 'warn' | 'error') {
+  const spy = vi.spyOn(console, method).mockImplementation(() => {});
+  return () => spy.mock.calls.map(([line]) => JSON.parse(line as string));
+}
+
+describe('logger', () => {
+  it('writes one JSON line with the level, message and fields', () => {
+    const lines = captureLines('log');
+
+    logger.info('Problem generated', { topic: 'fractions', attempts: 1 });
+
+    expect(lines()).toEqual([{ time: expect.any(String), level: 'info', msg: 'Problem generated', topic: 'fractions', attempts: 1 }]);
+  });
+
+  it('adds the request ID and route inside a request', () => {
+    const lines = captureLines('warn');
+
+    runWithRequestContext({ requestId: 'req-1', route: 'POST /api/math-problem' }, () => {
+      logger.child({ provider: 'gemini' }).warn('Slow reply');
+    });
+
+    expect(lines()[0]).toMatchObject({ requestId: 'req-1', route: 'POST /api/math-problem', provider: 'gemini', msg: 'Slow reply' });
+  });
+
+  it('writes errors with their message and stack', () => {
+    const lines = captureLines('error');
+
+    logger.error('Error saving submission', { error: new Error('connection refused') });
+
+    expect(lines()[0].error).toEqual({ name: 'Error', message: 'connection refused', stack: expect.stringContaining('connection refused') });
+  });
+
+  it('skips levels below LOG_LEVEL', () => {
+    vi.stubEnv('LOG_LEVEL', 'warn');
+    const info = captureLines('log');
+    const warn = captureLines('warn');
+
+    createLogger().info('hidden');
+    createLogger().debug('hidden');
+    createLogger().warn('shown');
+
+    expect(info()).toHaveLength(0);
+    expect(warn()).toHaveLength(1);
+  });
+
+  it('still writes a line when the fields cannot be serialised', () => {
+    const lines = captureLines('log');
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    logger.info('Circular', { circular });
+
+    expect(lines()[0]).toMatchObject({ level: 'info', msg: 'Circular', logError: 'Fields could not be serialised' });
+  });
+});
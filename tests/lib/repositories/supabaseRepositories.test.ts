@@ -0,0 +1,40 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import type { Database } from '../../../lib/database.types';
+import { createSupabaseRepositories } from '../../../lib/repositories';
+
+/**
+ * A client whose every query answers from rows, honouring .range() like PostgREST
+ * (at most 1000 rows per request)
+ */
+function pagedClient(rows: unknown[]) {
+  const ranges: Array<[number, number]> = [];
+  const query = (range: [number, number] = [0, rows.length - 1]) => {
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      order: () => builder,
+      range: (from: number, to: number) => {
+        ranges.push([from, to]);
+        return query([from, to]);
+      },
+      then: (resolve: (value: unknown) => void) =>
+        resolve({ data: rows.slice(range[0], Math.min(range[1] + 1, range[0] + 1000)), error: null }),
+    };
+    return builder;
+  };
+  return { db: { from: () => query() } as unknown as SupabaseClient<Database>, ranges };
+}
+
+describe('Supabase submissions repository', () => {
+  it('reads every outcome, not just the first 1000', async () => {
+    const rows = Array.from({ length: 2500 }, (_, index) => ({ is_correct: true, stars_earned: 3, created_at: `t${index}` }));
+    const { db, ranges } = pagedClient(rows);
+
+    const outcomes = await createSupabaseRepositories(db).submissions.listOutcomes('user');
+
+    expect(outcomes).toHaveLength(2500);
+    expect(outcomes[2499].created_at).toBe('t2499');
+    expect(ranges).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+});
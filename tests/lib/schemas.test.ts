@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { quizParams, readRouteParams, submitQuizRequest, uuid, validate } from '../../lib/schemas';
+
+const QUIZ_ID = '44444444-4444-4444-8444-444444444444';
+
+describe('uuid', () => {
+  it('accepts a UUID, lower-cased', () => {
+    expect(uuid(` ${QUIZ_ID.toUpperCase()} `, 'quizId')).toEqual({ ok: true, value: QUIZ_ID });
+  });
+
+  it.each([['abc'], [''], [42], [null], [`${QUIZ_ID}0`]])('rejects %j', (value) => {
+    expect(uuid(value, 'quizId')).toEqual({ ok: false, errors: { quizId: 'quizId must be a valid ID' } });
+  });
+});
+
+describe('submitQuizRequest', () => {
+  it('rejects answers keyed by something other than a session ID', () => {
+    const result = validate(submitQuizRequest, { answers: { abc: { answer: '3' } } });
+
+    expect(result).toEqual({ ok: false, errors: { 'answers.abc': 'answers.abc must be a valid ID' } });
+  });
+
+  it('keeps answers keyed by session ID', () => {
+    const result = validate(submitQuizRequest, { answers: { [QUIZ_ID]: { answer: '3' } }, questionTimes: { [QUIZ_ID]: 12 } });
+
+    expect(result).toMatchObject({ ok: true, value: { answers: { [QUIZ_ID]: { answer: '3' } }, questionTimes: { [QUIZ_ID]: 12 } } });
+  });
+});
+
+describe('readRouteParams', () => {
+  it('returns the checked params', () => {
+    expect(readRouteParams({ quizId: QUIZ_ID }, quizParams)).toEqual({ ok: true, params: { quizId: QUIZ_ID } });
+  });
+
+  it('returns a 400 with a field error for an ID that is not a UUID', async () => {
+    const result = readRouteParams({ quizId: 'abc' }, quizParams);
+
+    expect(result.ok).toBe(false);
+    const { response } = result as { ok: false; response: Response };
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Invalid request', fieldErrors: { quizId: 'quizId must be a valid ID' } });
+  });
+});
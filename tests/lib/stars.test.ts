@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStars, HINT_STAR_CAP, RETRY_STAR_CAP, STAR_THRESHOLDS } from '../../lib/stars';
+
+describe('calculateStars', () => {
+  it('gives 3, 2 or 1 stars by time against the difficulty thresholds', () => {
+    const { three, two } = STAR_THRESHOLDS.hard;
+
+    expect(calculateStars('hard', true, three - 0.5)).toBe(3);
+    expect(calculateStars('hard', true, three)).toBe(2);
+    expect(calculateStars('hard', true, two)).toBe(1);
+    expect(calculateStars('hard', true, 3600)).toBe(1);
+  });
+
+  it('gives no stars for a wrong or untimed answer', () => {
+    expect(calculateStars('easy', false, 1)).toBe(0);
+    expect(calculateStars('easy', true, undefined)).toBe(0);
+    expect(calculateStars('easy', true, null)).toBe(0);
+  });
+
+  it('uses the medium thresholds for an unknown difficulty', () => {
+    expect(calculateStars('legendary', true, STAR_THRESHOLDS.medium.three - 1)).toBe(3);
+    expect(calculateStars('legendary', true, STAR_THRESHOLDS.medium.three)).toBe(2);
+  });
+
+  it('caps hint-assisted answers and retries', () => {
+    expect(calculateStars('easy', true, 1, { hintRevealed: true })).toBe(HINT_STAR_CAP);
+    expect(calculateStars('easy', true, 1, { attemptNumber: 2 })).toBe(RETRY_STAR_CAP);
+    expect(calculateStars('easy', true, 1, { attemptNumber: 3, hintRevealed: true })).toBe(RETRY_STAR_CAP);
+  });
+
+  it('never raises a slow answer to the cap', () => {
+    expect(calculateStars('easy', true, 3600, { hintRevealed: true })).toBe(1);
+  });
+});
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import type { Database } from '../../lib/database.types';
+import { createWorksheet, WorksheetProblem } from '../../lib/worksheet';
+
+const TEACHER_ID = 'teacher';
+
+/**
+ * A client answering from in-memory tables: .eq() and .in() filter on the
+ * table's own columns, and an insert is echoed back. Keeps what was inserted
+ */
+function fakeClient(tables: Record<string, Array<Record<string, unknown>>>) {
+  const inserted: Array<Record<string, unknown>> = [];
+  const db = {
+    from(table: string) {
+      let rows = tables[table] || [];
+      const builder = {
+        select: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        single: () => builder,
+        eq(column: string, value: unknown) {
+          rows = rows.filter((row) => !(column in row) || row[column] === value);
+          return builder;
+        },
+        in(column: string, values: unknown[]) {
+          rows = rows.filter((row) => values.includes(row[column]));
+          return builder;
+        },
+        insert(values: Record<string, unknown>) {
+          inserted.push(values);
+          rows = [{ id: 'worksheet', created_at: '2026-01-01T00:00:00.000Z', ...values }];
+          return builder;
+        },
+        then: (resolve: (value: unknown) => void) =>
+          resolve({ data: table === 'worksheets' ? rows[0] : rows, error: null }),
+      };
+      return builder;
+    },
+  };
+  return { db: db as unknown as SupabaseClient<Database>, inserted };
+}
+
+const bankProblem = (index: number, difficulty: string) => ({
+  user_id: TEACHER_ID,
+  verification_status: 'verified',
+  problem_text: `Bank problem ${index}`,
+  difficulty,
+  topic: 'multiplication',
+  correct_answer: 6,
+  correct_answer_text: '6',
+  answer_parts: null,
+  hint: null,
+  solution_expression: '2 * 3',
+});
+
+describe('createWorksheet', () => {
+  it('keeps the mixed difficulty plan when the bank only has hard problems', async () => {
+    const { db, inserted } = fakeClient({
+      math_problem_sessions: Array.from({ length: 6 }, (_, index) => bankProblem(index, 'hard')),
+    });
+
+    await createWorksheet(db, TEACHER_ID, {
+      title: 'Practice',
+      className: null,
+      problemCount: 6,
+      topic: 'multiplication',
+      difficultyMix: 'mixed',
+      source: 'bank',
+    });
+
+    const problems = inserted[0].problems as WorksheetProblem[];
+    expect(problems.map((problem) => problem.difficulty)).toEqual(['easy', 'easy', 'medium', 'medium', 'hard', 'hard']);
+    expect(problems.filter((problem) => problem.problem_text.startsWith('Bank problem'))).toHaveLength(2);
+  });
+});
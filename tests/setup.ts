@@ -0,0 +1,35 @@
+/**
+ * Test Setup
+ *
+ * Runs before every test file: replaces the Gemini SDK and the data store with
+ * the stubs in tests/helpers.ts, and resets both (plus the metrics and the
+ * cached provider's circuit breaker) before each test.
+ */
+
+import { afterEach, beforeEach, vi } from 'vitest';
+import { resetProblemProvider } from '../lib/ai';
+import { resetMetrics } from '../lib/observability/metrics';
+import { resetAi, resetRepositories } from './helpers';
+
+// WHY dynamic imports? vi.mock is hoisted above the imports in this file
+vi.mock('@google/generative-ai', async () => {
+  const { StubGenerativeAI } = await import('./helpers');
+  return { GoogleGenerativeAI: StubGenerativeAI };
+});
+
+vi.mock('../lib/repositories', async (importOriginal) => {
+  const { testRepositories } = await import('./helpers');
+  return { ...(await importOriginal<typeof import('../lib/repositories')>()), getRepositories: () => testRepositories() };
+});
+
+beforeEach(() => {
+  resetAi();
+  resetRepositories();
+  resetMetrics();
+  resetProblemProvider();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
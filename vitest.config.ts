@@ -0,0 +1,21 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run fully offline: mock auth, the in-memory data store and a stubbed Gemini client
+// (see tests/helpers.ts) - no Supabase project or API key needed
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // Route handlers log every step - only show the logs of failing tests
+    silent: 'passed-only',
+    env: {
+      NEXT_PUBLIC_AUTH_MODE: 'mock',
+      DATA_STORE: 'memory',
+      AI_PROVIDER: 'gemini',
+      GOOGLE_API_KEY: 'test-key',
+      NEXT_PUBLIC_SUPABASE_URL: '',
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: '',
+    },
+  },
+});